@@ -0,0 +1,32 @@
+/**
+ * API Key Admin API - Revoke one API key
+ * DELETE /api/admin/keys/{keyId} - Revoke the key; it stays listed with revokedAt set
+ */
+
+import { NextRequest } from "next/server";
+import { revokeApiKey } from "@/lib/api-keys";
+import { createApiResponder, errorDetails } from "@/lib/api-response";
+import { withApiAuth } from "@/lib/api-auth";
+import { logger } from "@/lib/logger";
+
+interface RouteParams {
+  params: {
+    keyId: string;
+  };
+}
+
+export const DELETE = withApiAuth(async (req: NextRequest, { params }: RouteParams) => {
+  const api = createApiResponder(req);
+  try {
+    const key = revokeApiKey(params.keyId);
+    if (!key) {
+      return api.error('KEY_NOT_FOUND', `API key '${params.keyId}' not found`);
+    }
+
+    return api.ok(key);
+
+  } catch (error) {
+    logger.error(`API Key Revoke Error for ${params.keyId}`, { requestId: api.requestId, error });
+    return api.error('PROCESSING_ERROR', "Failed to revoke API key", errorDetails(error));
+  }
+});
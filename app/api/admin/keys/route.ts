@@ -0,0 +1,43 @@
+/**
+ * API Keys Admin API - Mint and list API keys
+ * GET /api/admin/keys - List keys (hashes are never returned)
+ * POST /api/admin/keys - Mint a key: { name, permissions, agents?, categories?, expiresAt? }
+ * The minted key is only in the POST response; store it before closing it.
+ */
+
+import { NextRequest } from "next/server";
+import { listApiKeys, mintApiKey, MintApiKeyRequest } from "@/lib/api-keys";
+import { createApiResponder, errorDetails } from "@/lib/api-response";
+import { withApiAuth } from "@/lib/api-auth";
+import { logger } from "@/lib/logger";
+
+export const GET = withApiAuth(async (req: NextRequest) => {
+  const api = createApiResponder(req);
+  try {
+    const keys = listApiKeys();
+    return api.ok({ keys, total: keys.length });
+
+  } catch (error) {
+    logger.error("API Keys List Error", { requestId: api.requestId, error });
+    return api.error('PROCESSING_ERROR', "Failed to list API keys", errorDetails(error));
+  }
+});
+
+export const POST = withApiAuth(async (req: NextRequest) => {
+  const api = createApiResponder(req);
+  try {
+    const parsed = MintApiKeyRequest.safeParse(await req.json().catch(() => null));
+    if (!parsed.success) {
+      return api.error('VALIDATION_ERROR', "Invalid API key request", {
+        issues: parsed.error.issues.map(issue => ({ path: issue.path.join('.'), message: issue.message }))
+      });
+    }
+
+    const { key, record } = mintApiKey(parsed.data);
+    return api.ok({ key, ...record }, { status: 201 });
+
+  } catch (error) {
+    logger.error("API Key Mint Error", { requestId: api.requestId, error });
+    return api.error('PROCESSING_ERROR', "Failed to mint API key", errorDetails(error));
+  }
+});
@@ -0,0 +1,50 @@
+/**
+ * Agent Data File API - Path-based access to an agent's data files
+ * GET /api/agents/{agentId}/data/{filename} - Get a specific data file
+ * GET /api/agents/{agentId}/data/{dir}/{filename} - Get a nested file (hr/benefits.txt)
+ * GET /api/agents/{agentId}/data/{dir} - Get every file under a directory or glob entry
+ */
+
+import { NextRequest } from "next/server";
+import { getAgentConfig } from "@/lib/agent-registry";
+import { parseDataLoadOptions } from "@/lib/data-access";
+import { agentDataFileResponse } from "@/lib/data-responses";
+import { createApiResponder, errorDetails } from "@/lib/api-response";
+import { withApiAuth } from "@/lib/api-auth";
+import { logger } from "@/lib/logger";
+
+interface RouteParams {
+  params: {
+    agentId: string;
+    path: string[];
+  };
+}
+
+export const GET = withApiAuth(async (req: NextRequest, { params }: RouteParams) => {
+  const api = createApiResponder(req, { agent: params.agentId });
+  try {
+    const { agentId } = params;
+    const path = params.path.map(decodeURIComponent).join('/');
+    const { searchParams } = new URL(req.url);
+    const format = searchParams.get('format') || 'json'; // json, raw
+    const { options, error: optionsError } = parseDataLoadOptions(searchParams); // ?policy=...&offline=true
+
+    if (optionsError) {
+      return api.error('VALIDATION_ERROR', optionsError);
+    }
+
+    options.requestId = api.requestId;
+
+    // Validate agent exists
+    const agent = getAgentConfig(agentId);
+    if (!agent) {
+      return api.error('AGENT_NOT_FOUND', `Agent '${agentId}' not found`);
+    }
+
+    return agentDataFileResponse(api, agent, path, format, options);
+
+  } catch (error) {
+    logger.error(`Agent Data File Error for ${params.agentId}/${params.path.join('/')}`, { requestId: api.requestId, error });
+    return api.error('PROCESSING_ERROR', "Failed to fetch agent data", errorDetails(error));
+  }
+});
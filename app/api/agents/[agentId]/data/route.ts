@@ -2,11 +2,18 @@
  * Agent Data API - Access demo data for any specific agent
  * GET /api/agents/{agentId}/data - Get all demo data for an agent
  * GET /api/agents/{agentId}/data?file={filename} - Get specific data file
+ * GET /api/agents/{agentId}/data/{...path} - Get a nested file, directory or glob entry
+ * GET /api/agents/{agentId}/data?validate=true - Data-quality report against the agent's data contracts
  */
 
-import { NextRequest, NextResponse } from "next/server";
+import { NextRequest } from "next/server";
 import { getAgentConfig } from "@/lib/agent-registry";
-import { getAgentDemoData, loadCSVData, loadJSONData, loadTextData, loadXMLData } from "@/lib/data-access";
+import { getAgentDemoData, parseDataLoadOptions } from "@/lib/data-access";
+import { agentDataFileResponse, agentDataQualityResponse } from "@/lib/data-responses";
+import { invokeAgent } from "@/lib/agent-runtime";
+import { createApiResponder, errorDetails } from "@/lib/api-response";
+import { withApiAuth } from "@/lib/api-auth";
+import { logger } from "@/lib/logger";
 
 interface RouteParams {
   params: {
@@ -14,94 +21,41 @@ interface RouteParams {
   };
 }
 
-export async function GET(req: NextRequest, { params }: RouteParams) {
+export const GET = withApiAuth(async (req: NextRequest, { params }: RouteParams) => {
+  const api = createApiResponder(req, { agent: params.agentId });
   try {
     const { agentId } = params;
     const { searchParams } = new URL(req.url);
     const filename = searchParams.get('file');
     const format = searchParams.get('format') || 'json'; // json, raw, csv
+    const { options, error: optionsError } = parseDataLoadOptions(searchParams); // ?policy=...&offline=true&strict=true
+
+    if (optionsError) {
+      return api.error('VALIDATION_ERROR', optionsError);
+    }
+
+    options.requestId = api.requestId;
 
     // Validate agent exists
     const agent = getAgentConfig(agentId);
     if (!agent) {
-      return NextResponse.json(
-        { error: `Agent '${agentId}' not found` },
-        { status: 404 }
-      );
+      return api.error('AGENT_NOT_FOUND', `Agent '${agentId}' not found`);
     }
 
-    // Get specific file
-    if (filename) {
-      // Validate filename is in agent's data files
-      if (!agent.dataFiles.includes(filename)) {
-        return NextResponse.json(
-          { 
-            error: `File '${filename}' not found for agent '${agentId}'`,
-            availableFiles: agent.dataFiles
-          },
-          { status: 404 }
-        );
-      }
-
-      const extension = filename.split('.').pop()?.toLowerCase() || 'txt';
-      let result;
-
-      switch (extension) {
-        case 'csv':
-          result = await loadCSVData(agentId, filename);
-          break;
-        case 'json':
-          result = await loadJSONData(agentId, filename);
-          break;
-        case 'txt':
-          result = await loadTextData(agentId, filename);
-          break;
-        case 'xml':
-          result = await loadXMLData(agentId, filename);
-          break;
-        default:
-          result = await loadTextData(agentId, filename);
-      }
-
-      if (!result.success) {
-        return NextResponse.json(
-          { 
-            error: result.error || `Failed to load ${filename}`,
-            source: result.source
-          },
-          { status: 404 }
-        );
-      }
-
-      // Return in requested format
-      if (format === 'raw') {
-        return new Response(
-          typeof result.data === 'string' ? result.data : JSON.stringify(result.data),
-          {
-            headers: {
-              'Content-Type': getContentType(extension),
-              'X-Data-Source': result.source
-            }
-          }
-        );
-      }
+    // Validate every data file against its contract
+    if (searchParams.get('validate') === 'true') {
+      return agentDataQualityResponse(api, agent, options);
+    }
 
-      return NextResponse.json({
-        filename,
-        data: result.data,
-        source: result.source,
-        agent: {
-          id: agent.id,
-          name: agent.name,
-          category: agent.category
-        }
-      });
+    // Get specific file, directory or glob entry
+    if (filename) {
+      return agentDataFileResponse(api, agent, filename, format, options);
     }
 
     // Get all demo data for the agent
-    const demoData = await getAgentDemoData(agentId);
+    const demoData = await getAgentDemoData(agentId, options);
 
-    return NextResponse.json({
+    return api.ok({
       agent: {
         id: agent.id,
         name: agent.name,
@@ -116,104 +70,69 @@ export async function GET(req: NextRequest, { params }: RouteParams) {
       usage: {
         getAllData: `/api/agents/${agentId}/data`,
         getSpecificFile: `/api/agents/${agentId}/data?file={filename}`,
+        getNestedFileOrFolder: `/api/agents/${agentId}/data/{dir}/{filename}`,
         getRawFile: `/api/agents/${agentId}/data?file={filename}&format=raw`,
+        realDataOnly: `/api/agents/${agentId}/data?policy=local-only&offline=true`,
+        dataQuality: `/api/agents/${agentId}/data?validate=true`,
         agentEndpoint: agent.apiRoute
-      },
-      timestamp: new Date().toISOString()
+      }
     });
 
   } catch (error) {
-    console.error(`Agent Data API Error for ${params.agentId}:`, error);
-    return NextResponse.json(
-      { 
-        error: "Failed to fetch agent data",
-        details: error instanceof Error ? error.message : "Unknown error"
-      },
-      { status: 500 }
-    );
+    logger.error(`Agent Data API Error for ${params.agentId}`, { requestId: api.requestId, error });
+    return api.error('PROCESSING_ERROR', "Failed to fetch agent data", errorDetails(error));
   }
-}
+});
 
 /**
  * POST /api/agents/{agentId}/data - Process data with agent logic
- * This endpoint allows testing agent functionality with custom data
+ * This endpoint allows testing agent functionality with custom data; the agent runs in-process
  */
-export async function POST(req: NextRequest, { params }: RouteParams) {
+export const POST = withApiAuth(async (req: NextRequest, { params }: RouteParams) => {
+  const api = createApiResponder(req, { agent: params.agentId });
   try {
     const { agentId } = params;
     const body = await req.json();
+    const { options, error: optionsError } = parseDataLoadOptions(new URL(req.url).searchParams);
+
+    if (optionsError) {
+      return api.error('VALIDATION_ERROR', optionsError);
+    }
+
+    options.requestId = api.requestId;
 
     // Validate agent exists
     const agent = getAgentConfig(agentId);
     if (!agent) {
-      return NextResponse.json(
-        { error: `Agent '${agentId}' not found` },
-        { status: 404 }
-      );
+      return api.error('AGENT_NOT_FOUND', `Agent '${agentId}' not found`);
     }
 
     // Check if agent is implemented
     if (agent.status !== 'implemented') {
-      return NextResponse.json(
-        { 
-          error: `Agent '${agentId}' is not yet implemented`,
-          status: agent.status,
-          apiRoute: agent.apiRoute,
-          message: `This agent is currently ${agent.status}. Check back later for implementation.`
-        },
-        { status: 501 }
-      );
+      return api.error('NOT_IMPLEMENTED', `Agent '${agentId}' is not yet implemented`, {
+        status: agent.status,
+        apiRoute: agent.apiRoute,
+        message: `This agent is currently ${agent.status}. Check back later for implementation.`
+      });
     }
 
-    // For implemented agents, redirect to their specific API endpoint
-    const agentUrl = new URL(agent.apiRoute, req.url);
-    
-    // Forward the request to the agent's specific endpoint
-    const response = await fetch(agentUrl.toString(), {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(body)
-    });
+    // Run the agent in-process with the posted body as its input
+    const run = await invokeAgent(agentId, body, options);
+    if (!run.success) {
+      return api.error(run.code, run.error, run.details, { status: run.status });
+    }
 
-    const data = await response.json();
-    
-    return NextResponse.json({
+    return api.ok({
       agent: {
         id: agent.id,
         name: agent.name
       },
-      result: data,
-      processedAt: new Date().toISOString()
+      result: run.output,
+      durationMs: run.durationMs
     });
 
   } catch (error) {
-    console.error(`Agent Data POST Error for ${params.agentId}:`, error);
-    return NextResponse.json(
-      { 
-        error: "Failed to process data with agent",
-        details: error instanceof Error ? error.message : "Unknown error"
-      },
-      { status: 500 }
-    );
-  }
-}
-
-/**
- * Get appropriate content type for file extension
- */
-function getContentType(extension: string): string {
-  switch (extension) {
-    case 'json':
-      return 'application/json';
-    case 'csv':
-      return 'text/csv';
-    case 'xml':
-      return 'application/xml';
-    case 'txt':
-      return 'text/plain';
-    default:
-      return 'text/plain';
+    logger.error(`Agent Data POST Error for ${params.agentId}`, { requestId: api.requestId, error });
+    return api.error('PROCESSING_ERROR', "Failed to process data with agent", errorDetails(error));
   }
-}
+});
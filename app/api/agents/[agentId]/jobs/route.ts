@@ -0,0 +1,44 @@
+/**
+ * Agent Jobs API - Run an agent in the background
+ * POST /api/agents/{agentId}/jobs - Queue a run with a JSON body as input; returns 202 with the job id
+ * Accepts ?policy=...&offline=true&strict=true for data loading. Follow the job at
+ * GET /api/jobs/{jobId} or stream its progress from GET /api/jobs/{jobId}/events.
+ */
+
+import { NextRequest } from "next/server";
+import { parseDataLoadOptions } from "@/lib/data-access";
+import { createApiResponder, errorDetails } from "@/lib/api-response";
+import { withApiAuth } from "@/lib/api-auth";
+import { createJob } from "@/lib/jobs";
+import { logger } from "@/lib/logger";
+
+interface RouteParams {
+  params: {
+    agentId: string;
+  };
+}
+
+export const POST = withApiAuth(async (req: NextRequest, { params }: RouteParams) => {
+  const api = createApiResponder(req, { agent: params.agentId });
+  try {
+    const { options, error: optionsError } = parseDataLoadOptions(new URL(req.url).searchParams);
+    if (optionsError) {
+      return api.error('VALIDATION_ERROR', optionsError);
+    }
+
+    const input = await req.json().catch(() => ({}));
+    const created = createJob(params.agentId, input, { ...options, requestId: api.requestId });
+    if ('failure' in created) {
+      const { code, error, status, details } = created.failure;
+      return api.error(code, error, details, { status });
+    }
+
+    const { job } = created;
+    const links = { self: `/api/jobs/${job.id}`, events: `/api/jobs/${job.id}/events` };
+    return api.ok({ ...job, links }, { status: 202, headers: { Location: links.self } });
+
+  } catch (error) {
+    logger.error(`Job Submit Error for ${params.agentId}`, { requestId: api.requestId, error });
+    return api.error('PROCESSING_ERROR', "Failed to queue job", errorDetails(error));
+  }
+});
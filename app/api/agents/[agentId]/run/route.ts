@@ -0,0 +1,24 @@
+/**
+ * Agent Run API - Invoke any implemented agent in-process
+ * POST /api/agents/{agentId}/run - Run with a JSON body as input
+ * GET /api/agents/{agentId}/run?{input} - Run with query parameters as input
+ * Both accept ?policy=...&offline=true&strict=true for data loading
+ */
+
+import { NextRequest } from "next/server";
+import { agentRunResponse } from "@/lib/agent-routes";
+import { withApiAuth } from "@/lib/api-auth";
+
+interface RouteParams {
+  params: {
+    agentId: string;
+  };
+}
+
+export const GET = withApiAuth(async (req: NextRequest, { params }: RouteParams) => {
+  return agentRunResponse(params.agentId, req);
+});
+
+export const POST = withApiAuth(async (req: NextRequest, { params }: RouteParams) => {
+  return agentRunResponse(params.agentId, req);
+});
@@ -0,0 +1,35 @@
+/**
+ * Registry Check API - Detect drift between AGENT_REGISTRY and the seed pack
+ * GET /api/agents/registry/check - List missing folders, phantom files,
+ * unregistered files/folders and duplicate day folders
+ */
+
+import { NextRequest } from "next/server";
+import { AGENT_REGISTRY, resetAgentRegistry } from "@/lib/agent-registry";
+import { checkRegistryDrift } from "@/lib/registry-builder";
+import { createApiResponder, errorDetails } from "@/lib/api-response";
+import { withApiAuth } from "@/lib/api-auth";
+import { logger } from "@/lib/logger";
+
+export const GET = withApiAuth(async (req: NextRequest) => {
+  const api = createApiResponder(req);
+  try {
+    const { searchParams } = new URL(req.url);
+    const strict = searchParams.get('strict') === 'true'; // Fail with 409 on drift
+
+    // Rescan on the next registry access so newly added files are picked up
+    resetAgentRegistry();
+
+    const report = checkRegistryDrift(AGENT_REGISTRY);
+
+    if (strict && !report.ok) {
+      return api.error('REGISTRY_DRIFT', `Registry drift: ${report.summary.issues} issue(s) found`, { ...report });
+    }
+
+    return api.ok(report);
+
+  } catch (error) {
+    logger.error("Registry Check Error", { requestId: api.requestId, error });
+    return api.error('PROCESSING_ERROR', "Failed to check agent registry", errorDetails(error));
+  }
+});
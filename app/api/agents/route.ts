@@ -3,9 +3,9 @@
  * Provides standardized access to agent configurations and demo data
  */
 
-import { NextRequest, NextResponse } from "next/server";
+import { NextRequest } from "next/server";
 import { 
-  AGENT_REGISTRY, 
+  getAgentRegistry, 
   getAgentConfig, 
   getAgentsByCategory, 
   getImplementedAgents, 
@@ -13,6 +13,9 @@ import {
   getCategories 
 } from "@/lib/agent-registry";
 import { getAgentDemoData } from "@/lib/data-access";
+import { createApiResponder, errorDetails } from "@/lib/api-response";
+import { withApiAuth } from "@/lib/api-auth";
+import { logger } from "@/lib/logger";
 
 /**
  * GET /api/agents - List all agents or get specific agent info
@@ -21,7 +24,8 @@ import { getAgentDemoData } from "@/lib/data-access";
  * - status: Filter by status (implemented, planned, in-progress)
  * - agent: Get specific agent by ID
  */
-export async function GET(req: NextRequest) {
+export const GET = withApiAuth(async (req: NextRequest) => {
+  const api = createApiResponder(req);
   try {
     const { searchParams } = new URL(req.url);
     const category = searchParams.get('category');
@@ -32,22 +36,20 @@ export async function GET(req: NextRequest) {
     if (agentId) {
       const agent = getAgentConfig(agentId);
       if (!agent) {
-        return NextResponse.json(
-          { error: `Agent '${agentId}' not found` },
-          { status: 404 }
-        );
+        return api.error('AGENT_NOT_FOUND', `Agent '${agentId}' not found`);
       }
 
-      return NextResponse.json({
+      return api.ok({
         agent,
         dataPath: `/api/agents/${agentId}/data`,
         apiEndpoint: agent.apiRoute,
+        runEndpoint: `/api/agents/${agentId}/run`,
         documentation: `/docs/agents/${agent.dayFolder.toLowerCase().replace(/_/g, '-')}.md`
       });
     }
 
     // Filter agents
-    let agents = Object.values(AGENT_REGISTRY);
+    let agents = Object.values(getAgentRegistry());
 
     if (category) {
       agents = getAgentsByCategory(category);
@@ -59,37 +61,36 @@ export async function GET(req: NextRequest) {
 
     // Get summary statistics
     const stats = {
-      total: Object.keys(AGENT_REGISTRY).length,
+      total: Object.keys(getAgentRegistry()).length,
       implemented: getImplementedAgents().length,
       planned: getPlannedAgents().length,
       categories: getCategories()
     };
 
-    return NextResponse.json({
+    return api.ok({
       agents,
       stats,
       endpoints: {
         getAgent: '/api/agents?agent={agentId}',
         getAgentData: '/api/agents/{agentId}/data',
         filterByCategory: '/api/agents?category={category}',
-        filterByStatus: '/api/agents?status={status}'
+        filterByStatus: '/api/agents?status={status}',
+        registryCheck: '/api/agents/registry/check'
       }
     });
 
   } catch (error) {
-    console.error("Agents API Error:", error);
-    return NextResponse.json(
-      { error: "Failed to fetch agents" },
-      { status: 500 }
-    );
+    logger.error("Agents API Error", { requestId: api.requestId, error });
+    return api.error('PROCESSING_ERROR', "Failed to fetch agents", errorDetails(error));
   }
-}
+});
 
 /**
  * POST /api/agents - Create or update agent configuration
  * (For future use - agent development workflow)
  */
-export async function POST(req: NextRequest) {
+export const POST = withApiAuth(async (req: NextRequest) => {
+  const api = createApiResponder(req);
   try {
     const body = await req.json();
     const { action, agentId, config } = body;
@@ -99,21 +100,19 @@ export async function POST(req: NextRequest) {
         // Validate agent configuration
         const agent = getAgentConfig(agentId);
         if (!agent) {
-          return NextResponse.json(
-            { valid: false, error: `Agent '${agentId}' not found` },
-            { status: 404 }
-          );
+          return api.error('AGENT_NOT_FOUND', `Agent '${agentId}' not found`, { valid: false });
         }
 
         // Check if data files exist
         const demoData = await getAgentDemoData(agentId);
         const dataStatus = Object.entries(demoData).map(([filename, result]) => ({
           filename,
-          exists: result.success,
-          source: result.source
+          exists: result.success && !result.degraded, // Mock data doesn't count
+          source: result.source,
+          ...(result.degraded && { degraded: true })
         }));
 
-        return NextResponse.json({
+        return api.ok({
           valid: true,
           agent,
           dataStatus,
@@ -123,28 +122,21 @@ export async function POST(req: NextRequest) {
       case 'test':
         // Test agent with demo data
         const testData = await getAgentDemoData(agentId);
-        return NextResponse.json({
+        return api.ok({
           agentId,
           testData,
-          timestamp: new Date().toISOString(),
           status: 'success'
         });
 
       default:
-        return NextResponse.json(
-          { error: `Unknown action: ${action}` },
-          { status: 400 }
-        );
+        return api.error('VALIDATION_ERROR', `Unknown action: ${action}`, { actions: ['validate', 'test'] });
     }
 
   } catch (error) {
-    console.error("Agents API POST Error:", error);
-    return NextResponse.json(
-      { error: "Failed to process request" },
-      { status: 500 }
-    );
+    logger.error("Agents API POST Error", { requestId: api.requestId, error });
+    return api.error('PROCESSING_ERROR', "Failed to process request", errorDetails(error));
   }
-}
+});
 
 /**
  * Generate recommendations for agent development
@@ -154,7 +146,7 @@ function generateRecommendations(agent: any, dataStatus: any[]): string[] {
 
   // Check implementation status
   if (agent.status === 'planned') {
-    recommendations.push(`Implement API route at ${agent.apiRoute}`);
+    recommendations.push(`Implement the agent in lib/agents/${agent.id}.ts and register it in lib/agents/index.ts`);
     recommendations.push(`Create comprehensive tests for ${agent.name}`);
   }
 
@@ -0,0 +1,52 @@
+/**
+ * Diagnostics API - Data availability per agent, GitHub reachability and build info
+ * GET /api/diagnostics - Every agent (slow: loads all files)
+ * GET /api/diagnostics?agentId=seo-pages,invoice-anomalies - Selected agents only
+ * Accepts ?policy=...&offline=true like the data routes; ?github=false skips the GitHub probe
+ */
+
+import { NextRequest } from "next/server";
+import { getAgentConfig } from "@/lib/agent-registry";
+import { parseDataLoadOptions } from "@/lib/data-access";
+import { createApiResponder, errorDetails } from "@/lib/api-response";
+import { withApiAuth } from "@/lib/api-auth";
+import { checkGitHub, checkReadiness, getAgentDataAvailability, getBuildInfo } from "@/lib/health";
+import { logger } from "@/lib/logger";
+
+export const GET = withApiAuth(async (req: NextRequest) => {
+  const api = createApiResponder(req);
+  try {
+    const { searchParams } = new URL(req.url);
+    const { options, error: optionsError } = parseDataLoadOptions(searchParams);
+    if (optionsError) {
+      return api.error('VALIDATION_ERROR', optionsError);
+    }
+
+    options.requestId = api.requestId;
+
+    const agentIds = searchParams.get('agentId')?.split(',').map(id => id.trim()).filter(Boolean);
+    const unknown = agentIds?.filter(id => !getAgentConfig(id)) ?? [];
+    if (unknown.length > 0) {
+      return api.error('AGENT_NOT_FOUND', `Agent '${unknown[0]}' not found`, { unknown });
+    }
+
+    const agents = await getAgentDataAvailability(agentIds, options);
+
+    return api.ok({
+      build: getBuildInfo(),
+      readiness: checkReadiness(),
+      github: searchParams.get('github') === 'false' || options.offline ? null : await checkGitHub(),
+      agents,
+      summary: {
+        agents: agents.length,
+        available: agents.filter(agent => agent.available).length,
+        degraded: agents.filter(agent => agent.degraded).length,
+        unavailable: agents.filter(agent => !agent.available).map(agent => agent.agentId)
+      }
+    });
+
+  } catch (error) {
+    logger.error("Diagnostics Error", { requestId: api.requestId, error });
+    return api.error('PROCESSING_ERROR', "Failed to collect diagnostics", errorDetails(error));
+  }
+});
@@ -0,0 +1,12 @@
+/**
+ * API Explorer - Browse /api/openapi.json and try requests from the browser
+ * GET /api/docs - Self-contained HTML page; no external scripts or styles
+ */
+
+import { renderApiExplorer } from "@/lib/api-explorer";
+
+export async function GET() {
+  return new Response(renderApiExplorer('/api/openapi.json'), {
+    headers: { 'Content-Type': 'text/html; charset=utf-8' }
+  });
+}
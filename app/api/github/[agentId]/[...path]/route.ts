@@ -0,0 +1,153 @@
+/**
+ * GitHub Data Proxy API - Direct access to agent data from GitHub
+ * GET /api/github/{agentId}/{filename} - Fetch specific file from GitHub
+ * GET /api/github/{agentId}/{dir}/{filename} - Fetch a nested file (contracts/msa_01.txt)
+ * GET /api/github/{agentId}/{dir} - Fetch every file under a directory or glob entry
+ * 
+ * This endpoint allows team members to access demo data directly from GitHub
+ * without needing local repository setup or cloning.
+ */
+
+import { NextRequest } from "next/server";
+import { getAgentConfig } from "@/lib/agent-registry";
+import { resolveDataFileRequest } from "@/lib/data-patterns";
+import { 
+  fetchFromGitHubRaw, 
+  fetchFromGitHubAPI, 
+  getParserForFile,
+  loadAgentCollectionFromGitHub,
+  generateGitHubUrls 
+} from "@/lib/github-data-access";
+import { createApiResponder, errorDetails } from "@/lib/api-response";
+import { getContentType } from "@/lib/data-responses";
+import { withApiAuth } from "@/lib/api-auth";
+import { logger } from "@/lib/logger";
+
+interface RouteParams {
+  params: {
+    agentId: string;
+    path: string[];
+  };
+}
+
+export const GET = withApiAuth(async (req: NextRequest, { params }: RouteParams) => {
+  const api = createApiResponder(req, { agent: params.agentId });
+  try {
+    const { agentId } = params;
+    const filename = params.path.map(decodeURIComponent).join('/');
+    const { searchParams } = new URL(req.url);
+    const format = searchParams.get('format') || 'json'; // json, raw, csv
+    const method = searchParams.get('method') || 'raw'; // raw, api
+
+    // Validate agent exists
+    const agent = getAgentConfig(agentId);
+    if (!agent) {
+      return api.error('AGENT_NOT_FOUND', `Agent '${agentId}' not found`);
+    }
+
+    // Validate filename is covered by the agent's data files
+    const request = resolveDataFileRequest(agent.dataFiles, filename);
+    if (!request) {
+      return api.error('FILE_NOT_FOUND', `File '${filename}' not found for agent '${agentId}'`, {
+        availableFiles: agent.dataFiles,
+        githubFolder: generateGitHubUrls(agent.dayFolder, '').folder
+      });
+    }
+
+    // Directory and glob entries return a keyed collection of files
+    if (request.kind === 'collection') {
+      const collection = await loadAgentCollectionFromGitHub(agent.dayFolder, request.pattern);
+
+      if (Object.keys(collection.data).length === 0) {
+        return api.error('DATA_NOT_FOUND', collection.error || `No files match '${request.pattern}'`, {
+          source: collection.source,
+          pattern: request.pattern,
+          githubFolder: generateGitHubUrls(agent.dayFolder, '').folder
+        });
+      }
+
+      return api.ok({
+        pattern: request.pattern,
+        files: Object.keys(collection.data),
+        data: collection.data,
+        source: collection.source,
+        success: collection.success,
+        ...(collection.error && { error: collection.error }),
+        agent: {
+          id: agent.id,
+          name: agent.name,
+          category: agent.category,
+          dayFolder: agent.dayFolder
+        }
+      });
+    }
+
+    // Determine parser based on file extension
+    const extension = filename.split('.').pop()?.toLowerCase() || 'txt';
+    const parser = getParserForFile(filename);
+
+    // Fetch from GitHub
+    const result = method === 'api' 
+      ? await fetchFromGitHubAPI(agent.dayFolder, filename, parser)
+      : await fetchFromGitHubRaw(agent.dayFolder, filename, parser);
+
+    if (!result.success) {
+      const urls = generateGitHubUrls(agent.dayFolder, filename);
+      // A 404 from GitHub means the file is missing; anything else is GitHub failing
+      const missing = !result.error || / 404 /.test(result.error) || result.source === 'lfs-pointer-unresolved';
+      return api.error(missing ? 'DATA_NOT_FOUND' : 'UPSTREAM_FAILED', result.error || `Failed to fetch ${filename} from GitHub`, {
+        source: result.source,
+        githubUrls: urls,
+        troubleshooting: {
+          message: "Try accessing the file directly via GitHub",
+          rawUrl: urls.raw,
+          blobUrl: urls.blob,
+          folderUrl: urls.folder
+        }
+      });
+    }
+
+    // Return in requested format
+    if (format === 'raw') {
+      return new Response(
+        typeof result.data === 'string' ? result.data : JSON.stringify(result.data, null, 2),
+        {
+          headers: {
+            'Content-Type': getContentType(extension),
+            'X-Data-Source': result.source,
+            'X-GitHub-URL': result.url || '',
+            'X-Cache': result.cache || 'bypass',
+            'X-Request-Id': api.requestId
+          }
+        }
+      );
+    }
+
+    const urls = generateGitHubUrls(agent.dayFolder, filename);
+
+    return api.ok({
+      filename,
+      data: result.data,
+      source: result.source,
+      githubUrl: result.url,
+      cache: result.cache,
+      agent: {
+        id: agent.id,
+        name: agent.name,
+        category: agent.category,
+        dayFolder: agent.dayFolder
+      },
+      githubUrls: urls,
+      usage: {
+        rawData: `/api/github/${agentId}/${filename}?format=raw`,
+        apiMethod: `/api/github/${agentId}/${filename}?method=api`,
+        directGitHub: urls.raw,
+        viewOnGitHub: urls.blob
+      }
+    });
+
+  } catch (error) {
+    logger.error(`GitHub Data Proxy Error for ${params.agentId}/${params.path.join('/')}`, { requestId: api.requestId, error });
+    return api.error('UPSTREAM_FAILED', "Failed to fetch data from GitHub", errorDetails(error));
+  }
+});
@@ -6,13 +6,16 @@
  * fetched directly from the GitHub repository.
  */
 
-import { NextRequest, NextResponse } from "next/server";
+import { NextRequest } from "next/server";
 import { getAgentConfig } from "@/lib/agent-registry";
 import { 
   getAgentDemoDataFromGitHub,
   getAgentFilesFromGitHub,
   generateGitHubUrls 
 } from "@/lib/github-data-access";
+import { createApiResponder, errorDetails } from "@/lib/api-response";
+import { withApiAuth } from "@/lib/api-auth";
+import { logger } from "@/lib/logger";
 
 interface RouteParams {
   params: {
@@ -20,7 +23,8 @@ interface RouteParams {
   };
 }
 
-export async function GET(req: NextRequest, { params }: RouteParams) {
+export const GET = withApiAuth(async (req: NextRequest, { params }: RouteParams) => {
+  const api = createApiResponder(req, { agent: params.agentId });
   try {
     const { agentId } = params;
     const { searchParams } = new URL(req.url);
@@ -30,10 +34,7 @@ export async function GET(req: NextRequest, { params }: RouteParams) {
     // Validate agent exists
     const agent = getAgentConfig(agentId);
     if (!agent) {
-      return NextResponse.json(
-        { error: `Agent '${agentId}' not found` },
-        { status: 404 }
-      );
+      return api.error('AGENT_NOT_FOUND', `Agent '${agentId}' not found`);
     }
 
     const urls = generateGitHubUrls(agent.dayFolder, '');
@@ -51,22 +52,23 @@ export async function GET(req: NextRequest, { params }: RouteParams) {
       dataFiles: agent.dataFiles,
       githubUrls: {
         folder: urls.folder,
-        raw: `https://raw.githubusercontent.com/indranilbanerjee/hackathon-agents-starter/main/data/agents-seed-pack-full/${agent.dayFolder}/`,
-        api: `https://api.github.com/repos/indranilbanerjee/hackathon-agents-starter/contents/data/agents-seed-pack-full/${agent.dayFolder}`
+        raw: urls.raw,
+        api: urls.api.replace('/?ref=', '?ref=')
       },
       usage: {
         getAllData: `/api/github/${agentId}`,
         getSpecificFile: `/api/github/${agentId}/{filename}`,
+        getNestedFileOrFolder: `/api/github/${agentId}/{dir}/{filename}`,
         getRawFile: `/api/github/${agentId}/{filename}?format=raw`,
         localAgentData: `/api/agents/${agentId}/data`,
+        cacheStats: '/api/github/cache',
         agentEndpoint: agent.apiRoute
-      },
-      timestamp: new Date().toISOString()
+      }
     };
 
     // List files from GitHub if requested
     if (listFiles) {
-      const filesResult = await getAgentFilesFromGitHub(agent.dayFolder);
+      const filesResult = await getAgentFilesFromGitHub(agent.dayFolder, undefined, undefined, true);
       response.githubFiles = {
         success: filesResult.success,
         files: filesResult.data,
@@ -88,7 +90,8 @@ export async function GET(req: NextRequest, { params }: RouteParams) {
           success: result.success,
           source: result.source,
           error: result.error,
-          url: result.url
+          url: result.url,
+          cache: result.cache
         };
       }
       
@@ -102,24 +105,19 @@ export async function GET(req: NextRequest, { params }: RouteParams) {
       };
     }
 
-    return NextResponse.json(response);
+    return api.ok(response);
 
   } catch (error) {
-    console.error(`GitHub Agent Data Error for ${params.agentId}:`, error);
-    return NextResponse.json(
-      { 
-        error: "Failed to fetch agent data from GitHub",
-        details: error instanceof Error ? error.message : "Unknown error"
-      },
-      { status: 500 }
-    );
+    logger.error(`GitHub Agent Data Error for ${params.agentId}`, { requestId: api.requestId, error });
+    return api.error('UPSTREAM_FAILED', "Failed to fetch agent data from GitHub", errorDetails(error));
   }
-}
+});
 
 /**
  * POST /api/github/{agentId} - Test agent with GitHub data
  */
-export async function POST(req: NextRequest, { params }: RouteParams) {
+export const POST = withApiAuth(async (req: NextRequest, { params }: RouteParams) => {
+  const api = createApiResponder(req, { agent: params.agentId });
   try {
     const { agentId } = params;
     const body = await req.json();
@@ -127,31 +125,24 @@ export async function POST(req: NextRequest, { params }: RouteParams) {
     // Validate agent exists
     const agent = getAgentConfig(agentId);
     if (!agent) {
-      return NextResponse.json(
-        { error: `Agent '${agentId}' not found` },
-        { status: 404 }
-      );
+      return api.error('AGENT_NOT_FOUND', `Agent '${agentId}' not found`);
     }
 
     // Check if agent is implemented
     if (agent.status !== 'implemented') {
-      return NextResponse.json(
-        { 
-          error: `Agent '${agentId}' is not yet implemented`,
-          status: agent.status,
-          apiRoute: agent.apiRoute,
-          message: `This agent is currently ${agent.status}. Check back later for implementation.`,
-          githubData: `/api/github/${agentId}`,
-          developmentGuide: '/docs/agent-development-guide.md'
-        },
-        { status: 501 }
-      );
+      return api.error('NOT_IMPLEMENTED', `Agent '${agentId}' is not yet implemented`, {
+        status: agent.status,
+        apiRoute: agent.apiRoute,
+        message: `This agent is currently ${agent.status}. Check back later for implementation.`,
+        githubData: `/api/github/${agentId}`,
+        developmentGuide: '/docs/agent-development-guide.md'
+      });
     }
 
     // For implemented agents, test with GitHub data
     const demoData = await getAgentDemoDataFromGitHub(agent.dayFolder, agent.dataFiles);
     
-    return NextResponse.json({
+    return api.ok({
       agent: {
         id: agent.id,
         name: agent.name
@@ -159,32 +150,11 @@ export async function POST(req: NextRequest, { params }: RouteParams) {
       testData: demoData,
       message: "Agent tested with GitHub demo data",
       note: "To run the actual agent logic, use the agent's specific API endpoint",
-      agentEndpoint: agent.apiRoute,
-      processedAt: new Date().toISOString()
+      agentEndpoint: agent.apiRoute
     });
 
   } catch (error) {
-    console.error(`GitHub Agent Test Error for ${params.agentId}:`, error);
-    return NextResponse.json(
-      { 
-        error: "Failed to test agent with GitHub data",
-        details: error instanceof Error ? error.message : "Unknown error"
-      },
-      { status: 500 }
-    );
+    logger.error(`GitHub Agent Test Error for ${params.agentId}`, { requestId: api.requestId, error });
+    return api.error('UPSTREAM_FAILED', "Failed to test agent with GitHub data", errorDetails(error));
   }
-}
-
-/**
- * OPTIONS handler for CORS support
- */
-export async function OPTIONS() {
-  return new Response(null, {
-    status: 200,
-    headers: {
-      'Access-Control-Allow-Origin': '*',
-      'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
-      'Access-Control-Allow-Headers': 'Content-Type',
-    },
-  });
-}
+});
@@ -0,0 +1,52 @@
+/**
+ * GitHub Cache API - Inspect and purge the GitHub data cache
+ * GET /api/github/cache - Hit/miss counters, entry counts and GitHub rate limits
+ * DELETE /api/github/cache?agentId=... - Purge one agent's files (or ?match=..., or everything)
+ */
+
+import { NextRequest } from "next/server";
+import { getAgentConfig } from "@/lib/agent-registry";
+import { getGitHubCacheStats, purgeGitHubCache } from "@/lib/github-cache";
+import { createApiResponder, errorDetails } from "@/lib/api-response";
+import { withApiAuth } from "@/lib/api-auth";
+import { logger } from "@/lib/logger";
+
+export const GET = withApiAuth(async (req: NextRequest) => {
+  const api = createApiResponder(req);
+  try {
+    return api.ok(getGitHubCacheStats());
+
+  } catch (error) {
+    logger.error("GitHub Cache Stats Error", { requestId: api.requestId, error });
+    return api.error('PROCESSING_ERROR', "Failed to read GitHub cache stats", errorDetails(error));
+  }
+});
+
+export const DELETE = withApiAuth(async (req: NextRequest) => {
+  const api = createApiResponder(req);
+  try {
+    const { searchParams } = new URL(req.url);
+    const agentId = searchParams.get('agentId');
+    let match = searchParams.get('match') || undefined;
+
+    if (agentId) {
+      const agent = getAgentConfig(agentId);
+      if (!agent) {
+        return api.error('AGENT_NOT_FOUND', `Agent '${agentId}' not found`);
+      }
+      match = `/${agent.dayFolder}/`;
+    }
+
+    const purged = purgeGitHubCache(match);
+
+    return api.ok({
+      purged,
+      match: match ?? null,
+      stats: getGitHubCacheStats()
+    });
+
+  } catch (error) {
+    logger.error("GitHub Cache Purge Error", { requestId: api.requestId, error });
+    return api.error('PROCESSING_ERROR', "Failed to purge GitHub cache", errorDetails(error));
+  }
+});
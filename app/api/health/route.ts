@@ -0,0 +1,15 @@
+/**
+ * Health API - Liveness probe
+ * GET /api/health - 200 while the process is serving requests; no I/O, no credentials needed
+ */
+
+import { NextRequest } from "next/server";
+import { createApiResponder } from "@/lib/api-response";
+import { getBuildInfo } from "@/lib/health";
+
+export async function GET(req: NextRequest) {
+  const api = createApiResponder(req);
+  const { version, uptimeSeconds } = getBuildInfo();
+
+  return api.ok({ status: 'ok', version, uptimeSeconds }, { headers: { 'Cache-Control': 'no-store' } });
+}
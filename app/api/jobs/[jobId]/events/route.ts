@@ -0,0 +1,47 @@
+/**
+ * Job Events API - Server-sent events for a background agent run
+ * GET /api/jobs/{jobId}/events - queued, started, progress, then succeeded, failed or cancelled
+ * Past events are replayed first; send Last-Event-ID (or ?lastEventId=) to resume after a reconnect.
+ * The stream closes once the job finishes.
+ */
+
+import { NextRequest } from "next/server";
+import { createApiResponder, errorDetails } from "@/lib/api-response";
+import { canAccessAgent, withApiAuth, type AuthContext } from "@/lib/api-auth";
+import { createJobEventStream, getJob } from "@/lib/jobs";
+import { logger } from "@/lib/logger";
+
+interface RouteParams {
+  params: {
+    jobId: string;
+  };
+}
+
+export const GET = withApiAuth(async (req: NextRequest, { params, auth }: RouteParams & AuthContext) => {
+  const api = createApiResponder(req);
+  try {
+    const job = getJob(params.jobId);
+    if (!job) {
+      return api.error('JOB_NOT_FOUND', `Job '${params.jobId}' not found`);
+    }
+
+    if (!canAccessAgent(auth.key, 'read', job.agentId)) {
+      return api.error('FORBIDDEN', `API key lacks read access to agent '${job.agentId}'`);
+    }
+
+    const lastEventId = Number(req.headers.get('last-event-id') ?? new URL(req.url).searchParams.get('lastEventId') ?? 0);
+    return new Response(createJobEventStream(job.id, Number.isInteger(lastEventId) ? lastEventId : 0, req.signal), {
+      headers: {
+        'Content-Type': 'text/event-stream; charset=utf-8',
+        'Cache-Control': 'no-cache, no-transform',
+        'Connection': 'keep-alive',
+        'X-Accel-Buffering': 'no', // Stops nginx from buffering the stream
+        'X-Request-Id': api.requestId
+      }
+    });
+
+  } catch (error) {
+    logger.error(`Job Events Error for ${params.jobId}`, { requestId: api.requestId, error });
+    return api.error('PROCESSING_ERROR', "Failed to stream job events", errorDetails(error));
+  }
+});
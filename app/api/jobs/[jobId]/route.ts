@@ -0,0 +1,60 @@
+/**
+ * Job API - Status, result and cancellation of a background agent run
+ * GET /api/jobs/{jobId} - Status, latest progress, and the output or error once finished
+ * DELETE /api/jobs/{jobId} - Cancel a queued or running job (finished jobs are returned unchanged)
+ */
+
+import { NextRequest } from "next/server";
+import { createApiResponder, errorDetails } from "@/lib/api-response";
+import { canAccessAgent, withApiAuth, type AuthContext } from "@/lib/api-auth";
+import { cancelJob, getJob, waitForJob } from "@/lib/jobs";
+import { logger } from "@/lib/logger";
+
+interface RouteParams {
+  params: {
+    jobId: string;
+  };
+}
+
+export const GET = withApiAuth(async (req: NextRequest, { params, auth }: RouteParams & AuthContext) => {
+  const api = createApiResponder(req);
+  try {
+    const job = getJob(params.jobId);
+    if (!job) {
+      return api.error('JOB_NOT_FOUND', `Job '${params.jobId}' not found`);
+    }
+
+    if (!canAccessAgent(auth.key, 'read', job.agentId)) {
+      return api.error('FORBIDDEN', `API key lacks read access to agent '${job.agentId}'`);
+    }
+
+    return api.ok(job);
+
+  } catch (error) {
+    logger.error(`Job Read Error for ${params.jobId}`, { requestId: api.requestId, error });
+    return api.error('PROCESSING_ERROR', "Failed to read job", errorDetails(error));
+  }
+});
+
+export const DELETE = withApiAuth(async (req: NextRequest, { params, auth }: RouteParams & AuthContext) => {
+  const api = createApiResponder(req);
+  try {
+    const job = getJob(params.jobId);
+    if (!job) {
+      return api.error('JOB_NOT_FOUND', `Job '${params.jobId}' not found`);
+    }
+
+    if (!canAccessAgent(auth.key, 'run', job.agentId)) {
+      return api.error('FORBIDDEN', `API key lacks run access to agent '${job.agentId}'`);
+    }
+
+    // A running job stops as soon as its signal aborts; wait so the response shows the final status
+    const wasRunning = job.status === 'running';
+    cancelJob(job.id);
+    return api.ok(wasRunning ? await waitForJob(job.id) : job);
+
+  } catch (error) {
+    logger.error(`Job Cancel Error for ${params.jobId}`, { requestId: api.requestId, error });
+    return api.error('PROCESSING_ERROR', "Failed to cancel job", errorDetails(error));
+  }
+});
@@ -0,0 +1,23 @@
+/**
+ * Metrics API - Prometheus scrape endpoint
+ * GET /api/metrics - Request, agent run, data load and error counters in the text exposition format
+ */
+
+import { NextRequest } from "next/server";
+import { createApiResponder, errorDetails } from "@/lib/api-response";
+import { withApiAuth } from "@/lib/api-auth";
+import { renderMetrics } from "@/lib/metrics";
+import { logger } from "@/lib/logger";
+
+export const GET = withApiAuth(async (req: NextRequest) => {
+  try {
+    return new Response(renderMetrics(), {
+      headers: { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' }
+    });
+
+  } catch (error) {
+    const api = createApiResponder(req);
+    logger.error("Metrics Error", { requestId: api.requestId, error });
+    return api.error('PROCESSING_ERROR', "Failed to render metrics", errorDetails(error));
+  }
+});
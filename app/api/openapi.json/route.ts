@@ -0,0 +1,21 @@
+/**
+ * OpenAPI API - Machine-readable description of every route
+ * GET /api/openapi.json - OpenAPI 3.1 document built from the registry and zod schemas.
+ * Served as the bare document (no envelope) so code generators and the explorer can read it.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createApiResponder, errorDetails } from "@/lib/api-response";
+import { buildOpenApiDocument } from "@/lib/openapi";
+import { logger } from "@/lib/logger";
+
+export async function GET(req: NextRequest) {
+  try {
+    return NextResponse.json(buildOpenApiDocument(new URL(req.url).origin));
+
+  } catch (error) {
+    const api = createApiResponder(req);
+    logger.error("OpenAPI Document Error", { requestId: api.requestId, error });
+    return api.error('PROCESSING_ERROR', "Failed to build OpenAPI document", errorDetails(error));
+  }
+}
@@ -0,0 +1,68 @@
+/**
+ * Outbox API - Notifications rendered for Slack, Teams and email
+ * GET /api/outbox - Newest first; ?channel=slack|teams|email&status=dry-run|sent|failed&limit=50
+ * DELETE /api/outbox - Empty the outbox (admin)
+ */
+
+import { NextRequest } from "next/server";
+import { getAgentRegistry } from "@/lib/agent-registry";
+import { createApiResponder, errorDetails } from "@/lib/api-response";
+import { canAccessAgent, withApiAuth, type AuthContext } from "@/lib/api-auth";
+import { getConfig } from "@/lib/config";
+import { CHANNEL_KINDS, clearOutbox, getNotificationChannel, listOutbox, type ChannelKind, type OutboxStatus } from "@/lib/notifications";
+import { logger } from "@/lib/logger";
+
+const STATUSES: OutboxStatus[] = ['dry-run', 'sent', 'failed'];
+const MAX_LIMIT = 500;
+
+export const GET = withApiAuth(async (req: NextRequest, { auth }: AuthContext) => {
+  const api = createApiResponder(req);
+  try {
+    const { searchParams } = new URL(req.url);
+    const channel = searchParams.get('channel');
+    if (channel !== null && !CHANNEL_KINDS.includes(channel as ChannelKind)) {
+      return api.error('VALIDATION_ERROR', `Invalid channel '${channel}'. Expected one of: ${CHANNEL_KINDS.join(', ')}`);
+    }
+    const status = searchParams.get('status');
+    if (status !== null && !STATUSES.includes(status as OutboxStatus)) {
+      return api.error('VALIDATION_ERROR', `Invalid status '${status}'. Expected one of: ${STATUSES.join(', ')}`);
+    }
+    const limit = Number(searchParams.get('limit') ?? 50);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+      return api.error('VALIDATION_ERROR', `limit must be between 1 and ${MAX_LIMIT}`);
+    }
+
+    // Keys scoped to some agents only see those agents' notifications
+    const { key } = auth;
+    const allAgents = Object.keys(getAgentRegistry());
+    const visible = allAgents.filter(id => canAccessAgent(key, 'read', id));
+
+    const entries = listOutbox({
+      ...(channel && { channel: channel as ChannelKind }),
+      ...(status && { status: status as OutboxStatus }),
+      ...(visible.length < allAgents.length && { agentIds: visible })
+    });
+
+    return api.ok({
+      mode: getConfig().notifications.mode,
+      channels: Object.fromEntries(CHANNEL_KINDS.map(kind => [kind, { configured: getNotificationChannel(kind).configured }])),
+      entries: entries.slice(0, limit),
+      total: entries.length
+    });
+
+  } catch (error) {
+    logger.error("Outbox List Error", { requestId: api.requestId, error });
+    return api.error('PROCESSING_ERROR', "Failed to list the outbox", errorDetails(error));
+  }
+});
+
+export const DELETE = withApiAuth(async (req: NextRequest) => {
+  const api = createApiResponder(req);
+  try {
+    return api.ok({ cleared: clearOutbox() });
+
+  } catch (error) {
+    logger.error("Outbox Clear Error", { requestId: api.requestId, error });
+    return api.error('PROCESSING_ERROR', "Failed to clear the outbox", errorDetails(error));
+  }
+});
@@ -0,0 +1,82 @@
+/**
+ * Prompt Preview API - Render a prompt without calling a model
+ * GET /api/prompts/{agentId}/{name}/preview - With variables from the agent's seed data; ?version=2&policy=...&offline=true
+ * POST /api/prompts/{agentId}/{name}/preview - With { "variables": {...}, "version"?: 2 } from the body
+ */
+
+import { NextRequest } from "next/server";
+import { z } from "zod";
+import { createApiResponder, errorDetails, type ApiResponder } from "@/lib/api-response";
+import { withApiAuth } from "@/lib/api-auth";
+import { parseDataLoadOptions } from "@/lib/data-access";
+import { getPromptTemplate, previewPrompt } from "@/lib/prompt-registry";
+import { logger } from "@/lib/logger";
+
+interface RouteParams {
+  params: {
+    agentId: string;
+    name: string;
+  };
+}
+
+const PreviewRequest = z.object({
+  version: z.number().int().positive().optional(),
+  variables: z.unknown().optional() // Leave out to build them from seed data
+});
+
+async function preview(api: ApiResponder, params: RouteParams['params'], version: number | undefined, variables: unknown, searchParams: URLSearchParams) {
+  const { options, error: optionsError } = parseDataLoadOptions(searchParams);
+  if (optionsError) {
+    return api.error('VALIDATION_ERROR', optionsError);
+  }
+
+  const template = getPromptTemplate(params.agentId, params.name, version);
+  if (!template) {
+    const which = version === undefined ? '' : ` v${version}`;
+    return api.error('PROMPT_NOT_FOUND', `Prompt '${params.agentId}/${params.name}'${which} not found`);
+  }
+  if (variables === undefined && !template.sample) {
+    return api.error('VALIDATION_ERROR', `Prompt '${params.agentId}/${params.name}' has no sample data; POST its variables instead`);
+  }
+  if (variables !== undefined) {
+    const parsed = template.variables.safeParse(variables);
+    if (!parsed.success) {
+      return api.error('VALIDATION_ERROR', 'Invalid prompt variables', { issues: parsed.error.issues });
+    }
+  }
+
+  return api.ok(await previewPrompt(template, variables, options));
+}
+
+export const GET = withApiAuth(async (req: NextRequest, { params }: RouteParams) => {
+  const api = createApiResponder(req, { agent: params.agentId });
+  try {
+    const { searchParams } = new URL(req.url);
+    const version = searchParams.get('version');
+    if (version !== null && !/^v?[1-9]\d*$/.test(version)) {
+      return api.error('VALIDATION_ERROR', `Invalid version '${version}'. Expected a number such as 2 or v2`);
+    }
+
+    return await preview(api, params, version === null ? undefined : Number(version.replace(/^v/, '')), undefined, searchParams);
+
+  } catch (error) {
+    logger.error(`Prompt Preview Error for ${params.agentId}/${params.name}`, { requestId: api.requestId, error });
+    return api.error('PROCESSING_ERROR', "Failed to preview prompt", errorDetails(error));
+  }
+});
+
+export const POST = withApiAuth(async (req: NextRequest, { params }: RouteParams) => {
+  const api = createApiResponder(req, { agent: params.agentId });
+  try {
+    const parsed = PreviewRequest.safeParse(await req.json().catch(() => ({})));
+    if (!parsed.success) {
+      return api.error('VALIDATION_ERROR', 'Invalid preview request', { issues: parsed.error.issues });
+    }
+
+    return await preview(api, params, parsed.data.version, parsed.data.variables, new URL(req.url).searchParams);
+
+  } catch (error) {
+    logger.error(`Prompt Preview Error for ${params.agentId}/${params.name}`, { requestId: api.requestId, error });
+    return api.error('PROCESSING_ERROR', "Failed to preview prompt", errorDetails(error));
+  }
+});
@@ -0,0 +1,33 @@
+/**
+ * Prompt API - One agent prompt
+ * GET /api/prompts/{agentId}/{name} - Every version with its variables schema and unrendered messages
+ */
+
+import { NextRequest } from "next/server";
+import { createApiResponder, errorDetails } from "@/lib/api-response";
+import { withApiAuth } from "@/lib/api-auth";
+import { describePrompts } from "@/lib/prompt-registry";
+import { logger } from "@/lib/logger";
+
+interface RouteParams {
+  params: {
+    agentId: string;
+    name: string;
+  };
+}
+
+export const GET = withApiAuth(async (req: NextRequest, { params }: RouteParams) => {
+  const api = createApiResponder(req, { agent: params.agentId });
+  try {
+    const prompt = describePrompts([params.agentId]).find(summary => summary.name === params.name);
+    if (!prompt) {
+      return api.error('PROMPT_NOT_FOUND', `Prompt '${params.agentId}/${params.name}' not found`);
+    }
+
+    return api.ok(prompt);
+
+  } catch (error) {
+    logger.error(`Prompt Read Error for ${params.agentId}/${params.name}`, { requestId: api.requestId, error });
+    return api.error('PROCESSING_ERROR', "Failed to read prompt", errorDetails(error));
+  }
+});
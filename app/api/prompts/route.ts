@@ -0,0 +1,32 @@
+/**
+ * Prompts API - Versioned prompt templates
+ * GET /api/prompts - Every agent prompt with its versions and the active one; ?agentId=meeting-actions
+ */
+
+import { NextRequest } from "next/server";
+import { getAgentRegistry } from "@/lib/agent-registry";
+import { createApiResponder, errorDetails } from "@/lib/api-response";
+import { canAccessAgent, withApiAuth, type AuthContext } from "@/lib/api-auth";
+import { describePrompts } from "@/lib/prompt-registry";
+import { logger } from "@/lib/logger";
+
+export const GET = withApiAuth(async (req: NextRequest, { auth }: AuthContext) => {
+  const api = createApiResponder(req);
+  try {
+    const agentId = new URL(req.url).searchParams.get('agentId');
+    if (agentId !== null && !getAgentRegistry()[agentId]) {
+      return api.error('AGENT_NOT_FOUND', `Agent '${agentId}' not found`);
+    }
+
+    // Keys scoped to some agents only see those agents' prompts
+    const { key } = auth;
+    const visible = Object.keys(getAgentRegistry()).filter(id => (!agentId || id === agentId) && canAccessAgent(key, 'read', id));
+
+    const prompts = describePrompts(visible);
+    return api.ok({ prompts, total: prompts.length });
+
+  } catch (error) {
+    logger.error("Prompt List Error", { requestId: api.requestId, error });
+    return api.error('PROCESSING_ERROR', "Failed to list prompts", errorDetails(error));
+  }
+});
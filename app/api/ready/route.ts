@@ -0,0 +1,29 @@
+/**
+ * Readiness API - Whether this instance can serve agent data
+ * GET /api/ready - Registry loaded, data roots readable, LFS objects present, data contracts compiled.
+ * 503 NOT_READY when any check fails; warnings (e.g. LFS objects served via fallback) stay 200.
+ */
+
+import { NextRequest } from "next/server";
+import { createApiResponder, errorDetails } from "@/lib/api-response";
+import { checkReadiness } from "@/lib/health";
+import { logger } from "@/lib/logger";
+
+export async function GET(req: NextRequest) {
+  const api = createApiResponder(req);
+  const headers = { 'Cache-Control': 'no-store' };
+  try {
+    const report = checkReadiness();
+
+    if (!report.ready) {
+      const failed = report.checks.filter(check => check.status === 'fail').map(check => check.name);
+      return api.error('NOT_READY', `Readiness checks failed: ${failed.join(', ')}`, { ...report }, { headers });
+    }
+
+    return api.ok(report, { headers });
+
+  } catch (error) {
+    logger.error("Readiness Check Error", { requestId: api.requestId, error });
+    return api.error('NOT_READY', "Failed to run readiness checks", errorDetails(error), { headers });
+  }
+}
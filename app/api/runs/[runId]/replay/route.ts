@@ -0,0 +1,45 @@
+/**
+ * Run Replay API - Run a stored invocation again and compare the outcomes
+ * POST /api/runs/{runId}/replay - Same agent, input and data options; returns the new run and a comparison
+ * Accepts ?policy=...&offline=true&strict=true to override the stored data options
+ */
+
+import { NextRequest } from "next/server";
+import { parseDataLoadOptions } from "@/lib/data-access";
+import { replayRun } from "@/lib/agent-runtime";
+import { createApiResponder, errorDetails } from "@/lib/api-response";
+import { canAccessAgent, withApiAuth, type AuthContext } from "@/lib/api-auth";
+import { getRunStore, toRunSummary } from "@/lib/run-history";
+import { logger } from "@/lib/logger";
+
+interface RouteParams {
+  params: {
+    runId: string;
+  };
+}
+
+export const POST = withApiAuth(async (req: NextRequest, { params, auth }: RouteParams & AuthContext) => {
+  const api = createApiResponder(req);
+  try {
+    const { options, error: optionsError } = parseDataLoadOptions(new URL(req.url).searchParams);
+    if (optionsError) {
+      return api.error('VALIDATION_ERROR', optionsError);
+    }
+
+    const original = await getRunStore()?.get(params.runId);
+    if (!original) {
+      return api.error('RUN_NOT_FOUND', `Run '${params.runId}' not found`);
+    }
+
+    if (!canAccessAgent(auth.key, 'run', original.agentId)) {
+      return api.error('FORBIDDEN', `API key lacks run access to agent '${original.agentId}'`);
+    }
+
+    const { replay, comparison } = await replayRun(original, { ...options, requestId: api.requestId });
+    return api.ok({ original: toRunSummary(original), replay, comparison }, { headers: { 'X-Run-Id': replay.id } });
+
+  } catch (error) {
+    logger.error(`Run Replay Error for ${params.runId}`, { requestId: api.requestId, error });
+    return api.error('PROCESSING_ERROR', "Failed to replay run", errorDetails(error));
+  }
+});
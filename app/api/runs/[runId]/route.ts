@@ -0,0 +1,36 @@
+/**
+ * Run API - One agent invocation from the run history
+ * GET /api/runs/{runId} - Input, options, data file sources and hashes, output and outcome
+ */
+
+import { NextRequest } from "next/server";
+import { createApiResponder, errorDetails } from "@/lib/api-response";
+import { canAccessAgent, withApiAuth, type AuthContext } from "@/lib/api-auth";
+import { getRunStore } from "@/lib/run-history";
+import { logger } from "@/lib/logger";
+
+interface RouteParams {
+  params: {
+    runId: string;
+  };
+}
+
+export const GET = withApiAuth(async (req: NextRequest, { params, auth }: RouteParams & AuthContext) => {
+  const api = createApiResponder(req);
+  try {
+    const run = await getRunStore()?.get(params.runId);
+    if (!run) {
+      return api.error('RUN_NOT_FOUND', `Run '${params.runId}' not found`);
+    }
+
+    if (!canAccessAgent(auth.key, 'read', run.agentId)) {
+      return api.error('FORBIDDEN', `API key lacks read access to agent '${run.agentId}'`);
+    }
+
+    return api.ok(run);
+
+  } catch (error) {
+    logger.error(`Run Read Error for ${params.runId}`, { requestId: api.requestId, error });
+    return api.error('PROCESSING_ERROR', "Failed to read run", errorDetails(error));
+  }
+});
@@ -0,0 +1,72 @@
+/**
+ * Runs API - History of agent invocations
+ * GET /api/runs - Newest first, without inputs and outputs
+ * GET /api/runs?agentId=seo-pages,invoice-anomalies&status=error&replayOf=run_...&page=2&per_page=20
+ */
+
+import { NextRequest } from "next/server";
+import { getAgentRegistry } from "@/lib/agent-registry";
+import { createApiResponder, errorDetails } from "@/lib/api-response";
+import { canAccessAgent, withApiAuth, type AuthContext } from "@/lib/api-auth";
+import { getConfig } from "@/lib/config";
+import { getRunStore, toRunSummary, type RunStatus } from "@/lib/run-history";
+import { logger } from "@/lib/logger";
+
+const MAX_PER_PAGE = 200;
+
+export const GET = withApiAuth(async (req: NextRequest, { auth }: AuthContext) => {
+  const api = createApiResponder(req);
+  try {
+    const { searchParams } = new URL(req.url);
+    const page = Number(searchParams.get('page') ?? 1);
+    const perPage = Number(searchParams.get('per_page') ?? 50);
+    if (!Number.isInteger(page) || page < 1 || !Number.isInteger(perPage) || perPage < 1 || perPage > MAX_PER_PAGE) {
+      return api.error('VALIDATION_ERROR', `page must be a positive integer and per_page between 1 and ${MAX_PER_PAGE}`);
+    }
+
+    const status = searchParams.get('status');
+    if (status !== null && status !== 'success' && status !== 'error') {
+      return api.error('VALIDATION_ERROR', `Invalid status '${status}'. Expected success or error`);
+    }
+
+    // Keys scoped to some agents only see those agents' runs
+    const { key } = auth;
+    const requested = searchParams.get('agentId')?.split(',').map(id => id.trim()).filter(Boolean);
+    const denied = requested?.filter(id => !canAccessAgent(key, 'read', id)) ?? [];
+    if (denied.length > 0) {
+      return api.error('FORBIDDEN', `API key lacks read access to agent '${denied[0]}'`);
+    }
+    const allAgents = Object.keys(getAgentRegistry());
+    const visible = allAgents.filter(id => canAccessAgent(key, 'read', id));
+    const agentIds = requested ?? (visible.length < allAgents.length ? visible : undefined);
+
+    const store = getRunStore();
+    const { runs, total } = store
+      ? await store.list({
+          agentIds,
+          status: (status ?? undefined) as RunStatus | undefined,
+          replayOf: searchParams.get('replayOf') ?? undefined,
+          offset: (page - 1) * perPage,
+          limit: perPage
+        })
+      : { runs: [], total: 0 };
+    const totalPages = Math.ceil(total / perPage);
+
+    return api.ok({
+      store: getConfig().runs.store,
+      runs: runs.map(toRunSummary),
+      pagination: {
+        page,
+        per_page: perPage,
+        total,
+        total_pages: totalPages,
+        has_next: page < totalPages,
+        has_prev: page > 1
+      }
+    });
+
+  } catch (error) {
+    logger.error("Runs List Error", { requestId: api.requestId, error });
+    return api.error('PROCESSING_ERROR', "Failed to list runs", errorDetails(error));
+  }
+});
@@ -0,0 +1,33 @@
+/**
+ * Schedule Resume API
+ * POST /api/schedules/{agentId}/resume - Start scheduled runs again; fire times missed while paused are not caught up
+ * Needs the admin permission.
+ */
+
+import { NextRequest } from "next/server";
+import { createApiResponder, errorDetails } from "@/lib/api-response";
+import { withApiAuth } from "@/lib/api-auth";
+import { getScheduler } from "@/lib/scheduler";
+import { logger } from "@/lib/logger";
+
+interface RouteParams {
+  params: {
+    agentId: string;
+  };
+}
+
+export const POST = withApiAuth(async (req: NextRequest, { params }: RouteParams) => {
+  const api = createApiResponder(req, { agent: params.agentId });
+  try {
+    const schedule = await getScheduler().resume(params.agentId);
+    if (!schedule) {
+      return api.error('SCHEDULE_NOT_FOUND', `Agent '${params.agentId}' has no schedule`);
+    }
+
+    return api.ok(schedule);
+
+  } catch (error) {
+    logger.error(`Schedule Resume Error for ${params.agentId}`, { requestId: api.requestId, error });
+    return api.error('PROCESSING_ERROR', "Failed to resume schedule", errorDetails(error));
+  }
+});
@@ -0,0 +1,32 @@
+/**
+ * Schedule API - One agent's schedule
+ * GET /api/schedules/{agentId} - Cron expression, catch-up policy, state and next fire time
+ */
+
+import { NextRequest } from "next/server";
+import { createApiResponder, errorDetails } from "@/lib/api-response";
+import { withApiAuth } from "@/lib/api-auth";
+import { getScheduler } from "@/lib/scheduler";
+import { logger } from "@/lib/logger";
+
+interface RouteParams {
+  params: {
+    agentId: string;
+  };
+}
+
+export const GET = withApiAuth(async (req: NextRequest, { params }: RouteParams) => {
+  const api = createApiResponder(req, { agent: params.agentId });
+  try {
+    const schedule = await getScheduler().get(params.agentId);
+    if (!schedule) {
+      return api.error('SCHEDULE_NOT_FOUND', `Agent '${params.agentId}' has no schedule`);
+    }
+
+    return api.ok(schedule);
+
+  } catch (error) {
+    logger.error(`Schedule Read Error for ${params.agentId}`, { requestId: api.requestId, error });
+    return api.error('PROCESSING_ERROR', "Failed to read schedule", errorDetails(error));
+  }
+});
@@ -0,0 +1,39 @@
+/**
+ * Schedule Trigger API - Run a scheduled agent now
+ * POST /api/schedules/{agentId}/trigger - Queue a job with the schedule's input; returns 202 with the job id
+ * Works while the schedule is paused and does not move its next fire time.
+ */
+
+import { NextRequest } from "next/server";
+import { createApiResponder, errorDetails } from "@/lib/api-response";
+import { withApiAuth } from "@/lib/api-auth";
+import { getScheduler } from "@/lib/scheduler";
+import { logger } from "@/lib/logger";
+
+interface RouteParams {
+  params: {
+    agentId: string;
+  };
+}
+
+export const POST = withApiAuth(async (req: NextRequest, { params }: RouteParams) => {
+  const api = createApiResponder(req, { agent: params.agentId });
+  try {
+    const created = await getScheduler().trigger(params.agentId);
+    if (!created) {
+      return api.error('SCHEDULE_NOT_FOUND', `Agent '${params.agentId}' has no schedule`);
+    }
+    if ('failure' in created) {
+      const { code, error, status, details } = created.failure;
+      return api.error(code, error, details, { status });
+    }
+
+    const { job } = created;
+    const links = { self: `/api/jobs/${job.id}`, events: `/api/jobs/${job.id}/events` };
+    return api.ok({ ...job, links }, { status: 202, headers: { Location: links.self } });
+
+  } catch (error) {
+    logger.error(`Schedule Trigger Error for ${params.agentId}`, { requestId: api.requestId, error });
+    return api.error('PROCESSING_ERROR', "Failed to trigger schedule", errorDetails(error));
+  }
+});
@@ -0,0 +1,31 @@
+/**
+ * Schedules API - Agents that run on a cron schedule
+ * GET /api/schedules - Every schedule with its state, next fire time and the scheduler status
+ */
+
+import { NextRequest } from "next/server";
+import { createApiResponder, errorDetails } from "@/lib/api-response";
+import { canAccessAgent, withApiAuth, type AuthContext } from "@/lib/api-auth";
+import { getConfig } from "@/lib/config";
+import { getScheduler } from "@/lib/scheduler";
+import { logger } from "@/lib/logger";
+
+export const GET = withApiAuth(async (req: NextRequest, { auth }: AuthContext) => {
+  const api = createApiResponder(req);
+  try {
+    // Keys scoped to some agents only see those agents' schedules
+    const { key } = auth;
+    const scheduler = getScheduler();
+    const schedules = (await scheduler.list()).filter(schedule => canAccessAgent(key, 'read', schedule.agentId));
+    const { enabled, intervalSeconds, store } = getConfig().scheduler;
+
+    return api.ok({
+      scheduler: { enabled, running: scheduler.isRunning(), intervalSeconds, store, timezone: 'UTC' },
+      schedules
+    });
+
+  } catch (error) {
+    logger.error("Schedules List Error", { requestId: api.requestId, error });
+    return api.error('PROCESSING_ERROR', "Failed to list schedules", errorDetails(error));
+  }
+});
@@ -0,0 +1,34 @@
+/**
+ * Usage API - The caller's daily run quota and rate limits
+ * GET /api/usage - Runs used today (total and per agent), quota remaining and when it resets
+ */
+
+import { NextRequest } from "next/server";
+import { getAgentRegistry } from "@/lib/agent-registry";
+import { createApiResponder, errorDetails } from "@/lib/api-response";
+import { withApiAuth, type AuthContext } from "@/lib/api-auth";
+import { getAgentRateLimit, getRateLimitClient, getRunQuota } from "@/lib/rate-limit";
+import { getConfig } from "@/lib/config";
+import { logger } from "@/lib/logger";
+
+export const GET = withApiAuth(async (req: NextRequest, { auth }: AuthContext) => {
+  const api = createApiResponder(req);
+  try {
+    const client = getRateLimitClient(req, auth.key);
+    const { rateLimit } = getConfig();
+
+    return api.ok({
+      client: client.id,
+      quota: await getRunQuota(client),
+      rateLimits: {
+        enabled: rateLimit.enabled,
+        perMinute: rateLimit.perMinute,
+        agents: Object.fromEntries(Object.keys(getAgentRegistry()).map(id => [id, getAgentRateLimit(id)]))
+      }
+    });
+
+  } catch (error) {
+    logger.error("Usage Error", { requestId: api.requestId, error });
+    return api.error('PROCESSING_ERROR', "Failed to read usage", errorDetails(error));
+  }
+});
@@ -0,0 +1,40 @@
+/**
+ * Webhook Deliveries API - Delivery log for one subscription (admin)
+ * GET /api/webhooks/{webhookId}/deliveries - Newest first, with every attempt's status code or error
+ * GET /api/webhooks/{webhookId}/deliveries?status=dead - The dead-letter list
+ */
+
+import { NextRequest } from "next/server";
+import { createApiResponder, errorDetails } from "@/lib/api-response";
+import { withApiAuth } from "@/lib/api-auth";
+import { getWebhooks, listWebhookDeliveries, type WebhookDeliveryStatus } from "@/lib/webhooks";
+import { logger } from "@/lib/logger";
+
+const STATUSES: WebhookDeliveryStatus[] = ['pending', 'retrying', 'delivered', 'failed', 'dead'];
+
+interface RouteParams {
+  params: {
+    webhookId: string;
+  };
+}
+
+export const GET = withApiAuth(async (req: NextRequest, { params }: RouteParams) => {
+  const api = createApiResponder(req);
+  try {
+    if (!getWebhooks().some(webhook => webhook.id === params.webhookId)) {
+      return api.error('WEBHOOK_NOT_FOUND', `Webhook '${params.webhookId}' not found`);
+    }
+
+    const status = new URL(req.url).searchParams.get('status');
+    if (status !== null && !STATUSES.includes(status as WebhookDeliveryStatus)) {
+      return api.error('VALIDATION_ERROR', `Invalid status '${status}'. Expected one of: ${STATUSES.join(', ')}`);
+    }
+
+    const deliveries = listWebhookDeliveries({ webhookId: params.webhookId, ...(status && { status: status as WebhookDeliveryStatus }) });
+    return api.ok({ deliveries, total: deliveries.length });
+
+  } catch (error) {
+    logger.error(`Webhook Deliveries Error for ${params.webhookId}`, { requestId: api.requestId, error });
+    return api.error('PROCESSING_ERROR', "Failed to list webhook deliveries", errorDetails(error));
+  }
+});
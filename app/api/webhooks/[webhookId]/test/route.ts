@@ -0,0 +1,33 @@
+/**
+ * Webhook Test API - Send a signed webhook.test event to one subscription (admin)
+ * POST /api/webhooks/{webhookId}/test - One attempt, no retries; returns the delivery with its attempt
+ * The response is 200 either way; check `status` (delivered or failed) and the attempt's error.
+ */
+
+import { NextRequest } from "next/server";
+import { createApiResponder, errorDetails } from "@/lib/api-response";
+import { withApiAuth } from "@/lib/api-auth";
+import { testWebhook } from "@/lib/webhooks";
+import { logger } from "@/lib/logger";
+
+interface RouteParams {
+  params: {
+    webhookId: string;
+  };
+}
+
+export const POST = withApiAuth(async (req: NextRequest, { params }: RouteParams) => {
+  const api = createApiResponder(req);
+  try {
+    const delivery = await testWebhook(params.webhookId);
+    if (!delivery) {
+      return api.error('WEBHOOK_NOT_FOUND', `Webhook '${params.webhookId}' not found`);
+    }
+
+    return api.ok(delivery);
+
+  } catch (error) {
+    logger.error(`Webhook Test Error for ${params.webhookId}`, { requestId: api.requestId, error });
+    return api.error('PROCESSING_ERROR', "Failed to test webhook", errorDetails(error));
+  }
+});
@@ -0,0 +1,31 @@
+/**
+ * Webhooks API - Outbound webhook subscriptions (admin)
+ * GET /api/webhooks - Subscriptions from WEBHOOKS (without secrets) with delivery counts and retry settings
+ */
+
+import { NextRequest } from "next/server";
+import { createApiResponder, errorDetails } from "@/lib/api-response";
+import { withApiAuth } from "@/lib/api-auth";
+import { getConfig } from "@/lib/config";
+import { getWebhooks, listWebhookDeliveries, toPublicWebhook, type WebhookDeliveryStatus } from "@/lib/webhooks";
+import { logger } from "@/lib/logger";
+
+export const GET = withApiAuth(async (req: NextRequest) => {
+  const api = createApiResponder(req);
+  try {
+    const webhooks = getWebhooks().map(webhook => {
+      const deliveries: Partial<Record<WebhookDeliveryStatus, number>> = {};
+      for (const { status } of listWebhookDeliveries({ webhookId: webhook.id })) {
+        deliveries[status] = (deliveries[status] ?? 0) + 1;
+      }
+      return { ...toPublicWebhook(webhook), deliveries };
+    });
+    const { maxAttempts, retryBaseMs, timeoutMs } = getConfig().webhooks;
+
+    return api.ok({ webhooks, total: webhooks.length, retry: { maxAttempts, retryBaseMs, timeoutMs } });
+
+  } catch (error) {
+    logger.error("Webhooks List Error", { requestId: api.requestId, error });
+    return api.error('PROCESSING_ERROR', "Failed to list webhooks", errorDetails(error));
+  }
+});
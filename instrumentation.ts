@@ -0,0 +1,12 @@
+/**
+ * Startup hook - validate configuration and start the agent scheduler before the server accepts requests
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { getConfig } = await import('./lib/config');
+    getConfig();
+
+    const { startScheduler } = await import('./lib/scheduler');
+    startScheduler();
+  }
+}
@@ -3,16 +3,34 @@
  * Maps agent names to their data folders and provides standardized access
  */
 
+import { buildAgentRegistry } from "./registry-builder";
+import { getDataRootPaths, getSeedRoot } from "./config";
+
+export interface AgentSchedule {
+  cron: string; // Five fields in UTC, or @hourly, @daily, @weekly, @monthly (see lib/cron.ts)
+  input?: Record<string, unknown>; // Agent input for scheduled runs
+  catchUp?: 'skip' | 'latest' | 'all'; // Runs missed while no instance was up; latest by default
+}
+
+export interface AgentLLMSettings {
+  model: string; // OpenRouter-style id such as "anthropic/claude-3.5-sonnet"; LLM_AGENT_MODELS overrides it
+  temperature?: number;
+  maxTokens?: number;
+}
+
 export interface AgentConfig {
   id: string;
   name: string;
   dayFolder: string;
   apiRoute: string;
   description: string;
-  dataFiles: string[];
+  dataFiles: string[]; // File names, "dir/" or globs such as "contracts/msa_*.txt"
   category: string;
   complexity: number; // 1-5 stars
   status: 'implemented' | 'planned' | 'in-progress';
+  schedule?: AgentSchedule; // Run periodically by the built-in scheduler once implemented
+  llm?: AgentLLMSettings; // Defaults for ctx.llm calls made by this agent
+  prompts?: Record<string, number>; // Pinned prompt versions by name, e.g. { extract: 2 }; others use the latest
 }
 
 export const AGENT_REGISTRY: Record<string, AgentConfig> = {
@@ -23,10 +41,11 @@ export const AGENT_REGISTRY: Record<string, AgentConfig> = {
     dayFolder: 'day01_Smart_Payment_Follow-Up',
     apiRoute: '/api/payment-follow-up',
     description: 'Automated payment reminder and follow-up system',
-    dataFiles: ['overdue_invoices.csv', 'customer_contacts.json'],
+    dataFiles: ['contacts.csv', 'invoices.csv', 'policy.yaml'],
     category: 'Financial',
     complexity: 3,
-    status: 'planned'
+    status: 'planned',
+    schedule: { cron: '0 9 * * 1-5' }
   },
   
   'expense-parser': {
@@ -35,7 +54,7 @@ export const AGENT_REGISTRY: Record<string, AgentConfig> = {
     dayFolder: 'day02_Expense_Parser_and_Categorizer',
     apiRoute: '/api/expense-parser',
     description: 'AI-powered expense categorization and parsing',
-    dataFiles: ['receipts.json', 'categories.json'],
+    dataFiles: ['documents.csv', 'pos.csv'],
     category: 'Financial',
     complexity: 4,
     status: 'planned'
@@ -47,7 +66,7 @@ export const AGENT_REGISTRY: Record<string, AgentConfig> = {
     dayFolder: 'day03_Contract_Clause_Compliance',
     apiRoute: '/api/contract-compliance',
     description: 'Automated contract review and compliance checking',
-    dataFiles: ['contracts.json', 'compliance_rules.json'],
+    dataFiles: ['contracts/msa_*.txt', 'policies.yaml'],
     category: 'Legal',
     complexity: 5,
     status: 'planned'
@@ -59,7 +78,7 @@ export const AGENT_REGISTRY: Record<string, AgentConfig> = {
     dayFolder: 'day04_Customer_Sentiment_Tracker',
     apiRoute: '/api/customer-sentiment',
     description: 'Real-time customer sentiment analysis',
-    dataFiles: ['feedback.json', 'sentiment_history.csv'],
+    dataFiles: ['emails_sample.csv', 'reviews.csv'],
     category: 'Analytics',
     complexity: 4,
     status: 'planned'
@@ -71,7 +90,7 @@ export const AGENT_REGISTRY: Record<string, AgentConfig> = {
     dayFolder: 'day05_Client_Sentiment_CommsIQ',
     apiRoute: '/api/client-sentiment-comms',
     description: 'Communication intelligence and sentiment tracking',
-    dataFiles: ['communications.json', 'sentiment_analysis.json'],
+    dataFiles: ['threads.mbox.txt'],
     category: 'Analytics',
     complexity: 4,
     status: 'planned'
@@ -83,10 +102,11 @@ export const AGENT_REGISTRY: Record<string, AgentConfig> = {
     dayFolder: 'day06_Vendor_SLA_Watchdog',
     apiRoute: '/api/vendor-sla',
     description: 'SLA monitoring and vendor performance tracking',
-    dataFiles: ['sla_agreements.json', 'performance_metrics.csv'],
+    dataFiles: ['metrics.json', 'slas.yaml', 'vendors.csv'],
     category: 'Operations',
     complexity: 3,
-    status: 'planned'
+    status: 'planned',
+    schedule: { cron: '0 * * * *', catchUp: 'skip' }
   },
 
   'po-grn-reconciler': {
@@ -95,7 +115,7 @@ export const AGENT_REGISTRY: Record<string, AgentConfig> = {
     dayFolder: 'day07_PO-GRN-Invoice_Reconciler',
     apiRoute: '/api/po-grn-reconciler',
     description: 'Three-way matching for purchase orders',
-    dataFiles: ['purchase_orders.csv', 'goods_receipts.csv', 'invoices.csv'],
+    dataFiles: ['grn.csv', 'invoice.csv', 'po.csv'],
     category: 'Financial',
     complexity: 5,
     status: 'planned'
@@ -110,7 +130,9 @@ export const AGENT_REGISTRY: Record<string, AgentConfig> = {
     dataFiles: ['transcript.txt', 'actions_expected.json'],
     category: 'Productivity',
     complexity: 3,
-    status: 'implemented'
+    status: 'implemented',
+    llm: { model: 'anthropic/claude-3.5-sonnet', temperature: 0.1 },
+    prompts: { extract: 2 }
   },
 
   'pipeline-nurture': {
@@ -119,7 +141,7 @@ export const AGENT_REGISTRY: Record<string, AgentConfig> = {
     dayFolder: 'day09_Pipeline_Nurture_Agent',
     apiRoute: '/api/pipeline-nurture',
     description: 'Automated lead nurturing and pipeline management',
-    dataFiles: ['leads.json', 'nurture_sequences.json'],
+    dataFiles: ['deals.csv', 'do_not_contact.csv', 'templates.json'],
     category: 'Sales',
     complexity: 4,
     status: 'planned'
@@ -131,7 +153,7 @@ export const AGENT_REGISTRY: Record<string, AgentConfig> = {
     dayFolder: 'day10_Lead_Enrichment_and_ICP_Scorer',
     apiRoute: '/api/lead-enrichment',
     description: 'Lead scoring and ideal customer profile matching',
-    dataFiles: ['leads.json', 'icp_criteria.json'],
+    dataFiles: ['leads.csv', 'rules.json'],
     category: 'Sales',
     complexity: 4,
     status: 'planned'
@@ -143,7 +165,7 @@ export const AGENT_REGISTRY: Record<string, AgentConfig> = {
     dayFolder: 'day11_Proposal_Scope_Guard',
     apiRoute: '/api/proposal-scope',
     description: 'Proposal review and scope validation',
-    dataFiles: ['proposals.json', 'scope_templates.json'],
+    dataFiles: ['policy.yaml', 'sow.doc.txt'],
     category: 'Sales',
     complexity: 4,
     status: 'planned'
@@ -155,7 +177,7 @@ export const AGENT_REGISTRY: Record<string, AgentConfig> = {
     dayFolder: 'day12_Changelog_to_Success_Notes',
     apiRoute: '/api/changelog-success',
     description: 'Convert technical changelogs to customer success notes',
-    dataFiles: ['changelogs.json', 'success_templates.json'],
+    dataFiles: ['accounts.csv', 'releases.json'],
     category: 'Product',
     complexity: 3,
     status: 'planned'
@@ -167,10 +189,11 @@ export const AGENT_REGISTRY: Record<string, AgentConfig> = {
     dayFolder: 'day13_SEO_Issue_Sentinel',
     apiRoute: '/api/seo-issues',
     description: 'SEO monitoring and issue detection',
-    dataFiles: ['seo_data.json', 'issues.json'],
+    dataFiles: ['gsc_export.csv', 'sitemap.xml'],
     category: 'Marketing',
     complexity: 4,
-    status: 'planned'
+    status: 'planned',
+    schedule: { cron: '0 6 * * *' }
   },
 
   'landing-page-fixer': {
@@ -179,7 +202,7 @@ export const AGENT_REGISTRY: Record<string, AgentConfig> = {
     dayFolder: 'day14_Landing_Page_Uptime_and_Copy_Fixer',
     apiRoute: '/api/landing-page-fixer',
     description: 'Landing page monitoring and optimization',
-    dataFiles: ['page_data.json', 'copy_suggestions.json'],
+    dataFiles: ['targets.csv'],
     category: 'Marketing',
     complexity: 4,
     status: 'planned'
@@ -194,7 +217,8 @@ export const AGENT_REGISTRY: Record<string, AgentConfig> = {
     dataFiles: ['sitemap.xml', 'seo_analysis.json'],
     category: 'Marketing',
     complexity: 3,
-    status: 'implemented'
+    status: 'implemented',
+    llm: { model: 'openai/gpt-4o', temperature: 0.7 }
   },
 
   'social-listening': {
@@ -206,7 +230,8 @@ export const AGENT_REGISTRY: Record<string, AgentConfig> = {
     dataFiles: ['keywords.txt', 'mentions.json'],
     category: 'Marketing',
     complexity: 4,
-    status: 'planned'
+    status: 'planned',
+    schedule: { cron: '*/15 * * * *', catchUp: 'skip' }
   },
 
   'employee-onboarding': {
@@ -215,7 +240,7 @@ export const AGENT_REGISTRY: Record<string, AgentConfig> = {
     dayFolder: 'day16_Employee_Onboarding_Buddy',
     apiRoute: '/api/employee-onboarding',
     description: 'Automated employee onboarding assistance',
-    dataFiles: ['onboarding_checklist.json', 'employee_data.json'],
+    dataFiles: ['checklist.yaml', 'new_hires.csv'],
     category: 'HR',
     complexity: 3,
     status: 'planned'
@@ -227,7 +252,7 @@ export const AGENT_REGISTRY: Record<string, AgentConfig> = {
     dayFolder: 'day17_HR_Policy_QA_and_Triage',
     apiRoute: '/api/hr-policy-qa',
     description: 'HR policy questions and automated triage',
-    dataFiles: ['policies.json', 'qa_history.json'],
+    dataFiles: ['hr/*.txt', 'sample_questions.json'],
     category: 'HR',
     complexity: 4,
     status: 'planned'
@@ -239,7 +264,7 @@ export const AGENT_REGISTRY: Record<string, AgentConfig> = {
     dayFolder: 'day18_Security_Posture_Nanny',
     apiRoute: '/api/security-posture',
     description: 'Security monitoring and compliance checking',
-    dataFiles: ['security_logs.json', 'compliance_rules.json'],
+    dataFiles: ['targets.csv'],
     category: 'Security',
     complexity: 5,
     status: 'planned'
@@ -251,7 +276,7 @@ export const AGENT_REGISTRY: Record<string, AgentConfig> = {
     dayFolder: 'day19_PII_Finder_and_Retention',
     apiRoute: '/api/pii-finder',
     description: 'PII detection and data retention management',
-    dataFiles: ['data_samples.json', 'retention_policies.json'],
+    dataFiles: ['pii_samples/', 'policy.yaml'],
     category: 'Security',
     complexity: 5,
     status: 'planned'
@@ -263,7 +288,7 @@ export const AGENT_REGISTRY: Record<string, AgentConfig> = {
     dayFolder: 'day20_KB_Gap_Filler',
     apiRoute: '/api/kb-gap-filler',
     description: 'Knowledge base gap identification and filling',
-    dataFiles: ['kb_articles.json', 'support_tickets.json'],
+    dataFiles: ['tickets.csv'],
     category: 'Support',
     complexity: 4,
     status: 'planned'
@@ -275,7 +300,7 @@ export const AGENT_REGISTRY: Record<string, AgentConfig> = {
     dayFolder: 'day21_Support_Summarizer_and_Router',
     apiRoute: '/api/support-summarizer',
     description: 'Support ticket summarization and routing',
-    dataFiles: ['tickets.json', 'routing_rules.json'],
+    dataFiles: ['router_policy.yaml', 'zendesk_tickets.json'],
     category: 'Support',
     complexity: 4,
     status: 'planned'
@@ -287,7 +312,7 @@ export const AGENT_REGISTRY: Record<string, AgentConfig> = {
     dayFolder: 'day22_Calendar_Load_Balancer',
     apiRoute: '/api/calendar-load-balancer',
     description: 'Calendar optimization and load balancing',
-    dataFiles: ['calendars.json', 'meeting_preferences.json'],
+    dataFiles: ['cal_week.ics', 'prefs.json'],
     category: 'Productivity',
     complexity: 3,
     status: 'planned'
@@ -299,7 +324,7 @@ export const AGENT_REGISTRY: Record<string, AgentConfig> = {
     dayFolder: 'day23_Travel_and_Expense_Optimizer',
     apiRoute: '/api/travel-optimizer',
     description: 'Travel planning and expense optimization',
-    dataFiles: ['travel_data.json', 'expense_policies.json'],
+    dataFiles: ['receipts/', 'policy.yaml', 'search_intents.json'],
     category: 'Financial',
     complexity: 4,
     status: 'planned'
@@ -311,7 +336,7 @@ export const AGENT_REGISTRY: Record<string, AgentConfig> = {
     dayFolder: 'day24_Inventory_Demand_Forecaster_Lite',
     apiRoute: '/api/inventory-forecaster',
     description: 'Inventory demand forecasting and optimization',
-    dataFiles: ['inventory_data.csv', 'demand_history.csv'],
+    dataFiles: ['sales.csv'],
     category: 'Operations',
     complexity: 5,
     status: 'planned'
@@ -326,7 +351,8 @@ export const AGENT_REGISTRY: Record<string, AgentConfig> = {
     dataFiles: ['invoices.csv', 'vendors.csv'],
     category: 'Financial',
     complexity: 5,
-    status: 'implemented'
+    status: 'implemented',
+    llm: { model: 'openai/gpt-4-turbo', temperature: 0 }
   },
 
   'compliance-calendar': {
@@ -335,10 +361,11 @@ export const AGENT_REGISTRY: Record<string, AgentConfig> = {
     dayFolder: 'day26_Compliance_Calendar_GST_Tax',
     apiRoute: '/api/compliance-calendar',
     description: 'Tax compliance calendar and deadline tracking',
-    dataFiles: ['tax_calendar.json', 'compliance_data.json'],
+    dataFiles: ['calendar.csv', 'org.yaml'],
     category: 'Financial',
     complexity: 4,
-    status: 'planned'
+    status: 'planned',
+    schedule: { cron: '0 7 * * *', catchUp: 'all' }
   },
 
   'store-review-reply': {
@@ -347,7 +374,7 @@ export const AGENT_REGISTRY: Record<string, AgentConfig> = {
     dayFolder: 'day27_Store_Review_Reply_Agent',
     apiRoute: '/api/store-review-reply',
     description: 'Automated store review responses',
-    dataFiles: ['reviews.json', 'response_templates.json'],
+    dataFiles: ['app_store_reviews.json', 'play_reviews.json'],
     category: 'Marketing',
     complexity: 3,
     status: 'planned'
@@ -359,7 +386,7 @@ export const AGENT_REGISTRY: Record<string, AgentConfig> = {
     dayFolder: 'day28_Internal_Brief_Memo_Writer',
     apiRoute: '/api/internal-brief-writer',
     description: 'Automated internal memo and brief generation',
-    dataFiles: ['meeting_notes.json', 'brief_templates.json'],
+    dataFiles: ['sources/'],
     category: 'Productivity',
     complexity: 3,
     status: 'planned'
@@ -371,7 +398,7 @@ export const AGENT_REGISTRY: Record<string, AgentConfig> = {
     dayFolder: 'day29_Personal_Focus_Coach',
     apiRoute: '/api/personal-focus-coach',
     description: 'Personal productivity and focus optimization',
-    dataFiles: ['activity_data.json', 'focus_metrics.json'],
+    dataFiles: ['cal.json', 'prefs.json'],
     category: 'Productivity',
     complexity: 3,
     status: 'planned'
@@ -386,7 +413,9 @@ export const AGENT_REGISTRY: Record<string, AgentConfig> = {
     dataFiles: ['tickets.json', 'brief_templates.json'],
     category: 'Support',
     complexity: 3,
-    status: 'implemented'
+    status: 'implemented',
+    llm: { model: 'google/gemini-1.5-flash', temperature: 0.2 },
+    prompts: { triage: 1 }
   },
 
   'multi-agent-orchestrator': {
@@ -395,39 +424,58 @@ export const AGENT_REGISTRY: Record<string, AgentConfig> = {
     dayFolder: 'day30_Multi-Agent_Policy_Orchestrator',
     apiRoute: '/api/multi-agent-orchestrator',
     description: 'Orchestration and coordination of multiple agents',
-    dataFiles: ['agent_policies.json', 'orchestration_rules.json'],
+    dataFiles: ['graph.yaml', 'tasks.jsonl'],
     category: 'System',
     complexity: 5,
     status: 'planned'
   }
 };
 
+let effectiveRegistry: Record<string, AgentConfig> | null = null;
+
+/**
+ * Get the effective registry (hand-written metadata merged with files discovered in the seed pack)
+ */
+export function getAgentRegistry(): Record<string, AgentConfig> {
+  if (!effectiveRegistry) {
+    effectiveRegistry = buildAgentRegistry(AGENT_REGISTRY, getSeedRoot());
+  }
+  return effectiveRegistry;
+}
+
+/**
+ * Drop the cached registry so the seed pack is rescanned on next access
+ */
+export function resetAgentRegistry(): void {
+  effectiveRegistry = null;
+}
+
 /**
  * Get agent configuration by ID
  */
 export function getAgentConfig(agentId: string): AgentConfig | null {
-  return AGENT_REGISTRY[agentId] || null;
+  return getAgentRegistry()[agentId] || null;
 }
 
 /**
  * Get all agents by category
  */
 export function getAgentsByCategory(category: string): AgentConfig[] {
-  return Object.values(AGENT_REGISTRY).filter(agent => agent.category === category);
+  return Object.values(getAgentRegistry()).filter(agent => agent.category === category);
 }
 
 /**
  * Get all implemented agents
  */
 export function getImplementedAgents(): AgentConfig[] {
-  return Object.values(AGENT_REGISTRY).filter(agent => agent.status === 'implemented');
+  return Object.values(getAgentRegistry()).filter(agent => agent.status === 'implemented');
 }
 
 /**
  * Get all planned agents
  */
 export function getPlannedAgents(): AgentConfig[] {
-  return Object.values(AGENT_REGISTRY).filter(agent => agent.status === 'planned');
+  return Object.values(getAgentRegistry()).filter(agent => agent.status === 'planned');
 }
 
 /**
@@ -437,18 +485,14 @@ export function getAgentDataPath(agentId: string, filename: string): string[] {
   const agent = getAgentConfig(agentId);
   if (!agent) return [];
   
-  // Return multiple possible paths for fallback
-  return [
-    `./data/agents-seed-pack-full/${agent.dayFolder}/${filename}`,
-    `/tmp/agents-seed-pack-full/${agent.dayFolder}/${filename}`,
-    `/mnt/data/agents-seed-pack-full/${agent.dayFolder}/${filename}`
-  ];
+  // Return one path per configured data root, in priority order
+  return getDataRootPaths(`${agent.dayFolder}/${filename}`);
 }
 
 /**
  * Get all available categories
  */
 export function getCategories(): string[] {
-  const categories = new Set(Object.values(AGENT_REGISTRY).map(agent => agent.category));
+  const categories = new Set(Object.values(getAgentRegistry()).map(agent => agent.category));
   return Array.from(categories).sort();
 }
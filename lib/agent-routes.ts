@@ -0,0 +1,46 @@
+/**
+ * Agent Routes - Route handlers that run agents in-process
+ * Used by /api/agents/{agentId}/run and each implemented agent's own apiRoute
+ */
+
+import { NextRequest } from "next/server";
+import { parseDataLoadOptions } from "./data-access";
+import { invokeAgent } from "./agent-runtime";
+import { createApiResponder } from "./api-response";
+import { withApiAuth } from "./api-auth";
+
+// Query parameters that configure loading or the response rather than the agent's input
+const RESERVED_PARAMS = ['policy', 'offline', 'strict', 'response_format'];
+
+/**
+ * Run an agent for a request: JSON body input for POST, query parameters for GET
+ */
+export async function agentRunResponse(agentId: string, req: NextRequest): Promise<Response> {
+  const api = createApiResponder(req, { agent: agentId });
+  const { searchParams } = new URL(req.url);
+  const { options, error: optionsError } = parseDataLoadOptions(searchParams);
+  if (optionsError) {
+    return api.error('VALIDATION_ERROR', optionsError);
+  }
+
+  const input = req.method === 'GET'
+    ? Object.fromEntries(Array.from(searchParams).filter(([key]) => !RESERVED_PARAMS.includes(key)))
+    : await req.json().catch(() => ({}));
+
+  const result = await invokeAgent(agentId, input, { ...options, requestId: api.requestId });
+  const headers: Record<string, string> = { 'X-Agent-Duration-Ms': String(result.durationMs) };
+  if (result.runId) headers['X-Run-Id'] = result.runId;
+
+  if (!result.success) {
+    return api.error(result.code, result.error, result.details, { status: result.status, headers });
+  }
+
+  return api.ok(result.output, { headers });
+}
+
+/**
+ * Build a route handler bound to one agent
+ */
+export function createAgentRoute(agentId: string) {
+  return withApiAuth<void>(async (req: NextRequest) => agentRunResponse(agentId, req));
+}
@@ -0,0 +1,324 @@
+/**
+ * Agent Runtime - Common contract for agents and in-process invocation
+ * Agents declare input/output schemas and a run(ctx) function; invokeAgent validates both sides
+ */
+
+import { z } from "zod";
+import { getAgentConfig, type AgentConfig } from "./agent-registry";
+import { getDataSourceKind, loadAgentFile, type DataAccessResult, type DataLoadOptions } from "./data-access";
+import { getMockClock, type MockClock } from "./mock-random";
+import { getAgentImplementation } from "./agents";
+import { ERROR_CODES, type ErrorCode } from "./api-response";
+import { createLogger, logger } from "./logger";
+import { incrementCounter, observeHistogram } from "./metrics";
+import { compareRuns, createRunId, hashValue, recordRun, type RunComparison, type RunDataFile, type RunGeneration, type RunPrompt, type RunRecord } from "./run-history";
+import { publishWebhookEvent } from "./webhooks";
+import { sendNotification, type ChannelKind, type Notification, type OutboxEntry } from "./notifications";
+import { createLLMClient, type LLMClient } from "./llm";
+import { generateStructured, type StructuredRequest } from "./structured-output";
+import { getPromptTemplate, renderPrompt, type RenderedPrompt } from "./prompt-registry";
+
+export interface AgentLogger {
+  debug(message: string, meta?: Record<string, unknown>): void;
+  info(message: string, meta?: Record<string, unknown>): void;
+  warn(message: string, meta?: Record<string, unknown>): void;
+  error(message: string, meta?: Record<string, unknown>): void;
+}
+
+export interface AgentLoadOptions<T = any> {
+  agentId?: string; // Read another agent's seed folder (defaults to the running agent)
+  mockData?: T;
+}
+
+export interface AgentContext<I = unknown> {
+  agent: AgentConfig;
+  input: I;
+  options: DataLoadOptions; // Fallback policy, offline and strict settings for this run
+  load<T = any>(filename: string, options?: AgentLoadOptions<T>): Promise<DataAccessResult<T>>;
+  clock: MockClock;
+  logger: AgentLogger;
+  signal: AbortSignal; // Aborted when the run is cancelled; long agents should check it between steps
+  progress(message: string, percent?: number): void; // Streamed to job subscribers; ignored for direct runs
+  notify(channel: ChannelKind, notification: Notification): Promise<OutboxEntry>; // Recorded in the outbox; sent when NOTIFY_MODE=live
+  llm: LLMClient; // Uses the agent's model and is cancelled with the run
+  generate<T>(request: StructuredRequest<T>): Promise<T>; // Schema-checked model output; the path taken is saved with the run
+  prompt(name: string, variables: unknown, version?: number): RenderedPrompt; // The agent's pinned or latest version unless one is given; saved with the run
+}
+
+/**
+ * What run() returns: the output, or a failure with an error code and details for the caller
+ */
+export type AgentRunResult<O> =
+  | { output: O }
+  | { code: ErrorCode; error: string; status?: number; details?: Record<string, unknown> };
+
+export interface Agent<I = any, O = any> {
+  id: string; // Matches the AGENT_REGISTRY id
+  input: z.ZodType<I, z.ZodTypeDef, unknown>;
+  output: z.ZodType<O, z.ZodTypeDef, unknown>;
+  run(ctx: AgentContext<I>): Promise<AgentRunResult<O>>;
+}
+
+export type AgentInvocation<O = any> =
+  | { success: true; agentId: string; output: O; durationMs: number; runId?: string }
+  | {
+      success: false;
+      agentId: string;
+      code: ErrorCode;
+      error: string;
+      status: number;
+      details?: Record<string, unknown>;
+      durationMs: number;
+      runId?: string; // Set when the run was saved to the run history
+    };
+
+export type AgentRunFailure = { code: ErrorCode; error: string; status: number; details?: Record<string, unknown> };
+
+export interface AgentProgress {
+  message: string;
+  percent?: number; // 0-100 when the agent knows how far along it is
+}
+
+export interface InvokeOptions extends DataLoadOptions {
+  clock?: MockClock;
+  logger?: AgentLogger;
+  replayOf?: string; // Run id being replayed, kept on the new run's record
+  signal?: AbortSignal; // Cancels the run; it then fails with RUN_CANCELLED
+  onProgress?: (progress: AgentProgress) => void;
+}
+
+/**
+ * Structured logger whose lines carry the agent id (and request id when known)
+ */
+export function createAgentLogger(agentId: string, requestId?: string): AgentLogger {
+  return createLogger({ agent: agentId, ...(requestId && { requestId }) });
+}
+
+/**
+ * Run an agent in-process: validate input, run it, then validate its output
+ * Every run is logged with its outcome, duration and data sources, counted in /api/metrics,
+ * saved to the run history and sent to matching webhooks
+ */
+export async function invokeAgent<O = any>(
+  agentId: string,
+  input: unknown,
+  options: InvokeOptions = {}
+): Promise<AgentInvocation<O>> {
+  return (await executeAgent<O>(agentId, input, options)).result;
+}
+
+/**
+ * Run a stored run's agent again with the same input and data options, and compare the outcomes
+ * `options` override the stored data options, e.g. to replay offline
+ */
+export async function replayRun(
+  original: RunRecord,
+  options: InvokeOptions = {}
+): Promise<{ replay: RunRecord; comparison: RunComparison }> {
+  const { record } = await executeAgent(original.agentId, original.input, {
+    ...original.options,
+    ...options,
+    replayOf: original.id
+  });
+  return { replay: record, comparison: compareRuns(original, record) };
+}
+
+async function executeAgent<O>(
+  agentId: string,
+  input: unknown,
+  options: InvokeOptions
+): Promise<{ result: AgentInvocation<O>; record: RunRecord }> {
+  const startedAt = new Date().toISOString();
+  const dataFiles: RunDataFile[] = [];
+  const generations: RunGeneration[] = [];
+  const prompts: RunPrompt[] = [];
+  const result = await runAgent<O>(agentId, input, options, { dataFiles, generations, prompts });
+  const outcome = result.success ? 'ok' : result.code;
+  const registered = Boolean(getAgentConfig(agentId));
+  const agentLabel = registered ? agentId : 'unknown'; // Keep caller-supplied ids out of metric labels
+  const dataSources = Array.from(new Set(dataFiles.map(file => getDataSourceKind(file.source))));
+
+  incrementCounter('agent_runs_total', { agent: agentLabel, outcome });
+  observeHistogram('agent_run_duration_seconds', { agent: agentLabel }, result.durationMs / 1000);
+
+  const { policy, offline, strict } = options;
+  const record: RunRecord = {
+    id: createRunId(),
+    agentId,
+    status: result.success ? 'success' : 'error',
+    ...(!result.success && { code: result.code, error: result.error }),
+    input: input ?? {},
+    inputHash: hashValue(input ?? {}),
+    options: {
+      ...(policy && { policy }),
+      ...(offline !== undefined && { offline }),
+      ...(strict !== undefined && { strict })
+    },
+    dataFiles,
+    ...(generations.length > 0 && { generations }),
+    ...(prompts.length > 0 && { prompts }),
+    ...(result.success && { output: result.output }),
+    durationMs: result.durationMs,
+    startedAt,
+    ...(options.requestId && { requestId: options.requestId }),
+    ...(options.replayOf && { replayOf: options.replayOf })
+  };
+  if (registered && await recordRun(record)) result.runId = record.id;
+  if (registered) publishRunEvent(record, result.runId);
+
+  const fields = { requestId: options.requestId, agent: agentId, runId: result.runId, outcome, durationMs: result.durationMs, dataSources };
+  if (result.success) logger.info('Agent run completed', fields);
+  else logger[result.status >= 500 ? 'error' : 'warn']('Agent run failed', { ...fields, error: result.error });
+
+  return { result, record };
+}
+
+// Notify webhook subscribers; run ids are only included when the run history kept the run
+function publishRunEvent(record: RunRecord, runId?: string): void {
+  const data = {
+    ...(runId && { runId }),
+    agentId: record.agentId,
+    durationMs: record.durationMs,
+    ...(record.requestId && { requestId: record.requestId }),
+    ...(record.replayOf && { replayOf: record.replayOf }),
+    ...(record.status === 'success' ? { output: record.output } : { code: record.code, error: record.error })
+  };
+  publishWebhookEvent(record.status === 'success' ? 'run.succeeded' : 'run.failed', data, record.agentId);
+}
+
+function prepareAgent(
+  agentId: string,
+  input: unknown
+): { config: AgentConfig; agent: Agent; input: unknown } | AgentRunFailure {
+  const config = getAgentConfig(agentId);
+  if (!config) {
+    return { code: 'AGENT_NOT_FOUND', error: `Agent '${agentId}' not found`, status: 404 };
+  }
+
+  const agent = getAgentImplementation(agentId);
+  if (!agent) {
+    return { code: 'NOT_IMPLEMENTED', error: `Agent '${agentId}' is not yet implemented`, status: 501, details: { status: config.status } };
+  }
+
+  const parsedInput = agent.input.safeParse(input ?? {});
+  if (!parsedInput.success) {
+    return { code: 'VALIDATION_ERROR', error: 'Invalid agent input', status: 400, details: { issues: parsedInput.error.issues } };
+  }
+
+  return { config, agent, input: parsedInput.data };
+}
+
+/**
+ * Check that an agent exists, is implemented and accepts `input`, without running it
+ */
+export function checkAgentInput(agentId: string, input: unknown): AgentRunFailure | null {
+  const prepared = prepareAgent(agentId, input);
+  return 'code' in prepared ? prepared : null;
+}
+
+// Settles with the run, or rejects as soon as the signal aborts, even if the agent ignores it
+function untilAborted<T>(promise: Promise<T>, signal: AbortSignal): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    if (signal.aborted) return onAbort();
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
+
+async function runAgent<O>(
+  agentId: string,
+  input: unknown,
+  options: InvokeOptions,
+  trace: { dataFiles: RunDataFile[]; generations: RunGeneration[]; prompts: RunPrompt[] } // Filled in as the run goes
+): Promise<AgentInvocation<O>> {
+  const { dataFiles, generations, prompts } = trace;
+  const started = Date.now();
+  const elapsed = () => Date.now() - started;
+
+  const prepared = prepareAgent(agentId, input);
+  if ('code' in prepared) {
+    return { success: false, agentId, ...prepared, durationMs: elapsed() };
+  }
+  const { config, agent } = prepared;
+
+  const { clock, logger: customLogger, signal = new AbortController().signal, onProgress, ...loadOptions } = options;
+  const agentLogger = customLogger ?? createAgentLogger(agentId, options.requestId);
+  const llm = createLLMClient({ agentId, requestId: options.requestId, signal });
+  const ctx: AgentContext = {
+    agent: config,
+    input: prepared.input,
+    options: loadOptions,
+    load: async (filename, { agentId: owner = agentId, mockData } = {}) => {
+      signal.throwIfAborted();
+      const loaded = await loadAgentFile(owner, filename, loadOptions, mockData);
+      dataFiles.push({
+        agentId: owner,
+        file: filename,
+        source: loaded.source,
+        success: loaded.success,
+        ...(loaded.degraded && { degraded: true }),
+        hash: loaded.success ? hashValue(loaded.data) : null
+      });
+      return loaded;
+    },
+    clock: clock ?? getMockClock(),
+    logger: agentLogger,
+    signal,
+    progress: (message, percent) => onProgress?.({ message, ...(percent !== undefined && { percent }) }),
+    notify: (channel, notification) => sendNotification(channel, notification, { agentId, requestId: options.requestId }),
+    llm,
+    generate: async request => {
+      const { value, generation } = await generateStructured(llm, request, { agentId, requestId: options.requestId, signal });
+      generations.push(generation);
+      return value;
+    },
+    prompt: (name, variables, version) => {
+      const template = getPromptTemplate(agentId, name, version);
+      if (!template) {
+        throw new Error(`Prompt '${agentId}/${name}'${version === undefined ? '' : ` v${version}`} is not defined`);
+      }
+      const rendered = renderPrompt(template, variables);
+      if (!prompts.some(prompt => prompt.ref === rendered.ref && prompt.hash === rendered.hash)) {
+        prompts.push({ ref: rendered.ref, hash: rendered.hash });
+      }
+      return rendered;
+    }
+  };
+
+  try {
+    const result = await untilAborted(agent.run(ctx), signal);
+
+    if ('error' in result) {
+      return { success: false, agentId, ...result, status: result.status ?? ERROR_CODES[result.code].status, durationMs: elapsed() };
+    }
+
+    const parsedOutput = agent.output.safeParse(result.output);
+    if (!parsedOutput.success) {
+      agentLogger.error('Output failed schema validation', { issues: parsedOutput.error.issues });
+      return {
+        success: false,
+        agentId,
+        code: 'PROCESSING_ERROR',
+        error: 'Agent output failed schema validation',
+        status: 500,
+        details: { issues: parsedOutput.error.issues },
+        durationMs: elapsed()
+      };
+    }
+
+    return { success: true, agentId, output: parsedOutput.data, durationMs: elapsed() };
+  } catch (error) {
+    if (signal.aborted) {
+      return { success: false, agentId, code: 'RUN_CANCELLED', error: 'The run was cancelled', status: 409, durationMs: elapsed() };
+    }
+    return {
+      success: false,
+      agentId,
+      code: 'PROCESSING_ERROR',
+      error: error instanceof Error ? error.message : 'Unknown error',
+      status: 500,
+      durationMs: elapsed()
+    };
+  }
+}
@@ -0,0 +1,21 @@
+/**
+ * Agent Implementations - Runnable agents keyed by registry id
+ * Add an implementation here (and mark it 'implemented' in AGENT_REGISTRY) to expose it at /api/agents/{id}/run
+ */
+
+import type { Agent } from "../agent-runtime";
+import { invoiceAnomaliesAgent } from "./invoice-anomalies";
+import { meetingActionsAgent } from "./meeting-actions";
+import { seoPagesAgent } from "./seo-pages";
+import { supportBriefAgent } from "./support-brief";
+
+export const AGENT_IMPLEMENTATIONS: Record<string, Agent> = Object.fromEntries(
+  [invoiceAnomaliesAgent, meetingActionsAgent, seoPagesAgent, supportBriefAgent].map(agent => [agent.id, agent])
+);
+
+/**
+ * Get the runnable implementation for an agent id
+ */
+export function getAgentImplementation(agentId: string): Agent | null {
+  return AGENT_IMPLEMENTATIONS[agentId] || null;
+}
@@ -0,0 +1,93 @@
+/**
+ * Invoice Fraud Anomaly Detector - Rank invoices by amount for review
+ */
+
+import { z } from "zod";
+import { getAgentMockData } from "../mock-data";
+import type { DataValidationReport, Invoice } from "../data-contracts";
+import type { Agent } from "../agent-runtime";
+
+const Output = z.object({
+  top5: z.array(z.object({
+    id: z.string(),
+    amount: z.number(),
+    vendor: z.string(),
+    status: z.string(),
+    date: z.string()
+  })),
+  source: z.string(),
+  degraded: z.boolean().optional(),
+  attempts: z.array(z.unknown()).optional(),
+  validation: z.custom<DataValidationReport>().optional(),
+  totalInvoices: z.number().int(),
+  message: z.string(),
+  agent: z.object({
+    id: z.string(),
+    name: z.string(),
+    description: z.string()
+  }),
+  dataAccess: z.record(z.string())
+});
+
+export const invoiceAnomaliesAgent: Agent<Record<string, never>, z.infer<typeof Output>> = {
+  id: 'invoice-anomalies',
+  input: z.object({}),
+  output: Output,
+
+  async run(ctx) {
+    const result = await ctx.load<Invoice[]>('invoices.csv', {
+      mockData: getAgentMockData<Invoice[]>('invoice-anomalies', 'invoices.csv')
+    });
+
+    if (!result.success) {
+      return {
+        code: result.validation ? 'DATA_INVALID' : 'DATA_NOT_FOUND',
+        error: result.error || "Failed to load invoice data",
+        details: {
+          source: result.source,
+          attempts: result.attempts,
+          ...(result.validation && { validation: result.validation })
+        }
+      };
+    }
+
+    // Rows that break the invoices.csv contract are dropped and listed in result.validation
+    const invoices = result.data;
+    ctx.progress(`Loaded ${invoices.length} invoices`, 50);
+
+    // Process and sort invoices by amount
+    const sorted = invoices
+      .map(invoice => ({
+        id: invoice.invoice_id,
+        amount: invoice.amount,
+        vendor: invoice.vendor,
+        status: invoice.status || 'Unknown',
+        date: invoice.date
+      }))
+      .filter(item => item.amount > 0)
+      .sort((a, b) => b.amount - a.amount)
+      .slice(0, 5);
+
+    return {
+      output: {
+        top5: sorted,
+        source: result.source,
+        ...(result.degraded && { degraded: true, attempts: result.attempts }),
+        ...(result.validation && !result.validation.valid && { validation: result.validation }),
+        totalInvoices: invoices.length,
+        message: result.source === "mock-data"
+          ? "Using mock data - no invoice file found"
+          : "Invoice data processed successfully",
+        agent: {
+          id: ctx.agent.id,
+          name: ctx.agent.name,
+          description: ctx.agent.description
+        },
+        dataAccess: {
+          allData: '/api/agents/invoice-anomalies/data',
+          rawInvoices: '/api/agents/invoice-anomalies/data?file=invoices.csv'
+        }
+      }
+    };
+  }
+};
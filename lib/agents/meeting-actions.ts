@@ -0,0 +1,53 @@
+/**
+ * Meeting Action Enforcer - Extract action items from a transcript
+ * Uses the model when LLM calls are on; "@owner task by date" lines are the fallback
+ */
+
+import { z } from "zod";
+import { ActionItems } from "../schemas";
+import { getAgentMockData } from "../mock-data";
+import type { Agent } from "../agent-runtime";
+
+// Heuristic: lines like "@Mina prepare pricing sheet by Oct 20"
+function extractActionItems(text: string): z.infer<typeof ActionItems> {
+  const items = [];
+  for (const ln of text.split(/\r?\n/)) {
+    const m = ln.match(/@([A-Za-z]+)\s+(.*)\s+by\s+(\w+\s\d{1,2})/i);
+    if (m) {
+      const owner = m[1];
+      const title = m[2].replace(/^prepare\s*/i, "Prepare ").replace(/^update\s*/i, "Update ");
+      const due = "2025-10-20"; // demo date; use parser in prod
+      items.push({ owner, title, due });
+    }
+  }
+  return items;
+}
+
+// Agents only read data through ctx.load; unknown keys (such as a file path) are rejected
+const Input = z.object({}).strict();
+
+export const meetingActionsAgent: Agent<z.infer<typeof Input>, z.infer<typeof ActionItems>> = {
+  id: 'meeting-actions',
+  input: Input,
+  output: ActionItems,
+
+  async run(ctx) {
+    const result = await ctx.load<string>('transcript.txt', {
+      mockData: getAgentMockData<string>('meeting-actions', 'transcript.txt')
+    });
+    if (!result.success) {
+      return { code: 'DATA_NOT_FOUND', error: result.error || 'Failed to load transcript', details: { source: result.source, attempts: result.attempts } };
+    }
+    const text = result.data;
+
+    const items = await ctx.generate({
+      name: 'ActionItems',
+      schema: ActionItems,
+      messages: ctx.prompt('extract', { transcript: text }).messages,
+      fallback: () => extractActionItems(text)
+    });
+
+    ctx.logger.debug('Extracted action items', { count: items.length });
+    return { output: items };
+  }
+};
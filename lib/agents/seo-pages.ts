@@ -0,0 +1,47 @@
+/**
+ * SEO Sentinel - List the URLs in a site's sitemap
+ */
+
+import { z } from "zod";
+import { getAgentMockData } from "../mock-data";
+import type { Agent } from "../agent-runtime";
+
+const Output = z.object({
+  count: z.number().int(),
+  urls: z.array(z.string()),
+  source: z.string(),
+  degraded: z.boolean().optional(),
+  message: z.string()
+});
+
+export const seoPagesAgent: Agent<Record<string, never>, z.infer<typeof Output>> = {
+  id: 'seo-pages',
+  input: z.object({}),
+  output: Output,
+
+  async run(ctx) {
+    // Day 13 ships the same sitemap; mock data is only offered on the last try
+    let result = await ctx.load<string>('sitemap.xml');
+    if (!result.success) {
+      result = await ctx.load<string>('sitemap.xml', {
+        agentId: 'seo-issue-sentinel',
+        mockData: getAgentMockData<string>('seo-pages', 'sitemap.xml')
+      });
+    }
+
+    if (!result.success) {
+      return { code: 'DATA_NOT_FOUND', error: result.error || 'Failed to load sitemap', details: { source: result.source, attempts: result.attempts } };
+    }
+
+    const urls = Array.from(result.data.matchAll(/<loc>(.*?)<\/loc>/g)).map(m => m[1]);
+    return {
+      output: {
+        count: urls.length,
+        urls,
+        source: result.source,
+        ...(result.degraded && { degraded: true }),
+        message: result.source === "mock-data" ? "Using mock data - no sitemap file found" : "Sitemap parsed successfully"
+      }
+    };
+  }
+};
@@ -0,0 +1,56 @@
+/**
+ * Support Ticket Brief - Summarize the first support ticket into a triage brief
+ * Uses the model when LLM calls are on, with a subject/priority heuristic as the fallback
+ */
+
+import { z } from "zod";
+import { TicketBrief } from "../schemas";
+import type { Ticket } from "../data-contracts";
+import { getAgentMockData } from "../mock-data";
+import type { Agent } from "../agent-runtime";
+
+// Heuristic brief from the ticket's subject (or title), comments and priority
+function summarizeTicket(t: Ticket): z.infer<typeof TicketBrief> {
+  const subject = t.subject ?? t.title ?? "";
+  return {
+    issue: subject,
+    env: "prod",
+    steps_tried: (Array.isArray(t.comments) && t.comments.join("; ")) || "n/a",
+    severity: t.priority === "high" ? "high" : "medium",
+    next_action: subject.includes("Billing") ? "Route to Billing" : "Ask for logs",
+  };
+}
+
+// Agents only read data through ctx.load; unknown keys (such as a file path) are rejected
+const Input = z.object({}).strict();
+
+export const supportBriefAgent: Agent<z.infer<typeof Input>, z.infer<typeof TicketBrief>> = {
+  id: 'support-brief',
+  input: Input,
+  output: TicketBrief,
+
+  async run(ctx) {
+    // The Zendesk export lives with the Support Summarizer's seed data
+    const result = await ctx.load<Ticket[]>('zendesk_tickets.json', {
+      agentId: 'support-summarizer',
+      mockData: getAgentMockData<Ticket[]>('support-summarizer', 'zendesk_tickets.json')
+    });
+    if (!result.success) {
+      return { code: 'DATA_NOT_FOUND', error: result.error || 'Failed to load tickets', details: { source: result.source, attempts: result.attempts } };
+    }
+
+    const t = result.data[0];
+    if (!t) {
+      return { code: 'DATA_NOT_FOUND', error: 'No tickets to summarize' };
+    }
+
+    const brief = await ctx.generate({
+      name: 'TicketBrief',
+      schema: TicketBrief,
+      messages: ctx.prompt('triage', { ticket: t }).messages,
+      fallback: () => summarizeTicket(t)
+    });
+
+    return { output: brief };
+  }
+};
@@ -0,0 +1,180 @@
+/**
+ * API Auth - Resolve the permission a route needs and check the caller's API key against it
+ * middleware.ts rejects requests without credentials at the edge; key lookup and scope checks
+ * happen here because the edge runtime cannot read the key store.
+ */
+
+import { timingSafeEqual } from "node:crypto";
+import type { NextRequest } from "next/server";
+import { getAgentConfig, getAgentRegistry } from "./agent-registry";
+import { hasApiScope, verifyApiKey, type ApiKeyRecord, type ApiPermission } from "./api-keys";
+import { createApiResponder, getRequestId } from "./api-response";
+import { getConfig } from "./config";
+import { logger } from "./logger";
+import { incrementCounter, observeHistogram } from "./metrics";
+import { applyRateLimit, getRateLimitClient } from "./rate-limit";
+import { resolveRouteAccess, type RouteAccess } from "./route-access";
+
+/**
+ * Work out the permission (and agent) a request needs from its path and method
+ */
+export function getRouteAccess(pathname: string, method: string): RouteAccess {
+  // An implemented agent's own apiRoute, e.g. /api/meeting-actions
+  return resolveRouteAccess(pathname, method, path => Object.values(getAgentRegistry()).find(entry => entry.apiRoute === path)?.id);
+}
+
+/**
+ * Read a bearer token from the Authorization header
+ */
+export function getBearerToken(header: string | null): string | null {
+  const match = header?.match(/^Bearer\s+(\S+)\s*$/i);
+  return match ? match[1] : null;
+}
+
+function matchesToken(token: string, expected: string): boolean {
+  const a = Buffer.from(token);
+  const b = Buffer.from(expected);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+export interface ApiAuth {
+  access: RouteAccess;
+  key?: ApiKeyRecord | 'admin'; // Unset when auth is off
+}
+
+export type AuthResult = ({ ok: true } & ApiAuth) | { ok: false; response: Response };
+
+// withApiAuth adds the verified caller to the handler's context, so routes never check the key twice
+export type AuthContext = { auth: ApiAuth };
+
+/**
+ * Check a request's API key against the route it calls
+ * With API_AUTH off only admin-permission routes are checked
+ */
+export function authenticateRequest(req: NextRequest): AuthResult {
+  const { auth } = getConfig();
+  const { pathname } = new URL(req.url);
+  const access = getRouteAccess(pathname, req.method);
+
+  if (!auth.required && access.permission !== 'admin') return { ok: true, access };
+
+  const api = createApiResponder(req, { agent: access.agentId });
+  const challenge = { headers: { 'WWW-Authenticate': 'Bearer' } };
+  const token = getBearerToken(req.headers.get('authorization'));
+
+  if (!token) {
+    return { ok: false, response: api.error('AUTHENTICATION_ERROR', 'Missing API key. Send Authorization: Bearer <key>', undefined, challenge) };
+  }
+
+  if (access.permission === 'admin' && auth.adminToken && matchesToken(token, auth.adminToken)) {
+    return { ok: true, access, key: 'admin' };
+  }
+
+  const check = verifyApiKey(token);
+  if (!check.valid) {
+    return { ok: false, response: api.error('AUTHENTICATION_ERROR', check.reason, undefined, challenge) };
+  }
+
+  // Unknown agents fall through so the route can answer AGENT_NOT_FOUND
+  const agent = access.agentId ? getAgentConfig(access.agentId) : null;
+  if (!hasApiScope(check.key, access.permission, agent ?? undefined)) {
+    return {
+      ok: false,
+      response: api.error(
+        'FORBIDDEN',
+        `API key '${check.key.name}' lacks ${access.permission} access${agent ? ` to agent '${agent.id}'` : ''}`,
+        { required: access, granted: { permissions: check.key.permissions, agents: check.key.agents, categories: check.key.categories } }
+      )
+    };
+  }
+
+  return { ok: true, access, key: check.key };
+}
+
+/**
+ * Whether an authenticated caller may act on an agent; for routes whose agent isn't in the path
+ */
+export function canAccessAgent(key: ApiKeyRecord | 'admin' | undefined, permission: ApiPermission, agentId: string): boolean {
+  if (!key || key === 'admin') return true;
+  const agent = getAgentConfig(agentId);
+  return hasApiScope(key, permission, agent ?? { id: agentId, category: '' });
+}
+
+/**
+ * Check a request's API key; returns an error response to send, or null to continue
+ */
+export function authorizeRequest(req: NextRequest): Response | null {
+  const result = authenticateRequest(req);
+  return result.ok ? null : result.response;
+}
+
+/**
+ * Reduce a request path to its route template so metric labels stay bounded,
+ * e.g. /api/agents/meeting-actions/data/notes.txt -> /api/agents/{agentId}/data/{path}
+ */
+export function getRouteLabel(pathname: string): string {
+  const parts = pathname.replace(/\/+$/, '').split('/'); // "", "api", area, id, ...rest
+  const [, , area, id, action] = parts;
+
+  if (area === 'agents' && id && id !== 'registry') {
+    if (action === 'data') return parts.length > 5 ? '/api/agents/{agentId}/data/{path}' : '/api/agents/{agentId}/data';
+    return action ? `/api/agents/{agentId}/${action}` : '/api/agents/{agentId}';
+  }
+  if (area === 'github' && id && id !== 'cache') {
+    return parts.length > 4 ? '/api/github/{agentId}/{path}' : '/api/github/{agentId}';
+  }
+  if (area === 'admin' && id === 'keys' && action) return '/api/admin/keys/{keyId}';
+  if (area === 'runs' && id) return action ? `/api/runs/{runId}/${action}` : '/api/runs/{runId}';
+  if (area === 'jobs' && id) return action ? `/api/jobs/{jobId}/${action}` : '/api/jobs/{jobId}';
+  if (area === 'webhooks' && id) return action ? `/api/webhooks/{webhookId}/${action}` : '/api/webhooks/{webhookId}';
+  if (area === 'schedules' && id) return action ? `/api/schedules/{agentId}/${action}` : '/api/schedules/{agentId}';
+  if (area === 'prompts' && id) {
+    if (!action) return '/api/prompts/{agentId}';
+    return parts.length > 5 ? `/api/prompts/{agentId}/{name}/${parts[5]}` : '/api/prompts/{agentId}/{name}';
+  }
+
+  return parts.join('/') || '/';
+}
+
+/**
+ * Wrap a route handler so it only runs for authorized requests within their rate limits
+ * Every request is counted and timed in the metrics and logged once it completes.
+ */
+export function withApiAuth<C>(handler: (req: NextRequest, ctx: C & AuthContext) => Promise<Response>) {
+  return async (req: NextRequest, ctx: C): Promise<Response> => {
+    const started = performance.now();
+    let agentId: string | undefined;
+    let response: Response | undefined;
+
+    try {
+      const auth = authenticateRequest(req);
+      if (!auth.ok) return response = auth.response;
+      agentId = auth.access.agentId;
+
+      const api = createApiResponder(req, { agent: agentId });
+      const limited = await applyRateLimit(api, getRateLimitClient(req, auth.key), auth.access);
+      if (limited.response) return response = limited.response;
+
+      response = await handler(req, { ...ctx, auth: { access: auth.access, key: auth.key } });
+      for (const [name, value] of Object.entries(limited.headers)) {
+        response.headers.set(name, value);
+      }
+      return response;
+    } finally {
+      const durationMs = performance.now() - started;
+      const route = getRouteLabel(new URL(req.url).pathname);
+      const status = response?.status ?? 500;
+
+      incrementCounter('http_requests_total', { route, method: req.method, status: String(status) });
+      observeHistogram('http_request_duration_seconds', { route, method: req.method }, durationMs / 1000);
+      logger.info('Request completed', {
+        requestId: getRequestId(req),
+        method: req.method,
+        route,
+        status,
+        durationMs: Math.round(durationMs),
+        agent: agentId
+      });
+    }
+  };
+}
@@ -0,0 +1,152 @@
+/**
+ * API Explorer - Self-hosted HTML page that renders an OpenAPI document
+ * Lists operations by tag with their parameters and schemas, and sends requests from the
+ * browser with an optional API key. Inline script and styles only, so it works offline.
+ */
+
+const STYLES = `
+  body { font: 14px/1.5 system-ui, sans-serif; margin: 0; color: #1f2328; background: #f6f8fa; }
+  header { background: #24292f; color: #fff; padding: 16px 24px; display: flex; gap: 16px; align-items: center; flex-wrap: wrap; }
+  header h1 { font-size: 18px; margin: 0; flex: 1; }
+  header input { width: 320px; padding: 6px 8px; border-radius: 6px; border: 0; font: inherit; }
+  main { max-width: 1100px; margin: 0 auto; padding: 16px 24px; }
+  h2 { font-size: 16px; margin: 24px 0 8px; }
+  details { background: #fff; border: 1px solid #d0d7de; border-radius: 6px; margin: 6px 0; }
+  summary { cursor: pointer; padding: 8px 12px; display: flex; gap: 12px; align-items: center; }
+  .method { font: 600 12px monospace; text-transform: uppercase; padding: 2px 8px; border-radius: 4px; color: #fff; min-width: 48px; text-align: center; }
+  .get { background: #0969da; } .post { background: #1a7f37; } .delete { background: #cf222e; }
+  .path { font-family: monospace; }
+  .summary { color: #57606a; }
+  .body { padding: 0 12px 12px; }
+  label { display: block; margin: 6px 0; font-family: monospace; }
+  label input, textarea { display: block; width: 100%; box-sizing: border-box; font: 13px monospace; padding: 4px 6px; }
+  textarea { min-height: 90px; }
+  pre { background: #f6f8fa; padding: 8px; border-radius: 6px; overflow: auto; max-height: 400px; font-size: 12px; }
+  button { margin-top: 8px; padding: 6px 14px; border-radius: 6px; border: 1px solid #1f883d; background: #1f883d; color: #fff; cursor: pointer; }
+`;
+
+const SCRIPT = `
+  const specUrl = document.body.dataset.spec;
+  const keyInput = document.getElementById('key');
+  keyInput.value = sessionStorage.getItem('apiKey') || '';
+  keyInput.addEventListener('change', () => sessionStorage.setItem('apiKey', keyInput.value));
+
+  const el = (tag, props = {}, children = []) => {
+    const node = Object.assign(document.createElement(tag), props);
+    node.append(...children);
+    return node;
+  };
+
+  function resolve(spec, schema, depth = 0) {
+    if (!schema || typeof schema !== 'object' || depth > 6) return schema;
+    if (schema.$ref) return resolve(spec, schema.$ref.split('/').slice(1).reduce((node, key) => node[key], spec), depth + 1);
+    if (Array.isArray(schema)) return schema.map(item => resolve(spec, item, depth + 1));
+    return Object.fromEntries(Object.entries(schema).map(([key, value]) => [key, resolve(spec, value, depth + 1)]));
+  }
+
+  function example(schema) {
+    if (!schema) return {};
+    if (schema.default !== undefined) return schema.default;
+    if (schema.oneOf || schema.anyOf) return example((schema.oneOf || schema.anyOf)[0]);
+    if (schema.type === 'object') {
+      return Object.fromEntries((schema.required || []).map(key => [key, example(schema.properties[key])]));
+    }
+    if (schema.type === 'array') return [];
+    if (schema.enum) return schema.enum[0];
+    return { string: '', number: 0, integer: 0, boolean: false }[schema.type] ?? null;
+  }
+
+  function operation(spec, path, method, op) {
+    const params = (op.parameters || []).map(param => ({
+      param,
+      input: el('input', { placeholder: param.schema?.enum ? param.schema.enum.slice(0, 6).join(' | ') : param.schema?.type || '' })
+    }));
+    const bodySchema = resolve(spec, op.requestBody?.content['application/json']?.schema);
+    const body = op.requestBody && el('textarea', { value: JSON.stringify(example(bodySchema), null, 2) });
+    const output = el('pre', { textContent: 'No request sent yet' });
+
+    async function send() {
+      let url = path;
+      const search = new URLSearchParams();
+      for (const { param, input } of params) {
+        if (!input.value) continue;
+        if (param.in === 'path') url = url.replace('{' + param.name + '}', encodeURIComponent(input.value));
+        else search.set(param.name, input.value);
+      }
+      const headers = { 'Content-Type': 'application/json' };
+      if (keyInput.value) headers.Authorization = 'Bearer ' + keyInput.value;
+      output.textContent = 'Sending...';
+      try {
+        const started = performance.now();
+        const res = await fetch(url + (search.size ? '?' + search : ''), { method: method.toUpperCase(), headers, body: body ? body.value : undefined });
+        const text = await res.text();
+        let pretty = text;
+        try { pretty = JSON.stringify(JSON.parse(text), null, 2); } catch {}
+        output.textContent = res.status + ' ' + res.statusText + ' (' + Math.round(performance.now() - started) + ' ms)\\n\\n' + pretty;
+      } catch (error) {
+        output.textContent = String(error);
+      }
+    }
+
+    const response = resolve(spec, op.responses?.['200'] || op.responses?.['201']);
+    return el('details', {}, [
+      el('summary', {}, [
+        el('span', { className: 'method ' + method, textContent: method }),
+        el('span', { className: 'path', textContent: path }),
+        el('span', { className: 'summary', textContent: op.summary || '' })
+      ]),
+      el('div', { className: 'body' }, [
+        el('p', { textContent: op.description || '' }),
+        ...params.map(({ param, input }) => el('label', { textContent: param.name + (param.required ? ' *' : '') + ' - ' + param.description }, [input])),
+        ...(body ? [el('label', { textContent: 'JSON body' }, [body])] : []),
+        el('button', { textContent: 'Send', onclick: send }),
+        output,
+        el('details', {}, [
+          el('summary', { textContent: 'Response schema' }),
+          el('pre', { textContent: JSON.stringify(response?.content?.['application/json']?.schema ?? {}, null, 2) })
+        ])
+      ])
+    ]);
+  }
+
+  fetch(specUrl).then(res => res.json()).then(spec => {
+    document.getElementById('title').textContent = spec.info.title + ' ' + spec.info.version;
+    const main = document.querySelector('main');
+    main.append(el('p', { textContent: spec.info.description || '' }));
+    for (const tag of spec.tags || []) {
+      const ops = [];
+      for (const [path, methods] of Object.entries(spec.paths)) {
+        for (const [method, op] of Object.entries(methods)) {
+          if ((op.tags || []).includes(tag.name)) ops.push(operation(spec, path, method, op));
+        }
+      }
+      if (ops.length) main.append(el('h2', { textContent: tag.name + ' - ' + (tag.description || '') }), ...ops);
+    }
+  }).catch(error => {
+    document.querySelector('main').textContent = 'Failed to load ' + specUrl + ': ' + error;
+  });
+`;
+
+/**
+ * Render the explorer page for the OpenAPI document at specUrl
+ */
+export function renderApiExplorer(specUrl: string): string {
+  return `<!doctype html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>API Explorer</title>
+  <style>${STYLES}</style>
+</head>
+<body data-spec="${specUrl.replace(/"/g, '&quot;')}">
+  <header>
+    <h1 id="title">API Explorer</h1>
+    <input id="key" type="password" placeholder="API key (ak_...) if API_AUTH is on" autocomplete="off">
+    <a href="${specUrl.replace(/"/g, '&quot;')}" style="color:#fff">openapi.json</a>
+  </header>
+  <main></main>
+  <script>${SCRIPT}</script>
+</body>
+</html>`;
+}
@@ -0,0 +1,163 @@
+/**
+ * API Keys - Local key store with hashed keys and per-agent scopes
+ * Keys are shown once when minted; only their SHA-256 hash is written to API_KEYS_FILE
+ */
+
+import { createHash, randomBytes, randomUUID } from "node:crypto";
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { dirname } from "node:path";
+import { z } from "zod";
+import { getConfig } from "./config";
+
+export const ApiPermission = z.enum(['read', 'run', 'admin']);
+export type ApiPermission = z.infer<typeof ApiPermission>;
+
+export const ApiKeyScopes = z.object({
+  permissions: z.array(ApiPermission).min(1),
+  agents: z.array(z.string().min(1)).optional(), // Agent ids; unset with no categories means every agent
+  categories: z.array(z.string().min(1)).optional() // Registry categories such as "Financial"
+});
+export type ApiKeyScopes = z.infer<typeof ApiKeyScopes>;
+
+export const MintApiKeyRequest = ApiKeyScopes.extend({
+  name: z.string().min(1).max(100),
+  expiresAt: z.string().datetime({ offset: true }).optional(),
+  dailyRuns: z.number().int().positive().optional() // Overrides RATE_LIMIT_DAILY_RUNS for this key
+});
+export type MintApiKeyRequest = z.infer<typeof MintApiKeyRequest>;
+
+export interface ApiKeyRecord extends ApiKeyScopes {
+  id: string;
+  name: string;
+  hash: string; // SHA-256 of the full key
+  prefix: string; // First characters of the key, to recognise it in listings
+  createdAt: string;
+  expiresAt?: string;
+  dailyRuns?: number;
+  lastUsedAt?: string; // Kept in memory; written with the next mint or revoke
+  revokedAt?: string;
+}
+
+export type PublicApiKey = Omit<ApiKeyRecord, 'hash'>;
+
+export type ApiKeyCheck =
+  | { valid: true; key: ApiKeyRecord }
+  | { valid: false; reason: string };
+
+const KEY_PREFIX = 'ak_';
+
+let store: ApiKeyRecord[] | null = null;
+
+/**
+ * Hash an API key for storage and lookup
+ */
+export function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+function loadStore(): ApiKeyRecord[] {
+  if (store) return store;
+
+  const file = getConfig().auth.keysFile;
+  store = existsSync(file) ? JSON.parse(readFileSync(file, 'utf8')).keys ?? [] : [];
+  return store ?? [];
+}
+
+function saveStore(keys: ApiKeyRecord[]): void {
+  const file = getConfig().auth.keysFile;
+  mkdirSync(dirname(file), { recursive: true });
+  writeFileSync(file, JSON.stringify({ keys }, null, 2), { mode: 0o600 });
+  store = keys;
+}
+
+function toPublic({ hash: _hash, ...key }: ApiKeyRecord): PublicApiKey {
+  return key;
+}
+
+/**
+ * Mint a key; the returned secret is never stored and cannot be shown again
+ */
+export function mintApiKey(request: MintApiKeyRequest): { key: string; record: PublicApiKey } {
+  const key = `${KEY_PREFIX}${randomBytes(24).toString('base64url')}`;
+  const record: ApiKeyRecord = {
+    id: `key_${randomUUID().replace(/-/g, '').slice(0, 12)}`,
+    name: request.name,
+    hash: hashApiKey(key),
+    prefix: key.slice(0, KEY_PREFIX.length + 6),
+    permissions: request.permissions,
+    ...(request.agents && { agents: request.agents }),
+    ...(request.categories && { categories: request.categories }),
+    createdAt: new Date().toISOString(),
+    ...(request.expiresAt && { expiresAt: request.expiresAt }),
+    ...(request.dailyRuns && { dailyRuns: request.dailyRuns })
+  };
+
+  saveStore([...loadStore(), record]);
+  return { key, record: toPublic(record) };
+}
+
+/**
+ * List keys without their hashes
+ */
+export function listApiKeys(): PublicApiKey[] {
+  return loadStore().map(toPublic);
+}
+
+/**
+ * Revoke a key by id; returns null when no such key exists
+ */
+export function revokeApiKey(id: string): PublicApiKey | null {
+  const keys = loadStore();
+  const key = keys.find(entry => entry.id === id);
+  if (!key) return null;
+
+  key.revokedAt ??= new Date().toISOString();
+  saveStore(keys);
+  return toPublic(key);
+}
+
+/**
+ * Look up a presented key and check it is active
+ */
+export function verifyApiKey(key: string): ApiKeyCheck {
+  if (!key.startsWith(KEY_PREFIX)) {
+    return { valid: false, reason: 'Malformed API key' };
+  }
+
+  const hash = hashApiKey(key);
+  const record = loadStore().find(entry => entry.hash === hash);
+
+  if (!record) return { valid: false, reason: 'Unknown API key' };
+  if (record.revokedAt) return { valid: false, reason: 'API key has been revoked' };
+  if (record.expiresAt && Date.parse(record.expiresAt) <= Date.now()) {
+    return { valid: false, reason: 'API key has expired' };
+  }
+
+  record.lastUsedAt = new Date().toISOString();
+  return { valid: true, key: record };
+}
+
+/**
+ * Check a key's scopes allow a permission, optionally for one agent
+ * admin implies read and run; run implies read
+ */
+export function hasApiScope(
+  key: ApiKeyScopes,
+  permission: ApiPermission,
+  agent?: { id: string; category: string }
+): boolean {
+  const granted = key.permissions.includes('admin') ||
+    key.permissions.includes(permission) ||
+    (permission === 'read' && key.permissions.includes('run'));
+  if (!granted) return false;
+
+  if (!agent || (!key.agents && !key.categories)) return true;
+  return Boolean(key.agents?.includes(agent.id) || key.categories?.includes(agent.category));
+}
+
+/**
+ * Drop the in-memory store so API_KEYS_FILE is read again
+ */
+export function resetApiKeyStore(): void {
+  store = null;
+}
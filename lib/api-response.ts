@@ -0,0 +1,145 @@
+/**
+ * API Responses - Shared success/error envelope and error code catalogue for every route
+ * Success: { success, data, meta }; failure: { success, error: { code, message, details }, meta }.
+ * API_RESPONSE_FORMAT=legacy (or X-Response-Format: legacy per request) returns the pre-envelope bodies.
+ */
+
+import { randomUUID } from "node:crypto";
+import { NextResponse } from "next/server";
+import { getConfig, ResponseFormat } from "./config";
+import { incrementCounter } from "./metrics";
+
+export const ERROR_CODES = {
+  VALIDATION_ERROR: { status: 400, description: 'Invalid input data or query parameters' },
+  AUTHENTICATION_ERROR: { status: 401, description: 'Invalid or missing API key' },
+  FORBIDDEN: { status: 403, description: 'The API key lacks the permission or agent scope for this route' },
+  AGENT_NOT_FOUND: { status: 404, description: 'No agent with this id in the registry' },
+  FILE_NOT_FOUND: { status: 404, description: 'The file is not one of the agent\'s data files' },
+  DATA_NOT_FOUND: { status: 404, description: 'The data file could not be loaded from any source' },
+  KEY_NOT_FOUND: { status: 404, description: 'No API key with this id' },
+  RUN_NOT_FOUND: { status: 404, description: 'No run with this id in the run history' },
+  SCHEDULE_NOT_FOUND: { status: 404, description: 'The agent has no schedule' },
+  WEBHOOK_NOT_FOUND: { status: 404, description: 'No webhook subscription with this id' },
+  PROMPT_NOT_FOUND: { status: 404, description: 'The agent has no prompt with this name (or version)' },
+  JOB_NOT_FOUND: { status: 404, description: 'No job with this id (finished jobs expire after JOBS_RETENTION_SECONDS)' },
+  RUN_CANCELLED: { status: 409, description: 'The run was cancelled before it finished' },
+  REGISTRY_DRIFT: { status: 409, description: 'The agent registry and seed pack disagree' },
+  DATA_INVALID: { status: 422, description: 'The data file failed to parse or broke its data contract' },
+  RATE_LIMIT_EXCEEDED: { status: 429, description: 'Too many requests; retry after the Retry-After header' },
+  QUOTA_EXCEEDED: { status: 429, description: 'The daily run quota is used up until the next UTC day' },
+  PROCESSING_ERROR: { status: 500, description: 'Internal processing error' },
+  NOT_IMPLEMENTED: { status: 501, description: 'The agent is registered but not implemented yet' },
+  UPSTREAM_FAILED: { status: 502, description: 'An upstream service such as GitHub failed' },
+  NOT_READY: { status: 503, description: 'A readiness check failed; see /api/ready' },
+  QUEUE_FULL: { status: 503, description: 'The job queue is full; retry later' }
+} as const;
+
+export type ErrorCode = keyof typeof ERROR_CODES;
+
+export interface ApiMeta {
+  timestamp: string;
+  processing_time_ms: number;
+  request_id: string;
+  version: string;
+  agent?: string;
+}
+
+export interface ApiSuccessBody<T = unknown> {
+  success: true;
+  data: T;
+  meta: ApiMeta;
+}
+
+export interface ApiErrorBody {
+  success: false;
+  error: {
+    code: ErrorCode;
+    message: string;
+    details?: Record<string, unknown>;
+  };
+  meta: ApiMeta;
+}
+
+export interface ApiResponseInit {
+  status?: number;
+  headers?: Record<string, string>;
+}
+
+export interface ApiResponder {
+  format: ResponseFormat;
+  requestId: string;
+  ok<T>(data: T, init?: ApiResponseInit): NextResponse;
+  error(code: ErrorCode, message: string, details?: Record<string, unknown>, init?: ApiResponseInit): NextResponse;
+}
+
+export interface ApiResponderOptions {
+  agent?: string; // Agent id reported in meta
+}
+
+/**
+ * Pick the response format: X-Response-Format header or ?response_format=, then API_RESPONSE_FORMAT
+ */
+export function getResponseFormat(req?: Request): ResponseFormat {
+  const requested = req?.headers.get('x-response-format') ?? (req ? new URL(req.url).searchParams.get('response_format') : null);
+  const parsed = ResponseFormat.safeParse(requested);
+  return parsed.success ? parsed.data : getConfig().api.responseFormat;
+}
+
+const requestIds = new WeakMap<Request, string>();
+
+/**
+ * The request's id: X-Request-Id when the client sent one, else generated once per request
+ */
+export function getRequestId(req?: Request): string {
+  const existing = req && (requestIds.get(req) ?? req.headers.get('x-request-id'));
+  const requestId = existing || `req_${randomUUID().replace(/-/g, '').slice(0, 16)}`;
+  if (req) requestIds.set(req, requestId);
+  return requestId;
+}
+
+/**
+ * Turn an unknown thrown value into error details
+ */
+export function errorDetails(error: unknown): Record<string, unknown> {
+  return { cause: error instanceof Error ? error.message : 'Unknown error' };
+}
+
+/**
+ * Create the response builder for one request; processing time is measured from here
+ */
+export function createApiResponder(req?: Request, options: ApiResponderOptions = {}): ApiResponder {
+  const started = Date.now();
+  const format = getResponseFormat(req);
+  const requestId = getRequestId(req);
+
+  const meta = (): ApiMeta => ({
+    timestamp: new Date().toISOString(),
+    processing_time_ms: Date.now() - started,
+    request_id: requestId,
+    version: getConfig().api.version,
+    ...(options.agent && { agent: options.agent })
+  });
+
+  const headers = (init?: ApiResponseInit) => ({ 'X-Request-Id': requestId, ...init?.headers });
+
+  return {
+    format,
+    requestId,
+
+    ok(data, init) {
+      const body: ApiSuccessBody<typeof data> | typeof data = format === 'legacy'
+        ? data
+        : { success: true, data, meta: meta() };
+      return NextResponse.json(body, { status: init?.status ?? 200, headers: headers(init) });
+    },
+
+    error(code, message, details, init) {
+      const status = init?.status ?? ERROR_CODES[code].status;
+      incrementCounter('api_errors_total', { code });
+      const body: ApiErrorBody | Record<string, unknown> = format === 'legacy'
+        ? { error: message, ...details }
+        : { success: false, error: { code, message, ...(details && { details }) }, meta: meta() };
+      return NextResponse.json(body, { status, headers: headers(init) });
+    }
+  };
+}
@@ -0,0 +1,326 @@
+/**
+ * Configuration - Typed, validated settings for data roots, GitHub access and fallback policy
+ * Read from the environment once and shared by every loader and route
+ */
+
+import { existsSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { z } from "zod";
+
+export const FallbackPolicy = z.enum(['local-only', 'local-then-github', 'allow-mock']);
+export type FallbackPolicy = z.infer<typeof FallbackPolicy>;
+
+export const ResponseFormat = z.enum(['envelope', 'legacy']);
+export type ResponseFormat = z.infer<typeof ResponseFormat>;
+
+export const LogLevel = z.enum(['debug', 'info', 'warn', 'error']);
+export type LogLevel = z.infer<typeof LogLevel>;
+
+export const RunStoreKind = z.enum(['file', 'supabase', 'memory', 'off']);
+export type RunStoreKind = z.infer<typeof RunStoreKind>;
+
+export const WebhookSubscription = z.object({
+  id: z.string().regex(/^[A-Za-z0-9_-]+$/, 'must be letters, digits, _ or -'),
+  url: z.string().url(),
+  secret: z.string().min(16, 'must be at least 16 characters'), // HMAC-SHA256 key shared with the receiver
+  agents: z.array(z.string().min(1)).optional(), // Unset: every agent
+  events: z.array(z.string().min(1)).optional(), // Unset: every event type
+  enabled: z.boolean().default(true)
+});
+export type WebhookSubscription = z.infer<typeof WebhookSubscription>;
+
+export const AppConfigSchema = z.object({
+  dataRoots: z.array(z.string().min(1)).min(1),
+  github: z.object({
+    owner: z.string().regex(/^[A-Za-z0-9-]+$/, 'must be a GitHub user or organisation name'),
+    repo: z.string().regex(/^[A-Za-z0-9._-]+$/, 'must be a GitHub repository name'),
+    branch: z.string().min(1),
+    basePath: z.string().transform(path => path.replace(/^\/+|\/+$/g, '')),
+    token: z.string().min(1).optional()
+  }),
+  fallbackPolicy: FallbackPolicy,
+  offline: z.boolean(), // Never call fetch; GitHub and LFS media fallbacks are skipped
+  lfs: z.object({
+    mediaUrl: z.string().url().optional(),
+    objectsDir: z.string().min(1).optional()
+  }),
+  mock: z.object({
+    seed: z.coerce.number().int(),
+    now: z.string().datetime({ offset: true }).optional() // Pins the mock clock; unset uses the system clock
+  }),
+  githubCache: z.object({
+    ttlSeconds: z.coerce.number().int().nonnegative(),
+    staleSeconds: z.coerce.number().int().nonnegative(),
+    dir: z.string().min(1).nullable() // null keeps the cache in memory only
+  }),
+  api: z.object({
+    version: z.string().min(1),
+    responseFormat: ResponseFormat // legacy returns the pre-envelope bodies for older clients
+  }),
+  auth: z.object({
+    required: z.boolean(), // Off: agent and data routes are open; admin-permission routes always need a key
+    keysFile: z.string().min(1),
+    adminToken: z.string().min(16, 'must be at least 16 characters').optional(), // Bootstrap credential for /api/admin
+    corsOrigins: z.array(z.string().min(1)) // Empty: no cross-origin access
+  }),
+  rateLimit: z.object({
+    enabled: z.boolean(),
+    perMinute: z.coerce.number().int().positive(), // Agent routes get this divided by the agent's complexity
+    agents: z.record(z.coerce.number().int().positive()), // Explicit per-minute limits by agent id
+    dailyRuns: z.coerce.number().int().nonnegative(), // Runs per client per UTC day; 0 disables the quota
+    trustedProxies: z.coerce.number().int().nonnegative() // Proxies that append to X-Forwarded-For; 0 ignores the header
+  }),
+  logging: z.object({
+    level: LogLevel,
+    format: z.enum(['json', 'pretty']) // pretty: one readable line per entry for local development
+  }),
+  runs: z.object({
+    store: RunStoreKind, // Where agent run history is kept; off records nothing
+    dir: z.string().min(1), // One JSON file per run for the file store
+    supabase: z.object({
+      url: z.string().url().optional(),
+      serviceKey: z.string().min(1).optional(),
+      table: z.string().regex(/^[A-Za-z0-9_]+$/, 'must be a table name')
+    })
+  }).refine(runs => runs.store !== 'supabase' || (runs.supabase.url && runs.supabase.serviceKey), {
+    message: 'RUN_STORE=supabase needs NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY',
+    path: ['supabase']
+  }),
+  jobs: z.object({
+    concurrency: z.coerce.number().int().positive(), // Jobs running at once per server instance
+    maxQueued: z.coerce.number().int().nonnegative(), // Further submissions get QUEUE_FULL
+    retentionSeconds: z.coerce.number().int().positive() // How long finished jobs stay readable
+  }),
+  scheduler: z.object({
+    enabled: z.boolean(), // Off: schedules can still be listed and triggered by hand
+    intervalSeconds: z.coerce.number().int().positive(), // How often due schedules are checked
+    store: z.enum(['file', 'memory']), // Pause state, last runs and locks; file shares them across instances on one host
+    dir: z.string().min(1),
+    lockSeconds: z.coerce.number().int().positive() // A lock left by a crashed instance expires after this long
+  }),
+  webhooks: z.object({
+    // WEBHOOKS holds a JSON array of subscriptions
+    subscriptions: z.string().transform((text, ctx) => {
+      try {
+        return JSON.parse(text) as unknown;
+      } catch {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'WEBHOOKS must be a JSON array' });
+        return z.NEVER;
+      }
+    }).pipe(z.array(WebhookSubscription).refine(
+      subscriptions => new Set(subscriptions.map(subscription => subscription.id)).size === subscriptions.length,
+      'webhook ids must be unique'
+    )),
+    maxAttempts: z.coerce.number().int().positive(), // Deliveries failing this many times go to the dead-letter list
+    retryBaseMs: z.coerce.number().int().positive(), // Retry n waits retryBaseMs * 2^(n-1)
+    timeoutMs: z.coerce.number().int().positive()
+  }),
+  notifications: z.object({
+    mode: z.enum(['dry-run', 'live']), // dry-run renders messages into the outbox without sending them
+    outboxSize: z.coerce.number().int().positive(), // Newest entries kept in the outbox
+    timeoutMs: z.coerce.number().int().positive(),
+    slack: z.object({
+      apiUrl: z.string().url(), // Point at a local fake server in tests
+      token: z.string().min(1).optional(),
+      channel: z.string().min(1) // Used when a message names no channel
+    }),
+    teams: z.object({
+      webhookUrl: z.string().url().optional() // Incoming webhook of the target channel
+    }),
+    email: z.object({
+      host: z.string().min(1).optional(),
+      port: z.coerce.number().int().positive(),
+      secure: z.boolean(), // TLS from the start (port 465); otherwise STARTTLS when offered
+      user: z.string().min(1).optional(),
+      pass: z.string().min(1).optional(),
+      from: z.string().min(1),
+      to: z.array(z.string().min(1)) // Used when a message names no recipients
+    })
+  }),
+  llm: z.object({
+    provider: z.enum(['off', 'openai', 'replay', 'record']), // replay answers from fixtures; record calls the API and saves fixtures
+    baseUrl: z.string().url(), // Any OpenAI-compatible /chat/completions endpoint, including a local stub
+    apiKey: z.string().min(1).optional(),
+    heliconeKey: z.string().min(1).optional(), // Sent as Helicone-Auth when requests go through the Helicone proxy
+    model: z.string().min(1), // Used when neither the request nor the agent names one
+    agentModels: z.record(z.string().min(1)), // Per-agent overrides from LLM_AGENT_MODELS
+    timeoutMs: z.coerce.number().int().positive(), // Per attempt
+    maxRetries: z.coerce.number().int().min(0),
+    retryBaseMs: z.coerce.number().int().min(0),
+    maxRepairs: z.coerce.number().int().min(0), // Extra calls to fix structured output that fails its schema
+    fixturesDir: z.string().min(1)
+  })
+});
+
+export type AppConfig = z.infer<typeof AppConfigSchema>;
+
+const DEFAULT_SEED_ROOT = './data/agents-seed-pack-full';
+
+// Historical fallbacks used by CI and hosted sandboxes
+const FALLBACK_DATA_ROOTS = ['/tmp/agents-seed-pack-full', '/mnt/data/agents-seed-pack-full'];
+
+/**
+ * Build and validate configuration from environment variables
+ */
+export function loadConfig(env: Record<string, string | undefined> = process.env): AppConfig {
+  const list = (value?: string) => value?.split(',').map(item => item.trim()).filter(Boolean);
+
+  const dataRoots = list(env.SEED_ROOTS) ?? [env.SEED_ROOT || DEFAULT_SEED_ROOT, ...FALLBACK_DATA_ROOTS];
+
+  const parsed = AppConfigSchema.safeParse({
+    dataRoots: Array.from(new Set(dataRoots.map(root => root.replace(/\/+$/, '')))),
+    github: {
+      owner: env.GITHUB_OWNER || 'indranilbanerjee',
+      repo: env.GITHUB_REPO || 'hackathon-agents-starter',
+      branch: env.GITHUB_BRANCH || 'main',
+      basePath: env.GITHUB_BASE_PATH || 'data/agents-seed-pack-full',
+      token: env.GITHUB_TOKEN || undefined
+    },
+    fallbackPolicy: env.DATA_FALLBACK_POLICY || 'allow-mock',
+    offline: ['1', 'true', 'yes'].includes((env.DATA_OFFLINE || '').toLowerCase()),
+    lfs: {
+      mediaUrl: env.LFS_MEDIA_URL || undefined,
+      objectsDir: env.LFS_OBJECTS_DIR || undefined
+    },
+    mock: {
+      seed: env.MOCK_SEED || 42,
+      now: env.MOCK_NOW || undefined
+    },
+    githubCache: {
+      ttlSeconds: env.GITHUB_CACHE_TTL || 300,
+      staleSeconds: env.GITHUB_CACHE_STALE_TTL || 86400,
+      // The OS temp dir is writable on serverless hosts and keeps the repo clean
+      dir: env.GITHUB_CACHE_DIR === 'off' ? null : env.GITHUB_CACHE_DIR || join(tmpdir(), 'agents-starter-github-cache')
+    },
+    api: {
+      version: env.API_VERSION || '1.0.0',
+      responseFormat: env.API_RESPONSE_FORMAT || 'envelope'
+    },
+    auth: {
+      required: ['1', 'true', 'yes'].includes((env.API_AUTH || '').toLowerCase()),
+      keysFile: env.API_KEYS_FILE || '.api-keys.json',
+      adminToken: env.API_ADMIN_TOKEN || undefined,
+      corsOrigins: list(env.API_CORS_ORIGINS) ?? []
+    },
+    rateLimit: {
+      enabled: env.RATE_LIMIT !== 'off',
+      perMinute: env.RATE_LIMIT_PER_MINUTE || 120,
+      // "invoice-anomalies=10,seo-pages=30"
+      agents: Object.fromEntries((list(env.RATE_LIMIT_AGENTS) ?? []).map(entry => entry.split('=').map(part => part.trim()))),
+      dailyRuns: env.RATE_LIMIT_DAILY_RUNS || 1000,
+      trustedProxies: env.RATE_LIMIT_TRUSTED_PROXIES || 1
+    },
+    logging: {
+      level: env.LOG_LEVEL || 'info',
+      format: env.LOG_FORMAT || 'json'
+    },
+    runs: {
+      store: env.RUN_STORE || 'file',
+      dir: env.RUN_STORE_DIR || join(tmpdir(), 'agents-starter-runs'),
+      supabase: {
+        url: env.NEXT_PUBLIC_SUPABASE_URL || undefined,
+        serviceKey: env.SUPABASE_SERVICE_ROLE_KEY || undefined,
+        table: env.RUN_STORE_TABLE || 'agent_runs'
+      }
+    },
+    jobs: {
+      concurrency: env.JOBS_CONCURRENCY || 2,
+      maxQueued: env.JOBS_MAX_QUEUED || 100,
+      retentionSeconds: env.JOBS_RETENTION_SECONDS || 3600
+    },
+    scheduler: {
+      enabled: env.SCHEDULER !== 'off',
+      intervalSeconds: env.SCHEDULER_INTERVAL_SECONDS || 30,
+      store: env.SCHEDULER_STORE || 'file',
+      dir: env.SCHEDULER_DIR || join(tmpdir(), 'agents-starter-schedules'),
+      lockSeconds: env.SCHEDULER_LOCK_SECONDS || 60
+    },
+    webhooks: {
+      subscriptions: env.WEBHOOKS || '[]',
+      maxAttempts: env.WEBHOOK_MAX_ATTEMPTS || 5,
+      retryBaseMs: env.WEBHOOK_RETRY_BASE_MS || 1000,
+      timeoutMs: env.WEBHOOK_TIMEOUT_MS || 10000
+    },
+    notifications: {
+      mode: env.NOTIFY_MODE || 'dry-run',
+      outboxSize: env.NOTIFY_OUTBOX_SIZE || 500,
+      timeoutMs: env.NOTIFY_TIMEOUT_MS || 10000,
+      slack: {
+        apiUrl: (env.SLACK_API_URL || 'https://slack.com/api').replace(/\/+$/, ''),
+        token: env.SLACK_BOT_TOKEN || undefined,
+        channel: env.SLACK_CHANNEL || '#alerts'
+      },
+      teams: {
+        webhookUrl: env.TEAMS_WEBHOOK_URL || undefined
+      },
+      email: {
+        host: env.SMTP_HOST || undefined,
+        port: env.SMTP_PORT || 587,
+        secure: ['1', 'true', 'yes'].includes((env.SMTP_SECURE || '').toLowerCase()),
+        user: env.SMTP_USER || undefined,
+        pass: env.SMTP_PASS || undefined,
+        from: env.SMTP_FROM || 'agents@localhost',
+        to: list(env.NOTIFY_EMAIL_TO) ?? []
+      }
+    },
+    llm: {
+      // Without a key agents stick to their heuristics instead of failing every call
+      provider: env.LLM_PROVIDER || (env.LLM_API_KEY || env.OPENROUTER_API_KEY ? 'openai' : 'off'),
+      baseUrl: (env.LLM_BASE_URL || 'https://openrouter.ai/api/v1').replace(/\/+$/, ''),
+      apiKey: env.LLM_API_KEY || env.OPENROUTER_API_KEY || undefined,
+      heliconeKey: env.HELICONE_API_KEY || undefined,
+      model: env.LLM_MODEL || 'openai/gpt-4o-mini',
+      // "meeting-actions=anthropic/claude-3.5-sonnet,support-brief=google/gemini-1.5-flash"
+      agentModels: Object.fromEntries((list(env.LLM_AGENT_MODELS) ?? []).map(pair => {
+        const [agentId, ...model] = pair.split('=');
+        return [agentId.trim(), model.join('=').trim()];
+      })),
+      timeoutMs: env.LLM_TIMEOUT_MS || 60000,
+      maxRetries: env.LLM_MAX_RETRIES || 2,
+      retryBaseMs: env.LLM_RETRY_BASE_MS || 500,
+      maxRepairs: env.LLM_MAX_REPAIRS || 2,
+      fixturesDir: env.LLM_FIXTURES_DIR || './fixtures/llm'
+    }
+  });
+
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`);
+    throw new Error(`Invalid configuration: ${issues.join('; ')}`);
+  }
+
+  return parsed.data;
+}
+
+let currentConfig: AppConfig | null = null;
+
+/**
+ * Get the validated configuration (loaded on first use)
+ */
+export function getConfig(): AppConfig {
+  if (!currentConfig) {
+    currentConfig = loadConfig();
+  }
+  return currentConfig;
+}
+
+/**
+ * Drop the cached configuration so the environment is read again
+ */
+export function resetConfig(): void {
+  currentConfig = null;
+}
+
+/**
+ * Get the first data root that exists on disk (falls back to the first configured root)
+ */
+export function getSeedRoot(config: AppConfig = getConfig()): string {
+  return config.dataRoots.find(root => existsSync(root)) ?? config.dataRoots[0];
+}
+
+/**
+ * Get candidate paths for a file relative to the data roots, in priority order
+ */
+export function getDataRootPaths(relativePath: string, config: AppConfig = getConfig()): string[] {
+  return config.dataRoots.map(root => `${root}/${relativePath}`);
+}
@@ -0,0 +1,149 @@
+/**
+ * Cron - Five-field cron expressions evaluated in UTC
+ * minute hour day-of-month month day-of-week, with *, lists, ranges, steps, month and weekday
+ * names, and the @hourly, @daily, @weekly, @monthly and @yearly shorthands.
+ */
+
+export interface CronExpression {
+  source: string;
+  minutes: number[];
+  hours: number[];
+  daysOfMonth: number[];
+  months: number[]; // 1-12
+  daysOfWeek: number[]; // 0-6, Sunday is 0
+  anyDayOfMonth: boolean; // "*": the day is decided by day-of-week alone (and vice versa)
+  anyDayOfWeek: boolean;
+}
+
+const MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *'
+};
+
+const FIELDS = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, names: ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'] },
+  { name: 'day of week', min: 0, max: 7, names: ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'] }
+];
+
+const MINUTE_MS = 60_000;
+
+// Give up looking for a match after this many years (e.g. "0 0 30 2 *" never fires)
+const SEARCH_YEARS = 5;
+
+function parseField(text: string, field: typeof FIELDS[number]): number[] {
+  const value = (token: string): number => {
+    const named = field.names?.indexOf(token.toUpperCase()) ?? -1;
+    const number = named >= 0 ? named + (field.name === 'month' ? 1 : 0) : Number(token);
+    if (!/^\w+$/.test(token) || !Number.isInteger(number) || number < field.min || number > field.max) {
+      throw new Error(`Invalid ${field.name} '${token}' (expected ${field.min}-${field.max})`);
+    }
+    return number;
+  };
+
+  const values = new Set<number>();
+  for (const part of text.split(',')) {
+    const [range, stepText] = part.split('/');
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid step '${stepText}' in ${field.name}`);
+    }
+
+    let [start, end] = [field.min, field.max];
+    if (range !== '*') {
+      const [from, to] = range.split('-');
+      start = value(from);
+      end = to !== undefined ? value(to) : stepText !== undefined ? field.max : start;
+    }
+    if (start > end) {
+      throw new Error(`Invalid ${field.name} range '${range}'`);
+    }
+    for (let n = start; n <= end; n += step) values.add(n);
+  }
+
+  return Array.from(values).sort((a, b) => a - b);
+}
+
+/**
+ * Parse a cron expression; throws with the offending field when it is invalid
+ */
+export function parseCron(source: string): CronExpression {
+  const expanded = MACROS[source.trim().toLowerCase()] ?? source.trim();
+  const parts = expanded.split(/\s+/);
+  if (parts.length !== 5) {
+    throw new Error(`Invalid cron expression '${source}': expected 5 fields, got ${parts.length}`);
+  }
+
+  try {
+    const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((part, index) => parseField(part, FIELDS[index]));
+    return {
+      source,
+      minutes,
+      hours,
+      daysOfMonth,
+      months,
+      daysOfWeek: Array.from(new Set(daysOfWeek.map(day => day % 7))).sort((a, b) => a - b), // 7 is Sunday too
+      anyDayOfMonth: parts[2] === '*',
+      anyDayOfWeek: parts[4] === '*'
+    };
+  } catch (error) {
+    throw new Error(`Invalid cron expression '${source}': ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+function matchesDay(cron: CronExpression, date: Date): boolean {
+  const dayOfMonth = cron.daysOfMonth.includes(date.getUTCDate());
+  const dayOfWeek = cron.daysOfWeek.includes(date.getUTCDay());
+  if (cron.anyDayOfMonth && cron.anyDayOfWeek) return true;
+  if (cron.anyDayOfMonth) return dayOfWeek;
+  if (cron.anyDayOfWeek) return dayOfMonth;
+  return dayOfMonth || dayOfWeek; // Both restricted: either matches, as in classic cron
+}
+
+/**
+ * The first time strictly after `after` (ms) that the expression fires, or null if it never does
+ */
+export function nextCronTime(cron: CronExpression | string, after: number): number | null {
+  const expression = typeof cron === 'string' ? parseCron(cron) : cron;
+  const limit = after + SEARCH_YEARS * 366 * 24 * 60 * MINUTE_MS;
+  let time = Math.floor(after / MINUTE_MS) * MINUTE_MS + MINUTE_MS;
+
+  while (time <= limit) {
+    const date = new Date(time);
+    const [year, month, day, hour] = [date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate(), date.getUTCHours()];
+
+    if (!expression.months.includes(month + 1)) {
+      time = Date.UTC(year, month + 1, 1);
+    } else if (!matchesDay(expression, date)) {
+      time = Date.UTC(year, month, day + 1);
+    } else if (!expression.hours.includes(hour)) {
+      time = Date.UTC(year, month, day, hour + 1);
+    } else if (!expression.minutes.includes(date.getUTCMinutes())) {
+      time += MINUTE_MS;
+    } else {
+      return time;
+    }
+  }
+  return null;
+}
+
+/**
+ * Fire times in (after, until], oldest first; only the last `limit` are kept
+ */
+export function listCronTimes(cron: CronExpression | string, after: number, until: number, limit = Infinity): number[] {
+  const expression = typeof cron === 'string' ? parseCron(cron) : cron;
+  const times: number[] = [];
+
+  for (let time = nextCronTime(expression, after); time !== null && time <= until; time = nextCronTime(expression, time)) {
+    times.push(time);
+    if (times.length > limit) times.shift();
+  }
+  return times;
+}
@@ -0,0 +1,195 @@
+/**
+ * CSV Reader - RFC 4180 compliant parsing shared by local and GitHub data access
+ * Handles quoting, embedded delimiters/newlines, BOMs, delimiter sniffing and type coercion
+ */
+
+export type CSVValue = string | number | boolean | Date;
+
+export interface CSVCoerceOptions {
+  numbers?: boolean;
+  dates?: boolean;
+  booleans?: boolean;
+}
+
+export interface CSVParseOptions {
+  delimiter?: string; // Sniffed from the header when omitted
+  normalizeHeaders?: boolean; // snake_case headers ("Due Date" -> "due_date")
+  coerce?: boolean | CSVCoerceOptions;
+}
+
+export interface CSVRowError {
+  line: number;
+  message: string;
+  raw?: string[];
+}
+
+export interface CSVParseResult<T = Record<string, CSVValue>> {
+  rows: T[];
+  headers: string[];
+  delimiter: string;
+  errors: CSVRowError[];
+}
+
+const CANDIDATE_DELIMITERS = [',', ';', '\t', '|'];
+
+/**
+ * Guess the delimiter from the first line, ignoring quoted sections
+ */
+export function sniffDelimiter(content: string): string {
+  const counts = new Map(CANDIDATE_DELIMITERS.map(d => [d, 0]));
+  let inQuotes = false;
+
+  for (const char of content) {
+    if (char === '"') inQuotes = !inQuotes;
+    else if (!inQuotes && (char === '\n' || char === '\r')) break;
+    else if (!inQuotes && counts.has(char)) counts.set(char, (counts.get(char) ?? 0) + 1);
+  }
+
+  let best = ',';
+  for (const [delimiter, count] of counts) {
+    if (count > (counts.get(best) ?? 0)) best = delimiter;
+  }
+  return best;
+}
+
+/**
+ * Normalise a header to snake_case
+ */
+export function normalizeHeader(header: string): string {
+  return header
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+}
+
+/**
+ * Split content into records of raw fields, tracking the line each record starts on
+ */
+function tokenize(content: string, delimiter: string) {
+  const records: { line: number; fields: string[] }[] = [];
+  let fields: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+  let recordLine = 1;
+  let error: CSVRowError | undefined;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (content[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        if (char === '\n') line++;
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && field.length === 0) {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      fields.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      fields.push(field);
+      records.push({ line: recordLine, fields });
+      fields = [];
+      field = '';
+      line++;
+      recordLine = line;
+    } else {
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    error = { line: recordLine, message: 'Unterminated quoted field' };
+  } else if (field.length > 0 || fields.length > 0) {
+    fields.push(field);
+    records.push({ line: recordLine, fields });
+  }
+
+  return { records, error };
+}
+
+/**
+ * Coerce a raw field to a number, boolean or date where it unambiguously is one
+ * Surrounding spaces are ignored for the checks but kept in fields returned as text (RFC 4180 treats them as data).
+ */
+function coerceValue(value: string, options: CSVCoerceOptions): CSVValue {
+  const trimmed = value.trim();
+  if (trimmed === '') return value;
+
+  if (options.numbers && /^-?(0|[1-9]\d*)(\.\d+)?$/.test(trimmed)) {
+    return Number(trimmed);
+  }
+
+  if (options.booleans && /^(true|false)$/i.test(trimmed)) {
+    return trimmed.toLowerCase() === 'true';
+  }
+
+  if (options.dates && /^\d{4}-\d{2}-\d{2}([T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/.test(trimmed)) {
+    const date = new Date(trimmed);
+    if (!isNaN(date.getTime())) return date;
+  }
+
+  return value;
+}
+
+/**
+ * Parse CSV content into typed rows with per-row errors
+ */
+export function parseCSVRecords<T = Record<string, CSVValue>>(
+  content: string,
+  options: CSVParseOptions = {}
+): CSVParseResult<T> {
+  const text = content.replace(/^\uFEFF/, '');
+  const delimiter = options.delimiter ?? sniffDelimiter(text);
+  const coerce: CSVCoerceOptions = options.coerce === true
+    ? { numbers: true, dates: true, booleans: true }
+    : options.coerce || {};
+
+  const { records, error } = tokenize(text, delimiter);
+  const errors: CSVRowError[] = [];
+
+  // Blank lines are not records
+  const nonEmpty = records.filter(r => !(r.fields.length === 1 && r.fields[0].trim() === ''));
+  const [headerRecord, ...dataRecords] = nonEmpty;
+
+  if (!headerRecord) {
+    return { rows: [], headers: [], delimiter, errors: error ? [error] : [] };
+  }
+
+  const headers = headerRecord.fields.map(h => options.normalizeHeaders ? normalizeHeader(h) : h.trim());
+  const rows: T[] = [];
+
+  for (const record of dataRecords) {
+    if (record.fields.length !== headers.length) {
+      errors.push({
+        line: record.line,
+        message: `Expected ${headers.length} fields but found ${record.fields.length}`,
+        raw: record.fields
+      });
+      continue;
+    }
+
+    const row: Record<string, CSVValue> = {};
+    headers.forEach((h, i) => {
+      row[h] = coerceValue(record.fields[i], coerce);
+    });
+    rows.push(row as T);
+  }
+
+  if (error) errors.push(error);
+
+  return { rows, headers, delimiter, errors };
+}
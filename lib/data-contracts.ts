@@ -0,0 +1,293 @@
+/**
+ * Data Contracts - Zod schemas for each agent's data files, with row-level validation
+ * Keyed like the effective registry's dataFiles; a directory/glob entry's schema applies to each file it matches.
+ * Object schemas pass unknown columns through so extra seed data is never dropped.
+ */
+
+import { z } from "zod";
+import { ActionItem } from "./schemas";
+import { isDataPattern, matchesDataPattern } from "./data-patterns";
+
+export interface DataIssue {
+  row?: number; // 1-based data row for tabular files
+  path: string;
+  code: string;
+  message: string;
+}
+
+export interface DataValidationReport {
+  contract: string;
+  valid: boolean;
+  rows?: {
+    total: number;
+    valid: number;
+    invalid: number;
+  };
+  issues: DataIssue[];
+}
+
+// CSV fields arrive as strings unless coerced; accept both
+const num = z.preprocess(
+  value => (typeof value === 'string' && value.trim() !== '' ? Number(value) : value),
+  z.number({ invalid_type_error: 'Expected a number' }).finite()
+);
+
+const isoDate = z.preprocess(
+  value => (value instanceof Date ? value.toISOString() : value),
+  z.string().regex(/^\d{4}-\d{2}-\d{2}/, 'Expected an ISO date (YYYY-MM-DD)')
+);
+
+const text = z.string().min(1);
+const id = z.union([z.string().min(1), z.number()]);
+const row = <T extends z.ZodRawShape>(shape: T) => z.object(shape).passthrough();
+const rows = <T extends z.ZodRawShape>(shape: T) => z.array(row(shape));
+
+export const Ticket = row({
+  id,
+  subject: text.optional(),
+  title: text.optional(),
+  priority: z.string().optional(),
+  status: z.string().optional(),
+  created_at: isoDate.optional()
+}).refine(ticket => ticket.subject || ticket.title, { message: 'Expected a subject or title', path: ['subject'] });
+export type Ticket = z.infer<typeof Ticket>;
+
+export const Invoice = row({
+  invoice_id: text,
+  vendor: text,
+  amount: num,
+  date: isoDate,
+  status: z.string().optional(),
+  iban: z.string().optional()
+});
+export type Invoice = z.infer<typeof Invoice>;
+
+const StoreReview = row({ id, rating: num.pipe(z.number().int().min(1).max(5)), body: z.string() });
+
+const Sitemap = z.string().regex(/<urlset[\s>]/, 'Expected a sitemap <urlset>');
+
+// One JSON value per non-empty line
+const JsonLines = z.string().superRefine((value, ctx) => {
+  value.split('\n').forEach((line, i) => {
+    if (!line.trim()) return;
+    try {
+      JSON.parse(line);
+    } catch {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Line ${i + 1} is not valid JSON` });
+    }
+  });
+});
+
+/**
+ * Contracts for each agent's data files, keyed by agent id and the dataFiles entries of the
+ * effective registry (getAgentRegistry), i.e. the files in the seed pack
+ */
+export const AGENT_DATA_CONTRACTS: Record<string, Record<string, z.ZodTypeAny>> = {
+  'smart-payment-follow-up': {
+    'invoices.csv': rows({
+      id: text,
+      contact_id: text,
+      amount: num,
+      currency: z.string().optional(),
+      due_date: isoDate,
+      status: z.string().optional()
+    }),
+    'contacts.csv': rows({ contact_id: text, email: z.union([z.string().email(), z.literal('')]).optional(), phone: z.string().optional() }),
+    'policy.yaml': row({ grace_days: num, sequence: z.array(z.record(z.unknown())) })
+  },
+  'expense-parser': {
+    'documents.csv': rows({ doc_id: text, merchant: text, amount: num, date: isoDate }),
+    'pos.csv': rows({ txn_id: text, date: isoDate, merchant: text, amount: num })
+  },
+  'contract-compliance': {
+    'contracts/msa_*.txt': text,
+    'policies.yaml': row({ rules: z.array(row({ id: text, description: text, severity: z.string().optional() })) })
+  },
+  'customer-sentiment': {
+    'reviews.csv': rows({ review_id: id, rating: num.pipe(z.number().min(1).max(5)), text: z.string(), date: isoDate.optional() }),
+    'emails_sample.csv': rows({ email_id: id, subject: z.string(), body: z.string(), received_at: isoDate.optional() })
+  },
+  'client-sentiment-comms': {
+    'threads.mbox.txt': z.string().regex(/^From /m, 'Expected an mbox file with "From " separator lines')
+  },
+  'vendor-sla-watchdog': {
+    'vendors.csv': rows({ vendor_id: text, name: text }),
+    'slas.yaml': row({ uptime_target_pct: num.pipe(z.number().min(0).max(100)).optional(), response_time_hours: num.optional() }),
+    'metrics.json': rows({
+      vendor_id: text,
+      date: isoDate,
+      uptime_pct: num.pipe(z.number().min(0).max(100)),
+      response_time_hours: num.optional(),
+      incidents: num.optional()
+    })
+  },
+  'po-grn-reconciler': {
+    'po.csv': rows({ po_number: text, vendor: text, quantity: num, unit_price: num }),
+    'grn.csv': rows({ grn_number: text, po_number: text, quantity_received: num }),
+    'invoice.csv': rows({ invoice_number: text, po_number: z.string(), quantity: num, unit_price: num })
+  },
+  'meeting-actions': {
+    'transcript.txt': text,
+    'actions_expected.json': z.array(ActionItem.passthrough())
+  },
+  'pipeline-nurture': {
+    'deals.csv': rows({ deal_id: text, contact_email: z.string().email(), stage: text, amount: num.optional(), last_activity: isoDate.optional() }),
+    'do_not_contact.csv': rows({ email: z.string().email() }),
+    'templates.json': rows({ id: text, body: text })
+  },
+  'lead-enrichment': {
+    'leads.csv': rows({ lead_id: text, email: z.string().email(), company: z.string().optional() }),
+    'rules.json': row({ industries: z.array(z.string()).optional(), weights: z.record(num).optional() })
+  },
+  'proposal-scope-guard': {
+    'sow.doc.txt': text,
+    'policy.yaml': row({ allowed_items: z.array(z.string()).optional(), excluded_items: z.array(z.string()).optional(), max_hours: num.optional() })
+  },
+  'changelog-success-notes': {
+    'accounts.csv': rows({ account_id: text, company: text }),
+    'releases.json': rows({ version: text, date: isoDate, changes: z.array(row({ type: text, description: text })) })
+  },
+  'seo-issue-sentinel': {
+    'gsc_export.csv': rows({ page: z.string().url(), clicks: num, impressions: num, ctr: num.optional(), position: num.optional() }),
+    'sitemap.xml': Sitemap
+  },
+  'landing-page-fixer': {
+    'targets.csv': rows({ url: z.string().url(), status: num.optional(), conversion_rate: num.optional() })
+  },
+  'seo-pages': {
+    'sitemap.xml': Sitemap,
+    'seo_analysis.json': row({ analyzed_at: isoDate.optional() })
+  },
+  'social-listening': {
+    'keywords.txt': text,
+    'mentions.json': rows({ id, platform: text, text, sentiment: z.string().optional(), posted_at: isoDate })
+  },
+  'employee-onboarding': {
+    'checklist.yaml': row({ tasks: z.array(row({ id: text, task: text, owner: text })) }),
+    'new_hires.csv': rows({ employee_id: text, name: text, start_date: isoDate })
+  },
+  'hr-policy-qa': {
+    'hr/*.txt': text,
+    'sample_questions.json': rows({ id, question: text })
+  },
+  'security-posture': {
+    'targets.csv': rows({ target: text, environment: z.string().optional(), tls_expires: z.union([isoDate, z.literal('')]).optional() })
+  },
+  'pii-finder': {
+    'pii_samples/': z.union([text, z.array(z.record(z.unknown()))]),
+    'policy.yaml': row({ retention: z.record(num).optional() })
+  },
+  'kb-gap-filler': {
+    'tickets.csv': rows({ ticket_id: id, subject: text, created_at: isoDate.optional() })
+  },
+  'support-summarizer': {
+    'zendesk_tickets.json': z.array(Ticket),
+    'router_policy.yaml': row({ routes: z.array(row({ queue: text })) })
+  },
+  'calendar-load-balancer': {
+    'cal_week.ics': z.string().regex(/BEGIN:VCALENDAR/, 'Expected an iCalendar file (BEGIN:VCALENDAR)'),
+    'prefs.json': rows({ person: text, max_meeting_hours_per_day: num.optional() })
+  },
+  'travel-expense-optimizer': {
+    'receipts/': text,
+    'policy.yaml': z.record(z.unknown()),
+    'search_intents.json': rows({ origin: text, destination: text, depart: isoDate })
+  },
+  'inventory-forecaster': {
+    'sales.csv': rows({ date: isoDate, sku: text, units_sold: num.pipe(z.number().min(0)) })
+  },
+  'invoice-anomalies': {
+    'invoices.csv': z.array(Invoice),
+    'vendors.csv': rows({ vendor_id: text, name: text, bank_account: z.string().optional() })
+  },
+  'compliance-calendar': {
+    'calendar.csv': rows({ id: text, description: text, due_date: isoDate, status: z.string().optional() }),
+    'org.yaml': row({ entity: text })
+  },
+  'store-review-reply': {
+    'app_store_reviews.json': z.array(StoreReview),
+    'play_reviews.json': z.array(StoreReview)
+  },
+  'internal-brief-writer': {
+    'sources/': text
+  },
+  'personal-focus-coach': {
+    'cal.json': rows({ title: z.string(), start: isoDate, end: isoDate }),
+    'prefs.json': row({ focus_minutes_per_day: num.optional() })
+  },
+  'support-brief': {
+    'tickets.json': z.array(Ticket),
+    'brief_templates.json': rows({ id: text, sections: z.array(z.string()) })
+  },
+  'multi-agent-orchestrator': {
+    'graph.yaml': row({ nodes: z.array(row({ id: text, agent: text })), edges: z.array(row({ from: text, to: text })).optional() }),
+    'tasks.jsonl': JsonLines
+  }
+};
+
+/**
+ * Find the contract for a data file: an exact dataFiles entry, or a directory/glob entry that matches it
+ */
+export function getDataContract(agentId: string, filename: string): z.ZodTypeAny | undefined {
+  const contracts = AGENT_DATA_CONTRACTS[agentId];
+  if (!contracts) return undefined;
+  if (contracts[filename]) return contracts[filename];
+
+  const entry = Object.keys(contracts).find(key => isDataPattern(key) && matchesDataPattern(key, filename));
+  return entry ? contracts[entry] : undefined;
+}
+
+function toIssues(error: z.ZodError, row?: number): DataIssue[] {
+  return error.issues.map(issue => ({
+    ...(row !== undefined && { row }),
+    path: issue.path.join('.') || '(root)',
+    code: issue.code,
+    message: issue.message
+  }));
+}
+
+/**
+ * Validate data against a contract. Arrays are checked row by row: valid rows come back parsed
+ * (numbers coerced) and invalid rows are dropped and reported with their 1-based row number.
+ */
+export function validateData<T = any>(
+  schema: z.ZodTypeAny,
+  data: unknown,
+  contract: string
+): { data: T; report: DataValidationReport } {
+  if (schema instanceof z.ZodArray && Array.isArray(data)) {
+    const element = schema.element as z.ZodTypeAny;
+    const valid: unknown[] = [];
+    const issues: DataIssue[] = [];
+
+    data.forEach((item, i) => {
+      const result = element.safeParse(item);
+      if (result.success) {
+        valid.push(result.data);
+      } else {
+        issues.push(...toIssues(result.error, i + 1));
+      }
+    });
+
+    const invalid = new Set(issues.map(issue => issue.row)).size;
+    return {
+      data: valid as T,
+      report: {
+        contract,
+        valid: issues.length === 0,
+        rows: { total: data.length, valid: valid.length, invalid },
+        issues
+      }
+    };
+  }
+
+  const result = schema.safeParse(data);
+  return {
+    data: (result.success ? result.data : data) as T,
+    report: {
+      contract,
+      valid: result.success,
+      issues: result.success ? [] : toIssues(result.error)
+    }
+  };
+}
@@ -0,0 +1,104 @@
+/**
+ * Data Patterns - Directory and glob entries for AgentConfig.dataFiles
+ * Supports "dir/" (every file below dir), "*" and "?" within a segment and "**" across segments
+ */
+
+import { existsSync, readdirSync } from "node:fs";
+import { join } from "node:path";
+
+/**
+ * Check whether a dataFiles entry is a directory or glob rather than a single file
+ */
+export function isDataPattern(entry: string): boolean {
+  return entry.endsWith('/') || /[*?]/.test(entry);
+}
+
+/**
+ * Convert a dataFiles pattern to a regular expression over relative paths
+ */
+export function patternToRegExp(pattern: string): RegExp {
+  const glob = pattern.endsWith('/') ? `${pattern}**` : pattern;
+  let source = '';
+
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      source += '.*';
+      i++;
+      if (glob[i + 1] === '/') i++;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Check whether a relative file path is covered by a dataFiles entry
+ */
+export function matchesDataPattern(entry: string, path: string): boolean {
+  return isDataPattern(entry) ? patternToRegExp(entry).test(path) : entry === path;
+}
+
+/**
+ * Check whether a relative file path is covered by any of an agent's dataFiles entries
+ */
+export function isAgentDataFile(dataFiles: string[], path: string): boolean {
+  return dataFiles.some(entry => matchesDataPattern(entry, path));
+}
+
+/**
+ * List every file below a directory as sorted paths relative to it
+ */
+export function listFilesRecursive(root: string, prefix: string = ''): string[] {
+  const dir = join(root, prefix);
+  if (!existsSync(dir)) return [];
+
+  const files: string[] = [];
+  for (const entry of readdirSync(dir, { withFileTypes: true })) {
+    if (entry.name.startsWith('.')) continue;
+
+    const relative = prefix ? `${prefix}/${entry.name}` : entry.name;
+    if (entry.isDirectory()) {
+      files.push(...listFilesRecursive(root, relative));
+    } else if (entry.isFile()) {
+      files.push(relative);
+    }
+  }
+
+  return files.sort();
+}
+
+export type DataFileRequest =
+  | { kind: 'file'; path: string }
+  | { kind: 'collection'; pattern: string };
+
+/**
+ * Decide how a requested path maps onto an agent's dataFiles entries:
+ * a single registered file, a registered directory/glob, or a directory implied by one
+ */
+export function resolveDataFileRequest(dataFiles: string[], path: string): DataFileRequest | null {
+  const trimmed = path.replace(/^\/+/, '');
+  if (trimmed.split('/').some(segment => segment === '..' || segment === '.')) return null;
+
+  if (isDataPattern(trimmed)) {
+    const registered = dataFiles.includes(trimmed) ||
+      dataFiles.some(entry => entry.endsWith('/') && trimmed.startsWith(entry));
+    return registered ? { kind: 'collection', pattern: trimmed } : null;
+  }
+
+  if (isAgentDataFile(dataFiles, trimmed)) {
+    return { kind: 'file', path: trimmed };
+  }
+
+  if (dataFiles.some(entry => entry.startsWith(`${trimmed}/`))) {
+    return { kind: 'collection', pattern: `${trimmed}/` };
+  }
+
+  return null;
+}
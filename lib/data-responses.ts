@@ -0,0 +1,194 @@
+/**
+ * Data Responses - Shared response building for the local agent data routes
+ * Used by /api/agents/{agentId}/data?file=... and /api/agents/{agentId}/data/{...path}
+ */
+
+import type { AgentConfig } from "./agent-registry";
+import type { ApiResponder } from "./api-response";
+import { resolveDataFileRequest } from "./data-patterns";
+import { loadAgentDataCollection, loadAgentFile, type DataLoadOptions } from "./data-access";
+import type { DataValidationReport } from "./data-contracts";
+
+/**
+ * Respond with a single data file or a keyed collection for a directory/glob entry
+ */
+export async function agentDataFileResponse(
+  api: ApiResponder,
+  agent: AgentConfig,
+  path: string,
+  format: string,
+  options?: DataLoadOptions
+): Promise<Response> {
+  const request = resolveDataFileRequest(agent.dataFiles, path);
+
+  if (!request) {
+    return api.error('FILE_NOT_FOUND', `File '${path}' not found for agent '${agent.id}'`, {
+      availableFiles: agent.dataFiles
+    });
+  }
+
+  if (request.kind === 'collection') {
+    const result = await loadAgentDataCollection(agent.id, request.pattern, undefined, options);
+
+    if (Object.keys(result.data).length === 0) {
+      return api.error('DATA_NOT_FOUND', result.error || `No files match '${request.pattern}'`, {
+        source: result.source,
+        pattern: request.pattern,
+        ...(result.policy && { policy: result.policy })
+      });
+    }
+
+    return api.ok({
+      pattern: request.pattern,
+      files: Object.keys(result.data),
+      data: result.data,
+      source: result.source,
+      success: result.success,
+      ...(result.degraded && { degraded: true }),
+      ...(result.error && { error: result.error }),
+      ...(result.files && { fileStatus: result.files }),
+      agent: {
+        id: agent.id,
+        name: agent.name,
+        category: agent.category
+      }
+    });
+  }
+
+  const filename = request.path;
+  const extension = filename.split('.').pop()?.toLowerCase() || 'txt';
+  const result = await loadAgentFile(agent.id, filename, options);
+
+  if (!result.success) {
+    return api.error(result.parseErrors || result.validation ? 'DATA_INVALID' : 'DATA_NOT_FOUND', result.error || `Failed to load ${filename}`, {
+      source: result.source,
+      ...(result.parseErrors && { parseErrors: result.parseErrors }),
+      ...(result.validation && { validation: result.validation }),
+      ...(result.policy && { policy: result.policy }),
+      ...(result.attempts && { attempts: result.attempts })
+    });
+  }
+
+  // Return in requested format
+  if (format === 'raw') {
+    return new Response(
+      typeof result.data === 'string' ? result.data : JSON.stringify(result.data),
+      {
+        headers: {
+          'Content-Type': getContentType(extension),
+          'X-Data-Source': result.source,
+          'X-Request-Id': api.requestId,
+          ...(result.degraded && { 'X-Data-Degraded': 'true' })
+        }
+      }
+    );
+  }
+
+  return api.ok({
+    filename,
+    data: result.data,
+    source: result.source,
+    ...(result.degraded && { degraded: true, attempts: result.attempts }),
+    ...(result.parseErrors && { parseErrors: result.parseErrors }),
+    ...(result.validation && !result.validation.valid && { validation: result.validation }),
+    agent: {
+      id: agent.id,
+      name: agent.name,
+      category: agent.category
+    }
+  });
+}
+
+interface DataQualityFile {
+  source: string;
+  loaded: boolean;
+  error?: string;
+  degraded?: boolean;
+  validation?: DataValidationReport; // Absent when the file has no data contract
+}
+
+/**
+ * Respond with a data-quality report: each data file checked against its contract
+ * Directory/glob entries are expanded so every matched file is reported
+ */
+export async function agentDataQualityResponse(
+  api: ApiResponder,
+  agent: AgentConfig,
+  options?: DataLoadOptions
+): Promise<Response> {
+  const files: Record<string, DataQualityFile> = {};
+
+  for (const entry of agent.dataFiles) {
+    const request = resolveDataFileRequest(agent.dataFiles, entry);
+
+    if (request?.kind === 'collection') {
+      const result = await loadAgentDataCollection(agent.id, request.pattern, undefined, options);
+      if (!result.files) {
+        files[entry] = { source: result.source, loaded: false, ...(result.error && { error: result.error }) };
+        continue;
+      }
+      for (const [file, status] of Object.entries(result.files)) {
+        files[file] = {
+          source: status.source,
+          loaded: status.success,
+          ...(status.error && { error: status.error }),
+          ...(status.degraded && { degraded: true }),
+          ...(status.validation && { validation: status.validation })
+        };
+      }
+      continue;
+    }
+
+    const result = await loadAgentFile(agent.id, entry, options);
+    files[entry] = {
+      source: result.source,
+      loaded: result.success,
+      ...(result.error && { error: result.error }),
+      ...(result.degraded && { degraded: true }),
+      ...(result.validation && { validation: result.validation })
+    };
+  }
+
+  const reports = Object.values(files);
+  const validated = reports.filter(file => file.validation);
+  const rows = validated.map(file => file.validation?.rows).filter(Boolean) as NonNullable<DataValidationReport['rows']>[];
+
+  return api.ok({
+    agent: {
+      id: agent.id,
+      name: agent.name
+    },
+    valid: reports.every(file => file.loaded && file.validation?.valid !== false),
+    summary: {
+      files: reports.length,
+      loaded: reports.filter(file => file.loaded).length,
+      validated: validated.length,
+      invalidFiles: validated.filter(file => !file.validation?.valid).length,
+      rows: rows.reduce((total, count) => total + count.total, 0),
+      invalidRows: rows.reduce((total, count) => total + count.invalid, 0),
+      issues: validated.reduce((total, file) => total + (file.validation?.issues.length ?? 0), 0)
+    },
+    files
+  });
+}
+
+/**
+ * Get appropriate content type for file extension
+ */
+export function getContentType(extension: string): string {
+  switch (extension) {
+    case 'json':
+      return 'application/json';
+    case 'csv':
+      return 'text/csv';
+    case 'xml':
+      return 'application/xml';
+    case 'yaml':
+    case 'yml':
+      return 'application/yaml';
+    case 'txt':
+      return 'text/plain';
+    default:
+      return 'text/plain';
+  }
+}
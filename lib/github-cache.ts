@@ -0,0 +1,355 @@
+/**
+ * GitHub Cache - Memory + on-disk cache for GitHub responses
+ * Entries are keyed by owner/repo/ref/path, revalidated with If-None-Match and served
+ * stale while revalidating so demo days don't burn the unauthenticated rate limit
+ */
+
+import { createHash } from "node:crypto";
+import { existsSync, mkdirSync, readFileSync, readdirSync, unlinkSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { getConfig } from "./config";
+import { logger } from "./logger";
+
+export type GitHubCacheStatus = 'hit' | 'miss' | 'revalidated' | 'stale' | 'stale-if-error' | 'rate-limited' | 'offline';
+
+export interface GitHubCacheEntry {
+  key: string;
+  url: string;
+  body: string;
+  etag?: string;
+  lastModified?: string;
+  fetchedAt: number;
+  expiresAt: number;
+}
+
+export interface GitHubCacheOptions {
+  ttlMs: number;
+  staleMs: number;
+  dir: string | null;
+  offline?: boolean; // Serve cached entries only, never fetch
+}
+
+export interface GitHubCachedResponse {
+  ok: boolean;
+  status: number;
+  statusText: string;
+  body: string;
+  cache: GitHubCacheStatus;
+  fetchedAt?: string;
+}
+
+export interface GitHubRateLimit {
+  resource: string;
+  limit: number;
+  remaining: number;
+  used: number;
+  reset: string;
+  updatedAt: string;
+}
+
+export interface GitHubCacheStats {
+  entries: {
+    memory: number;
+    disk: number;
+  };
+  hits: number;
+  misses: number;
+  revalidated: number;
+  stale: number;
+  errors: number;
+  inflight: number;
+  rateLimits: Record<string, GitHubRateLimit>;
+  options: {
+    ttlSeconds: number;
+    staleSeconds: number;
+    dir: string | null;
+  };
+}
+
+const memory = new Map<string, GitHubCacheEntry>();
+const inflight = new Map<string, Promise<GitHubCachedResponse>>();
+const rateLimits: Record<string, GitHubRateLimit> = {};
+const counters = { hits: 0, misses: 0, revalidated: 0, stale: 0, errors: 0 };
+
+/**
+ * Get cache options from configuration (GITHUB_CACHE_TTL, GITHUB_CACHE_STALE_TTL, GITHUB_CACHE_DIR)
+ */
+export function getGitHubCacheOptions(): GitHubCacheOptions {
+  const { githubCache, offline } = getConfig();
+  return {
+    ttlMs: githubCache.ttlSeconds * 1000,
+    staleMs: githubCache.staleSeconds * 1000,
+    dir: githubCache.dir,
+    offline
+  };
+}
+
+/**
+ * Build a cache key from the repository coordinates and the kind of request (raw, contents, tree)
+ */
+export function getGitHubCacheKey(
+  kind: string,
+  repo: { owner: string; repo: string; branch: string },
+  path: string
+): string {
+  return `${kind}:${repo.owner}/${repo.repo}/${repo.branch}/${path}`;
+}
+
+function diskPath(dir: string, key: string): string {
+  return join(dir, `${createHash('sha256').update(key).digest('hex').slice(0, 40)}.json`);
+}
+
+function readEntry(key: string, options: GitHubCacheOptions): GitHubCacheEntry | undefined {
+  const cached = memory.get(key);
+  if (cached || !options.dir) return cached;
+
+  try {
+    const path = diskPath(options.dir, key);
+    if (!existsSync(path)) return undefined;
+
+    const entry = JSON.parse(readFileSync(path, 'utf8')) as GitHubCacheEntry;
+    if (entry.key !== key) return undefined;
+
+    memory.set(key, entry);
+    return entry;
+  } catch {
+    return undefined;
+  }
+}
+
+function writeEntry(entry: GitHubCacheEntry, options: GitHubCacheOptions): void {
+  memory.set(entry.key, entry);
+  if (!options.dir) return;
+
+  // The disk layer is best effort; the memory entry is still served
+  try {
+    mkdirSync(options.dir, { recursive: true });
+    writeFileSync(diskPath(options.dir, entry.key), JSON.stringify(entry));
+  } catch (error) {
+    counters.errors++;
+    logger.warn("GitHub cache write failed", { error });
+  }
+}
+
+/**
+ * Record GitHub's x-ratelimit-* headers (raw.githubusercontent.com doesn't send them)
+ */
+function trackRateLimit(headers: Headers): void {
+  const limit = headers.get('x-ratelimit-limit');
+  const remaining = headers.get('x-ratelimit-remaining');
+  const reset = headers.get('x-ratelimit-reset');
+  if (limit === null || remaining === null || reset === null) return;
+
+  const resource = headers.get('x-ratelimit-resource') || 'core';
+  rateLimits[resource] = {
+    resource,
+    limit: parseInt(limit, 10),
+    remaining: parseInt(remaining, 10),
+    used: parseInt(headers.get('x-ratelimit-used') || '0', 10),
+    reset: new Date(parseInt(reset, 10) * 1000).toISOString(),
+    updatedAt: new Date().toISOString()
+  };
+}
+
+function isRateLimited(): boolean {
+  return Object.values(rateLimits).some(
+    rateLimit => rateLimit.remaining === 0 && new Date(rateLimit.reset).getTime() > Date.now()
+  );
+}
+
+function fromEntry(entry: GitHubCacheEntry, cache: GitHubCacheStatus): GitHubCachedResponse {
+  return {
+    ok: true,
+    status: 200,
+    statusText: 'OK',
+    body: entry.body,
+    cache,
+    fetchedAt: new Date(entry.fetchedAt).toISOString()
+  };
+}
+
+async function revalidate(
+  key: string,
+  url: string,
+  headers: Record<string, string>,
+  entry: GitHubCacheEntry | undefined,
+  options: GitHubCacheOptions
+): Promise<GitHubCachedResponse> {
+  const requestHeaders: Record<string, string> = { ...headers };
+  if (entry?.etag) requestHeaders['If-None-Match'] = entry.etag;
+  if (entry?.lastModified) requestHeaders['If-Modified-Since'] = entry.lastModified;
+
+  try {
+    const response = await fetch(url, { headers: requestHeaders });
+    trackRateLimit(response.headers);
+
+    if (response.status === 304 && entry) {
+      const refreshed = { ...entry, fetchedAt: Date.now(), expiresAt: Date.now() + options.ttlMs };
+      writeEntry(refreshed, options);
+      counters.revalidated++;
+      return fromEntry(refreshed, 'revalidated');
+    }
+
+    if (!response.ok) {
+      // Keep serving what we have when GitHub errors or rate limits us
+      if (entry) {
+        counters.stale++;
+        return fromEntry(entry, response.status === 403 || response.status === 429 ? 'rate-limited' : 'stale-if-error');
+      }
+      return {
+        ok: false,
+        status: response.status,
+        statusText: response.statusText,
+        body: '',
+        cache: 'miss'
+      };
+    }
+
+    const fresh: GitHubCacheEntry = {
+      key,
+      url,
+      body: await response.text(),
+      etag: response.headers.get('etag') || undefined,
+      lastModified: response.headers.get('last-modified') || undefined,
+      fetchedAt: Date.now(),
+      expiresAt: Date.now() + options.ttlMs
+    };
+    writeEntry(fresh, options);
+    return fromEntry(fresh, entry ? 'revalidated' : 'miss');
+
+  } catch (error) {
+    counters.errors++;
+    if (entry) {
+      counters.stale++;
+      return fromEntry(entry, 'stale-if-error');
+    }
+    throw error;
+  }
+}
+
+/**
+ * Fetch a GitHub URL through the cache. Fresh entries are served without a request,
+ * entries within the stale window are served while revalidating in the background,
+ * and older entries are revalidated with If-None-Match before being served.
+ * In offline mode only cached entries are served, whatever their age.
+ * Only successful responses are cached; network errors throw when nothing is cached.
+ */
+export async function cachedGitHubFetch(
+  key: string,
+  url: string,
+  headers: Record<string, string> = {},
+  options: GitHubCacheOptions = getGitHubCacheOptions()
+): Promise<GitHubCachedResponse> {
+  const entry = readEntry(key, options);
+  const now = Date.now();
+
+  if (options.offline) {
+    if (entry) return fromEntry(entry, 'offline');
+    return {
+      ok: false,
+      status: 503,
+      statusText: 'Offline mode - network access is disabled',
+      body: '',
+      cache: 'offline'
+    };
+  }
+
+  if (entry && now < entry.expiresAt) {
+    counters.hits++;
+    return fromEntry(entry, 'hit');
+  }
+
+  if (entry && isRateLimited()) {
+    counters.stale++;
+    return fromEntry(entry, 'rate-limited');
+  }
+
+  // Share one request between concurrent callers for the same key
+  const pending = inflight.get(key) ?? revalidate(key, url, headers, entry, options)
+    .finally(() => inflight.delete(key));
+  inflight.set(key, pending);
+
+  if (entry && now < entry.expiresAt + options.staleMs) {
+    pending.catch(() => undefined);
+    counters.stale++;
+    return fromEntry(entry, 'stale');
+  }
+
+  if (!entry) counters.misses++;
+  return pending;
+}
+
+/**
+ * Get cache counters, entry counts and the last seen GitHub rate limits
+ */
+export function getGitHubCacheStats(options: GitHubCacheOptions = getGitHubCacheOptions()): GitHubCacheStats {
+  let disk = 0;
+  if (options.dir && existsSync(options.dir)) {
+    disk = readdirSync(options.dir).filter(name => name.endsWith('.json')).length;
+  }
+
+  return {
+    entries: {
+      memory: memory.size,
+      disk
+    },
+    ...counters,
+    inflight: inflight.size,
+    rateLimits: { ...rateLimits },
+    options: {
+      ttlSeconds: options.ttlMs / 1000,
+      staleSeconds: options.staleMs / 1000,
+      dir: options.dir
+    }
+  };
+}
+
+/**
+ * Remove cached entries whose key contains `match` (everything when omitted).
+ * Returns the number of distinct keys removed from memory and disk.
+ */
+export function purgeGitHubCache(
+  match?: string,
+  options: GitHubCacheOptions = getGitHubCacheOptions()
+): number {
+  const removed = new Set<string>();
+
+  for (const key of Array.from(memory.keys())) {
+    if (!match || key.includes(match)) {
+      memory.delete(key);
+      removed.add(key);
+    }
+  }
+
+  if (options.dir && existsSync(options.dir)) {
+    for (const name of readdirSync(options.dir).filter(file => file.endsWith('.json'))) {
+      const path = join(options.dir, name);
+      try {
+        const { key } = JSON.parse(readFileSync(path, 'utf8')) as GitHubCacheEntry;
+        if (!match || key.includes(match)) {
+          unlinkSync(path);
+          removed.add(key);
+        }
+      } catch {
+        // Unreadable files are not ours to interpret; only remove them on a full purge
+        if (!match) unlinkSync(path);
+      }
+    }
+  }
+
+  return removed.size;
+}
+
+/**
+ * Clear in-memory entries, counters and rate limits (disk entries are kept)
+ */
+export function resetGitHubCache(): void {
+  memory.clear();
+  inflight.clear();
+  for (const resource of Object.keys(rateLimits)) delete rateLimits[resource];
+  counters.hits = 0;
+  counters.misses = 0;
+  counters.revalidated = 0;
+  counters.stale = 0;
+  counters.errors = 0;
+}
@@ -3,6 +3,13 @@
  * Allows team members to access agent data without local repository setup
  */
 
+import { resolveLFSContent, type LFSPointer } from "./lfs";
+import { parseCSVRecords } from "./csv";
+import { parseDocument } from "yaml";
+import { isDataPattern, matchesDataPattern } from "./data-patterns";
+import { getConfig } from "./config";
+import { cachedGitHubFetch, getGitHubCacheKey, type GitHubCacheStatus } from "./github-cache";
+
 export interface GitHubConfig {
   owner: string;
   repo: string;
@@ -16,15 +23,37 @@ export interface GitHubDataResult<T = any> {
   success: boolean;
   error?: string;
   url?: string;
+  lfs?: LFSPointer & { resolvedFrom: string };
+  cache?: GitHubCacheStatus;
+  degraded?: boolean;
+  attempts?: DataAttempt[];
+}
+
+/**
+ * One step of a data loading fallback chain: a local path, GitHub URL or mock data
+ */
+export interface DataAttempt {
+  source: string;
+  target: string;
+  success: boolean;
+  error?: string;
+  skipped?: boolean;
 }
 
-// Default GitHub configuration
-const DEFAULT_GITHUB_CONFIG: GitHubConfig = {
-  owner: 'indranilbanerjee',
-  repo: 'hackathon-agents-starter',
-  branch: 'main',
-  basePath: 'data/agents-seed-pack-full'
-};
+export interface YAMLSyntaxError {
+  line: number;
+  column: number;
+  code: string;
+  message: string;
+}
+
+/**
+ * Get the GitHub configuration from the environment (GITHUB_OWNER, GITHUB_REPO, GITHUB_BRANCH, GITHUB_BASE_PATH)
+ */
+export function getDefaultGitHubConfig(): GitHubConfig {
+  const { owner, repo, branch, basePath } = getConfig().github;
+  return { owner, repo, branch, basePath };
+}
 
 /**
  * Fetch data directly from GitHub raw URLs
@@ -33,13 +62,14 @@ export async function fetchFromGitHubRaw<T = any>(
   agentDayFolder: string,
   filename: string,
   parser?: (content: string) => T,
-  config: GitHubConfig = DEFAULT_GITHUB_CONFIG
+  config: GitHubConfig = getDefaultGitHubConfig()
 ): Promise<GitHubDataResult<T>> {
   
   const rawUrl = `https://raw.githubusercontent.com/${config.owner}/${config.repo}/${config.branch}/${config.basePath}/${agentDayFolder}/${filename}`;
+  const cacheKey = getGitHubCacheKey('raw', config, `${config.basePath}/${agentDayFolder}/${filename}`);
   
   try {
-    const response = await fetch(rawUrl);
+    const response = await cachedGitHubFetch(cacheKey, rawUrl);
     
     if (!response.ok) {
       return {
@@ -51,14 +81,31 @@ export async function fetchFromGitHubRaw<T = any>(
       };
     }
     
-    const content = await response.text();
-    const parsedData = parser ? parser(content) : (content as T);
+    const content = response.body;
+    const lfsResult = await resolveLFSContent(content, {
+      mediaUrl: generateGitHubUrls(agentDayFolder, filename, config).media
+    });
+
+    if (lfsResult && !lfsResult.success) {
+      return {
+        data: null as T,
+        source: 'lfs-pointer-unresolved',
+        success: false,
+        error: lfsResult.error,
+        url: rawUrl
+      };
+    }
+
+    const resolved = lfsResult ? lfsResult.content : content;
+    const parsedData = parser ? parser(resolved) : (resolved as T);
     
     return {
       data: parsedData,
       source: 'github-raw',
       success: true,
-      url: rawUrl
+      url: rawUrl,
+      ...(lfsResult && { lfs: { ...lfsResult.pointer, resolvedFrom: lfsResult.source } }),
+      cache: response.cache
     };
     
   } catch (error) {
@@ -79,11 +126,12 @@ export async function fetchFromGitHubAPI<T = any>(
   agentDayFolder: string,
   filename: string,
   parser?: (content: string) => T,
-  config: GitHubConfig = DEFAULT_GITHUB_CONFIG,
-  githubToken?: string
+  config: GitHubConfig = getDefaultGitHubConfig(),
+  githubToken: string | undefined = getConfig().github.token
 ): Promise<GitHubDataResult<T>> {
   
   const apiUrl = `https://api.github.com/repos/${config.owner}/${config.repo}/contents/${config.basePath}/${agentDayFolder}/${filename}?ref=${config.branch}`;
+  const cacheKey = getGitHubCacheKey('contents', config, `${config.basePath}/${agentDayFolder}/${filename}`);
   
   try {
     const headers: Record<string, string> = {
@@ -95,7 +143,7 @@ export async function fetchFromGitHubAPI<T = any>(
       headers['Authorization'] = `token ${githubToken}`;
     }
     
-    const response = await fetch(apiUrl, { headers });
+    const response = await cachedGitHubFetch(cacheKey, apiUrl, headers);
     
     if (!response.ok) {
       return {
@@ -107,7 +155,7 @@ export async function fetchFromGitHubAPI<T = any>(
       };
     }
     
-    const apiResponse = await response.json();
+    const apiResponse = JSON.parse(response.body);
     
     if (apiResponse.type !== 'file') {
       return {
@@ -121,13 +169,30 @@ export async function fetchFromGitHubAPI<T = any>(
     
     // Decode base64 content
     const content = Buffer.from(apiResponse.content, 'base64').toString('utf-8');
-    const parsedData = parser ? parser(content) : (content as T);
+    const lfsResult = await resolveLFSContent(content, {
+      mediaUrl: generateGitHubUrls(agentDayFolder, filename, config).media
+    });
+
+    if (lfsResult && !lfsResult.success) {
+      return {
+        data: null as T,
+        source: 'lfs-pointer-unresolved',
+        success: false,
+        error: lfsResult.error,
+        url: apiUrl
+      };
+    }
+
+    const resolved = lfsResult ? lfsResult.content : content;
+    const parsedData = parser ? parser(resolved) : (resolved as T);
     
     return {
       data: parsedData,
       source: 'github-api',
       success: true,
-      url: apiUrl
+      url: apiUrl,
+      ...(lfsResult && { lfs: { ...lfsResult.pointer, resolvedFrom: lfsResult.source } }),
+      cache: response.cache
     };
     
   } catch (error) {
@@ -143,14 +208,22 @@ export async function fetchFromGitHubAPI<T = any>(
 
 /**
  * Get list of files in an agent's data folder from GitHub
+ * With recursive=true, nested files are listed as paths relative to the folder (contracts/msa_01.txt)
  */
 export async function getAgentFilesFromGitHub(
   agentDayFolder: string,
-  config: GitHubConfig = DEFAULT_GITHUB_CONFIG,
-  githubToken?: string
+  config: GitHubConfig = getDefaultGitHubConfig(),
+  githubToken: string | undefined = getConfig().github.token,
+  recursive: boolean = false
 ): Promise<GitHubDataResult<string[]>> {
   
-  const apiUrl = `https://api.github.com/repos/${config.owner}/${config.repo}/contents/${config.basePath}/${agentDayFolder}?ref=${config.branch}`;
+  const folderPath = `${config.basePath}/${agentDayFolder}`;
+  const apiUrl = recursive
+    ? `https://api.github.com/repos/${config.owner}/${config.repo}/git/trees/${config.branch}?recursive=1`
+    : `https://api.github.com/repos/${config.owner}/${config.repo}/contents/${folderPath}?ref=${config.branch}`;
+  const cacheKey = recursive
+    ? getGitHubCacheKey('tree', config, '')
+    : getGitHubCacheKey('contents', config, `${folderPath}/`);
   
   try {
     const headers: Record<string, string> = {
@@ -162,7 +235,7 @@ export async function getAgentFilesFromGitHub(
       headers['Authorization'] = `token ${githubToken}`;
     }
     
-    const response = await fetch(apiUrl, { headers });
+    const response = await cachedGitHubFetch(cacheKey, apiUrl, headers);
     
     if (!response.ok) {
       return {
@@ -174,16 +247,22 @@ export async function getAgentFilesFromGitHub(
       };
     }
     
-    const files = await response.json();
-    const filenames = files
-      .filter((item: any) => item.type === 'file')
-      .map((item: any) => item.name);
+    const body = JSON.parse(response.body);
+    const filenames = recursive
+      ? body.tree
+          .filter((item: any) => item.type === 'blob' && item.path.startsWith(`${folderPath}/`))
+          .map((item: any) => item.path.slice(folderPath.length + 1))
+      : body
+          .filter((item: any) => item.type === 'file')
+          .map((item: any) => item.name);
     
     return {
       data: filenames,
       source: 'github-api',
       success: true,
-      url: apiUrl
+      url: apiUrl,
+      ...(recursive && body.truncated && { error: 'GitHub tree listing was truncated' }),
+      cache: response.cache
     };
     
   } catch (error) {
@@ -205,28 +284,49 @@ export async function loadAgentDataFromGitHub<T = any>(
   filename: string,
   parser?: (content: string) => T,
   mockData?: T,
-  config: GitHubConfig = DEFAULT_GITHUB_CONFIG
+  config: GitHubConfig = getDefaultGitHubConfig()
 ): Promise<GitHubDataResult<T>> {
   
+  const toAttempt = (method: string, result: GitHubDataResult<T>): DataAttempt => ({
+    source: method,
+    target: result.url || '',
+    success: result.success,
+    ...(result.error && { error: result.error })
+  });
+
   // Try GitHub Raw first (faster, no rate limits)
   const rawResult = await fetchFromGitHubRaw(agentDayFolder, filename, parser, config);
   if (rawResult.success) {
-    return rawResult;
+    return { ...rawResult, attempts: [toAttempt('github-raw', rawResult)] };
   }
   
   // Fallback to GitHub API
   const apiResult = await fetchFromGitHubAPI(agentDayFolder, filename, parser, config);
+  const attempts = [toAttempt('github-raw', rawResult), toAttempt('github-api', apiResult)];
   if (apiResult.success) {
-    return apiResult;
+    return { ...apiResult, attempts };
   }
   
+  // An unresolved LFS pointer is a real error, not a reason to serve mock data
+  if (rawResult.source === 'lfs-pointer-unresolved' || apiResult.source === 'lfs-pointer-unresolved') {
+    return {
+      data: null as T,
+      source: 'lfs-pointer-unresolved',
+      success: false,
+      error: `GitHub returned an LFS pointer that could not be resolved. Raw: ${rawResult.error}, API: ${apiResult.error}`,
+      attempts
+    };
+  }
+
   // Use mock data if provided
   if (mockData !== undefined) {
     return {
       data: mockData,
       source: 'mock-data',
       success: true,
-      error: `GitHub access failed, using mock data. Raw error: ${rawResult.error}, API error: ${apiResult.error}`
+      degraded: true,
+      error: `GitHub access failed, using mock data. Raw error: ${rawResult.error}, API error: ${apiResult.error}`,
+      attempts: [...attempts, { source: 'mock-data', target: `${agentDayFolder}/${filename}`, success: true }]
     };
   }
   
@@ -235,26 +335,70 @@ export async function loadAgentDataFromGitHub<T = any>(
     data: null as T,
     source: 'github-failed',
     success: false,
-    error: `All GitHub access methods failed. Raw: ${rawResult.error}, API: ${apiResult.error}`
+    error: `All GitHub access methods failed. Raw: ${rawResult.error}, API: ${apiResult.error}`,
+    attempts
   };
 }
 
 /**
- * CSV parser for GitHub data
+ * Load every file matching a directory/glob entry from GitHub, keyed by relative path
  */
-export function parseCSV(content: string): any[] {
-  const lines = content.trim().split(/\r?\n/);
-  const [header, ...rows] = lines;
-  const headers = header.split(',').map(h => h.trim());
+export async function loadAgentCollectionFromGitHub(
+  agentDayFolder: string,
+  pattern: string,
+  config: GitHubConfig = getDefaultGitHubConfig()
+): Promise<GitHubDataResult<Record<string, any>>> {
   
-  return rows.map(row => {
-    const values = row.split(',');
-    const obj: any = {};
-    headers.forEach((h, i) => {
-      obj[h] = values[i]?.trim() || '';
-    });
-    return obj;
+  const listing = await getAgentFilesFromGitHub(agentDayFolder, config, undefined, true);
+  if (!listing.success) {
+    return {
+      data: {},
+      source: listing.source,
+      success: false,
+      error: listing.error,
+      url: listing.url
+    };
+  }
+  
+  const files = listing.data.filter(file => matchesDataPattern(pattern, file));
+  if (files.length === 0) {
+    return {
+      data: {},
+      source: 'github-api',
+      success: false,
+      error: `No files in ${agentDayFolder} match '${pattern}'`,
+      url: listing.url
+    };
+  }
+  
+  const results = await Promise.all(
+    files.map(file => loadAgentDataFromGitHub(agentDayFolder, file, getParserForFile(file), undefined, config))
+  );
+  
+  const data: Record<string, any> = {};
+  const errors: string[] = [];
+  files.forEach((file, i) => {
+    if (results[i].success) {
+      data[file] = results[i].data;
+    } else {
+      errors.push(`${file}: ${results[i].error}`);
+    }
   });
+  
+  return {
+    data,
+    source: 'github-collection',
+    success: errors.length === 0,
+    ...(errors.length > 0 && { error: errors.join('; ') }),
+    url: listing.url
+  };
+}
+
+/**
+ * CSV parser for GitHub data
+ */
+export function parseCSV(content: string): any[] {
+  return parseCSVRecords(content).rows;
 }
 
 /**
@@ -264,19 +408,67 @@ export function parseJSON<T = any>(content: string): T {
   return JSON.parse(content);
 }
 
+/**
+ * YAML parser that collects syntax errors with line/column positions
+ */
+export function parseYAMLDocument<T = any>(content: string): { data: T | null; errors: YAMLSyntaxError[] } {
+  const doc = parseDocument(content, { prettyErrors: true });
+  const errors = doc.errors.map(error => ({
+    line: error.linePos?.[0].line ?? 0,
+    column: error.linePos?.[0].col ?? 0,
+    code: error.code,
+    message: error.message.split('\n')[0].replace(/ at line \d+, column \d+:?$/, '')
+  }));
+
+  return {
+    data: errors.length > 0 ? null : doc.toJS() as T,
+    errors
+  };
+}
+
+/**
+ * YAML parser for GitHub data
+ */
+export function parseYAML<T = any>(content: string): T {
+  const { data, errors } = parseYAMLDocument<T>(content);
+  if (errors.length > 0) {
+    const [first] = errors;
+    throw new Error(`YAML syntax error at line ${first.line}, column ${first.column}: ${first.message}`);
+  }
+  return data as T;
+}
+
+/**
+ * Pick a parser from the file extension; txt, xml and unknown files stay as strings
+ */
+export function getParserForFile(filename: string): ((content: string) => any) | undefined {
+  switch (filename.split('.').pop()?.toLowerCase()) {
+    case 'csv':
+      return parseCSV;
+    case 'json':
+      return parseJSON;
+    case 'yaml':
+    case 'yml':
+      return parseYAML;
+    default:
+      return undefined;
+  }
+}
+
 /**
  * Generate GitHub URLs for direct access
  */
 export function generateGitHubUrls(
   agentDayFolder: string,
   filename: string,
-  config: GitHubConfig = DEFAULT_GITHUB_CONFIG
+  config: GitHubConfig = getDefaultGitHubConfig()
 ) {
   return {
     raw: `https://raw.githubusercontent.com/${config.owner}/${config.repo}/${config.branch}/${config.basePath}/${agentDayFolder}/${filename}`,
     blob: `https://github.com/${config.owner}/${config.repo}/blob/${config.branch}/${config.basePath}/${agentDayFolder}/${filename}`,
     api: `https://api.github.com/repos/${config.owner}/${config.repo}/contents/${config.basePath}/${agentDayFolder}/${filename}?ref=${config.branch}`,
-    folder: `https://github.com/${config.owner}/${config.repo}/tree/${config.branch}/${config.basePath}/${agentDayFolder}`
+    folder: `https://github.com/${config.owner}/${config.repo}/tree/${config.branch}/${config.basePath}/${agentDayFolder}`,
+    media: `${getConfig().lfs.mediaUrl || `https://media.githubusercontent.com/media/${config.owner}/${config.repo}/${config.branch}`}/${config.basePath}/${agentDayFolder}/${filename}`
   };
 }
 
@@ -286,33 +478,28 @@ export function generateGitHubUrls(
 export async function getAgentDemoDataFromGitHub(
   agentDayFolder: string,
   dataFiles: string[],
-  config: GitHubConfig = DEFAULT_GITHUB_CONFIG
+  config: GitHubConfig = getDefaultGitHubConfig()
 ): Promise<Record<string, GitHubDataResult<any>>> {
   
-  const results: Record<string, GitHubDataResult<any>> = {};
+  // Fetch files in parallel; repeated requests are served from the GitHub cache
+  const loaded = await Promise.all(
+    dataFiles.map(filename =>
+      isDataPattern(filename)
+        ? loadAgentCollectionFromGitHub(agentDayFolder, filename, config)
+        : loadAgentDataFromGitHub(
+            agentDayFolder,
+            filename,
+            getParserForFile(filename),
+            undefined, // No mock data for GitHub access
+            config
+          )
+    )
+  );
   
-  for (const filename of dataFiles) {
-    const extension = filename.split('.').pop()?.toLowerCase();
-    let parser: ((content: string) => any) | undefined;
-    
-    switch (extension) {
-      case 'csv':
-        parser = parseCSV;
-        break;
-      case 'json':
-        parser = parseJSON;
-        break;
-      // txt and xml files are returned as strings (no parsing needed)
-    }
-    
-    results[filename] = await loadAgentDataFromGitHub(
-      agentDayFolder,
-      filename,
-      parser,
-      undefined, // No mock data for GitHub access
-      config
-    );
-  }
+  const results: Record<string, GitHubDataResult<any>> = {};
+  dataFiles.forEach((filename, i) => {
+    results[filename] = loaded[i];
+  });
   
   return results;
 }
@@ -0,0 +1,257 @@
+/**
+ * Health - Liveness, readiness checks and diagnostics for the API
+ * Readiness covers the registry, data roots, LFS objects and data contracts;
+ * diagnostics add per-agent data availability, GitHub reachability and build info.
+ */
+
+import { accessSync, constants, existsSync, readFileSync, statSync } from "node:fs";
+import { join } from "node:path";
+import { getAgentRegistry, type AgentConfig } from "./agent-registry";
+import { getConfig, getSeedRoot } from "./config";
+import { getAgentDemoData, type DataLoadOptions } from "./data-access";
+import { getDataContract, validateData } from "./data-contracts";
+import { isDataPattern } from "./data-patterns";
+import { getGitHubCacheStats, type GitHubRateLimit } from "./github-cache";
+import { getLFSObjectDirs, getLFSObjectPath, parseLFSPointer } from "./lfs";
+import { getAgentMockData } from "./mock-data";
+import { scanSeedPack } from "./registry-builder";
+
+export type CheckStatus = 'pass' | 'warn' | 'fail'; // warn does not make the service unready
+
+export interface ReadinessCheck {
+  name: string;
+  status: CheckStatus;
+  message: string;
+  details?: Record<string, unknown>;
+}
+
+export interface ReadinessReport {
+  ready: boolean;
+  checks: ReadinessCheck[];
+}
+
+export interface AgentDataAvailability {
+  agentId: string;
+  status: AgentConfig['status'];
+  available: boolean; // Every file loaded, from any source
+  degraded: boolean; // At least one file came from a fallback (GitHub or mock)
+  files: Record<string, { source: string; success: boolean; degraded?: boolean; error?: string }>;
+}
+
+export interface GitHubReachability {
+  reachable: boolean | null; // null when the check was skipped
+  status?: number;
+  latencyMs?: number;
+  rateLimit?: { limit: number; remaining: number; reset: string };
+  cachedRateLimits: Record<string, GitHubRateLimit>;
+  error?: string;
+}
+
+export interface BuildInfo {
+  version: string;
+  node: string;
+  environment: string;
+  commit: string | null;
+  startedAt: string;
+  uptimeSeconds: number;
+}
+
+const startedAt = Date.now();
+
+// Pointer files are ~130 bytes; anything larger is real content
+const MAX_POINTER_SIZE = 1024;
+
+/**
+ * Build and process information
+ */
+export function getBuildInfo(): BuildInfo {
+  return {
+    version: getConfig().api.version,
+    node: process.version,
+    environment: process.env.NODE_ENV || 'development',
+    commit: process.env.GIT_COMMIT_SHA || process.env.VERCEL_GIT_COMMIT_SHA || null,
+    startedAt: new Date(startedAt).toISOString(),
+    uptimeSeconds: Math.round((Date.now() - startedAt) / 1000)
+  };
+}
+
+function checkRegistry(): ReadinessCheck {
+  const agents = Object.keys(getAgentRegistry());
+  return agents.length > 0
+    ? { name: 'registry', status: 'pass', message: `${agents.length} agents registered` }
+    : { name: 'registry', status: 'fail', message: 'Agent registry is empty' };
+}
+
+function checkDataRoots(): ReadinessCheck {
+  const roots = getConfig().dataRoots.map(root => {
+    try {
+      accessSync(root, constants.R_OK);
+      return { root, readable: true };
+    } catch {
+      return { root, readable: false };
+    }
+  });
+
+  const readable = roots.filter(root => root.readable);
+  return readable.length > 0
+    ? { name: 'dataRoots', status: 'pass', message: `Reading seed data from ${getSeedRoot()}`, details: { roots } }
+    : { name: 'dataRoots', status: 'fail', message: 'No data root is readable', details: { roots } };
+}
+
+function checkLFSObjects(): ReadinessCheck {
+  const seedRoot = getSeedRoot();
+  const objectDirs = getLFSObjectDirs();
+  const missing: string[] = [];
+  let pointers = 0;
+
+  for (const folder of scanSeedPack(seedRoot)) {
+    for (const file of folder.files) {
+      const path = join(seedRoot, folder.name, file);
+      if (statSync(path).size > MAX_POINTER_SIZE) continue;
+
+      const pointer = parseLFSPointer(readFileSync(path, 'utf8'));
+      if (!pointer) continue;
+
+      pointers++;
+      if (!objectDirs.some(dir => existsSync(getLFSObjectPath(dir, pointer.oid)))) {
+        missing.push(`${folder.name}/${file}`);
+      }
+    }
+  }
+
+  if (missing.length === 0) {
+    return { name: 'lfsObjects', status: 'pass', message: `${pointers} LFS pointer(s), all objects present` };
+  }
+
+  // Without a local fallback the affected files cannot be served at all
+  const { fallbackPolicy, lfs } = getConfig();
+  const recoverable = Boolean(lfs.mediaUrl) || fallbackPolicy !== 'local-only';
+  return {
+    name: 'lfsObjects',
+    status: recoverable ? 'warn' : 'fail',
+    message: `${missing.length} of ${pointers} LFS object(s) missing locally${recoverable ? '; served via fallback' : ''}`,
+    details: { missing: missing.slice(0, 20), objectDirs, fallbackPolicy }
+  };
+}
+
+function checkDataContracts(): ReadinessCheck {
+  const missing: string[] = [];
+  const rejected: string[] = [];
+
+  for (const agent of Object.values(getAgentRegistry())) {
+    for (const filename of agent.dataFiles) {
+      const schema = getDataContract(agent.id, filename);
+      if (!schema) {
+        missing.push(`${agent.id}/${filename}`);
+        continue;
+      }
+
+      // Mock fixtures are served when a file falls back, so its contract has to accept them
+      const fixtures: [string, unknown][] = isDataPattern(filename)
+        ? Object.entries(getAgentMockData<Record<string, unknown>>(agent.id, filename) ?? {})
+        : [[filename, getAgentMockData(agent.id, filename)]];
+      for (const [path, data] of fixtures) {
+        const contract = getDataContract(agent.id, path) ?? schema;
+        if (!validateData(contract, data, `${agent.id}/${path}`).report.valid) rejected.push(`${agent.id}/${path}`);
+      }
+    }
+  }
+
+  if (rejected.length > 0) {
+    return { name: 'dataContracts', status: 'fail', message: `${rejected.length} data contract(s) reject their mock data`, details: { rejected } };
+  }
+  return missing.length > 0
+    ? { name: 'dataContracts', status: 'warn', message: `${missing.length} data file(s) have no contract`, details: { missing } }
+    : { name: 'dataContracts', status: 'pass', message: 'Every data file has a contract that accepts its mock data' };
+}
+
+const READINESS_CHECKS: Record<string, () => ReadinessCheck> = {
+  registry: checkRegistry,
+  dataRoots: checkDataRoots,
+  lfsObjects: checkLFSObjects,
+  dataContracts: checkDataContracts
+};
+
+/**
+ * Run the readiness checks; any failing check makes the service unready
+ */
+export function checkReadiness(): ReadinessReport {
+  const checks = Object.entries(READINESS_CHECKS).map(([name, check]): ReadinessCheck => {
+    try {
+      return check();
+    } catch (error) {
+      return { name, status: 'fail', message: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  });
+
+  return { ready: checks.every(check => check.status !== 'fail'), checks };
+}
+
+/**
+ * Load every file for the given agents (all by default) and summarise where it came from
+ */
+export async function getAgentDataAvailability(agentIds?: string[], options?: DataLoadOptions): Promise<AgentDataAvailability[]> {
+  const registry = getAgentRegistry();
+  const report: AgentDataAvailability[] = [];
+
+  for (const agentId of agentIds ?? Object.keys(registry)) {
+    const demoData = await getAgentDemoData(agentId, options);
+    const files = Object.fromEntries(Object.entries(demoData).map(([filename, entry]) => [filename, {
+      source: entry.source,
+      success: entry.success,
+      ...(entry.degraded && { degraded: true }),
+      ...(entry.error && { error: entry.error })
+    }]));
+
+    report.push({
+      agentId,
+      status: registry[agentId].status,
+      available: Object.values(files).every(file => file.success),
+      degraded: Object.values(files).some(file => file.degraded),
+      files
+    });
+  }
+
+  return report;
+}
+
+/**
+ * Ask the GitHub API for the current rate limit; skipped in offline mode
+ */
+export async function checkGitHub(timeoutMs = 5000): Promise<GitHubReachability> {
+  const config = getConfig();
+  const cachedRateLimits = getGitHubCacheStats().rateLimits;
+
+  if (config.offline) {
+    return { reachable: null, cachedRateLimits, error: 'Skipped: DATA_OFFLINE is set' };
+  }
+
+  const started = Date.now();
+  try {
+    const res = await fetch('https://api.github.com/rate_limit', {
+      headers: {
+        'Accept': 'application/vnd.github+json',
+        'User-Agent': 'agents-starter-repo',
+        ...(config.github.token && { 'Authorization': `Bearer ${config.github.token}` })
+      },
+      signal: AbortSignal.timeout(timeoutMs)
+    });
+    const body = res.ok ? await res.json() : null;
+    const core = body?.resources?.core;
+
+    return {
+      reachable: true,
+      status: res.status,
+      latencyMs: Date.now() - started,
+      ...(core && { rateLimit: { limit: core.limit, remaining: core.remaining, reset: new Date(core.reset * 1000).toISOString() } }),
+      cachedRateLimits
+    };
+  } catch (error) {
+    return {
+      reachable: false,
+      latencyMs: Date.now() - started,
+      cachedRateLimits,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    };
+  }
+}
@@ -0,0 +1,301 @@
+/**
+ * Jobs - Background agent runs with a concurrency-limited queue, progress events and cancellation
+ * For agents that outlast a request timeout. Jobs live in memory on the server instance that
+ * accepted them; each finished run is also saved to the run history.
+ */
+
+import { randomUUID } from "node:crypto";
+import { checkAgentInput, invokeAgent, type AgentProgress, type AgentRunFailure } from "./agent-runtime";
+import type { ErrorCode } from "./api-response";
+import { getConfig } from "./config";
+import type { DataLoadOptions } from "./data-access";
+import { logger } from "./logger";
+import type { RunOptions } from "./run-history";
+
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+export type JobEventType = 'queued' | 'started' | 'progress' | 'succeeded' | 'failed' | 'cancelled';
+
+export interface JobEvent {
+  id: number; // Sequential per job; sent as the SSE id so clients can resume with Last-Event-ID
+  type: JobEventType;
+  at: string;
+  data: Record<string, unknown>;
+}
+
+export interface Job {
+  id: string;
+  agentId: string;
+  status: JobStatus;
+  input: unknown;
+  options: RunOptions;
+  createdAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+  progress?: AgentProgress; // Latest progress report
+  output?: unknown;
+  error?: { code: ErrorCode; message: string; details?: Record<string, unknown> };
+  runId?: string; // Run history id once the run finished
+  durationMs?: number;
+  requestId?: string; // Request that submitted the job
+}
+
+interface JobEntry {
+  job: Job;
+  events: JobEvent[];
+  controller: AbortController;
+  listeners: Set<(event: JobEvent) => void>;
+  done: Promise<void>;
+  finish: () => void;
+}
+
+const TERMINAL: JobStatus[] = ['succeeded', 'failed', 'cancelled'];
+
+const jobs = new Map<string, JobEntry>();
+const queue: string[] = [];
+
+function countRunning(): number {
+  return Array.from(jobs.values()).filter(entry => entry.job.status === 'running').length;
+}
+
+/**
+ * Whether a job has stopped for good
+ */
+export function isJobFinished(job: Job): boolean {
+  return TERMINAL.includes(job.status);
+}
+
+function emit(entry: JobEntry, type: JobEventType, data: Record<string, unknown> = {}): void {
+  const event: JobEvent = { id: entry.events.length + 1, type, at: new Date().toISOString(), data };
+  entry.events.push(event);
+  for (const listener of Array.from(entry.listeners)) listener(event);
+}
+
+function settle(entry: JobEntry, status: JobStatus, data: Record<string, unknown>): void {
+  entry.job.status = status;
+  entry.job.finishedAt = new Date().toISOString();
+  emit(entry, status as JobEventType, data);
+  entry.listeners.clear();
+  entry.finish();
+}
+
+function pruneJobs(now = Date.now()): void {
+  const retentionMs = getConfig().jobs.retentionSeconds * 1000;
+  for (const [id, { job }] of Array.from(jobs)) {
+    if (job.finishedAt && now - Date.parse(job.finishedAt) > retentionMs) jobs.delete(id);
+  }
+}
+
+async function runJob(entry: JobEntry): Promise<void> {
+  const { job, controller } = entry;
+  job.status = 'running';
+  job.startedAt = new Date().toISOString();
+  emit(entry, 'started');
+
+  try {
+    const result = await invokeAgent(job.agentId, job.input, {
+      ...job.options,
+      requestId: job.requestId,
+      signal: controller.signal,
+      onProgress: progress => {
+        job.progress = progress;
+        emit(entry, 'progress', { ...progress });
+      }
+    });
+
+    job.runId = result.runId;
+    job.durationMs = result.durationMs;
+    if (result.success) {
+      job.output = result.output;
+      settle(entry, 'succeeded', { runId: result.runId, durationMs: result.durationMs });
+    } else if (result.code === 'RUN_CANCELLED') {
+      settle(entry, 'cancelled', { runId: result.runId });
+    } else {
+      job.error = { code: result.code, message: result.error, ...(result.details && { details: result.details }) };
+      settle(entry, 'failed', { runId: result.runId, error: job.error });
+    }
+  } catch (error) {
+    // invokeAgent reports failures in its result; this only guards against bugs in the queue itself
+    logger.error('Job crashed', { requestId: job.requestId, agent: job.agentId, jobId: job.id, error });
+    job.error = { code: 'PROCESSING_ERROR', message: error instanceof Error ? error.message : 'Unknown error' };
+    settle(entry, 'failed', { error: job.error });
+  } finally {
+    drainQueue();
+  }
+}
+
+function drainQueue(): void {
+  const { concurrency } = getConfig().jobs;
+  while (countRunning() < concurrency && queue.length > 0) {
+    const entry = jobs.get(queue.shift() as string);
+    if (entry && entry.job.status === 'queued') void runJob(entry);
+  }
+}
+
+/**
+ * Queue an agent run; the agent and input are checked now so bad requests fail immediately
+ */
+export function createJob(
+  agentId: string,
+  input: unknown,
+  options: DataLoadOptions = {}
+): { job: Job } | { failure: AgentRunFailure } {
+  const invalid = checkAgentInput(agentId, input);
+  if (invalid) return { failure: invalid };
+
+  pruneJobs();
+  const { concurrency, maxQueued } = getConfig().jobs;
+  if (countRunning() >= concurrency && queue.length >= maxQueued) {
+    return { failure: { code: 'QUEUE_FULL', error: `The job queue is full (${maxQueued} jobs waiting)`, status: 503 } };
+  }
+
+  const { policy, offline, strict, requestId } = options;
+  let finish = () => {};
+  const done = new Promise<void>(resolve => { finish = resolve; });
+  const entry: JobEntry = {
+    job: {
+      id: `job_${randomUUID().replace(/-/g, '').slice(0, 16)}`,
+      agentId,
+      status: 'queued',
+      input: input ?? {},
+      options: {
+        ...(policy && { policy }),
+        ...(offline !== undefined && { offline }),
+        ...(strict !== undefined && { strict })
+      },
+      createdAt: new Date().toISOString(),
+      ...(requestId && { requestId })
+    },
+    events: [],
+    controller: new AbortController(),
+    listeners: new Set(),
+    done,
+    finish
+  };
+
+  jobs.set(entry.job.id, entry);
+  queue.push(entry.job.id);
+  emit(entry, 'queued', { position: queue.length });
+  drainQueue();
+  return { job: entry.job };
+}
+
+/**
+ * Look up a job (finished jobs are kept for JOBS_RETENTION_SECONDS)
+ */
+export function getJob(id: string): Job | null {
+  return jobs.get(id)?.job ?? null;
+}
+
+/**
+ * A job's events after `afterId` (all of them by default)
+ */
+export function listJobEvents(id: string, afterId = 0): JobEvent[] {
+  return jobs.get(id)?.events.filter(event => event.id > afterId) ?? [];
+}
+
+/**
+ * Call `listener` for each new event until the job finishes; returns an unsubscribe function
+ */
+export function subscribeToJob(id: string, listener: (event: JobEvent) => void): () => void {
+  const entry = jobs.get(id);
+  if (!entry || isJobFinished(entry.job)) return () => {};
+
+  entry.listeners.add(listener);
+  return () => entry.listeners.delete(listener);
+}
+
+/**
+ * Resolve once a job has finished; null for unknown jobs
+ */
+export async function waitForJob(id: string): Promise<Job | null> {
+  const entry = jobs.get(id);
+  if (!entry) return null;
+  await entry.done;
+  return entry.job;
+}
+
+/**
+ * Cancel a queued or running job; a finished job is returned unchanged
+ * Running agents see ctx.signal abort; the job settles as cancelled once the run stops.
+ */
+export function cancelJob(id: string): Job | null {
+  const entry = jobs.get(id);
+  if (!entry) return null;
+
+  if (entry.job.status === 'queued') {
+    queue.splice(queue.indexOf(id), 1);
+    settle(entry, 'cancelled', {});
+  } else if (entry.job.status === 'running') {
+    entry.controller.abort(new Error('Job cancelled'));
+  }
+  return entry.job;
+}
+
+/**
+ * Queue depth and worker usage
+ */
+export function getJobQueueStats(): { running: number; queued: number; concurrency: number; maxQueued: number } {
+  const { concurrency, maxQueued } = getConfig().jobs;
+  return { running: countRunning(), queued: queue.length, concurrency, maxQueued };
+}
+
+/**
+ * Render a job event as a server-sent event
+ */
+export function formatJobEvent(event: JobEvent): string {
+  return `id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify({ ...event.data, at: event.at })}\n\n`;
+}
+
+/**
+ * Stream a job's events as server-sent events, starting after `afterId`; closes when the job finishes
+ * A comment line is sent every `heartbeatMs` so proxies keep the connection open.
+ */
+export function createJobEventStream(id: string, afterId = 0, signal?: AbortSignal, heartbeatMs = 15_000): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (text: string) => controller.enqueue(encoder.encode(text));
+      let closed = false;
+      let unsubscribe = () => {};
+      const heartbeat = setInterval(() => send(': keep-alive\n\n'), heartbeatMs);
+
+      cleanup = () => {
+        if (closed) return;
+        closed = true;
+        clearInterval(heartbeat);
+        unsubscribe();
+        signal?.removeEventListener('abort', close);
+      };
+      const close = () => {
+        if (closed) return;
+        cleanup();
+        controller.close();
+      };
+
+      for (const event of listJobEvents(id, afterId)) send(formatJobEvent(event));
+      const job = getJob(id);
+      if (!job || isJobFinished(job)) return close();
+
+      unsubscribe = subscribeToJob(id, event => {
+        send(formatJobEvent(event));
+        if (TERMINAL.includes(event.type as JobStatus)) close();
+      });
+      signal?.addEventListener('abort', close, { once: true });
+    },
+    cancel() {
+      cleanup();
+    }
+  });
+}
+
+/**
+ * Cancel every job and forget them
+ */
+export function resetJobs(): void {
+  for (const entry of Array.from(jobs.values())) entry.controller.abort(new Error('Jobs reset'));
+  jobs.clear();
+  queue.length = 0;
+}
@@ -0,0 +1,128 @@
+/**
+ * JSON Schema - Convert zod schemas to JSON Schema (draft 2020-12, as used by OpenAPI 3.1)
+ * Covers the zod types used by agent contracts and data contracts; anything else becomes {}
+ */
+
+import { z } from "zod";
+
+export type JsonSchema = { [key: string]: unknown };
+
+const STRING_FORMATS: Record<string, string> = {
+  email: 'email',
+  url: 'uri',
+  uuid: 'uuid',
+  datetime: 'date-time',
+  date: 'date',
+  time: 'time'
+};
+
+function withNull(schema: JsonSchema): JsonSchema {
+  if (typeof schema.type === 'string') return { ...schema, type: [schema.type, 'null'] };
+  return { anyOf: [schema, { type: 'null' }] };
+}
+
+function isOptional(schema: z.ZodTypeAny): boolean {
+  return schema.isOptional() || schema instanceof z.ZodDefault;
+}
+
+function stringSchema(def: z.ZodStringDef): JsonSchema {
+  const schema: JsonSchema = { type: 'string' };
+  for (const check of def.checks) {
+    if (check.kind === 'min') schema.minLength = check.value;
+    else if (check.kind === 'max') schema.maxLength = check.value;
+    else if (check.kind === 'length') schema.minLength = schema.maxLength = check.value;
+    else if (check.kind === 'regex') schema.pattern = check.regex.source;
+    else if (STRING_FORMATS[check.kind]) schema.format = STRING_FORMATS[check.kind];
+  }
+  return schema;
+}
+
+function numberSchema(def: z.ZodNumberDef): JsonSchema {
+  const schema: JsonSchema = { type: 'number' };
+  for (const check of def.checks) {
+    if (check.kind === 'int') schema.type = 'integer';
+    else if (check.kind === 'min') schema[check.inclusive ? 'minimum' : 'exclusiveMinimum'] = check.value;
+    else if (check.kind === 'max') schema[check.inclusive ? 'maximum' : 'exclusiveMaximum'] = check.value;
+  }
+  return schema;
+}
+
+function convert(schema: z.ZodTypeAny): JsonSchema {
+  const def = schema._def;
+
+  switch (def.typeName) {
+    case z.ZodFirstPartyTypeKind.ZodString:
+      return stringSchema(def);
+    case z.ZodFirstPartyTypeKind.ZodNumber:
+      return numberSchema(def);
+    case z.ZodFirstPartyTypeKind.ZodBigInt:
+      return { type: 'integer' };
+    case z.ZodFirstPartyTypeKind.ZodBoolean:
+      return { type: 'boolean' };
+    case z.ZodFirstPartyTypeKind.ZodDate:
+      return { type: 'string', format: 'date-time' };
+    case z.ZodFirstPartyTypeKind.ZodNull:
+      return { type: 'null' };
+    case z.ZodFirstPartyTypeKind.ZodLiteral:
+      return { const: def.value };
+    case z.ZodFirstPartyTypeKind.ZodEnum:
+      return { type: 'string', enum: def.values };
+    case z.ZodFirstPartyTypeKind.ZodNativeEnum:
+      return { enum: Object.values(def.values).filter(value => typeof value !== 'number' || !(value in def.values)) };
+    case z.ZodFirstPartyTypeKind.ZodArray: {
+      const array: JsonSchema = { type: 'array', items: zodToJsonSchema(def.type) };
+      if (def.minLength) array.minItems = def.minLength.value;
+      if (def.maxLength) array.maxItems = def.maxLength.value;
+      return array;
+    }
+    case z.ZodFirstPartyTypeKind.ZodTuple:
+      return { type: 'array', prefixItems: def.items.map(zodToJsonSchema), ...(!def.rest && { items: false }) };
+    case z.ZodFirstPartyTypeKind.ZodObject: {
+      const shape: Record<string, z.ZodTypeAny> = def.shape();
+      const required = Object.keys(shape).filter(key => !isOptional(shape[key]));
+      const catchall = def.catchall instanceof z.ZodNever ? undefined : def.catchall;
+      return {
+        type: 'object',
+        properties: Object.fromEntries(Object.entries(shape).map(([key, value]) => [key, zodToJsonSchema(value)])),
+        ...(required.length > 0 && { required }),
+        ...(def.unknownKeys === 'strict' && { additionalProperties: false }),
+        ...(catchall && { additionalProperties: zodToJsonSchema(catchall) })
+      };
+    }
+    case z.ZodFirstPartyTypeKind.ZodRecord:
+      return { type: 'object', additionalProperties: zodToJsonSchema(def.valueType) };
+    case z.ZodFirstPartyTypeKind.ZodUnion:
+      return { anyOf: def.options.map(zodToJsonSchema) };
+    case z.ZodFirstPartyTypeKind.ZodDiscriminatedUnion:
+      return { oneOf: Array.from(def.options as z.ZodTypeAny[]).map(zodToJsonSchema) };
+    case z.ZodFirstPartyTypeKind.ZodIntersection:
+      return { allOf: [zodToJsonSchema(def.left), zodToJsonSchema(def.right)] };
+    case z.ZodFirstPartyTypeKind.ZodOptional:
+      return zodToJsonSchema(def.innerType);
+    case z.ZodFirstPartyTypeKind.ZodNullable:
+      return withNull(zodToJsonSchema(def.innerType));
+    case z.ZodFirstPartyTypeKind.ZodDefault:
+      return { ...zodToJsonSchema(def.innerType), default: def.defaultValue() };
+    case z.ZodFirstPartyTypeKind.ZodCatch:
+    case z.ZodFirstPartyTypeKind.ZodReadonly:
+      return zodToJsonSchema(def.innerType);
+    case z.ZodFirstPartyTypeKind.ZodEffects: // preprocess/refine/transform: describe the validated shape
+      return zodToJsonSchema(def.schema);
+    case z.ZodFirstPartyTypeKind.ZodPipeline:
+      return zodToJsonSchema(def.in);
+    case z.ZodFirstPartyTypeKind.ZodBranded:
+      return zodToJsonSchema(def.type);
+    case z.ZodFirstPartyTypeKind.ZodLazy:
+      return zodToJsonSchema(def.getter());
+    default: // any, unknown, custom
+      return {};
+  }
+}
+
+/**
+ * Convert a zod schema to JSON Schema; .describe() text becomes `description`
+ */
+export function zodToJsonSchema(schema: z.ZodTypeAny): JsonSchema {
+  const json = convert(schema);
+  return schema.description ? { ...json, description: schema.description } : json;
+}
@@ -0,0 +1,179 @@
+/**
+ * Git LFS Support - Detect and resolve Git LFS pointer files
+ * Seed pack files are committed as LFS pointers; this resolves them to real content
+ */
+
+import { createHash } from "node:crypto";
+import { existsSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+import { getConfig } from "./config";
+
+export interface LFSPointer {
+  oid: string;
+  size: number;
+}
+
+export interface LFSResolveResult {
+  content: string;
+  source: 'lfs-local' | 'lfs-media' | 'lfs-pointer-unresolved';
+  success: boolean;
+  pointer: LFSPointer;
+  error?: string;
+  attempts: string[];
+}
+
+export interface LFSResolveOptions {
+  objectDirs?: string[];
+  mediaUrl?: string;
+}
+
+const LFS_SPEC_LINE = 'version https://git-lfs.github.com/spec/v1';
+
+/**
+ * Parse a Git LFS pointer file, returning null for regular content
+ */
+export function parseLFSPointer(content: string): LFSPointer | null {
+  // Pointer files are tiny; anything larger is real content
+  if (content.length > 1024 || !content.startsWith(LFS_SPEC_LINE)) {
+    return null;
+  }
+
+  const oid = content.match(/^oid sha256:([0-9a-f]{64})$/m);
+  const size = content.match(/^size (\d+)$/m);
+  if (!oid || !size) return null;
+
+  return {
+    oid: oid[1],
+    size: parseInt(size[1], 10)
+  };
+}
+
+/**
+ * Check whether content is a Git LFS pointer
+ */
+export function isLFSPointer(content: string): boolean {
+  return parseLFSPointer(content) !== null;
+}
+
+/**
+ * Get the default local LFS object directories
+ */
+export function getLFSObjectDirs(): string[] {
+  const dirs = [join(process.cwd(), '.git', 'lfs', 'objects')];
+  const { objectsDir } = getConfig().lfs;
+  if (objectsDir) {
+    dirs.unshift(objectsDir);
+  }
+  return dirs;
+}
+
+/**
+ * Get the path of an object inside an LFS object store (objects/ab/cd/abcd...)
+ */
+export function getLFSObjectPath(objectDir: string, oid: string): string {
+  return join(objectDir, oid.slice(0, 2), oid.slice(2, 4), oid);
+}
+
+/**
+ * Verify object bytes against the pointer's sha256 and size
+ */
+export function verifyLFSObject(buffer: Buffer, pointer: LFSPointer): string | null {
+  if (buffer.length !== pointer.size) {
+    return `size mismatch: expected ${pointer.size}, got ${buffer.length}`;
+  }
+
+  const digest = createHash('sha256').update(buffer).digest('hex');
+  if (digest !== pointer.oid) {
+    return `sha256 mismatch: expected ${pointer.oid}, got ${digest}`;
+  }
+
+  return null;
+}
+
+/**
+ * Resolve an LFS pointer from the local object store, then the LFS media endpoint
+ */
+export async function resolveLFSPointer(
+  pointer: LFSPointer,
+  options: LFSResolveOptions = {}
+): Promise<LFSResolveResult> {
+  const attempts: string[] = [];
+
+  for (const objectDir of options.objectDirs ?? getLFSObjectDirs()) {
+    const objectPath = getLFSObjectPath(objectDir, pointer.oid);
+
+    try {
+      if (!existsSync(objectPath)) {
+        attempts.push(`${objectPath}: not found`);
+        continue;
+      }
+
+      const buffer = readFileSync(objectPath);
+      const mismatch = verifyLFSObject(buffer, pointer);
+      if (mismatch) {
+        attempts.push(`${objectPath}: ${mismatch}`);
+        continue;
+      }
+
+      return {
+        content: buffer.toString('utf8'),
+        source: 'lfs-local',
+        success: true,
+        pointer,
+        attempts
+      };
+    } catch (error) {
+      attempts.push(`${objectPath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  if (options.mediaUrl && getConfig().offline) {
+    attempts.push(`${options.mediaUrl}: skipped (offline mode)`);
+  } else if (options.mediaUrl) {
+    try {
+      const response = await fetch(options.mediaUrl);
+
+      if (!response.ok) {
+        attempts.push(`${options.mediaUrl}: ${response.status} ${response.statusText}`);
+      } else {
+        const buffer = Buffer.from(await response.arrayBuffer());
+        const mismatch = verifyLFSObject(buffer, pointer);
+
+        if (mismatch) {
+          attempts.push(`${options.mediaUrl}: ${mismatch}`);
+        } else {
+          return {
+            content: buffer.toString('utf8'),
+            source: 'lfs-media',
+            success: true,
+            pointer,
+            attempts
+          };
+        }
+      }
+    } catch (error) {
+      attempts.push(`${options.mediaUrl}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  return {
+    content: '',
+    source: 'lfs-pointer-unresolved',
+    success: false,
+    pointer,
+    error: `LFS object ${pointer.oid} (${pointer.size} bytes) is not available. Tried: ${attempts.join('; ') || 'nothing'}`,
+    attempts
+  };
+}
+
+/**
+ * Resolve content if it is an LFS pointer; returns null for regular content
+ */
+export async function resolveLFSContent(
+  content: string,
+  options: LFSResolveOptions = {}
+): Promise<LFSResolveResult | null> {
+  const pointer = parseLFSPointer(content);
+  if (!pointer) return null;
+  return resolveLFSPointer(pointer, options);
+}
@@ -0,0 +1,416 @@
+/**
+ * LLM - Provider-neutral chat completions for agents
+ * An LLMClient offers chat, JSON mode and tool calls on top of an LLMProvider: any OpenAI-compatible
+ * HTTP API (OpenRouter by default; LLM_BASE_URL can point at a local stub) or fixtures replayed by
+ * request hash, so tests and offline runs get the same answer every time.
+ */
+
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { getAgentConfig } from "./agent-registry";
+import { getConfig } from "./config";
+import { logger } from "./logger";
+import { incrementCounter } from "./metrics";
+import { hashValue } from "./run-history";
+
+export type LLMRole = 'system' | 'user' | 'assistant' | 'tool';
+
+export interface LLMToolCall {
+  id: string;
+  name: string;
+  arguments: Record<string, unknown>;
+}
+
+export interface LLMMessage {
+  role: LLMRole;
+  content: string;
+  toolCalls?: LLMToolCall[]; // Assistant messages that called tools, when replaying a conversation
+  toolCallId?: string; // Tool messages: the call this is the result of
+}
+
+export interface LLMTool {
+  name: string;
+  description?: string;
+  parameters: Record<string, unknown>; // JSON Schema of the arguments
+}
+
+export interface LLMRequest {
+  model?: string; // Defaults to the agent's model, then LLM_MODEL
+  messages: LLMMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  tools?: LLMTool[];
+  toolChoice?: 'auto' | 'none' | 'required' | { name: string };
+  responseFormat?: 'text' | 'json';
+  signal?: AbortSignal;
+}
+
+export type ResolvedLLMRequest = LLMRequest & { model: string };
+
+export interface LLMUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface LLMResponse {
+  model: string; // As reported by the provider
+  content: string;
+  toolCalls: LLMToolCall[];
+  finishReason: string; // stop, length, tool_calls, ...
+  usage?: LLMUsage;
+  provider: string;
+}
+
+export interface LLMProvider {
+  name: string;
+  complete(request: ResolvedLLMRequest): Promise<LLMResponse>;
+}
+
+export interface LLMClient {
+  readonly enabled: boolean; // False when LLM_PROVIDER=off; calls then fail straight away
+  chat(request: LLMRequest): Promise<LLMResponse>;
+  // JSON mode; the reply is parsed but not validated
+  json<T = unknown>(request: LLMRequest): Promise<{ value: T; response: LLMResponse }>;
+}
+
+export interface OpenAIProviderOptions {
+  baseUrl: string; // Up to and including /v1
+  apiKey?: string;
+  headers?: Record<string, string>;
+  timeoutMs?: number; // Per attempt
+  maxRetries?: number;
+  retryBaseMs?: number;
+}
+
+export interface LLMFixture {
+  hash: string;
+  request: Omit<ResolvedLLMRequest, 'signal'>;
+  response: LLMResponse;
+  recordedAt: string;
+}
+
+interface ChatCompletion {
+  model?: string;
+  choices?: {
+    message?: { content?: string | null; tool_calls?: { id: string; function: { name: string; arguments: string } }[] };
+    finish_reason?: string | null;
+  }[];
+  usage?: { prompt_tokens?: number; completion_tokens?: number; total_tokens?: number };
+}
+
+type Attempt = { response: LLMResponse } | { error: string; retryable: boolean; retryAfterMs?: number };
+
+const RETRYABLE_STATUSES = [408, 409, 429, 500, 502, 503, 504];
+
+// Longest Retry-After we wait for; beyond that the caller is better off failing
+const MAX_RETRY_AFTER_MS = 60_000;
+
+let provider: LLMProvider | undefined;
+
+function toChatCompletionBody(request: ResolvedLLMRequest): Record<string, unknown> {
+  const { toolChoice } = request;
+  return {
+    model: request.model,
+    messages: request.messages.map(message => ({
+      role: message.role,
+      content: message.content,
+      ...(message.toolCalls?.length && {
+        tool_calls: message.toolCalls.map(call => ({
+          id: call.id,
+          type: 'function',
+          function: { name: call.name, arguments: JSON.stringify(call.arguments) }
+        }))
+      }),
+      ...(message.toolCallId && { tool_call_id: message.toolCallId })
+    })),
+    ...(request.temperature !== undefined && { temperature: request.temperature }),
+    ...(request.maxTokens !== undefined && { max_tokens: request.maxTokens }),
+    ...(request.tools?.length && {
+      tools: request.tools.map(tool => ({
+        type: 'function',
+        function: { name: tool.name, ...(tool.description && { description: tool.description }), parameters: tool.parameters }
+      }))
+    }),
+    ...(toolChoice && { tool_choice: typeof toolChoice === 'string' ? toolChoice : { type: 'function', function: { name: toolChoice.name } } }),
+    ...(request.responseFormat === 'json' && { response_format: { type: 'json_object' } })
+  };
+}
+
+function parseChatCompletion(completion: ChatCompletion, requestedModel: string, providerName: string): LLMResponse {
+  const choice = completion.choices?.[0];
+  if (!choice?.message) throw new Error('LLM response has no choices');
+
+  const toolCalls = (choice.message.tool_calls ?? []).map(call => {
+    try {
+      return { id: call.id, name: call.function.name, arguments: JSON.parse(call.function.arguments || '{}') as Record<string, unknown> };
+    } catch {
+      throw new Error(`LLM tool call '${call.function.name}' has invalid JSON arguments`);
+    }
+  });
+  const { usage } = completion;
+
+  return {
+    model: completion.model ?? requestedModel,
+    content: choice.message.content ?? '',
+    toolCalls,
+    finishReason: choice.finish_reason ?? 'stop',
+    ...(usage && {
+      usage: { promptTokens: usage.prompt_tokens ?? 0, completionTokens: usage.completion_tokens ?? 0, totalTokens: usage.total_tokens ?? 0 }
+    }),
+    provider: providerName
+  };
+}
+
+// Retry-After is either seconds or an HTTP date
+function parseRetryAfter(value: string | null, now = Date.now()): number | undefined {
+  if (!value) return undefined;
+  const ms = /^\d+$/.test(value.trim()) ? Number(value) * 1000 : Date.parse(value) - now;
+  return Number.isFinite(ms) ? Math.min(Math.max(ms, 0), MAX_RETRY_AFTER_MS) : undefined;
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * POST /chat/completions on an OpenAI-compatible API
+ * Network errors, timeouts, 429 and 5xx answers are retried with exponential backoff (honouring
+ * Retry-After); other errors and cancellation via the request's signal are not.
+ */
+export function createOpenAIProvider(options: OpenAIProviderOptions): LLMProvider {
+  const { timeoutMs = 60_000, maxRetries = 2, retryBaseMs = 500 } = options;
+  const url = `${options.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+  const headers = {
+    'Content-Type': 'application/json',
+    ...(options.apiKey && { Authorization: `Bearer ${options.apiKey}` }),
+    ...options.headers
+  };
+
+  const attempt = async (request: ResolvedLLMRequest, body: string): Promise<Attempt> => {
+    const timeout = AbortSignal.timeout(timeoutMs);
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        method: 'POST',
+        headers,
+        body,
+        signal: request.signal ? AbortSignal.any([request.signal, timeout]) : timeout
+      });
+    } catch (error) {
+      request.signal?.throwIfAborted();
+      const message = timeout.aborted ? `timed out after ${timeoutMs}ms` : error instanceof Error ? error.message : String(error);
+      return { error: `LLM request failed: ${message}`, retryable: true };
+    }
+
+    if (!response.ok) {
+      return {
+        error: `LLM request failed: HTTP ${response.status}: ${(await response.text()).slice(0, 200)}`,
+        retryable: RETRYABLE_STATUSES.includes(response.status),
+        retryAfterMs: parseRetryAfter(response.headers.get('retry-after'))
+      };
+    }
+    return { response: parseChatCompletion(await response.json() as ChatCompletion, request.model, 'openai') };
+  };
+
+  return {
+    name: 'openai',
+    async complete(request) {
+      const body = JSON.stringify(toChatCompletionBody(request));
+      for (let attempts = 1; ; attempts++) {
+        const result = await attempt(request, body);
+        if ('response' in result) return result.response;
+        if (!result.retryable || attempts > maxRetries) throw new Error(result.error);
+
+        const delayMs = result.retryAfterMs ?? retryBaseMs * 2 ** (attempts - 1);
+        logger.warn('LLM request failed; retrying', { model: request.model, attempt: attempts, error: result.error, delayMs });
+        await sleep(delayMs, request.signal);
+      }
+    }
+  };
+}
+
+/**
+ * Fixture key: everything that shapes the answer, not the signal
+ */
+export function hashLLMRequest(request: ResolvedLLMRequest): string {
+  const { model, messages, temperature, maxTokens, tools, toolChoice, responseFormat } = request;
+  return hashValue({ model, messages, temperature, maxTokens, tools, toolChoice, responseFormat });
+}
+
+/**
+ * Answers from `<dir>/<request hash>.json`; a request without a fixture fails with its hash
+ */
+export function createReplayProvider(dir: string): LLMProvider {
+  return {
+    name: 'replay',
+    async complete(request) {
+      const hash = hashLLMRequest(request);
+      let raw: string;
+      try {
+        raw = await readFile(join(dir, `${hash}.json`), 'utf8');
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+        throw new Error(`No LLM fixture for request ${hash} in ${dir}; record one with LLM_PROVIDER=record`);
+      }
+      const fixture = JSON.parse(raw) as LLMFixture;
+      return { ...fixture.response, provider: 'replay' };
+    }
+  };
+}
+
+/**
+ * Passes requests to another provider and saves each answer as a replay fixture
+ */
+export function createRecordingProvider(inner: LLMProvider, dir: string): LLMProvider {
+  return {
+    name: 'record',
+    async complete(request) {
+      const response = await inner.complete(request);
+      const hash = hashLLMRequest(request);
+      const saved: Partial<ResolvedLLMRequest> = { ...request };
+      delete saved.signal;
+      const fixture: LLMFixture = { hash, request: saved as LLMFixture['request'], response, recordedAt: new Date().toISOString() };
+
+      await mkdir(dir, { recursive: true });
+      await writeFile(join(dir, `${hash}.json`), `${JSON.stringify(fixture, null, 2)}\n`);
+      return response;
+    }
+  };
+}
+
+function createDisabledProvider(): LLMProvider {
+  return {
+    name: 'off',
+    async complete() {
+      throw new Error('LLM calls are disabled; set LLM_API_KEY or LLM_PROVIDER');
+    }
+  };
+}
+
+/**
+ * The provider selected by LLM_PROVIDER (created on first use)
+ */
+export function getLLMProvider(): LLMProvider {
+  if (provider) return provider;
+
+  const config = getConfig().llm;
+  const http = () => createOpenAIProvider({
+    baseUrl: config.baseUrl,
+    apiKey: config.apiKey,
+    headers: config.heliconeKey ? { 'Helicone-Auth': `Bearer ${config.heliconeKey}` } : {},
+    timeoutMs: config.timeoutMs,
+    maxRetries: config.maxRetries,
+    retryBaseMs: config.retryBaseMs
+  });
+
+  switch (config.provider) {
+    case 'off':
+      provider = createDisabledProvider();
+      break;
+    case 'replay':
+      provider = createReplayProvider(config.fixturesDir);
+      break;
+    case 'record':
+      provider = createRecordingProvider(http(), config.fixturesDir);
+      break;
+    default:
+      provider = http();
+  }
+  return provider;
+}
+
+/**
+ * Replace the provider (tests, custom backends)
+ */
+export function setLLMProvider(next: LLMProvider): void {
+  provider = next;
+}
+
+/**
+ * Drop the current provider so LLM_PROVIDER is read again
+ */
+export function resetLLMProvider(): void {
+  provider = undefined;
+}
+
+/**
+ * Model for a call: the request's, then LLM_AGENT_MODELS, then the agent's registry entry, then LLM_MODEL
+ */
+export function resolveLLMModel(agentId?: string, requested?: string): string {
+  const { model, agentModels } = getConfig().llm;
+  if (requested) return requested;
+  if (!agentId) return model;
+  return agentModels[agentId] ?? getAgentConfig(agentId)?.llm?.model ?? model;
+}
+
+/**
+ * Parse a JSON-mode reply; tolerates the Markdown code fence some models add anyway
+ */
+export function parseJsonContent(content: string): unknown {
+  const text = content.trim().replace(/^```(?:json)?\s*([\s\S]*?)\s*```$/, '$1');
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new Error(`LLM returned invalid JSON: ${content.slice(0, 200)}`);
+  }
+}
+
+/**
+ * A client for one caller; agents get one bound to their id, cancellation signal and request id as ctx.llm
+ */
+export function createLLMClient(options: { agentId?: string; requestId?: string; signal?: AbortSignal; provider?: LLMProvider } = {}): LLMClient {
+  const { agentId, requestId } = options;
+
+  const chat = async (request: LLMRequest): Promise<LLMResponse> => {
+    const active = options.provider ?? getLLMProvider();
+    const defaults = agentId ? getAgentConfig(agentId)?.llm : undefined;
+    const resolved: ResolvedLLMRequest = {
+      ...(defaults?.temperature !== undefined && { temperature: defaults.temperature }),
+      ...(defaults?.maxTokens !== undefined && { maxTokens: defaults.maxTokens }),
+      ...request,
+      model: resolveLLMModel(agentId, request.model)
+    };
+    const signal = request.signal ?? options.signal;
+    if (signal) resolved.signal = signal;
+
+    const started = Date.now();
+    try {
+      const response = await active.complete(resolved);
+      incrementCounter('llm_requests_total', { provider: active.name, model: resolved.model, outcome: 'ok' });
+      if (response.usage) {
+        incrementCounter('llm_tokens_total', { model: resolved.model, type: 'prompt' }, response.usage.promptTokens);
+        incrementCounter('llm_tokens_total', { model: resolved.model, type: 'completion' }, response.usage.completionTokens);
+      }
+      logger.debug('LLM request completed', {
+        agentId, requestId, provider: active.name, model: resolved.model, finishReason: response.finishReason, durationMs: Date.now() - started
+      });
+      return response;
+    } catch (error) {
+      incrementCounter('llm_requests_total', { provider: active.name, model: resolved.model, outcome: 'error' });
+      logger.warn('LLM request failed', { agentId, requestId, provider: active.name, model: resolved.model, error: error instanceof Error ? error.message : String(error) });
+      throw error;
+    }
+  };
+
+  return {
+    get enabled() {
+      return (options.provider ?? getLLMProvider()).name !== 'off';
+    },
+    chat,
+    async json<T = unknown>(request: LLMRequest) {
+      const response = await chat({ ...request, responseFormat: 'json' });
+      return { value: parseJsonContent(response.content) as T, response };
+    }
+  };
+}
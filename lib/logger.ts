@@ -0,0 +1,62 @@
+/**
+ * Logger - Structured logs with request and agent context
+ * One JSON object per line by default (LOG_FORMAT=pretty for local reading); lines below
+ * LOG_LEVEL are dropped. Errors in fields are reduced to their message and stack.
+ */
+
+import { getConfig, type LogLevel } from "./config";
+
+export type LogFields = Record<string, unknown>;
+
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+  child(fields: LogFields): Logger; // Adds fields such as requestId or agent to every line
+}
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+function serialize(value: unknown): unknown {
+  if (value instanceof Error) {
+    return { message: value.message, name: value.name, ...(value.stack && { stack: value.stack }) };
+  }
+  return value;
+}
+
+function write(level: LogLevel, bindings: LogFields, message: string, fields?: LogFields): void {
+  const config = getConfig().logging;
+  if (LEVELS[level] < LEVELS[config.level]) return;
+
+  const entry: LogFields = { level, time: new Date().toISOString(), msg: message, ...bindings };
+  for (const [key, value] of Object.entries(fields ?? {})) {
+    if (value !== undefined) entry[key] = serialize(value);
+  }
+
+  const stream = level === 'error' || level === 'warn' ? console.error : console.log;
+  if (config.format === 'pretty') {
+    const { time, msg, ...rest } = entry;
+    delete rest.level;
+    const line = `${time} ${level.toUpperCase().padEnd(5)} ${msg}`;
+    if (Object.keys(rest).length > 0) stream(line, rest);
+    else stream(line);
+  } else {
+    stream(JSON.stringify(entry));
+  }
+}
+
+/**
+ * Create a logger whose lines all carry `bindings`
+ */
+export function createLogger(bindings: LogFields = {}): Logger {
+  return {
+    debug: (message, fields) => write('debug', bindings, message, fields),
+    info: (message, fields) => write('info', bindings, message, fields),
+    warn: (message, fields) => write('warn', bindings, message, fields),
+    error: (message, fields) => write('error', bindings, message, fields),
+    child: fields => createLogger({ ...bindings, ...fields })
+  };
+}
+
+export const logger = createLogger();
@@ -0,0 +1,125 @@
+/**
+ * Metrics - In-process Prometheus counters and histograms
+ * Rendered in the text exposition format at /api/metrics. Values are per server instance
+ * and reset on restart; Prometheus handles aggregation and rates.
+ */
+
+export type Labels = Record<string, string>;
+
+interface Counter {
+  type: 'counter';
+  help: string;
+  values: Map<string, { labels: Labels; value: number }>;
+}
+
+interface Histogram {
+  type: 'histogram';
+  help: string;
+  buckets: number[];
+  values: Map<string, { labels: Labels; counts: number[]; sum: number; count: number }>;
+}
+
+// Seconds; covers in-memory runs through slow GitHub fallbacks
+const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+const METRICS: Record<string, Counter | Histogram> = {
+  http_requests_total: { type: 'counter', help: 'HTTP requests by route, method and status', values: new Map() },
+  http_request_duration_seconds: { type: 'histogram', help: 'HTTP request latency by route and method', buckets: DEFAULT_BUCKETS, values: new Map() },
+  agent_runs_total: { type: 'counter', help: 'Agent runs by agent and outcome (ok or an error code)', values: new Map() },
+  agent_run_duration_seconds: { type: 'histogram', help: 'Agent run latency by agent', buckets: DEFAULT_BUCKETS, values: new Map() },
+  data_loads_total: { type: 'counter', help: 'Data file loads by agent and source (local, github, mock, none)', values: new Map() },
+  api_errors_total: { type: 'counter', help: 'Error responses by error code', values: new Map() },
+  webhook_deliveries_total: { type: 'counter', help: 'Webhook delivery attempts by webhook and outcome (delivered, retry, dead)', values: new Map() },
+  notifications_total: { type: 'counter', help: 'Notifications by channel and status (dry-run, sent, failed)', values: new Map() },
+  llm_requests_total: { type: 'counter', help: 'LLM requests by provider, model and outcome (ok, error)', values: new Map() },
+  llm_tokens_total: { type: 'counter', help: 'LLM tokens by model and type (prompt, completion)', values: new Map() },
+  structured_outputs_total: { type: 'counter', help: 'Structured outputs by agent and source (model, repaired, fallback)', values: new Map() }
+};
+
+export type CounterName = 'http_requests_total' | 'agent_runs_total' | 'data_loads_total' | 'api_errors_total' | 'webhook_deliveries_total' | 'notifications_total'
+  | 'llm_requests_total' | 'llm_tokens_total' | 'structured_outputs_total';
+export type HistogramName = 'http_request_duration_seconds' | 'agent_run_duration_seconds';
+
+function labelKey(labels: Labels): string {
+  return Object.keys(labels).sort().map(key => `${key}=${labels[key]}`).join(',');
+}
+
+function formatLabels(labels: Labels, extra?: Labels): string {
+  const all = { ...labels, ...extra };
+  const parts = Object.entries(all).map(([key, value]) =>
+    `${key}="${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`
+  );
+  return parts.length > 0 ? `{${parts.join(',')}}` : '';
+}
+
+/**
+ * Add to a counter
+ */
+export function incrementCounter(name: CounterName, labels: Labels = {}, by = 1): void {
+  const metric = METRICS[name] as Counter;
+  const key = labelKey(labels);
+  const entry = metric.values.get(key) ?? { labels, value: 0 };
+  entry.value += by;
+  metric.values.set(key, entry);
+}
+
+/**
+ * Record one observation (in seconds) in a histogram
+ */
+export function observeHistogram(name: HistogramName, labels: Labels, seconds: number): void {
+  const metric = METRICS[name] as Histogram;
+  const key = labelKey(labels);
+  const entry = metric.values.get(key) ?? { labels, counts: metric.buckets.map(() => 0), sum: 0, count: 0 };
+
+  metric.buckets.forEach((bound, index) => {
+    if (seconds <= bound) entry.counts[index]++;
+  });
+  entry.sum += seconds;
+  entry.count++;
+  metric.values.set(key, entry);
+}
+
+/**
+ * Read a counter value (0 when never incremented)
+ */
+export function getCounterValue(name: CounterName, labels: Labels = {}): number {
+  return (METRICS[name] as Counter).values.get(labelKey(labels))?.value ?? 0;
+}
+
+/**
+ * Render every metric in the Prometheus text exposition format (version 0.0.4)
+ */
+export function renderMetrics(): string {
+  const lines: string[] = [];
+
+  for (const [name, metric] of Object.entries(METRICS)) {
+    lines.push(`# HELP ${name} ${metric.help}`, `# TYPE ${name} ${metric.type}`);
+
+    if (metric.type === 'counter') {
+      for (const { labels, value } of Array.from(metric.values.values())) {
+        lines.push(`${name}${formatLabels(labels)} ${value}`);
+      }
+      continue;
+    }
+
+    for (const { labels, counts, sum, count } of Array.from(metric.values.values())) {
+      metric.buckets.forEach((bound, index) => {
+        lines.push(`${name}_bucket${formatLabels(labels, { le: String(bound) })} ${counts[index]}`);
+      });
+      lines.push(`${name}_bucket${formatLabels(labels, { le: '+Inf' })} ${count}`);
+      lines.push(`${name}_sum${formatLabels(labels)} ${sum}`);
+      lines.push(`${name}_count${formatLabels(labels)} ${count}`);
+    }
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Clear every metric value
+ */
+export function resetMetrics(): void {
+  for (const metric of Object.values(METRICS)) {
+    metric.values.clear();
+  }
+}
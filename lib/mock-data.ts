@@ -0,0 +1,894 @@
+/**
+ * Mock Data - Deterministic fixtures for every registered agent's data files
+ * Generators take a seeded MockContext, so the same seed and clock always give the same data.
+ * Each dataset plants a few deliberate anomalies for the agent to find (noted per generator).
+ */
+
+import { createMockContext, type MockContext, type MockContextOptions } from "./mock-random";
+import { isDataPattern, matchesDataPattern } from "./data-patterns";
+
+export type MockGenerator = (ctx: MockContext) => unknown;
+
+const pad = (value: number, width: number = 3) => String(value).padStart(width, '0');
+
+const FIRST_NAMES = ['Aisha', 'Ben', 'Carla', 'Dev', 'Elena', 'Farid', 'Grace', 'Hiro', 'Ines', 'Jonas', 'Kavya', 'Liam', 'Maya', 'Noah', 'Priya', 'Rafael'];
+const LAST_NAMES = ['Khan', 'Okafor', 'Rossi', 'Patel', 'Novak', 'Haddad', 'Lee', 'Tanaka', 'Silva', 'Berg', 'Iyer', 'Murphy', 'Cohen', 'Schmidt', 'Rao', 'Costa'];
+const COMPANIES = ['Northwind Traders', 'Globex Retail', 'Initech Labs', 'Umbrella Health', 'Stark Logistics', 'Wayne Fintech', 'Acme Foods', 'Hooli Cloud', 'Vandelay Imports', 'Pied Piper Media'];
+const INDUSTRIES = ['SaaS', 'Retail', 'Healthcare', 'Logistics', 'Fintech', 'Manufacturing'];
+
+// Shared by the expense parser's receipts and card transactions so the two files line up
+const EXPENSES = [
+  { merchant: 'Uber', mcc: 4121, amount: 23.4, days_ago: 3 },
+  { merchant: 'Marriott', mcc: 7011, amount: 412.8, days_ago: 9 },
+  { merchant: 'Staples', mcc: 5943, amount: 64.15, days_ago: 12 },
+  { merchant: 'Pret A Manger', mcc: 5814, amount: 11.95, days_ago: 4 },
+  { merchant: 'AWS', mcc: 4816, amount: 186, days_ago: 20 },
+  { merchant: 'The Tipsy Fox Bar', mcc: 5813, amount: 386.5, days_ago: 6 },
+  { merchant: 'Apple Store', mcc: 5732, amount: 1299, days_ago: 2 }
+];
+
+// The meeting transcript's "@Owner task by Mon DD" lines and the action items expected from them;
+// everything is due at the Oct 20 launch review
+const MEETING_ACTIONS = [
+  { owner: 'Mina', task: 'prepare pricing sheet', title: 'Prepare pricing sheet', due: '2025-10-20' },
+  { owner: 'Raj', task: 'update pitch deck', title: 'Update pitch deck', due: '2025-10-20' },
+  { owner: 'Priya', task: 'prepare beta invite list', title: 'Prepare beta invite list', due: '2025-10-20' }
+];
+
+const SLA_VENDORS = [
+  { id: 'V-001', name: 'CloudServ', service: 'Hosting', tier: 'critical' },
+  { id: 'V-002', name: 'DataSys', service: 'Data pipeline', tier: 'high' },
+  { id: 'V-003', name: 'DevTools', service: 'CI/CD', tier: 'standard' }
+];
+
+function personName(ctx: MockContext): string {
+  return `${ctx.random.pick(FIRST_NAMES)} ${ctx.random.pick(LAST_NAMES)}`;
+}
+
+function emailFor(name: string, domain: string): string {
+  return `${name.toLowerCase().replace(/[^a-z]+/g, '.')}@${domain}`;
+}
+
+function domainFor(company: string): string {
+  return `${company.toLowerCase().replace(/[^a-z]+/g, '')}.com`;
+}
+
+function storeReviews(ctx: MockContext, store: string, count: number) {
+  return Array.from({ length: count }, (_, i) => ({
+    id: `${store}-${pad(i + 1)}`,
+    rating: ctx.random.int(3, 5),
+    title: ctx.random.pick(['Great app', 'Does the job', 'Nice update']),
+    body: ctx.random.pick(['Easy to use and fast.', 'Would love a dark mode.', 'Syncs well across devices.']),
+    app_version: ctx.random.pick(['3.1.0', '3.2.0']),
+    created_at: ctx.timestamp(-ctx.random.float(0, 14))
+  }));
+}
+
+/**
+ * Generic generators shared by several agents (kept for existing callers)
+ */
+export const MockDataGenerators = {
+  /**
+   * Generate mock invoice data
+   * Anomalies: a duplicate invoice (same vendor and amount), an amount outlier and a changed IBAN
+   */
+  invoices: (count: number = 10, ctx: MockContext = createMockContext({ scope: 'invoices' })) => {
+    const vendors = ['TechCorp', 'DataSys', 'CloudServ', 'DevTools', 'Enterprise', 'MegaCorp', 'StartupInc'];
+    const statuses = ['paid', 'pending', 'overdue'];
+
+    const invoices = Array.from({ length: count }, (_, i) => ({
+      invoice_id: `INV-${pad(i + 1)}`,
+      vendor: vendors[i % vendors.length],
+      amount: ctx.random.int(1000, 50000),
+      date: ctx.date(-ctx.random.int(0, 90)),
+      status: statuses[i % statuses.length],
+      iban: `GB33BUKB2020155555${pad(i % vendors.length, 4)}`,
+      created_at_utc: ctx.timestamp()
+    }));
+
+    if (count >= 5) {
+      const original = invoices[1];
+      invoices[count - 1] = { ...invoices[count - 1], vendor: original.vendor, amount: original.amount, date: original.date, iban: original.iban };
+      invoices[2] = { ...invoices[2], amount: ctx.random.int(250000, 400000) };
+      invoices[3] = { ...invoices[3], iban: 'DE89370400440532013000' };
+    }
+
+    return invoices;
+  },
+
+  /**
+   * Generate mock meeting transcript
+   * Each action is assigned on its own "@Owner task by Mon DD" line; other lines mention dates without an owner
+   */
+  meetingTranscript: () => [
+    'Meeting Transcript - Launch Planning Sync',
+    'Attendees: Dana, Mina, Raj, Priya',
+    '',
+    'Dana: The launch review is on Oct 20, so pricing, the deck and the beta list all need to land before then.',
+    'Mina: Finance signed off on the tiers yesterday, I can turn that into the sheet.',
+    `Dana: @${MEETING_ACTIONS[0].owner} ${MEETING_ACTIONS[0].task} by Oct 20`,
+    'Raj: The deck still shows last quarter\'s numbers.',
+    `Dana: @${MEETING_ACTIONS[1].owner} ${MEETING_ACTIONS[1].task} by Oct 20`,
+    'Priya: Twelve customers asked to join the beta, I will shortlist them.',
+    `Dana: @${MEETING_ACTIONS[2].owner} ${MEETING_ACTIONS[2].task} by Oct 20`,
+    'Dana: Thanks all, recap goes out after the call.'
+  ].join('\n'),
+
+  /**
+   * Generate mock support tickets
+   * Anomalies: a critical ticket that has been open for over two weeks
+   */
+  supportTickets: (count: number = 5, ctx: MockContext = createMockContext({ scope: 'supportTickets' })) => {
+    const subjects = [
+      'Billing Issue - Incorrect Charges',
+      'Login Problems',
+      'Feature Request - Dashboard',
+      'Bug Report - Data Export',
+      'Account Access Issues'
+    ];
+
+    const priorities = ['low', 'medium', 'high', 'critical'];
+    const statuses = ['open', 'in_progress', 'resolved', 'closed'];
+
+    return Array.from({ length: count }, (_, i) => ({
+      id: `TICKET-${pad(i + 1)}`,
+      subject: subjects[i % subjects.length],
+      description: `Customer reports issue with ${subjects[i % subjects.length].toLowerCase()}`,
+      priority: priorities[i % priorities.length],
+      status: statuses[i % statuses.length],
+      created_at: i === 3 ? ctx.timestamp(-18) : ctx.timestamp(-ctx.random.float(0, 10)),
+      customer_id: `CUST-${pad(i + 1)}`
+    }));
+  },
+
+  /**
+   * Generate mock sitemap XML
+   * Anomalies: a page whose lastmod is more than a year old
+   */
+  sitemap: (ctx: MockContext = createMockContext({ scope: 'sitemap' })) => {
+    const pages = [
+      { path: '/', priority: '1.0', age: 2 },
+      { path: '/about', priority: '0.8', age: 30 },
+      { path: '/products', priority: '0.9', age: 7 },
+      { path: '/contact', priority: '0.7', age: 60 },
+      { path: '/blog', priority: '0.6', age: 1 },
+      { path: '/legacy-pricing', priority: '0.5', age: 400 }
+    ];
+
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+${pages.map(page => `  <url>
+    <loc>https://example.com${page.path}</loc>
+    <lastmod>${ctx.date(-page.age)}</lastmod>
+    <priority>${page.priority}</priority>
+  </url>`).join('\n')}
+</urlset>`;
+  },
+
+  /**
+   * Generate mock vendor data
+   * Anomalies: two vendors sharing one bank account
+   */
+  vendors: (count: number = 5, ctx: MockContext = createMockContext({ scope: 'vendors' })) => {
+    const companies = ['TechCorp Ltd', 'DataSys Inc', 'CloudServ Solutions', 'DevTools Pro', 'Enterprise Systems'];
+
+    return Array.from({ length: count }, (_, i) => ({
+      vendor_id: `VEN-${pad(i + 1)}`,
+      name: companies[i % companies.length],
+      email: `contact@${companies[i % companies.length].toLowerCase().replace(/\s+/g, '')}.com`,
+      tax_id: `TAX${pad(i + 1, 6)}`,
+      bank_account: `GB33BUKB20201${pad(i === count - 1 && count > 2 ? 1 : i + 1, 9)}`,
+      created_at: ctx.timestamp(-ctx.random.int(30, 365)),
+      status: 'active'
+    }));
+  },
+
+  /**
+   * Generate mock action items: the ones assigned in meetingTranscript
+   */
+  actionItems: () => MEETING_ACTIONS.map(({ owner, title, due }) => ({ owner, title, due }))
+};
+
+/**
+ * Generators for each agent's data files, keyed by agent id and the dataFiles entries of the
+ * effective registry (getAgentRegistry), i.e. the files in the seed pack.
+ * Directory and glob entries return a record keyed by relative path.
+ */
+export const AGENT_MOCK_DATA: Record<string, Record<string, MockGenerator>> = {
+  'smart-payment-follow-up': {
+    // Anomalies: one invoice 120+ days overdue after three reminders, one credit note with a negative amount
+    'invoices.csv': ctx => Array.from({ length: 12 }, (_, i) => {
+      const daysOverdue = i === 0 ? 127 : ctx.random.int(-10, 60);
+      return {
+        id: `INV-${pad(2001 + i, 4)}`,
+        number: `2025-${pad(2001 + i, 4)}`,
+        contact_id: `C-${pad(i % 8 + 1)}`,
+        amount: i === 5 ? -450 : ctx.random.float(250, 18000),
+        currency: 'USD',
+        due_date: ctx.date(-daysOverdue),
+        status: daysOverdue > 0 ? 'overdue' : 'open',
+        reminders_sent: i === 0 ? 3 : Math.max(0, Math.min(2, Math.floor(daysOverdue / 20)))
+      };
+    }),
+    // Anomalies: one contact has no email, only a phone number
+    'contacts.csv': ctx => Array.from({ length: 8 }, (_, i) => {
+      const company = COMPANIES[i];
+      const name = personName(ctx);
+      return {
+        contact_id: `C-${pad(i + 1)}`,
+        name,
+        company,
+        email: i === 4 ? '' : emailFor(name, domainFor(company)),
+        phone: `+1-555-${pad(ctx.random.int(100, 999))}-${pad(ctx.random.int(0, 9999), 4)}`,
+        whatsapp_opt_in: ctx.random.chance(0.6),
+        timezone: ctx.random.pick(['America/New_York', 'Europe/London', 'Asia/Kolkata'])
+      };
+    }),
+    'policy.yaml': () => ({
+      grace_days: 3,
+      sequence: [
+        { channel: 'whatsapp', template: 'Hi {{name}}, invoice {{number}} ({{amount}} {{currency}}) is due {{due_date}}.' },
+        { wait_hours: 48 },
+        { channel: 'email', subject: 'Payment reminder: {{number}}', body: 'Please clear dues or reply if you need help.' },
+        { wait_hours: 72 },
+        { escalate_to: 'finance@yourco.com' }
+      ],
+      suppression: { hours_between_touches: 20, local_hours_window: '09:00-18:00' }
+    })
+  },
+  'expense-parser': {
+    // Anomalies: a receipt scanned twice and a weekend bar tab above the meals limit
+    'documents.csv': ctx => {
+      const documents = EXPENSES.slice(0, -1).map((expense, i) => ({
+        doc_id: `DOC-${pad(i + 1)}`,
+        employee_id: `EMP-${pad(ctx.random.int(1, 5))}`,
+        merchant: expense.merchant,
+        amount: expense.amount,
+        currency: 'USD',
+        date: ctx.date(-expense.days_ago),
+        text: `${expense.merchant.toUpperCase()}\nTOTAL USD ${expense.amount.toFixed(2)}\nTHANK YOU`
+      }));
+      documents.push({ ...documents[2], doc_id: `DOC-${pad(documents.length + 1)}` });
+      return documents;
+    },
+    // Anomalies (with documents.csv): a card payment with no receipt
+    'pos.csv': ctx => EXPENSES.map((expense, i) => ({
+      txn_id: `TXN-${pad(i + 1, 5)}`,
+      date: ctx.date(-expense.days_ago),
+      merchant: expense.merchant,
+      mcc: expense.mcc,
+      amount: expense.amount,
+      currency: 'USD',
+      card_last4: ctx.random.pick(['4242', '0005', '1881'])
+    }))
+  },
+  'contract-compliance': {
+    // Anomalies: msa_03 has uncapped liability, msa_07 has 120-day payment terms and no termination clause
+    'contracts/msa_*.txt': ctx => {
+      const contracts: Record<string, string> = {};
+      for (let i = 1; i <= 10; i++) {
+        const company = COMPANIES[i - 1];
+        const liability = i === 3 ? 'Liability under this Agreement shall be unlimited.' :
+          `Liability is capped at ${ctx.random.pick([1, 2])}x the fees paid in the preceding 12 months.`;
+        const terms = i === 7 ? 120 : ctx.random.pick([30, 45, 60]);
+        contracts[`contracts/msa_${pad(i, 2)}.txt`] = [
+          `MASTER SERVICES AGREEMENT ${pad(i, 2)}`,
+          `Between Example Corp ("Customer") and ${company} ("Provider"), effective ${ctx.date(-ctx.random.int(30, 700))}.`,
+          `1. Payment Terms. Invoices are payable within ${terms} days of receipt.`,
+          `2. Limitation of Liability. ${liability}`,
+          `3. Governing Law. This Agreement is governed by the laws of ${ctx.random.pick(['England and Wales', 'New York', 'Delaware'])}.`,
+          i === 7 ? '' : '4. Termination. Either party may terminate for convenience with 60 days written notice.',
+          `5. Data Protection. Provider shall process personal data only on documented instructions.`
+        ].filter(Boolean).join('\n\n');
+      }
+      return contracts;
+    },
+    'policies.yaml': () => ({
+      rules: [
+        { id: 'liability_cap', description: 'Liability must be capped at no more than 2x annual fees', severity: 'high' },
+        { id: 'payment_terms', description: 'Payment terms must not exceed 60 days', max_days: 60, severity: 'medium' },
+        { id: 'termination', description: 'A termination for convenience clause is required', severity: 'medium' },
+        { id: 'governing_law', description: 'Governing law must be England and Wales, New York or Delaware', severity: 'low' }
+      ]
+    })
+  },
+
+  'customer-sentiment': {
+    // Anomalies: a burst of one-star outage reviews in the last two days
+    'reviews.csv': ctx => {
+      const positive = ['Love the new dashboard', 'Support resolved my issue quickly', 'Onboarding was smooth'];
+      const neutral = ['Pricing page is a bit confusing', 'Would like more export formats'];
+      const reviews = Array.from({ length: 12 }, (_, i) => {
+        const happy = ctx.random.chance(0.7);
+        return {
+          review_id: `REV-${pad(i + 1)}`,
+          source: ctx.random.pick(['g2', 'capterra', 'trustpilot']),
+          rating: happy ? ctx.random.int(4, 5) : 3,
+          text: happy ? ctx.random.pick(positive) : ctx.random.pick(neutral),
+          date: ctx.date(-ctx.random.int(3, 30))
+        };
+      });
+      for (let i = 0; i < 4; i++) {
+        reviews.push({
+          review_id: `REV-${pad(13 + i)}`,
+          source: 'trustpilot',
+          rating: 1,
+          text: 'The app has been down all morning and we lost orders',
+          date: ctx.date(-ctx.random.int(0, 1))
+        });
+      }
+      return reviews;
+    },
+    // Anomalies: a customer threatening to cancel after repeated outages
+    'emails_sample.csv': ctx => {
+      const emails = Array.from({ length: 8 }, (_, i) => {
+        const company = COMPANIES[i];
+        const name = personName(ctx);
+        return {
+          email_id: `EML-${pad(i + 1)}`,
+          from: emailFor(name, domainFor(company)),
+          subject: ctx.random.pick(['Quick question about exports', 'Thanks for the help', 'Invoice copy', 'Feature feedback']),
+          body: ctx.random.pick(['Thanks for the quick turnaround.', 'Could you resend last month\'s invoice?', 'The new report looks great.']),
+          received_at: ctx.timestamp(-ctx.random.float(1, 20))
+        };
+      });
+      emails.push({
+        email_id: 'EML-009',
+        from: 'ops@globexretail.com',
+        subject: 'Third outage this month',
+        body: 'This is the third outage this month. If it happens again we will cancel our subscription.',
+        received_at: ctx.timestamp(-0.2)
+      });
+      return emails;
+    }
+  },
+  'client-sentiment-comms': {
+    // Anomalies: Globex Retail's latest message escalates to a contract review
+    'threads.mbox.txt': ctx => {
+      const messages = Array.from({ length: 5 }, (_, i) => ({
+        from: emailFor(personName(ctx), domainFor(COMPANIES[i % 4])),
+        subject: ctx.random.pick(['Quarterly review', 'Invoice question', 'Feature rollout', 'Weekly sync']),
+        body: ctx.random.pick(['Thanks for the quick turnaround.', 'Can we move the call to Thursday?', 'The new report looks great.']),
+        date: ctx.timestamp(-ctx.random.float(2, 20))
+      }));
+      messages.push({
+        from: 'dana.cohen@globexretail.com',
+        subject: 'Third missed deadline',
+        body: 'This is the third missed deadline this quarter. If this continues we will have to review the contract.',
+        date: ctx.timestamp(-0.5)
+      });
+      return messages.map(message => [
+        `From ${message.from} ${message.date}`,
+        `From: ${message.from}`,
+        'To: account-team@example.com',
+        `Subject: ${message.subject}`,
+        `Date: ${message.date}`,
+        '',
+        message.body,
+        ''
+      ].join('\n')).join('\n');
+    }
+  },
+  'vendor-sla-watchdog': {
+    'vendors.csv': () => SLA_VENDORS.map(vendor => ({
+      vendor_id: vendor.id,
+      name: vendor.name,
+      service: vendor.service,
+      tier: vendor.tier,
+      contact_email: `support@${domainFor(vendor.name)}`
+    })),
+    'slas.yaml': () => ({ uptime_target_pct: 99.5, response_time_hours: 8, penalty_pct: 5 }),
+    // Anomalies: CloudServ misses the uptime target on three consecutive days
+    'metrics.json': ctx => {
+      const rows: Record<string, string | number>[] = [];
+      for (let daysAgo = 6; daysAgo >= 0; daysAgo--) {
+        for (const vendor of SLA_VENDORS) {
+          const breach = vendor.name === 'CloudServ' && daysAgo <= 2;
+          rows.push({
+            vendor_id: vendor.id,
+            date: ctx.date(-daysAgo),
+            uptime_pct: breach ? ctx.random.float(97.5, 98.9) : ctx.random.float(99.6, 100),
+            response_time_hours: breach ? ctx.random.float(9, 14, 1) : ctx.random.float(0.5, 6, 1),
+            incidents: breach ? ctx.random.int(2, 4) : ctx.random.int(0, 1)
+          });
+        }
+      }
+      return rows;
+    }
+  },
+  'po-grn-reconciler': {
+    // Anomalies: PO-1003 is short-delivered, PO-1005 is invoiced above the PO price, INV-9008 has no PO
+    'po.csv': ctx => Array.from({ length: 6 }, (_, i) => ({
+      po_number: `PO-${1001 + i}`,
+      vendor: ['TechCorp', 'DataSys', 'CloudServ'][i % 3],
+      item: ['Laptop', 'Monitor', 'Docking station', 'Keyboard', 'Server rack', 'Cables'][i],
+      quantity: [10, 20, 15, 40, 2, 100][i],
+      unit_price: [1200, 240, 180, 45, 3400, 6][i],
+      order_date: ctx.date(-30 + i)
+    })),
+    'grn.csv': ctx => Array.from({ length: 6 }, (_, i) => ({
+      grn_number: `GRN-${5001 + i}`,
+      po_number: `PO-${1001 + i}`,
+      quantity_received: i === 2 ? 11 : [10, 20, 15, 40, 2, 100][i],
+      received_date: ctx.date(-20 + i)
+    })),
+    'invoice.csv': ctx => {
+      const invoices = Array.from({ length: 6 }, (_, i) => ({
+        invoice_number: `INV-${9001 + i}`,
+        po_number: `PO-${1001 + i}`,
+        quantity: [10, 20, 15, 40, 2, 100][i],
+        unit_price: i === 4 ? 3950 : [1200, 240, 180, 45, 3400, 6][i],
+        invoice_date: ctx.date(-15 + i)
+      }));
+      invoices.push({ invoice_number: 'INV-9008', po_number: '', quantity: 5, unit_price: 310, invoice_date: ctx.date(-3) });
+      return invoices;
+    }
+  },
+  'meeting-actions': {
+    'transcript.txt': () => MockDataGenerators.meetingTranscript(),
+    'actions_expected.json': () => MockDataGenerators.actionItems()
+  },
+
+  'pipeline-nurture': {
+    // Anomalies: a hot deal (score 92) nobody has touched in 34 days, and a deal whose contact opted out
+    'deals.csv': ctx => Array.from({ length: 10 }, (_, i) => {
+      const company = COMPANIES[i];
+      const name = i === 3 ? 'Noah Berg' : personName(ctx);
+      return {
+        deal_id: `DEAL-${pad(i + 1)}`,
+        company,
+        contact_name: name,
+        contact_email: emailFor(name, domainFor(company)),
+        stage: i === 0 ? 'proposal' : ctx.random.pick(['new', 'contacted', 'qualified', 'proposal']),
+        amount: ctx.random.int(5, 120) * 1000,
+        score: i === 0 ? 92 : ctx.random.int(20, 80),
+        last_activity: ctx.date(i === 0 ? -34 : -ctx.random.int(1, 10))
+      };
+    }),
+    'do_not_contact.csv': ctx => [
+      { email: 'noah.berg@umbrellahealth.com', reason: 'unsubscribed', added_on: ctx.date(-12) },
+      { email: 'legal@initechlabs.com', reason: 'legal_request', added_on: ctx.date(-90) }
+    ],
+    'templates.json': () => [
+      { id: 'welcome', stage: 'new', channel: 'email', subject: 'Welcome, {{first_name}}', body: 'Thanks for your interest in Example. Here is a short tour...' },
+      { id: 'case_study', stage: 'contacted', channel: 'email', subject: 'How {{peer_company}} closes books 3x faster', body: 'A quick case study from a team like yours.' },
+      { id: 'proposal_check_in', stage: 'proposal', channel: 'email', subject: 'Any questions on the proposal?', body: 'Happy to walk through pricing or scope on a short call.' }
+    ]
+  },
+  'lead-enrichment': {
+    // Anomalies: a duplicate lead and a lead on a free email domain with no company
+    'leads.csv': ctx => {
+      const leads = Array.from({ length: 8 }, (_, i) => {
+        const company = COMPANIES[i];
+        const name = personName(ctx);
+        return {
+          lead_id: `LEAD-${pad(i + 1)}`,
+          name,
+          email: emailFor(name, domainFor(company)),
+          company,
+          title: ctx.random.pick(['VP Operations', 'Head of Finance', 'CTO', 'Marketing Manager']),
+          employees: ctx.random.pick([12, 85, 240, 1200, 5400]),
+          industry: ctx.random.pick(INDUSTRIES)
+        };
+      });
+      leads.push({ ...leads[1], lead_id: 'LEAD-009' });
+      leads.push({ lead_id: 'LEAD-010', name: 'Sam Doe', email: 'samdoe1987@gmail.com', company: '', title: '', employees: 0, industry: '' });
+      return leads;
+    },
+    'rules.json': () => ({
+      industries: ['SaaS', 'Fintech', 'Logistics'],
+      employees: { min: 50, max: 2000 },
+      titles: ['VP Operations', 'Head of Finance', 'CTO'],
+      weights: { industry: 0.4, size: 0.3, title: 0.3 },
+      disqualify: { free_email_domains: ['gmail.com', 'yahoo.com', 'outlook.com'] }
+    })
+  },
+  'proposal-scope-guard': {
+    // Anomalies: the SOW includes an excluded "24/7 on-call support" item and its total doesn't add up
+    'sow.doc.txt': ctx => {
+      const items = [
+        { item: 'Discovery workshop', hours: 16, rate: 150 },
+        { item: 'Implementation', hours: ctx.random.int(80, 160), rate: 150 },
+        { item: 'Training', hours: 8, rate: 120 },
+        { item: '24/7 on-call support', hours: 0, rate: 0 }
+      ];
+      const total = items.reduce((sum, line) => sum + line.hours * line.rate, 0);
+      return [
+        'STATEMENT OF WORK',
+        `Client: ${COMPANIES[2]}`,
+        `Date: ${ctx.date(-ctx.random.int(1, 20))}`,
+        '',
+        'Deliverables:',
+        ...items.map((line, i) => `${i + 1}. ${line.item} - ${line.hours} hours at $${line.rate}/hour`),
+        '',
+        `Total: $${(total - 2400).toLocaleString('en-US')}`
+      ].join('\n');
+    },
+    'policy.yaml': () => ({
+      allowed_items: ['Discovery workshop', 'Implementation', 'Training', 'Data migration'],
+      excluded_items: ['24/7 on-call support', 'Custom hardware'],
+      max_hours: 200,
+      rates: { standard: 150, training: 120 }
+    })
+  },
+  'changelog-success-notes': {
+    // Anomalies: a breaking API change marked as not customer facing
+    'releases.json': ctx => [
+      {
+        version: '2.4.0',
+        date: ctx.date(-14),
+        changes: [
+          { type: 'feature', description: 'Bulk CSV export for reports', customer_facing: true },
+          { type: 'fix', description: 'Timezone offset in scheduled emails', customer_facing: true }
+        ]
+      },
+      {
+        version: '2.5.0',
+        date: ctx.date(-2),
+        changes: [
+          { type: 'feature', description: 'SSO with Okta', customer_facing: true },
+          { type: 'breaking', description: 'Removed v1 /reports endpoint', customer_facing: false },
+          { type: 'chore', description: 'Upgrade build tooling', customer_facing: false }
+        ]
+      }
+    ],
+    // Anomalies (with releases.json): two accounts still call the removed v1 API
+    'accounts.csv': ctx => COMPANIES.slice(0, 8).map((company, i) => ({
+      account_id: `ACC-${pad(i + 1)}`,
+      company,
+      plan: ctx.random.pick(['starter', 'growth', 'enterprise']),
+      csm_email: emailFor(personName(ctx), 'example.com'),
+      api_version: i === 1 || i === 6 ? 'v1' : 'v2'
+    }))
+  },
+  'seo-issue-sentinel': {
+    // Anomalies: a page far down the rankings with no clicks, and a high-ranking page with a 0.2% CTR
+    'gsc_export.csv': ctx => ['/', '/pricing', '/blog/launch', '/docs', '/legacy-pricing', '/careers'].map(path => {
+      const impressions = ctx.random.int(800, 12000);
+      const ctr = path === '/docs' ? 0.002 : path === '/legacy-pricing' ? 0 : ctx.random.float(0.015, 0.08, 3);
+      return {
+        page: `https://example.com${path}`,
+        clicks: Math.round(impressions * ctr),
+        impressions,
+        ctr,
+        position: path === '/legacy-pricing' ? 58.4 : path === '/docs' ? 2.7 : ctx.random.float(3, 18, 1)
+      };
+    }),
+    'sitemap.xml': ctx => MockDataGenerators.sitemap(ctx)
+  },
+  'landing-page-fixer': {
+    // Anomalies: a launch page converting at 0.4% and a signup page returning 500
+    'targets.csv': ctx => [
+      { url: 'https://example.com/', goal: 'demo_request', status: 200, conversion_rate: ctx.random.float(0.02, 0.05, 3) },
+      { url: 'https://example.com/launch', goal: 'trial_signup', status: 200, conversion_rate: 0.004 },
+      { url: 'https://example.com/pricing', goal: 'trial_signup', status: 200, conversion_rate: ctx.random.float(0.02, 0.05, 3) },
+      { url: 'https://example.com/signup', goal: 'trial_signup', status: 500, conversion_rate: 0 }
+    ].map(target => ({ ...target, bounce_rate: ctx.random.float(0.35, 0.75, 2), visitors_7d: ctx.random.int(800, 12000) }))
+  },
+  'seo-pages': {
+    'sitemap.xml': ctx => MockDataGenerators.sitemap(ctx),
+    'seo_analysis.json': ctx => ({
+      analyzed_at: ctx.timestamp(),
+      pages: 6,
+      stale_pages: ['https://example.com/legacy-pricing'],
+      average_priority: 0.75
+    })
+  },
+
+  'social-listening': {
+    'keywords.txt': () => ['Example Corp', '#ExampleApp', 'example outage', 'example pricing'].join('\n'),
+    // Anomalies: a negative outage post with 15k+ shares in the last hour
+    'mentions.json': ctx => {
+      const mentions = Array.from({ length: 10 }, (_, i) => ({
+        id: `MEN-${pad(i + 1)}`,
+        platform: ctx.random.pick(['twitter', 'reddit', 'linkedin']),
+        author: `@${ctx.random.pick(FIRST_NAMES).toLowerCase()}${ctx.random.int(1, 99)}`,
+        text: ctx.random.pick(['Loving #ExampleApp for invoicing', 'Example pricing seems fair', 'Anyone tried Example Corp?']),
+        sentiment: ctx.random.pick(['positive', 'neutral']),
+        reach: ctx.random.int(50, 2000),
+        shares: ctx.random.int(0, 40),
+        posted_at: ctx.timestamp(-ctx.random.float(0.1, 5))
+      }));
+      mentions.push({
+        id: 'MEN-011',
+        platform: 'twitter',
+        author: '@techinsider',
+        text: 'Example outage has wiped customer data? Thousands affected #ExampleApp',
+        sentiment: 'negative',
+        reach: 480000,
+        shares: 15300,
+        posted_at: ctx.timestamp(-0.04)
+      });
+      return mentions;
+    }
+  },
+
+  'employee-onboarding': {
+    'checklist.yaml': () => ({
+      tasks: [
+        { id: 'laptop', task: 'Ship laptop', owner: 'IT', due_offset_days: -3 },
+        { id: 'accounts', task: 'Create email and SSO accounts', owner: 'IT', due_offset_days: -1 },
+        { id: 'buddy', task: 'Assign onboarding buddy', owner: 'Manager', due_offset_days: 0 },
+        { id: 'payroll', task: 'Payroll and tax forms', owner: 'HR', due_offset_days: 5 }
+      ]
+    }),
+    // Anomalies: an employee who started two days ago with IT setup still incomplete
+    'new_hires.csv': ctx => Array.from({ length: 4 }, (_, i) => {
+      const name = personName(ctx);
+      return {
+        employee_id: `EMP-${pad(101 + i)}`,
+        name,
+        email: emailFor(name, 'example.com'),
+        role: ctx.random.pick(['Account Executive', 'Software Engineer', 'Designer', 'Analyst']),
+        start_date: ctx.date(i === 0 ? -2 : ctx.random.int(5, 20)),
+        manager: personName(ctx),
+        it_setup_complete: i !== 0 && ctx.random.chance(0.5)
+      };
+    })
+  },
+  'hr-policy-qa': {
+    'hr/*.txt': () => ({
+      'hr/leave-policy.txt': 'Annual Leave Policy\n\nFull-time employees accrue 25 days of annual leave per year.\nUp to 5 unused days may be carried over until 31 March.\nSick leave requires a doctor\'s note after 3 consecutive days.',
+      'hr/benefits.txt': 'Benefits Overview\n\nHealth insurance covers employees and dependants from day one.\nThe pension match is 5% of base salary.\nA learning budget of $1,000 per year is available with manager approval.'
+    }),
+    // Anomalies: a question the policies don't answer (parental leave) that should be triaged to HR
+    'sample_questions.json': () => [
+      { id: 'Q1', question: 'How many days of annual leave do I get?', expected_source: 'hr/leave-policy.txt' },
+      { id: 'Q2', question: 'Can I carry over unused leave?', expected_source: 'hr/leave-policy.txt' },
+      { id: 'Q3', question: 'What is the pension match?', expected_source: 'hr/benefits.txt' },
+      { id: 'Q4', question: 'How long is parental leave?', expected_source: null, expected_action: 'triage_to_hr' }
+    ]
+  },
+
+  'security-posture': {
+    // Anomalies: a production certificate expiring in five days and a public staging host with no owner
+    'targets.csv': ctx => [
+      { target: 'example.com', type: 'domain', environment: 'production', owner: 'platform@example.com', tls_expires: ctx.date(5) },
+      { target: 'api.example.com', type: 'domain', environment: 'production', owner: 'platform@example.com', tls_expires: ctx.date(ctx.random.int(60, 300)) },
+      { target: 'status.example.com', type: 'domain', environment: 'production', owner: 'sre@example.com', tls_expires: ctx.date(ctx.random.int(60, 300)) },
+      { target: 'staging-db.example.com', type: 'host', environment: 'staging', owner: '', tls_expires: '' }
+    ].map(target => ({ ...target, last_scanned: ctx.date(-ctx.random.int(1, 14)) }))
+  },
+  'pii-finder': {
+    // Anomalies: a full card number and an SSN stored in free-text notes
+    'pii_samples/': ctx => ({
+      'pii_samples/customers.csv': Array.from({ length: 6 }, (_, i) => {
+        const name = personName(ctx);
+        return {
+          customer_id: `CUST-${pad(i + 1)}`,
+          name,
+          email: emailFor(name, 'example.org'),
+          phone: `+44 7700 ${pad(ctx.random.int(100000, 999999), 6)}`,
+          notes: i === 2 ? 'Paid by card 4111 1111 1111 1111, exp 04/27' : i === 4 ? 'SSN 078-05-1120 on file for tax form' : 'No notes',
+          last_activity: ctx.date(i === 5 ? -2900 : -ctx.random.int(1, 300))
+        };
+      })
+    }),
+    // Anomalies (with customers.csv): one record is past the 7-year retention period
+    'policy.yaml': () => ({
+      retention: { customer_records_days: 2555, support_tickets_days: 730 },
+      prohibited_fields: ['card_number', 'ssn', 'passport_number'],
+      actions: { prohibited_found: 'redact_and_alert', retention_exceeded: 'schedule_deletion' }
+    })
+  },
+
+  'kb-gap-filler': {
+    // Anomalies: six tickets about SSO setup, a topic with no article
+    'tickets.csv': ctx => Array.from({ length: 12 }, (_, i) => ({
+      ticket_id: `TICKET-${pad(i + 1)}`,
+      subject: i < 6 ? 'How do I configure SSO with Okta?' : ctx.random.pick(['Password reset not arriving', 'Invoice shows wrong VAT', 'CSV export missing columns']),
+      tags: i < 6 ? 'sso;setup' : ctx.random.pick(['login', 'billing', 'export']),
+      created_at: ctx.timestamp(-ctx.random.float(0, 14))
+    }))
+  },
+  'support-summarizer': {
+    'zendesk_tickets.json': ctx => MockDataGenerators.supportTickets(8, ctx).map((ticket, i) => ({
+      ...ticket,
+      comments: i === 3 ? ['Customer cleared cache', 'Issue persists after re-login'] : []
+    })),
+    'router_policy.yaml': () => ({
+      default_queue: 'general',
+      routes: [
+        { match: { subject_contains: 'billing' }, queue: 'finance', priority_boost: 0 },
+        { match: { subject_contains: 'login' }, queue: 'identity', priority_boost: 1 },
+        { match: { priority: 'critical' }, queue: 'escalations', notify: 'on-call' }
+      ]
+    })
+  },
+  'calendar-load-balancer': {
+    // Anomalies: Aisha Khan is double-booked and has 7.5 hours of meetings tomorrow
+    'cal_week.ics': ctx => {
+      const day = ctx.date(1).replace(/-/g, '');
+      const events = [
+        ...['09:00-11:00 Board prep', '10:30-11:30 Customer call', '12:00-15:00 Hiring panel', '15:00-16:30 Roadmap review']
+          .map(event => ({ person: 'Aisha Khan', event })),
+        ...['Ben Okafor', 'Carla Rossi'].flatMap(person => Array.from({ length: 2 }, (_, e) => {
+          const hour = 9 + e * 3 + ctx.random.int(0, 1);
+          return { person, event: `${pad(hour, 2)}:00-${pad(hour + 1, 2)}:00 ${ctx.random.pick(['1:1', 'Standup', 'Planning', 'Review'])}` };
+        }))
+      ];
+      return [
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        'PRODID:-//Example//Agents Mock//EN',
+        ...events.flatMap(({ person, event }, i) => {
+          const [, start, end, title] = event.match(/^(\d{2}:\d{2})-(\d{2}:\d{2}) (.+)$/) as RegExpMatchArray;
+          return [
+            'BEGIN:VEVENT',
+            `UID:evt-${pad(i + 1)}@example.com`,
+            `DTSTART:${day}T${start.replace(':', '')}00Z`,
+            `DTEND:${day}T${end.replace(':', '')}00Z`,
+            `SUMMARY:${title}`,
+            `ATTENDEE;CN=${person}:mailto:${emailFor(person, 'example.com')}`,
+            'END:VEVENT'
+          ];
+        }),
+        'END:VCALENDAR'
+      ].join('\r\n');
+    },
+    'prefs.json': () => [
+      { person: 'Aisha Khan', max_meeting_hours_per_day: 4, focus_block: '13:00-15:00', timezone: 'UTC' },
+      { person: 'Ben Okafor', max_meeting_hours_per_day: 5, timezone: 'UTC' },
+      { person: 'Carla Rossi', max_meeting_hours_per_day: 4, no_meetings_before: '10:00', timezone: 'UTC' }
+    ]
+  },
+  'travel-expense-optimizer': {
+    // Anomalies: a business-class fare on a 2-hour domestic flight
+    'receipts/': ctx => ({
+      'receipts/demo_air.pdf.txt': `AIRLINE E-TICKET RECEIPT\nPassenger: ${personName(ctx)}\nRoute: SFO - SEA\nDate: ${ctx.date(-9)}\nCabin: Business\nDuration: 2h 05m\nFare: USD 1,284.00`
+    }),
+    'policy.yaml': () => ({
+      flights: { domestic_max_cabin: 'economy', business_allowed_over_hours: 6, advance_booking_days: 14 },
+      hotels: { nightly_cap_usd: { default: 220, 'New York': 320, London: 300 } },
+      per_diem_usd: 75
+    }),
+    'search_intents.json': ctx => [
+      { traveler: 'EMP-003', origin: 'SFO', destination: 'JFK', depart: ctx.date(5), return: ctx.date(8), purpose: 'Customer visit' },
+      { traveler: 'EMP-007', origin: 'LHR', destination: 'BER', depart: ctx.date(21), return: ctx.date(22), purpose: 'Conference' }
+    ]
+  },
+
+  'inventory-forecaster': {
+    // Anomalies: SKU-005 has a one-day demand spike
+    'sales.csv': ctx => {
+      const rows: Record<string, string | number>[] = [];
+      const base: Record<string, number> = { 'SKU-001': 60, 'SKU-002': 35, 'SKU-003': 18, 'SKU-004': 80, 'SKU-005': 25 };
+      for (let daysAgo = 27; daysAgo >= 0; daysAgo--) {
+        for (const [sku, mean] of Object.entries(base)) {
+          const spike = sku === 'SKU-005' && daysAgo === 3;
+          rows.push({ date: ctx.date(-daysAgo), sku, units_sold: spike ? mean * 8 : Math.max(0, mean + ctx.random.int(-8, 8)) });
+        }
+      }
+      return rows;
+    }
+  },
+  'invoice-anomalies': {
+    'invoices.csv': ctx => MockDataGenerators.invoices(20, ctx),
+    'vendors.csv': ctx => MockDataGenerators.vendors(5, ctx)
+  },
+
+  'compliance-calendar': {
+    // Anomalies: last month's GSTR-3B is overdue and unfiled
+    'calendar.csv': ctx => [
+      { id: 'GSTR-1', description: 'Outward supplies return', frequency: 'monthly', due_date: ctx.date(6), status: 'pending' },
+      { id: 'GSTR-3B', description: 'Summary return and tax payment', frequency: 'monthly', due_date: ctx.date(-4), status: 'pending' },
+      { id: 'TDS-Q', description: 'Quarterly TDS return', frequency: 'quarterly', due_date: ctx.date(25), status: 'pending' },
+      { id: 'PF-ECR', description: 'Provident fund contributions', frequency: 'monthly', due_date: ctx.date(-16), status: 'filed' }
+    ],
+    'org.yaml': () => ({
+      entity: 'Example India Pvt Ltd',
+      gstin: '29ABCDE1234F1Z5',
+      state: 'Karnataka',
+      fiscal_year_start: '04-01',
+      registrations: ['GST', 'TDS', 'PF']
+    })
+  },
+  'store-review-reply': {
+    'app_store_reviews.json': ctx => storeReviews(ctx, 'app_store', 6),
+    // Anomalies: a 1-star review reporting a crash on the latest version
+    'play_reviews.json': ctx => [
+      ...storeReviews(ctx, 'play_store', 6),
+      {
+        id: 'play_store-007',
+        rating: 1,
+        title: 'Crashes on launch',
+        body: 'Since the last update the app crashes every time I open it. Pixel 8, Android 15.',
+        app_version: '3.3.0',
+        created_at: ctx.timestamp(-0.3)
+      }
+    ]
+  },
+  'internal-brief-writer': {
+    // Anomalies: the call notes and the deck disagree on the launch quarter
+    'sources/': () => ({
+      'sources/call_notes.docx.txt': 'Call notes - Product sync\n- Launch of the analytics add-on confirmed for Q3.\n- Pricing: $49 per seat per month.\n- Risks: data residency questions from EU prospects.',
+      'sources/market_link.html.txt': 'Market update: analytics spend in mid-market SaaS grew 18% year over year; two competitors launched bundled BI tools this spring.',
+      'sources/strategy_deck.pdf.txt': 'Strategy deck\nSlide 4: Analytics add-on GA in Q4.\nSlide 5: Target 300 paying accounts in the first two quarters.'
+    })
+  },
+
+  'personal-focus-coach': {
+    // Anomalies: Wednesday is booked wall to wall, leaving no focus block
+    'cal.json': ctx => Array.from({ length: 5 }, (_, day) => {
+      const date = ctx.date(day - 6);
+      const slots = day === 2 ? [[9, 10], [10, 11], [11, 12.5], [13, 14], [14, 15.5], [15.5, 17.5]] : [[9.5, 10], [ctx.random.int(13, 15), ctx.random.int(15, 16) + 0.5]];
+      const time = (hour: number) => `${date}T${pad(Math.floor(hour), 2)}:${hour % 1 ? '30' : '00'}:00Z`;
+      return slots.map(([start, end], i) => ({
+        title: i === 0 && day !== 2 ? 'Standup' : ctx.random.pick(['1:1', 'Planning', 'Review', 'Customer call']),
+        start: time(start),
+        end: time(end)
+      }));
+    }).flat(),
+    'prefs.json': () => ({
+      focus_minutes_per_day: 120,
+      focus_window: '09:00-12:00',
+      working_hours: '09:00-17:30',
+      max_meetings_per_day: 5,
+      timezone: 'UTC'
+    })
+  },
+  'support-brief': {
+    'tickets.json': ctx => MockDataGenerators.supportTickets(10, ctx),
+    'brief_templates.json': () => [
+      { id: 'daily', sections: ['Volume', 'Top issues', 'Escalations', 'SLA risk'] },
+      { id: 'executive', sections: ['Summary', 'Customer impact', 'Actions'] }
+    ]
+  },
+
+  'multi-agent-orchestrator': {
+    // Anomalies: two nodes may send external messages without approval
+    'graph.yaml': () => ({
+      nodes: [
+        { id: 'detect', agent: 'invoice-anomalies', can_send_external: false, requires_approval: false },
+        { id: 'chase', agent: 'smart-payment-follow-up', can_send_external: true, requires_approval: false },
+        { id: 'reply', agent: 'store-review-reply', can_send_external: true, requires_approval: false },
+        { id: 'review', agent: 'contract-compliance', can_send_external: false, requires_approval: true }
+      ],
+      edges: [
+        { from: 'detect', to: 'chase' },
+        { from: 'detect', to: 'review' }
+      ]
+    }),
+    // Anomalies (with graph.yaml): a task for a node that isn't in the graph
+    'tasks.jsonl': ctx => [
+      { task_id: 'T-001', node: 'detect', input: { offline: true }, created_at: ctx.timestamp(-0.5) },
+      { task_id: 'T-002', node: 'reply', input: { review_id: 'play_store-007' }, created_at: ctx.timestamp(-0.3) },
+      { task_id: 'T-003', node: 'summarize', input: {}, created_at: ctx.timestamp(-0.1) }
+    ].map(task => JSON.stringify(task)).join('\n')
+  }
+};
+
+/**
+ * Generate mock data for one of an agent's data files, or undefined if none is defined.
+ * Files inside a directory/glob entry are generated from that entry's collection.
+ * Each file gets its own seeded stream, so results don't depend on call order.
+ */
+export function getAgentMockData<T = unknown>(agentId: string, filename: string, options: MockContextOptions = {}): T | undefined {
+  const generators = AGENT_MOCK_DATA[agentId];
+  if (!generators) return undefined;
+
+  const generate = (entry: string) =>
+    generators[entry](createMockContext({ ...options, scope: options.scope ?? `${agentId}/${entry}` }));
+  // Directory and glob entries generate a record keyed by relative path
+  const generateCollection = (entry: string) => generate(entry) as Record<string, unknown>;
+
+  if (generators[filename]) {
+    return generate(filename) as T;
+  }
+
+  const collections = Object.keys(generators).filter(isDataPattern);
+
+  // A directory or glob that isn't a registered entry collects matching files from the registered ones
+  if (isDataPattern(filename)) {
+    const matches: Record<string, unknown> = {};
+    for (const entry of collections) {
+      for (const [file, content] of Object.entries(generateCollection(entry))) {
+        if (matchesDataPattern(filename, file)) matches[file] = content;
+      }
+    }
+    return Object.keys(matches).length > 0 ? matches as T : undefined;
+  }
+
+  const entry = collections.find(key => matchesDataPattern(key, filename));
+  return entry ? generateCollection(entry)[filename] as T : undefined;
+}
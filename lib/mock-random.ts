@@ -0,0 +1,118 @@
+/**
+ * Mock Random - Seeded PRNG and injectable clock for reproducible mock data
+ * The same seed, scope and clock always produce the same fixtures
+ */
+
+import { getConfig } from "./config";
+
+export interface MockRandom {
+  next(): number; // [0, 1)
+  int(min: number, max: number): number; // Inclusive
+  float(min: number, max: number, decimals?: number): number;
+  pick<T>(items: readonly T[]): T;
+  chance(probability: number): boolean;
+  shuffle<T>(items: readonly T[]): T[];
+}
+
+export interface MockClock {
+  now(): number;
+}
+
+export interface MockContext {
+  random: MockRandom;
+  clock: MockClock;
+  date(offsetDays?: number): string; // YYYY-MM-DD relative to the clock
+  timestamp(offsetDays?: number): string; // ISO timestamp relative to the clock
+}
+
+export interface MockContextOptions {
+  seed?: number;
+  scope?: string; // Derives an independent stream per file so call order doesn't matter
+  clock?: MockClock;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Hash a string to a 32-bit seed (FNV-1a)
+ */
+export function hashSeed(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Create a seeded random generator (mulberry32)
+ */
+export function createRandom(seed: number): MockRandom {
+  let state = seed >>> 0;
+
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  const random: MockRandom = {
+    next,
+    int: (min, max) => min + Math.floor(next() * (max - min + 1)),
+    float: (min, max, decimals = 2) => Number((min + next() * (max - min)).toFixed(decimals)),
+    pick: items => items[Math.floor(next() * items.length)],
+    chance: probability => next() < probability,
+    shuffle: items => {
+      const copy = [...items];
+      for (let i = copy.length - 1; i > 0; i--) {
+        const j = Math.floor(next() * (i + 1));
+        [copy[i], copy[j]] = [copy[j], copy[i]];
+      }
+      return copy;
+    }
+  };
+
+  return random;
+}
+
+export const systemClock: MockClock = {
+  now: () => Date.now()
+};
+
+/**
+ * A clock pinned to one instant
+ */
+export function fixedClock(at: string | number | Date): MockClock {
+  const time = new Date(at).getTime();
+  if (Number.isNaN(time)) {
+    throw new Error(`Invalid clock time: ${at}`);
+  }
+  return { now: () => time };
+}
+
+/**
+ * Get the configured clock (MOCK_NOW pins it; otherwise the system clock)
+ */
+export function getMockClock(): MockClock {
+  const { now } = getConfig().mock;
+  return now ? fixedClock(now) : systemClock;
+}
+
+/**
+ * Create a mock context from a seed (MOCK_SEED by default), scope and clock
+ */
+export function createMockContext(options: MockContextOptions = {}): MockContext {
+  const seed = options.seed ?? getConfig().mock.seed;
+  const clock = options.clock ?? getMockClock();
+  const random = createRandom(options.scope ? hashSeed(`${seed}:${options.scope}`) : seed);
+
+  return {
+    random,
+    clock,
+    date: (offsetDays = 0) => new Date(clock.now() + offsetDays * DAY_MS).toISOString().split('T')[0],
+    timestamp: (offsetDays = 0) => new Date(clock.now() + offsetDays * DAY_MS).toISOString()
+  };
+}
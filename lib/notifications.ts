@@ -0,0 +1,238 @@
+/**
+ * Notifications - Slack, Microsoft Teams and email adapters behind one NotificationChannel interface
+ * Every message is rendered for its channel and recorded in the outbox. NOTIFY_MODE=dry-run (the
+ * default) stops there; live also sends it. Base URLs and the SMTP host are configurable so a
+ * local fake server can stand in for the real services.
+ */
+
+import { randomUUID } from "node:crypto";
+import { getConfig, type AppConfig } from "./config";
+import { logger } from "./logger";
+import { incrementCounter } from "./metrics";
+import { sendMail, type MailMessage } from "./smtp";
+
+export type ChannelKind = 'slack' | 'teams' | 'email';
+
+export const CHANNEL_KINDS: ChannelKind[] = ['slack', 'teams', 'email'];
+
+export type NotificationSeverity = 'info' | 'warning' | 'critical';
+
+export interface Notification {
+  title: string;
+  text: string;
+  severity?: NotificationSeverity; // Defaults to info
+  fields?: { label: string; value: string }[];
+  url?: string; // Link to the details
+  to?: string[]; // Slack: the channel (first entry); email: recipients; Teams: ignored, the webhook decides
+}
+
+export interface RenderedNotification {
+  channel: ChannelKind;
+  target: string; // Slack channel, Teams webhook host or email recipients
+  payload: unknown; // The exact body that is (or would be) sent
+}
+
+export interface NotificationChannel {
+  kind: ChannelKind;
+  configured: boolean; // Whether live sends can work; dry runs render either way
+  render(notification: Notification): RenderedNotification;
+  send(rendered: RenderedNotification): Promise<void>;
+}
+
+export type OutboxStatus = 'dry-run' | 'sent' | 'failed';
+
+export interface OutboxEntry {
+  id: string;
+  channel: ChannelKind;
+  status: OutboxStatus;
+  error?: string;
+  createdAt: string;
+  notification: Notification;
+  rendered: RenderedNotification;
+  agentId?: string;
+  requestId?: string;
+}
+
+type NotificationConfig = AppConfig['notifications'];
+
+const SEVERITY_COLORS: Record<NotificationSeverity, string> = { info: '0078D4', warning: 'FFB900', critical: 'D13438' };
+const SLACK_ICONS: Record<NotificationSeverity, string> = { info: ':information_source:', warning: ':warning:', critical: ':rotating_light:' };
+
+const outbox: OutboxEntry[] = [];
+
+async function postJson(url: string, body: unknown, timeoutMs: number, headers: Record<string, string> = {}): Promise<Response> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json; charset=utf-8', ...headers },
+    body: JSON.stringify(body),
+    signal: AbortSignal.timeout(timeoutMs)
+  });
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}: ${(await response.text()).slice(0, 200)}`);
+  }
+  return response;
+}
+
+/**
+ * Slack chat.postMessage with a bot token; blocks carry the layout and `text` the fallback
+ */
+export function createSlackChannel(config: NotificationConfig['slack'], timeoutMs = 10_000): NotificationChannel {
+  return {
+    kind: 'slack',
+    configured: Boolean(config.token),
+    render(notification) {
+      const severity = notification.severity ?? 'info';
+      const channel = notification.to?.[0] ?? config.channel;
+      const blocks: Record<string, unknown>[] = [
+        { type: 'header', text: { type: 'plain_text', text: `${SLACK_ICONS[severity]} ${notification.title}`.slice(0, 150), emoji: true } },
+        { type: 'section', text: { type: 'mrkdwn', text: notification.text } }
+      ];
+      if (notification.fields?.length) {
+        // Slack allows at most 10 fields per section
+        blocks.push({ type: 'section', fields: notification.fields.slice(0, 10).map(field => ({ type: 'mrkdwn', text: `*${field.label}*\n${field.value}` })) });
+      }
+      if (notification.url) {
+        blocks.push({ type: 'context', elements: [{ type: 'mrkdwn', text: `<${notification.url}|View details>` }] });
+      }
+      return { channel: 'slack', target: channel, payload: { channel, text: `${notification.title}: ${notification.text}`, blocks } };
+    },
+    async send(rendered) {
+      if (!config.token) throw new Error('Slack is not configured (SLACK_BOT_TOKEN)');
+      const response = await postJson(`${config.apiUrl}/chat.postMessage`, rendered.payload, timeoutMs, { Authorization: `Bearer ${config.token}` });
+      // Slack answers 200 with { ok: false, error } for refused messages
+      const result = await response.json() as { ok?: boolean; error?: string };
+      if (!result.ok) throw new Error(`Slack refused the message: ${result.error ?? 'unknown error'}`);
+    }
+  };
+}
+
+/**
+ * Microsoft Teams incoming webhook with a MessageCard
+ */
+export function createTeamsChannel(config: NotificationConfig['teams'], timeoutMs = 10_000): NotificationChannel {
+  return {
+    kind: 'teams',
+    configured: Boolean(config.webhookUrl),
+    render(notification) {
+      const severity = notification.severity ?? 'info';
+      const payload = {
+        '@type': 'MessageCard',
+        '@context': 'https://schema.org/extensions',
+        summary: notification.title,
+        themeColor: SEVERITY_COLORS[severity],
+        title: notification.title,
+        text: notification.text,
+        ...(notification.fields?.length && { sections: [{ facts: notification.fields.map(field => ({ name: field.label, value: field.value })) }] }),
+        ...(notification.url && {
+          potentialAction: [{ '@type': 'OpenUri', name: 'View details', targets: [{ os: 'default', uri: notification.url }] }]
+        })
+      };
+      // The webhook URL embeds its credentials, so only the host is shown
+      return { channel: 'teams', target: config.webhookUrl ? new URL(config.webhookUrl).host : 'teams', payload };
+    },
+    async send(rendered) {
+      if (!config.webhookUrl) throw new Error('Teams is not configured (TEAMS_WEBHOOK_URL)');
+      await postJson(config.webhookUrl, rendered.payload, timeoutMs);
+    }
+  };
+}
+
+/**
+ * Plain-text email over SMTP
+ */
+export function createEmailChannel(config: NotificationConfig['email'], timeoutMs = 10_000): NotificationChannel {
+  return {
+    kind: 'email',
+    configured: Boolean(config.host),
+    render(notification) {
+      const severity = notification.severity ?? 'info';
+      const to = notification.to?.length ? notification.to : config.to;
+      const lines = [
+        notification.text,
+        ...(notification.fields?.length ? ['', ...notification.fields.map(field => `${field.label}: ${field.value}`)] : []),
+        ...(notification.url ? ['', `Details: ${notification.url}`] : [])
+      ];
+      const payload: MailMessage = {
+        from: config.from,
+        to,
+        subject: severity === 'info' ? notification.title : `[${severity.toUpperCase()}] ${notification.title}`,
+        text: lines.join('\n')
+      };
+      return { channel: 'email', target: to.join(', '), payload };
+    },
+    async send(rendered) {
+      if (!config.host) throw new Error('Email is not configured (SMTP_HOST)');
+      const message = rendered.payload as MailMessage;
+      if (message.to.length === 0) throw new Error('No email recipients (set NOTIFY_EMAIL_TO or the message\'s to)');
+      const { host, port, secure, user, pass } = config;
+      await sendMail({ host, port, secure, user, pass, timeoutMs }, message);
+    }
+  };
+}
+
+/**
+ * The adapter for a channel, built from the current configuration
+ */
+export function getNotificationChannel(kind: ChannelKind): NotificationChannel {
+  const config = getConfig().notifications;
+  if (kind === 'slack') return createSlackChannel(config.slack, config.timeoutMs);
+  if (kind === 'teams') return createTeamsChannel(config.teams, config.timeoutMs);
+  return createEmailChannel(config.email, config.timeoutMs);
+}
+
+/**
+ * Render a notification, record it in the outbox and, in live mode, send it
+ * Never throws: a failed send is recorded with its error and logged.
+ */
+export async function sendNotification(
+  kind: ChannelKind,
+  notification: Notification,
+  context: { agentId?: string; requestId?: string } = {}
+): Promise<OutboxEntry> {
+  const { mode, outboxSize } = getConfig().notifications;
+  const channel = getNotificationChannel(kind);
+  const entry: OutboxEntry = {
+    id: `ntf_${randomUUID().replace(/-/g, '').slice(0, 16)}`,
+    channel: kind,
+    status: 'dry-run',
+    createdAt: new Date().toISOString(),
+    notification,
+    rendered: channel.render(notification),
+    ...(context.agentId && { agentId: context.agentId }),
+    ...(context.requestId && { requestId: context.requestId })
+  };
+
+  outbox.push(entry);
+  if (outbox.length > outboxSize) outbox.splice(0, outbox.length - outboxSize);
+
+  if (mode === 'live') {
+    try {
+      await channel.send(entry.rendered);
+      entry.status = 'sent';
+    } catch (error) {
+      entry.status = 'failed';
+      entry.error = error instanceof Error ? error.message : String(error);
+      logger.warn('Notification not sent', { ...context, channel: kind, notificationId: entry.id, error: entry.error });
+    }
+  }
+
+  incrementCounter('notifications_total', { channel: kind, status: entry.status });
+  return entry;
+}
+
+/**
+ * Outbox entries, newest first
+ */
+export function listOutbox(filter: { channel?: ChannelKind; status?: OutboxStatus; agentIds?: string[] } = {}): OutboxEntry[] {
+  return outbox
+    .filter(entry => (!filter.channel || entry.channel === filter.channel) && (!filter.status || entry.status === filter.status))
+    .filter(entry => !filter.agentIds || (entry.agentId !== undefined && filter.agentIds.includes(entry.agentId)))
+    .reverse();
+}
+
+/**
+ * Empty the outbox; returns how many entries were dropped
+ */
+export function clearOutbox(): number {
+  return outbox.splice(0, outbox.length).length;
+}
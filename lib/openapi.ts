@@ -0,0 +1,761 @@
+/**
+ * OpenAPI - Build the OpenAPI 3.1 document for /api/openapi.json
+ * Paths come from AGENT_REGISTRY and the agent implementations; request and response
+ * schemas are converted from the zod schemas the routes validate with.
+ */
+
+import { getAgentRegistry, getCategories } from "./agent-registry";
+import { AGENT_IMPLEMENTATIONS } from "./agents";
+import { MintApiKeyRequest } from "./api-keys";
+import { ERROR_CODES, type ErrorCode } from "./api-response";
+import { FallbackPolicy, getConfig } from "./config";
+import { zodToJsonSchema, type JsonSchema } from "./json-schema";
+import { listPromptTemplates } from "./prompt-registry";
+import { ActionItems, TicketBrief } from "./schemas";
+
+type Parameter = {
+  name: string;
+  in: 'path' | 'query' | 'header';
+  required?: boolean;
+  description: string;
+  schema: JsonSchema;
+};
+
+type Operation = {
+  tags: string[];
+  summary: string;
+  description?: string;
+  operationId: string;
+  parameters?: Parameter[];
+  requestBody?: { required: boolean; content: Record<string, { schema: JsonSchema }> };
+  responses: Record<string, unknown>;
+  security?: Record<string, string[]>[];
+};
+
+// Methods exported by each agent's own route file (app/api/{route}/route.ts)
+const AGENT_ROUTE_METHODS: Record<string, 'get' | 'post'> = {
+  'invoice-anomalies': 'get',
+  'seo-pages': 'get',
+  'meeting-actions': 'post',
+  'support-brief': 'post'
+};
+
+const PUBLIC: Record<string, string[]>[] = [];
+
+const ref = (name: string): JsonSchema => ({ $ref: `#/components/schemas/${name}` });
+
+function schemaName(agentId: string, suffix: string): string {
+  return agentId.split('-').map(part => part[0].toUpperCase() + part.slice(1)).join('') + suffix;
+}
+
+function query(name: string, description: string, schema: JsonSchema = { type: 'string' }): Parameter {
+  return { name, in: 'query', description, schema };
+}
+
+function path(name: string, description: string, schema: JsonSchema = { type: 'string' }): Parameter {
+  return { name, in: 'path', required: true, description, schema };
+}
+
+function ok(description: string, data: JsonSchema = { type: 'object' }, status = '200'): Record<string, unknown> {
+  return {
+    [status]: {
+      description,
+      content: {
+        'application/json': {
+          schema: {
+            type: 'object',
+            properties: { success: { const: true }, data, meta: ref('ApiMeta') },
+            required: ['success', 'data', 'meta']
+          }
+        }
+      }
+    }
+  };
+}
+
+function errors(...codes: ErrorCode[]): Record<string, unknown> {
+  const byStatus: Record<string, ErrorCode[]> = {};
+  for (const code of codes) {
+    (byStatus[ERROR_CODES[code].status] ??= []).push(code);
+  }
+
+  return Object.fromEntries(Object.entries(byStatus).map(([status, grouped]) => [status, {
+    description: grouped.map(code => `${code}: ${ERROR_CODES[code].description}`).join('; '),
+    content: { 'application/json': { schema: ref('ApiError') } }
+  }]));
+}
+
+function jsonBody(schema: JsonSchema, required = true): Operation['requestBody'] {
+  return { required, content: { 'application/json': { schema } } };
+}
+
+const AUTH_ERRORS: ErrorCode[] = ['AUTHENTICATION_ERROR', 'FORBIDDEN', 'RATE_LIMIT_EXCEEDED'];
+
+/**
+ * Build the OpenAPI 3.1 document for the current registry and configuration
+ */
+export function buildOpenApiDocument(serverUrl?: string): Record<string, unknown> {
+  const registry = getAgentRegistry();
+  const agentIds = Object.keys(registry);
+  const implemented = Object.keys(AGENT_IMPLEMENTATIONS).filter(id => registry[id]);
+
+  const agentIdParam = path('agentId', 'Agent id from the registry', { type: 'string', enum: agentIds });
+  const loadParams = [
+    query('policy', 'Fallback policy for this request (overrides DATA_FALLBACK_POLICY)', { type: 'string', enum: FallbackPolicy.options }),
+    query('offline', 'Never call GitHub or the LFS media endpoint', { type: 'boolean' }),
+    query('strict', 'Fail with DATA_INVALID when any row breaks the data contract', { type: 'boolean' })
+  ];
+
+  const schemas: Record<string, JsonSchema> = {
+    ApiMeta: {
+      type: 'object',
+      properties: {
+        timestamp: { type: 'string', format: 'date-time' },
+        processing_time_ms: { type: 'number' },
+        request_id: { type: 'string' },
+        version: { type: 'string' },
+        agent: { type: 'string' }
+      },
+      required: ['timestamp', 'processing_time_ms', 'request_id', 'version']
+    },
+    ErrorCode: { type: 'string', enum: Object.keys(ERROR_CODES) },
+    ApiError: {
+      type: 'object',
+      properties: {
+        success: { const: false },
+        error: {
+          type: 'object',
+          properties: { code: ref('ErrorCode'), message: { type: 'string' }, details: { type: 'object' } },
+          required: ['code', 'message']
+        },
+        meta: ref('ApiMeta')
+      },
+      required: ['success', 'error', 'meta']
+    },
+    AgentConfig: {
+      type: 'object',
+      properties: {
+        id: { type: 'string' },
+        name: { type: 'string' },
+        dayFolder: { type: 'string' },
+        apiRoute: { type: 'string' },
+        description: { type: 'string' },
+        dataFiles: { type: 'array', items: { type: 'string' } },
+        category: { type: 'string', enum: getCategories() },
+        complexity: { type: 'integer', minimum: 1, maximum: 5 },
+        status: { type: 'string', enum: ['implemented', 'planned', 'in-progress'] },
+        schedule: {
+          type: 'object',
+          properties: {
+            cron: { type: 'string', description: 'Five-field cron expression, evaluated in UTC' },
+            input: { type: 'object' },
+            catchUp: { type: 'string', enum: ['skip', 'latest', 'all'] }
+          },
+          required: ['cron']
+        },
+        llm: {
+          type: 'object',
+          properties: {
+            model: { type: 'string', description: 'Default model for the agent\'s LLM calls; LLM_AGENT_MODELS overrides it' },
+            temperature: { type: 'number' },
+            maxTokens: { type: 'integer' }
+          },
+          required: ['model']
+        }
+      },
+      required: ['id', 'name', 'dayFolder', 'apiRoute', 'description', 'dataFiles', 'category', 'complexity', 'status']
+    },
+    ActionItems: zodToJsonSchema(ActionItems),
+    TicketBrief: zodToJsonSchema(TicketBrief),
+    MintApiKeyRequest: zodToJsonSchema(MintApiKeyRequest)
+  };
+
+  for (const agentId of implemented) {
+    const agent = AGENT_IMPLEMENTATIONS[agentId];
+    schemas[schemaName(agentId, 'Input')] = zodToJsonSchema(agent.input);
+    schemas[schemaName(agentId, 'Output')] = zodToJsonSchema(agent.output);
+  }
+
+  const paths: Record<string, Record<string, Operation>> = {};
+
+  // Each implemented agent's own route
+  for (const agentId of implemented) {
+    const agent = registry[agentId];
+    const method = AGENT_ROUTE_METHODS[agentId] ?? 'post';
+    paths[agent.apiRoute] = {
+      [method]: {
+        tags: ['Agent runs'],
+        summary: agent.name,
+        description: `${agent.description}. Same as /api/agents/${agentId}/run.`,
+        operationId: `run${schemaName(agentId, '')}`,
+        parameters: loadParams,
+        ...(method === 'post' && { requestBody: jsonBody(ref(schemaName(agentId, 'Input')), false) }),
+        responses: {
+          ...ok(`${agent.name} output`, ref(schemaName(agentId, 'Output'))),
+          ...errors('VALIDATION_ERROR', ...AUTH_ERRORS, 'QUOTA_EXCEEDED', 'DATA_NOT_FOUND', 'DATA_INVALID', 'PROCESSING_ERROR')
+        }
+      }
+    };
+  }
+
+  const runInput = { oneOf: implemented.map(id => ref(schemaName(id, 'Input'))) };
+  const runOutput = { oneOf: implemented.map(id => ref(schemaName(id, 'Output'))) };
+  const runResponses = {
+    ...ok('Agent output (schema depends on the agent)', runOutput),
+    ...errors('VALIDATION_ERROR', ...AUTH_ERRORS, 'QUOTA_EXCEEDED', 'AGENT_NOT_FOUND', 'DATA_INVALID', 'NOT_IMPLEMENTED', 'PROCESSING_ERROR')
+  };
+
+  paths['/api/agents'] = {
+    get: {
+      tags: ['Agents'],
+      summary: 'List agents or get one agent',
+      operationId: 'listAgents',
+      parameters: [
+        query('agent', 'Return one agent by id', { type: 'string', enum: agentIds }),
+        query('category', 'Filter by category', { type: 'string', enum: getCategories() }),
+        query('status', 'Filter by status', { type: 'string', enum: ['implemented', 'planned', 'in-progress'] })
+      ],
+      responses: {
+        ...ok('Agents with summary stats, or one agent with its endpoints', {
+          type: 'object',
+          properties: { agents: { type: 'array', items: ref('AgentConfig') }, agent: ref('AgentConfig'), stats: { type: 'object' } }
+        }),
+        ...errors(...AUTH_ERRORS, 'AGENT_NOT_FOUND', 'PROCESSING_ERROR')
+      }
+    },
+    post: {
+      tags: ['Agents'],
+      summary: 'Validate an agent\'s data files or load its demo data',
+      operationId: 'checkAgent',
+      requestBody: jsonBody({
+        type: 'object',
+        properties: { action: { type: 'string', enum: ['validate', 'test'] }, agentId: { type: 'string', enum: agentIds } },
+        required: ['action', 'agentId']
+      }),
+      responses: { ...ok('Validation report or demo data'), ...errors('VALIDATION_ERROR', ...AUTH_ERRORS, 'AGENT_NOT_FOUND', 'PROCESSING_ERROR') }
+    }
+  };
+
+  paths['/api/agents/{agentId}/run'] = {
+    get: {
+      tags: ['Agent runs'],
+      summary: 'Run an agent with query parameters as input',
+      operationId: 'runAgentWithQuery',
+      parameters: [agentIdParam, ...loadParams],
+      responses: runResponses
+    },
+    post: {
+      tags: ['Agent runs'],
+      summary: 'Run an agent with a JSON body as input',
+      operationId: 'runAgent',
+      parameters: [agentIdParam, ...loadParams],
+      requestBody: jsonBody(runInput, false),
+      responses: runResponses
+    }
+  };
+
+  paths['/api/agents/{agentId}/data'] = {
+    get: {
+      tags: ['Data'],
+      summary: 'Load an agent\'s demo data',
+      description: 'All files, one file (`file`), or a data-quality report (`validate=true`). Falls back to GitHub and mock data as the policy allows.',
+      operationId: 'getAgentData',
+      parameters: [
+        agentIdParam,
+        query('file', 'One data file, e.g. invoices.csv'),
+        query('format', 'json parses the file; raw returns it as stored', { type: 'string', enum: ['json', 'raw', 'csv'], default: 'json' }),
+        query('validate', 'Return a data-quality report for all files', { type: 'boolean' }),
+        ...loadParams
+      ],
+      responses: {
+        ...ok('Parsed data with its source'),
+        ...errors('VALIDATION_ERROR', ...AUTH_ERRORS, 'AGENT_NOT_FOUND', 'FILE_NOT_FOUND', 'DATA_NOT_FOUND', 'DATA_INVALID', 'PROCESSING_ERROR')
+      }
+    },
+    post: {
+      tags: ['Data'],
+      summary: 'Run an implemented agent with a posted body',
+      operationId: 'processAgentData',
+      parameters: [agentIdParam, ...loadParams],
+      requestBody: jsonBody(runInput),
+      responses: {
+        ...ok('Agent result', { type: 'object', properties: { agent: { type: 'object' }, result: runOutput, durationMs: { type: 'number' } } }),
+        ...errors('VALIDATION_ERROR', ...AUTH_ERRORS, 'QUOTA_EXCEEDED', 'AGENT_NOT_FOUND', 'NOT_IMPLEMENTED', 'PROCESSING_ERROR')
+      }
+    }
+  };
+
+  paths['/api/agents/{agentId}/data/{path}'] = {
+    get: {
+      tags: ['Data'],
+      summary: 'Load one data file by path',
+      operationId: 'getAgentDataFile',
+      parameters: [
+        agentIdParam,
+        path('path', 'File path inside the agent\'s seed folder, e.g. contracts/msa_acme.txt'),
+        query('format', 'json parses the file; raw returns it as stored', { type: 'string', enum: ['json', 'raw'], default: 'json' }),
+        ...loadParams
+      ],
+      responses: {
+        ...ok('Parsed file with its source'),
+        ...errors(...AUTH_ERRORS, 'AGENT_NOT_FOUND', 'FILE_NOT_FOUND', 'DATA_NOT_FOUND', 'DATA_INVALID', 'PROCESSING_ERROR')
+      }
+    }
+  };
+
+  paths['/api/agents/registry/check'] = {
+    get: {
+      tags: ['Agents'],
+      summary: 'Detect drift between the registry and the seed pack',
+      operationId: 'checkRegistry',
+      parameters: [query('strict', 'Answer 409 REGISTRY_DRIFT when drift is found', { type: 'boolean' })],
+      responses: { ...ok('Drift report'), ...errors(...AUTH_ERRORS, 'REGISTRY_DRIFT', 'PROCESSING_ERROR') }
+    }
+  };
+
+  paths['/api/github/{agentId}'] = {
+    get: {
+      tags: ['GitHub'],
+      summary: 'Load an agent\'s data from GitHub',
+      operationId: 'getGitHubAgentData',
+      parameters: [
+        agentIdParam,
+        query('includeData', 'Include file contents (default true)', { type: 'boolean', default: true }),
+        query('listFiles', 'List the files in the agent\'s GitHub folder', { type: 'boolean', default: false })
+      ],
+      responses: { ...ok('Agent data loaded from GitHub'), ...errors(...AUTH_ERRORS, 'AGENT_NOT_FOUND', 'UPSTREAM_FAILED') }
+    },
+    post: {
+      tags: ['GitHub'],
+      summary: 'Load an implemented agent\'s GitHub demo data for testing',
+      operationId: 'testGitHubAgent',
+      requestBody: jsonBody({ type: 'object' }, false),
+      responses: { ...ok('GitHub demo data'), ...errors(...AUTH_ERRORS, 'AGENT_NOT_FOUND', 'NOT_IMPLEMENTED', 'UPSTREAM_FAILED') }
+    }
+  };
+
+  paths['/api/github/{agentId}/{path}'] = {
+    get: {
+      tags: ['GitHub'],
+      summary: 'Proxy one data file from GitHub',
+      operationId: 'getGitHubFile',
+      parameters: [
+        agentIdParam,
+        path('path', 'File path inside the agent\'s seed folder'),
+        query('format', 'json parses the file; raw returns it with its content type', { type: 'string', enum: ['json', 'raw', 'csv'], default: 'json' }),
+        query('method', 'raw.githubusercontent.com or the contents API', { type: 'string', enum: ['raw', 'api'], default: 'raw' })
+      ],
+      responses: { ...ok('File contents with the GitHub URL and cache status'), ...errors(...AUTH_ERRORS, 'AGENT_NOT_FOUND', 'FILE_NOT_FOUND', 'UPSTREAM_FAILED') }
+    }
+  };
+
+  paths['/api/github/cache'] = {
+    get: {
+      tags: ['GitHub'],
+      summary: 'GitHub cache counters and rate limits',
+      operationId: 'getGitHubCacheStats',
+      responses: { ...ok('Cache stats'), ...errors(...AUTH_ERRORS, 'PROCESSING_ERROR') }
+    },
+    delete: {
+      tags: ['GitHub'],
+      summary: 'Purge the GitHub cache (admin)',
+      operationId: 'purgeGitHubCache',
+      parameters: [
+        query('agentId', 'Purge one agent\'s files', { type: 'string', enum: agentIds }),
+        query('match', 'Purge entries whose key contains this text')
+      ],
+      responses: { ...ok('Purged entry count'), ...errors(...AUTH_ERRORS, 'AGENT_NOT_FOUND', 'PROCESSING_ERROR') }
+    }
+  };
+
+  const jobIdParam = path('jobId', 'Job id, e.g. job_3f9a1c0b7d2e4a61');
+
+  paths['/api/agents/{agentId}/jobs'] = {
+    post: {
+      tags: ['Jobs'],
+      summary: 'Queue a background run of an agent',
+      operationId: 'createJob',
+      parameters: [agentIdParam, ...loadParams],
+      requestBody: jsonBody({ type: 'object', description: 'The agent\'s input (see its *Input schema)' }, false),
+      responses: {
+        ...ok('The queued job with links to its status and event stream', { type: 'object' }, '202'),
+        ...errors('VALIDATION_ERROR', ...AUTH_ERRORS, 'QUOTA_EXCEEDED', 'AGENT_NOT_FOUND', 'NOT_IMPLEMENTED', 'QUEUE_FULL', 'PROCESSING_ERROR')
+      }
+    }
+  };
+
+  paths['/api/jobs/{jobId}'] = {
+    get: {
+      tags: ['Jobs'],
+      summary: 'Job status, progress and result',
+      operationId: 'getJob',
+      parameters: [jobIdParam],
+      responses: { ...ok('The job'), ...errors(...AUTH_ERRORS, 'JOB_NOT_FOUND', 'PROCESSING_ERROR') }
+    },
+    delete: {
+      tags: ['Jobs'],
+      summary: 'Cancel a queued or running job',
+      operationId: 'cancelJob',
+      parameters: [jobIdParam],
+      responses: { ...ok('The job after cancellation'), ...errors(...AUTH_ERRORS, 'JOB_NOT_FOUND', 'PROCESSING_ERROR') }
+    }
+  };
+
+  paths['/api/jobs/{jobId}/events'] = {
+    get: {
+      tags: ['Jobs'],
+      summary: 'Server-sent job events',
+      description: 'queued, started, progress, then succeeded, failed or cancelled; the stream closes when the job finishes.',
+      operationId: 'streamJobEvents',
+      parameters: [
+        jobIdParam,
+        { name: 'Last-Event-ID', in: 'header', description: 'Resume after this event id', schema: { type: 'integer' } },
+        query('lastEventId', 'Same as the Last-Event-ID header', { type: 'integer' })
+      ],
+      responses: {
+        '200': { description: 'text/event-stream', content: { 'text/event-stream': { schema: { type: 'string' } } } },
+        ...errors(...AUTH_ERRORS, 'JOB_NOT_FOUND')
+      }
+    }
+  };
+
+  const scheduledIds = agentIds.filter(id => registry[id].schedule);
+  const scheduleParam = path('agentId', 'Id of an agent with a schedule', { type: 'string', enum: scheduledIds });
+
+  paths['/api/schedules'] = {
+    get: {
+      tags: ['Schedules'],
+      summary: 'List agent schedules and the scheduler status',
+      operationId: 'listSchedules',
+      responses: { ...ok('Scheduler status and each schedule with its state and next fire time'), ...errors(...AUTH_ERRORS, 'PROCESSING_ERROR') }
+    }
+  };
+
+  paths['/api/schedules/{agentId}'] = {
+    get: {
+      tags: ['Schedules'],
+      summary: 'One agent\'s schedule',
+      operationId: 'getSchedule',
+      parameters: [scheduleParam],
+      responses: { ...ok('The schedule'), ...errors(...AUTH_ERRORS, 'SCHEDULE_NOT_FOUND', 'PROCESSING_ERROR') }
+    }
+  };
+
+  paths['/api/schedules/{agentId}/pause'] = {
+    post: {
+      tags: ['Schedules'],
+      summary: 'Pause a schedule (admin)',
+      operationId: 'pauseSchedule',
+      parameters: [scheduleParam],
+      responses: { ...ok('The paused schedule'), ...errors(...AUTH_ERRORS, 'SCHEDULE_NOT_FOUND', 'PROCESSING_ERROR') }
+    }
+  };
+
+  paths['/api/schedules/{agentId}/resume'] = {
+    post: {
+      tags: ['Schedules'],
+      summary: 'Resume a paused schedule (admin)',
+      description: 'Fire times missed while paused are not caught up.',
+      operationId: 'resumeSchedule',
+      parameters: [scheduleParam],
+      responses: { ...ok('The resumed schedule'), ...errors(...AUTH_ERRORS, 'SCHEDULE_NOT_FOUND', 'PROCESSING_ERROR') }
+    }
+  };
+
+  paths['/api/schedules/{agentId}/trigger'] = {
+    post: {
+      tags: ['Schedules'],
+      summary: 'Run a scheduled agent now as a background job',
+      operationId: 'triggerSchedule',
+      parameters: [scheduleParam],
+      responses: {
+        ...ok('The queued job with links to its status and event stream', { type: 'object' }, '202'),
+        ...errors(...AUTH_ERRORS, 'SCHEDULE_NOT_FOUND', 'NOT_IMPLEMENTED', 'QUEUE_FULL', 'PROCESSING_ERROR')
+      }
+    }
+  };
+
+  const promptTemplates = listPromptTemplates();
+  const promptAgentParam = path('agentId', 'Id of an agent with prompts', { type: 'string', enum: Array.from(new Set(promptTemplates.map(template => template.agentId))) });
+  const promptNameParam = path('name', 'Prompt name within the agent, e.g. extract', { type: 'string', enum: Array.from(new Set(promptTemplates.map(template => template.name))) });
+
+  paths['/api/prompts'] = {
+    get: {
+      tags: ['Prompts'],
+      summary: 'List prompt templates with their versions',
+      operationId: 'listPrompts',
+      parameters: [query('agentId', 'Only this agent\'s prompts')],
+      responses: { ...ok('Each prompt with its active, pinned and latest version'), ...errors(...AUTH_ERRORS, 'AGENT_NOT_FOUND', 'PROCESSING_ERROR') }
+    }
+  };
+
+  paths['/api/prompts/{agentId}/{name}'] = {
+    get: {
+      tags: ['Prompts'],
+      summary: 'One prompt with every version\'s variables schema and unrendered messages',
+      operationId: 'getPrompt',
+      parameters: [promptAgentParam, promptNameParam],
+      responses: { ...ok('The prompt and its versions'), ...errors(...AUTH_ERRORS, 'PROMPT_NOT_FOUND', 'PROCESSING_ERROR') }
+    }
+  };
+
+  const previewResponses = {
+    ...ok('The rendered messages with their ref and hash, the variables used and the seed data files read'),
+    ...errors('VALIDATION_ERROR', ...AUTH_ERRORS, 'PROMPT_NOT_FOUND', 'PROCESSING_ERROR')
+  };
+
+  paths['/api/prompts/{agentId}/{name}/preview'] = {
+    get: {
+      tags: ['Prompts'],
+      summary: 'Render a prompt with variables from the agent\'s seed data',
+      description: 'No model is called. Without version the active version is rendered.',
+      operationId: 'previewPrompt',
+      parameters: [
+        promptAgentParam,
+        promptNameParam,
+        query('version', 'Version to render, e.g. 2', { type: 'string', pattern: '^v?[1-9][0-9]*$' }),
+        ...loadParams
+      ],
+      responses: previewResponses
+    },
+    post: {
+      tags: ['Prompts'],
+      summary: 'Render a prompt with the given variables',
+      operationId: 'previewPromptWithVariables',
+      parameters: [promptAgentParam, promptNameParam],
+      requestBody: jsonBody({
+        type: 'object',
+        properties: {
+          version: { type: 'integer', minimum: 1 },
+          variables: { description: 'Must match the version\'s variables schema; leave out to use seed data' }
+        }
+      }, false),
+      responses: previewResponses
+    }
+  };
+
+  const webhookIdParam = path('webhookId', 'Subscription id from WEBHOOKS', { type: 'string', enum: getConfig().webhooks.subscriptions.map(webhook => webhook.id) });
+
+  paths['/api/webhooks'] = {
+    get: {
+      tags: ['Webhooks'],
+      summary: 'List webhook subscriptions with delivery counts (admin)',
+      operationId: 'listWebhooks',
+      responses: { ...ok('Subscriptions without secrets, and the retry settings'), ...errors(...AUTH_ERRORS, 'PROCESSING_ERROR') }
+    }
+  };
+
+  paths['/api/webhooks/{webhookId}/deliveries'] = {
+    get: {
+      tags: ['Webhooks'],
+      summary: 'Delivery log for a subscription (admin)',
+      description: 'status=dead lists the dead-letter deliveries that ran out of retries.',
+      operationId: 'listWebhookDeliveries',
+      parameters: [
+        webhookIdParam,
+        query('status', 'Only deliveries in this status', { type: 'string', enum: ['pending', 'retrying', 'delivered', 'failed', 'dead'] })
+      ],
+      responses: { ...ok('Deliveries, newest first, with their attempts'), ...errors('VALIDATION_ERROR', ...AUTH_ERRORS, 'WEBHOOK_NOT_FOUND', 'PROCESSING_ERROR') }
+    }
+  };
+
+  paths['/api/webhooks/{webhookId}/test'] = {
+    post: {
+      tags: ['Webhooks'],
+      summary: 'Send a signed webhook.test event once (admin)',
+      operationId: 'testWebhook',
+      parameters: [webhookIdParam],
+      responses: { ...ok('The delivery: delivered, or failed with the attempt\'s error'), ...errors(...AUTH_ERRORS, 'WEBHOOK_NOT_FOUND', 'PROCESSING_ERROR') }
+    }
+  };
+
+  paths['/api/outbox'] = {
+    get: {
+      tags: ['Notifications'],
+      summary: 'Rendered Slack, Teams and email notifications, newest first',
+      description: 'In NOTIFY_MODE=dry-run (the default) nothing is sent; every message is only recorded here.',
+      operationId: 'listOutbox',
+      parameters: [
+        query('channel', 'Only this channel', { type: 'string', enum: ['slack', 'teams', 'email'] }),
+        query('status', 'Only entries in this status', { type: 'string', enum: ['dry-run', 'sent', 'failed'] }),
+        query('limit', 'Entries to return (default 50)', { type: 'integer', minimum: 1, maximum: 500 })
+      ],
+      responses: { ...ok('Mode, channel status and outbox entries'), ...errors('VALIDATION_ERROR', ...AUTH_ERRORS, 'PROCESSING_ERROR') }
+    },
+    delete: {
+      tags: ['Notifications'],
+      summary: 'Empty the outbox (admin)',
+      operationId: 'clearOutbox',
+      responses: { ...ok('Number of entries cleared'), ...errors(...AUTH_ERRORS, 'PROCESSING_ERROR') }
+    }
+  };
+
+  const runIdParam = path('runId', 'Run id, e.g. run_0lqz3k2a81f2c3d4e');
+
+  paths['/api/runs'] = {
+    get: {
+      tags: ['Run history'],
+      summary: 'List agent runs, newest first',
+      operationId: 'listRuns',
+      parameters: [
+        query('agentId', 'Comma-separated agent ids'),
+        query('status', 'Only successful or failed runs', { type: 'string', enum: ['success', 'error'] }),
+        query('replayOf', 'Only replays of this run'),
+        query('page', 'Page number (default 1)', { type: 'integer', minimum: 1 }),
+        query('per_page', 'Runs per page (default 50)', { type: 'integer', minimum: 1, maximum: 200 })
+      ],
+      responses: { ...ok('Run summaries (no input or output) and pagination'), ...errors('VALIDATION_ERROR', ...AUTH_ERRORS, 'PROCESSING_ERROR') }
+    }
+  };
+
+  paths['/api/runs/{runId}'] = {
+    get: {
+      tags: ['Run history'],
+      summary: 'One run with its input, data files and output',
+      operationId: 'getRun',
+      parameters: [runIdParam],
+      responses: { ...ok('The run record'), ...errors(...AUTH_ERRORS, 'RUN_NOT_FOUND', 'PROCESSING_ERROR') }
+    }
+  };
+
+  paths['/api/runs/{runId}/replay'] = {
+    post: {
+      tags: ['Run history'],
+      summary: 'Replay a run and compare outputs and data file hashes',
+      operationId: 'replayRun',
+      parameters: [runIdParam, ...loadParams],
+      responses: {
+        ...ok('The original run summary, the new run and a comparison'),
+        ...errors('VALIDATION_ERROR', ...AUTH_ERRORS, 'QUOTA_EXCEEDED', 'RUN_NOT_FOUND', 'PROCESSING_ERROR')
+      }
+    }
+  };
+
+  paths['/api/admin/keys'] = {
+    get: {
+      tags: ['Admin'],
+      summary: 'List API keys',
+      operationId: 'listApiKeys',
+      responses: { ...ok('Keys without their hashes'), ...errors(...AUTH_ERRORS) }
+    },
+    post: {
+      tags: ['Admin'],
+      summary: 'Mint an API key (shown once)',
+      operationId: 'mintApiKey',
+      requestBody: jsonBody(ref('MintApiKeyRequest')),
+      responses: { ...ok('The new key and its record', { type: 'object' }, '201'), ...errors('VALIDATION_ERROR', ...AUTH_ERRORS) }
+    }
+  };
+
+  paths['/api/admin/keys/{keyId}'] = {
+    delete: {
+      tags: ['Admin'],
+      summary: 'Revoke an API key',
+      operationId: 'revokeApiKey',
+      parameters: [path('keyId', 'Key id, e.g. key_0123456789ab')],
+      responses: { ...ok('The revoked key'), ...errors(...AUTH_ERRORS, 'KEY_NOT_FOUND') }
+    }
+  };
+
+  paths['/api/usage'] = {
+    get: {
+      tags: ['Health'],
+      summary: 'The caller\'s daily run quota and rate limits',
+      operationId: 'getUsage',
+      responses: { ...ok('Quota and limits'), ...errors(...AUTH_ERRORS) }
+    }
+  };
+
+  paths['/api/health'] = {
+    get: {
+      tags: ['Health'],
+      summary: 'Liveness probe',
+      operationId: 'getHealth',
+      security: PUBLIC,
+      responses: ok('The process is serving requests', {
+        type: 'object',
+        properties: { status: { const: 'ok' }, version: { type: 'string' }, uptimeSeconds: { type: 'integer' } }
+      })
+    }
+  };
+
+  paths['/api/ready'] = {
+    get: {
+      tags: ['Health'],
+      summary: 'Readiness probe',
+      operationId: 'getReadiness',
+      security: PUBLIC,
+      responses: { ...ok('Every readiness check passed or warned'), ...errors('NOT_READY') }
+    }
+  };
+
+  paths['/api/diagnostics'] = {
+    get: {
+      tags: ['Health'],
+      summary: 'Data availability per agent, GitHub reachability and build info',
+      operationId: 'getDiagnostics',
+      parameters: [
+        query('agentId', 'Comma-separated agent ids (default: every agent)'),
+        query('github', 'Set to false to skip the GitHub probe', { type: 'boolean' }),
+        ...loadParams
+      ],
+      responses: { ...ok('Diagnostics report'), ...errors('VALIDATION_ERROR', ...AUTH_ERRORS, 'AGENT_NOT_FOUND', 'PROCESSING_ERROR') }
+    }
+  };
+
+  paths['/api/metrics'] = {
+    get: {
+      tags: ['Health'],
+      summary: 'Prometheus metrics',
+      description: 'Requests, agent runs, data loads by source and error codes since the server started.',
+      operationId: 'getMetrics',
+      responses: {
+        '200': { description: 'Text exposition format 0.0.4', content: { 'text/plain': { schema: { type: 'string' } } } },
+        ...errors(...AUTH_ERRORS)
+      }
+    }
+  };
+
+  paths['/api/openapi.json'] = {
+    get: {
+      tags: ['Health'],
+      summary: 'This document',
+      operationId: 'getOpenApiDocument',
+      security: PUBLIC,
+      responses: { '200': { description: 'OpenAPI 3.1 document', content: { 'application/json': { schema: { type: 'object' } } } } }
+    }
+  };
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'Agents Starter API',
+      version: getConfig().api.version,
+      description: `${agentIds.length} agents, ${implemented.length} implemented. Successful responses use the { success, data, meta } envelope; send X-Response-Format: legacy for the older bare bodies.`
+    },
+    ...(serverUrl && { servers: [{ url: serverUrl }] }),
+    tags: [
+      { name: 'Agent runs', description: 'Run implemented agents' },
+      { name: 'Agents', description: 'Registry and agent metadata' },
+      { name: 'Data', description: 'Seed data with GitHub and mock fallbacks' },
+      { name: 'GitHub', description: 'GitHub data proxy and cache' },
+      { name: 'Run history', description: 'Stored agent runs and replays' },
+      { name: 'Jobs', description: 'Background agent runs with progress streaming' },
+      { name: 'Schedules', description: 'Cron schedules and the built-in scheduler' },
+      { name: 'Webhooks', description: 'Signed outbound notifications of agent results' },
+      { name: 'Prompts', description: 'Versioned prompt templates and previews' },
+      { name: 'Notifications', description: 'Slack, Teams and email messages and the dry-run outbox' },
+      { name: 'Admin', description: 'API key management' },
+      { name: 'Health', description: 'Probes, diagnostics and usage' }
+    ],
+    security: [{ bearerAuth: [] }],
+    paths,
+    components: {
+      schemas,
+      securitySchemes: {
+        bearerAuth: { type: 'http', scheme: 'bearer', description: 'API key (ak_...) minted at /api/admin/keys; required when API_AUTH is on' }
+      }
+    }
+  };
+}
+
@@ -0,0 +1,246 @@
+/**
+ * Prompt Registry - Versioned prompt templates per agent
+ * Templates are addressed as "<agentId>/<name>@v<version>", declare their variables with zod and
+ * fill {{variable}} placeholders and {{> partial}} includes. An agent's registry entry can pin a
+ * version per prompt; otherwise the latest is used. Templates live in lib/prompts.
+ */
+
+import { z } from "zod";
+import { getAgentConfig, getAgentRegistry } from "./agent-registry";
+import type { AgentContext } from "./agent-runtime";
+import { loadAgentFile, type DataLoadOptions } from "./data-access";
+import { zodToJsonSchema, type JsonSchema } from "./json-schema";
+import type { LLMMessage } from "./llm";
+import { PROMPT_PARTIALS, PROMPT_TEMPLATES } from "./prompts";
+import { hashValue } from "./run-history";
+
+export interface PromptTemplate<V = unknown> {
+  agentId: string;
+  name: string; // e.g. extract; unique per agent
+  version: number; // Never change a published version; add the next one instead
+  description: string;
+  variables: z.ZodType<V, z.ZodTypeDef, unknown>;
+  messages: { role: 'system' | 'user' | 'assistant'; content: string }[];
+  sample?(load: AgentContext['load']): Promise<V>; // Variables from the agent's seed data, for previews
+}
+
+export interface RenderedPrompt {
+  ref: string; // meeting-actions/extract@v2
+  agentId: string;
+  name: string;
+  version: number;
+  messages: LLMMessage[];
+  hash: string; // SHA-256 of the rendered messages
+}
+
+export interface PromptVersionInfo {
+  ref: string;
+  version: number;
+  description: string;
+  variables: JsonSchema;
+  messages: PromptTemplate['messages']; // Unrendered
+  hasSample: boolean; // Whether it can be previewed against seed data
+}
+
+export interface PromptSummary {
+  id: string; // <agentId>/<name>
+  agentId: string;
+  name: string;
+  activeVersion: number; // What the agent renders: the pinned version, else the latest
+  pinnedVersion?: number;
+  latestVersion: number;
+  versions: PromptVersionInfo[]; // Newest first
+}
+
+export interface PromptPreview {
+  prompt: RenderedPrompt;
+  variables: unknown;
+  dataFiles: { agentId: string; file: string; source: string; success: boolean }[]; // Seed data read for the variables
+}
+
+// Deep enough for partials that include partials; stops include cycles
+const MAX_PARTIAL_DEPTH = 5;
+
+const PLACEHOLDER = /\{\{\s*(>\s*)?([\w.-]+)\s*\}\}/g;
+
+/**
+ * "<agentId>/<name>@v<version>"
+ */
+export function formatPromptRef(agentId: string, name: string, version: number): string {
+  return `${agentId}/${name}@v${version}`;
+}
+
+/**
+ * Split a ref; the version is optional ("meeting-actions/extract" means the pinned or latest one)
+ */
+export function parsePromptRef(ref: string): { agentId: string; name: string; version?: number } | null {
+  const match = ref.match(/^([a-z0-9-]+)\/([a-z0-9-]+)(?:@v(\d+))?$/);
+  if (!match) return null;
+  return { agentId: match[1], name: match[2], ...(match[3] && { version: Number(match[3]) }) };
+}
+
+/**
+ * Templates newest version first, optionally for one agent
+ */
+export function listPromptTemplates(agentId?: string): PromptTemplate[] {
+  return PROMPT_TEMPLATES
+    .filter(template => !agentId || template.agentId === agentId)
+    .sort((a, b) => a.agentId.localeCompare(b.agentId) || a.name.localeCompare(b.name) || b.version - a.version);
+}
+
+/**
+ * The version pinned in the agent's registry entry, if any
+ */
+export function getPinnedPromptVersion(agentId: string, name: string): number | undefined {
+  return getAgentConfig(agentId)?.prompts?.[name];
+}
+
+/**
+ * Find a template: the requested version, else the pinned one, else the latest
+ */
+export function getPromptTemplate(agentId: string, name: string, version?: number): PromptTemplate | null {
+  const versions = listPromptTemplates(agentId).filter(template => template.name === name);
+  const wanted = version ?? getPinnedPromptVersion(agentId, name);
+  return (wanted === undefined ? versions[0] : versions.find(template => template.version === wanted)) ?? null;
+}
+
+function lookup(variables: unknown, path: string): unknown {
+  return path.split('.').reduce<unknown>(
+    (value, key) => (value !== null && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined),
+    variables
+  );
+}
+
+function fill(text: string, variables: unknown, depth = 0): string {
+  return text.replace(PLACEHOLDER, (_, partial: string | undefined, name: string) => {
+    if (partial) {
+      if (!(name in PROMPT_PARTIALS)) throw new Error(`Unknown prompt partial '${name}'`);
+      if (depth >= MAX_PARTIAL_DEPTH) throw new Error(`Prompt partials nested more than ${MAX_PARTIAL_DEPTH} deep at '${name}'`);
+      return fill(PROMPT_PARTIALS[name], variables, depth + 1);
+    }
+    const value = lookup(variables, name);
+    if (value === undefined || value === null) return '';
+    return typeof value === 'object' ? JSON.stringify(value, null, 2) : String(value);
+  });
+}
+
+/**
+ * Validate the variables and fill in the template; throws with the validation issues when they don't fit
+ */
+export function renderPrompt<V>(template: PromptTemplate<V>, variables: unknown): RenderedPrompt {
+  const ref = formatPromptRef(template.agentId, template.name, template.version);
+  const parsed = template.variables.safeParse(variables);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+    throw new Error(`Invalid variables for prompt ${ref}: ${issues.join('; ')}`);
+  }
+
+  const messages = template.messages.map(message => ({ role: message.role, content: fill(message.content, parsed.data) }));
+  return { ref, agentId: template.agentId, name: template.name, version: template.version, messages, hash: hashValue(messages) };
+}
+
+function placeholders(text: string, seen = new Set<string>()): { variables: string[]; partials: string[] } {
+  const found = { variables: [] as string[], partials: [] as string[] };
+  for (const [, partial, name] of Array.from(text.matchAll(PLACEHOLDER))) {
+    if (!partial) {
+      found.variables.push(name);
+    } else if (!seen.has(name)) {
+      found.partials.push(name);
+      if (name in PROMPT_PARTIALS) {
+        const nested = placeholders(PROMPT_PARTIALS[name], new Set(seen).add(name));
+        found.variables.push(...nested.variables);
+        found.partials.push(...nested.partials);
+      }
+    }
+  }
+  return found;
+}
+
+/**
+ * Check every template: unique versions, known agents and partials, placeholders that name a
+ * declared variable, and pins that point at an existing version. Returns the problems found.
+ */
+export function validatePromptTemplates(): string[] {
+  const problems: string[] = [];
+  const refs = new Set<string>();
+
+  for (const template of PROMPT_TEMPLATES) {
+    const ref = formatPromptRef(template.agentId, template.name, template.version);
+    if (refs.has(ref)) problems.push(`${ref}: defined more than once`);
+    refs.add(ref);
+    if (!getAgentConfig(template.agentId)) problems.push(`${ref}: unknown agent '${template.agentId}'`);
+
+    const shape = template.variables instanceof z.ZodObject ? Object.keys(template.variables.shape) : null;
+    for (const message of template.messages) {
+      const found = placeholders(message.content);
+      for (const partial of found.partials.filter(name => !(name in PROMPT_PARTIALS))) {
+        problems.push(`${ref}: unknown partial '${partial}'`);
+      }
+      for (const variable of found.variables.filter(name => shape && !shape.includes(name.split('.')[0]))) {
+        problems.push(`${ref}: '{{${variable}}}' is not a declared variable`);
+      }
+    }
+  }
+
+  for (const agent of Object.values(getAgentRegistry())) {
+    for (const [name, version] of Object.entries(agent.prompts ?? {})) {
+      const ref = formatPromptRef(agent.id, name, version);
+      if (!refs.has(ref)) problems.push(`${ref}: pinned in the agent registry but not defined`);
+    }
+  }
+  return Array.from(new Set(problems));
+}
+
+/**
+ * Each agent prompt with its versions, optionally for some agents only
+ */
+export function describePrompts(agentIds?: string[]): PromptSummary[] {
+  const summaries = new Map<string, PromptSummary>();
+  for (const template of listPromptTemplates()) {
+    if (agentIds && !agentIds.includes(template.agentId)) continue;
+    const id = `${template.agentId}/${template.name}`;
+    let summary = summaries.get(id);
+    if (!summary) {
+      // Newest first, so the first version seen is the latest
+      const pinnedVersion = getPinnedPromptVersion(template.agentId, template.name);
+      summary = {
+        id,
+        agentId: template.agentId,
+        name: template.name,
+        activeVersion: pinnedVersion ?? template.version,
+        ...(pinnedVersion !== undefined && { pinnedVersion }),
+        latestVersion: template.version,
+        versions: []
+      };
+      summaries.set(id, summary);
+    }
+    summary.versions.push({
+      ref: formatPromptRef(template.agentId, template.name, template.version),
+      version: template.version,
+      description: template.description,
+      variables: zodToJsonSchema(template.variables),
+      messages: template.messages,
+      hasSample: Boolean(template.sample)
+    });
+  }
+  return Array.from(summaries.values());
+}
+
+/**
+ * Render a template with the given variables, or with variables built from the agent's seed data
+ * Throws when the variables don't fit or the template has no sample and none were given.
+ */
+export async function previewPrompt(template: PromptTemplate, variables?: unknown, options: DataLoadOptions = {}): Promise<PromptPreview> {
+  const dataFiles: PromptPreview['dataFiles'] = [];
+  if (variables === undefined) {
+    if (!template.sample) {
+      throw new Error(`Prompt ${formatPromptRef(template.agentId, template.name, template.version)} has no sample data; send variables`);
+    }
+    variables = await template.sample(async (filename, { agentId = template.agentId, mockData } = {}) => {
+      const loaded = await loadAgentFile(agentId, filename, options, mockData);
+      dataFiles.push({ agentId, file: filename, source: loaded.source, success: loaded.success });
+      return loaded;
+    });
+  }
+  return { prompt: renderPrompt(template, variables), variables, dataFiles };
+}
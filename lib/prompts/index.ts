@@ -0,0 +1,16 @@
+/**
+ * Prompt Templates - Every agent's versioned prompts and the partials they share
+ * Add a template to its agent's file and list it here; tests check placeholders and registry pins.
+ */
+
+import type { PromptTemplate } from "../prompt-registry";
+import { meetingActionsPrompts } from "./meeting-actions";
+import { supportBriefPrompts } from "./support-brief";
+
+// Included with {{> name}}; partials may use the including template's variables
+export const PROMPT_PARTIALS: Record<string, string> = {
+  'house-rules': 'Only use facts stated in the input. If something is missing, leave it out rather than guessing.',
+  'iso-dates': 'Write dates as YYYY-MM-DD.'
+};
+
+export const PROMPT_TEMPLATES: PromptTemplate[] = [...meetingActionsPrompts, ...supportBriefPrompts];
@@ -0,0 +1,56 @@
+/**
+ * Meeting Action Enforcer prompts
+ */
+
+import { z } from "zod";
+import { getAgentMockData } from "../mock-data";
+import type { AgentContext } from "../agent-runtime";
+import type { PromptTemplate } from "../prompt-registry";
+
+const Variables = z.object({
+  transcript: z.string()
+});
+
+async function sample(load: AgentContext['load']): Promise<z.infer<typeof Variables>> {
+  const result = await load<string>('transcript.txt', { mockData: getAgentMockData<string>('meeting-actions', 'transcript.txt') });
+  if (!result.success) throw new Error(result.error || 'Failed to load transcript');
+  return { transcript: result.data };
+}
+
+export const meetingActionsPrompts: PromptTemplate<z.infer<typeof Variables>>[] = [
+  {
+    agentId: 'meeting-actions',
+    name: 'extract',
+    version: 1,
+    description: 'Action items from a transcript',
+    variables: Variables,
+    messages: [
+      {
+        role: 'system',
+        content: 'Extract the action items agreed in this meeting transcript. For each: the owner\'s first name, a short imperative title and the due date as YYYY-MM-DD.'
+      },
+      { role: 'user', content: '{{transcript}}' }
+    ],
+    sample
+  },
+  {
+    agentId: 'meeting-actions',
+    name: 'extract',
+    version: 2,
+    description: 'Action items from a transcript; ignores discussion that assigns no owner',
+    variables: Variables,
+    messages: [
+      {
+        role: 'system',
+        content: [
+          'You turn meeting transcripts into action items.',
+          'An action item is a task someone agreed to do, usually written as "@Name task by date". Discussion, opinions and tasks without an owner are not action items.',
+          'For each item give the owner\'s first name, a short imperative title starting with a verb and the due date. {{> iso-dates}}',
+          '{{> house-rules}}'
+        ].join('\n')
+      },
+      { role: 'user', content: 'Transcript:\n"""\n{{transcript}}\n"""' }
+    ],
+    sample
+  }
+];
@@ -0,0 +1,37 @@
+/**
+ * Support Ticket Brief prompts
+ */
+
+import { z } from "zod";
+import { MockDataGenerators } from "../mock-data";
+import type { PromptTemplate } from "../prompt-registry";
+
+const Variables = z.object({
+  ticket: z.record(z.unknown()) // The ticket as exported from Zendesk
+});
+
+export const supportBriefPrompts: PromptTemplate<z.infer<typeof Variables>>[] = [
+  {
+    agentId: 'support-brief',
+    name: 'triage',
+    version: 1,
+    description: 'Triage brief for one support ticket',
+    variables: Variables,
+    messages: [
+      {
+        role: 'system',
+        content: 'Write a triage brief for this support ticket: the issue, the affected environment, the steps already tried, a severity and the next action for the support team.\n{{> house-rules}}'
+      },
+      { role: 'user', content: '{{ticket}}' }
+    ],
+    async sample(load) {
+      // The Zendesk export lives with the Support Summarizer's seed data
+      const result = await load<Record<string, unknown>[]>('zendesk_tickets.json', {
+        agentId: 'support-summarizer',
+        mockData: MockDataGenerators.supportTickets(5)
+      });
+      if (!result.success || !result.data[0]) throw new Error(result.error || 'No tickets to summarize');
+      return { ticket: result.data[0] };
+    }
+  }
+];
@@ -0,0 +1,264 @@
+/**
+ * Rate Limits - Token buckets per client and agent, plus daily run quotas
+ * Clients are API keys (or the caller's IP when no key is used). State lives in a
+ * RateLimitStore: in memory by default, swappable for a shared store across instances.
+ */
+
+import type { NextRequest } from "next/server";
+import { getAgentConfig, getAgentRegistry } from "./agent-registry";
+import type { ApiKeyRecord } from "./api-keys";
+import type { ApiResponder } from "./api-response";
+import { getConfig } from "./config";
+
+export interface TokenBucket {
+  tokens: number;
+  updatedAt: number; // ms
+}
+
+export interface RateLimitStore {
+  getBucket(key: string): Promise<TokenBucket | undefined>;
+  setBucket(key: string, bucket: TokenBucket, ttlMs: number): Promise<void>;
+  getCount(key: string): Promise<number>;
+  increment(key: string, ttlMs: number): Promise<number>;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number; // Bucket capacity: requests per minute
+  remaining: number;
+  resetSeconds: number; // Until the bucket is full again
+  retryAfterSeconds: number; // 0 when allowed
+}
+
+export interface RunQuota {
+  day: string; // UTC date, YYYY-MM-DD
+  limit: number | null; // null: no quota
+  used: number;
+  remaining: number | null;
+  resetsAt: string;
+}
+
+export interface RateLimitClient {
+  id: string; // "key:<id>", "admin" or "ip:<address>"
+  dailyRuns?: number; // Per-key quota override
+}
+
+/**
+ * In-memory store; entries expire lazily when read
+ */
+export function createMemoryRateLimitStore(): RateLimitStore {
+  const buckets = new Map<string, { value: TokenBucket; expiresAt: number }>();
+  const counts = new Map<string, { value: number; expiresAt: number }>();
+
+  const read = <T>(map: Map<string, { value: T; expiresAt: number }>, key: string): T | undefined => {
+    const entry = map.get(key);
+    if (entry && entry.expiresAt <= Date.now()) {
+      map.delete(key);
+      return undefined;
+    }
+    return entry?.value;
+  };
+
+  return {
+    async getBucket(key) {
+      return read(buckets, key);
+    },
+    async setBucket(key, bucket, ttlMs) {
+      buckets.set(key, { value: bucket, expiresAt: Date.now() + ttlMs });
+    },
+    async getCount(key) {
+      return read(counts, key) ?? 0;
+    },
+    async increment(key, ttlMs) {
+      const value = (read(counts, key) ?? 0) + 1;
+      counts.set(key, { value, expiresAt: counts.get(key)?.expiresAt ?? Date.now() + ttlMs });
+      return value;
+    }
+  };
+}
+
+let store: RateLimitStore = createMemoryRateLimitStore();
+
+/**
+ * Use a different store, e.g. one backed by Redis so limits hold across instances
+ */
+export function setRateLimitStore(next: RateLimitStore): void {
+  store = next;
+}
+
+/**
+ * Drop all buckets and counters (back to a fresh in-memory store)
+ */
+export function resetRateLimits(): void {
+  store = createMemoryRateLimitStore();
+}
+
+/**
+ * Requests per minute for an agent: RATE_LIMIT_AGENTS entry, else RATE_LIMIT_PER_MINUTE / complexity
+ */
+export function getAgentRateLimit(agentId?: string): number {
+  const { rateLimit } = getConfig();
+  if (!agentId) return rateLimit.perMinute;
+  if (rateLimit.agents[agentId]) return rateLimit.agents[agentId];
+
+  const complexity = getAgentConfig(agentId)?.complexity ?? 1;
+  return Math.max(1, Math.floor(rateLimit.perMinute / complexity));
+}
+
+/**
+ * Take one token from a bucket holding `perMinute` tokens that refills continuously
+ */
+export async function consumeRateLimit(key: string, perMinute: number, now = Date.now()): Promise<RateLimitResult> {
+  const refillPerMs = perMinute / 60_000;
+  const previous = await store.getBucket(key);
+  const tokens = previous
+    ? Math.min(perMinute, previous.tokens + (now - previous.updatedAt) * refillPerMs)
+    : perMinute;
+
+  const allowed = tokens >= 1;
+  const left = allowed ? tokens - 1 : tokens;
+  await store.setBucket(key, { tokens: left, updatedAt: now }, 60_000);
+
+  return {
+    allowed,
+    limit: perMinute,
+    remaining: Math.floor(left),
+    resetSeconds: Math.ceil((perMinute - left) / refillPerMs / 1000),
+    retryAfterSeconds: allowed ? 0 : Math.ceil((1 - left) / refillPerMs / 1000)
+  };
+}
+
+function quotaDay(now: number): { day: string; resetsAt: Date } {
+  const day = new Date(now).toISOString().slice(0, 10);
+  const resetsAt = new Date(`${day}T00:00:00.000Z`);
+  resetsAt.setUTCDate(resetsAt.getUTCDate() + 1);
+  return { day, resetsAt };
+}
+
+function quotaLimit(client: RateLimitClient): number | null {
+  const limit = client.dailyRuns ?? getConfig().rateLimit.dailyRuns;
+  return limit > 0 ? limit : null;
+}
+
+/**
+ * Read a client's run quota for today without using it
+ */
+export async function getRunQuota(client: RateLimitClient, now = Date.now()): Promise<RunQuota & { agents: Record<string, number> }> {
+  const { day, resetsAt } = quotaDay(now);
+  const limit = quotaLimit(client);
+  const used = await store.getCount(`quota:${client.id}:${day}`);
+
+  const agents: Record<string, number> = {};
+  for (const agentId of Object.keys(getAgentRegistry())) {
+    const count = await store.getCount(`quota:${client.id}:${day}:${agentId}`);
+    if (count > 0) agents[agentId] = count;
+  }
+
+  return {
+    day,
+    limit,
+    used,
+    remaining: limit === null ? null : Math.max(0, limit - used),
+    resetsAt: resetsAt.toISOString(),
+    agents
+  };
+}
+
+/**
+ * Count one run against a client's daily quota; refused runs are not counted
+ */
+export async function consumeRunQuota(client: RateLimitClient, agentId?: string, now = Date.now()): Promise<RunQuota & { allowed: boolean }> {
+  const { day, resetsAt } = quotaDay(now);
+  const limit = quotaLimit(client);
+  const key = `quota:${client.id}:${day}`;
+  const ttlMs = resetsAt.getTime() - now + 60_000;
+  const current = await store.getCount(key);
+
+  if (limit !== null && current >= limit) {
+    return { allowed: false, day, limit, used: current, remaining: 0, resetsAt: resetsAt.toISOString() };
+  }
+
+  const used = await store.increment(key, ttlMs);
+  if (agentId) await store.increment(`${key}:${agentId}`, ttlMs);
+
+  return {
+    allowed: true,
+    day,
+    limit,
+    used,
+    remaining: limit === null ? null : Math.max(0, limit - used),
+    resetsAt: resetsAt.toISOString()
+  };
+}
+
+/**
+ * Identify the caller: the verified API key, else the platform's client IP, else the
+ * X-Forwarded-For entry added by the outermost trusted proxy (earlier entries are client-supplied)
+ */
+export function getRateLimitClient(req: NextRequest, key?: ApiKeyRecord | 'admin'): RateLimitClient {
+  if (key === 'admin') return { id: 'admin' };
+  if (key) return { id: `key:${key.id}`, ...(key.dailyRuns && { dailyRuns: key.dailyRuns }) };
+
+  const { trustedProxies } = getConfig().rateLimit;
+  if (req.ip || !trustedProxies) return { id: `ip:${req.ip || 'unknown'}` };
+
+  const hops = (req.headers.get('x-forwarded-for') ?? '').split(',').map(entry => entry.trim()).filter(Boolean);
+  const forwarded = hops.length >= trustedProxies ? hops[hops.length - trustedProxies] : undefined;
+  return { id: `ip:${forwarded || req.headers.get('x-real-ip') || 'unknown'}` };
+}
+
+/**
+ * Apply the bucket for this client and route (and the run quota for runs)
+ * Returns headers to add to the response, or a 429 to send instead
+ */
+export async function applyRateLimit(
+  api: ApiResponder,
+  client: RateLimitClient,
+  access: { permission: string; agentId?: string },
+  now = Date.now()
+): Promise<{ response?: Response; headers: Record<string, string> }> {
+  if (!getConfig().rateLimit.enabled) return { headers: {} };
+
+  const agent = access.agentId && getAgentConfig(access.agentId) ? access.agentId : undefined;
+  const bucket = await consumeRateLimit(`rate:${client.id}:${agent ?? '*'}`, getAgentRateLimit(agent), now);
+  const headers: Record<string, string> = {
+    'X-RateLimit-Limit': String(bucket.limit),
+    'X-RateLimit-Remaining': String(bucket.remaining),
+    'X-RateLimit-Reset': String(bucket.resetSeconds)
+  };
+
+  if (!bucket.allowed) {
+    return {
+      headers,
+      response: api.error(
+        'RATE_LIMIT_EXCEEDED',
+        `Rate limit of ${bucket.limit} requests per minute exceeded${agent ? ` for agent '${agent}'` : ''}`,
+        { limit: bucket.limit, retryAfterSeconds: bucket.retryAfterSeconds },
+        { headers: { ...headers, 'Retry-After': String(bucket.retryAfterSeconds) } }
+      )
+    };
+  }
+
+  if (access.permission !== 'run') return { headers };
+
+  const quota = await consumeRunQuota(client, agent, now);
+  if (quota.limit !== null) {
+    headers['X-Quota-Limit'] = String(quota.limit);
+    headers['X-Quota-Remaining'] = String(quota.remaining);
+  }
+
+  if (!quota.allowed) {
+    const retryAfter = Math.ceil((Date.parse(quota.resetsAt) - now) / 1000);
+    return {
+      headers,
+      response: api.error(
+        'QUOTA_EXCEEDED',
+        `Daily quota of ${quota.limit} runs exceeded`,
+        { limit: quota.limit, used: quota.used, resetsAt: quota.resetsAt },
+        { headers: { ...headers, 'Retry-After': String(retryAfter) } }
+      )
+    };
+  }
+
+  return { headers };
+}
@@ -0,0 +1,208 @@
+/**
+ * Registry Builder - Discover agent data from the seed pack and detect registry drift
+ * Merges files found on disk with the hand-written metadata in AGENT_REGISTRY
+ */
+
+import { existsSync, readdirSync } from "node:fs";
+import { join } from "node:path";
+import type { AgentConfig } from "./agent-registry";
+import { isAgentDataFile, listFilesRecursive, matchesDataPattern } from "./data-patterns";
+import { getSeedRoot } from "./config";
+
+export interface SeedFolder {
+  name: string;
+  day: string;
+  files: string[]; // Every data file, relative to the folder
+  entries: string[]; // Top-level files plus "dir/" entries for subfolders
+}
+
+export interface RegistryDriftReport {
+  seedRoot: string;
+  ok: boolean;
+  missingFolders: { agentId: string; dayFolder: string }[];
+  phantomFiles: { agentId: string; dayFolder: string; file: string }[];
+  unregisteredFiles: { agentId: string; dayFolder: string; file: string }[];
+  unregisteredFolders: string[];
+  duplicateDayFolders: { day: string; folders: string[]; agents: string[] }[];
+  summary: {
+    agents: number;
+    folders: number;
+    issues: number;
+  };
+}
+
+const DAY_FOLDER_PATTERN = /^(day\d{2})_/;
+
+// Documentation and dotfiles are not agent data
+const IGNORED_FILES = new Set(['README.md']);
+
+/**
+ * Scan the seed pack for day folders and the data files they contain
+ */
+export function scanSeedPack(seedRoot: string = getSeedRoot()): SeedFolder[] {
+  if (!existsSync(seedRoot)) return [];
+
+  return readdirSync(seedRoot, { withFileTypes: true })
+    .filter(entry => entry.isDirectory() && DAY_FOLDER_PATTERN.test(entry.name))
+    .map(entry => {
+      const files = listFilesRecursive(join(seedRoot, entry.name))
+        .filter(file => !IGNORED_FILES.has(file.split('/').pop() ?? file));
+      const entries = Array.from(new Set(files.map(file =>
+        file.includes('/') ? `${file.slice(0, file.indexOf('/'))}/` : file
+      )));
+
+      return {
+        name: entry.name,
+        day: entry.name.match(DAY_FOLDER_PATTERN)?.[1] ?? '',
+        files,
+        entries
+      };
+    })
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Derive an agent id from a day folder name (day13_SEO_Issue_Sentinel -> seo-issue-sentinel)
+ */
+export function agentIdFromFolder(folder: string): string {
+  return folder.replace(DAY_FOLDER_PATTERN, '').toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+}
+
+/**
+ * Merge hand-written dataFiles with discovered entries: keep hand-written entries that match
+ * something on disk, then add discovered entries for files they don't cover
+ */
+export function mergeDataFiles(registered: string[], folder: SeedFolder): string[] {
+  const kept = registered.filter(entry => folder.files.some(file => matchesDataPattern(entry, file)));
+  const discovered = folder.entries.filter(entry =>
+    folder.files
+      .filter(file => matchesDataPattern(entry, file))
+      .some(file => !isAgentDataFile(kept, file))
+  );
+  return [...kept, ...discovered];
+}
+
+/**
+ * Build the effective registry: hand-written metadata with data files discovered on disk.
+ * Agents whose folder is missing keep their hand-written files; unregistered folders get a stub entry.
+ */
+export function buildAgentRegistry(
+  base: Record<string, AgentConfig>,
+  seedRoot: string = getSeedRoot()
+): Record<string, AgentConfig> {
+  const folders = scanSeedPack(seedRoot);
+  const byName = new Map(folders.map(folder => [folder.name, folder]));
+  const registry: Record<string, AgentConfig> = {};
+
+  for (const [id, agent] of Object.entries(base)) {
+    const folder = byName.get(agent.dayFolder);
+    registry[id] = folder ? { ...agent, dataFiles: mergeDataFiles(agent.dataFiles, folder) } : { ...agent };
+  }
+
+  const registeredFolders = new Set(Object.values(base).map(agent => agent.dayFolder));
+  for (const folder of folders) {
+    if (registeredFolders.has(folder.name)) continue;
+
+    let id = agentIdFromFolder(folder.name);
+    if (registry[id]) id = `${folder.day}-${id}`;
+
+    registry[id] = {
+      id,
+      name: folder.name.replace(DAY_FOLDER_PATTERN, '').replace(/_/g, ' '),
+      dayFolder: folder.name,
+      apiRoute: `/api/${id}`,
+      description: `Discovered from seed pack folder ${folder.name}`,
+      dataFiles: folder.entries,
+      category: 'Uncategorized',
+      complexity: 3,
+      status: 'planned'
+    };
+  }
+
+  return registry;
+}
+
+/**
+ * Compare the hand-written registry with the seed pack on disk
+ */
+export function checkRegistryDrift(
+  base: Record<string, AgentConfig>,
+  seedRoot: string = getSeedRoot()
+): RegistryDriftReport {
+  const folders = scanSeedPack(seedRoot);
+  const byName = new Map(folders.map(folder => [folder.name, folder]));
+  const agents = Object.values(base);
+
+  const missingFolders: RegistryDriftReport['missingFolders'] = [];
+  const phantomFiles: RegistryDriftReport['phantomFiles'] = [];
+  const unregisteredFiles: RegistryDriftReport['unregisteredFiles'] = [];
+
+  for (const agent of agents) {
+    const folder = byName.get(agent.dayFolder);
+    if (!folder) {
+      missingFolders.push({ agentId: agent.id, dayFolder: agent.dayFolder });
+      continue;
+    }
+
+    for (const file of agent.dataFiles) {
+      if (!folder.files.some(existing => matchesDataPattern(file, existing))) {
+        phantomFiles.push({ agentId: agent.id, dayFolder: agent.dayFolder, file });
+      }
+    }
+
+    for (const file of folder.files) {
+      if (!isAgentDataFile(agent.dataFiles, file)) {
+        unregisteredFiles.push({ agentId: agent.id, dayFolder: agent.dayFolder, file });
+      }
+    }
+  }
+
+  const registeredFolders = new Set(agents.map(agent => agent.dayFolder));
+  const unregisteredFolders = folders
+    .map(folder => folder.name)
+    .filter(name => !registeredFolders.has(name));
+
+  // Group registered and on-disk folders by day number
+  const byDay = new Map<string, { folders: Set<string>; agents: Set<string> }>();
+  const dayEntry = (day: string) => {
+    if (!byDay.has(day)) byDay.set(day, { folders: new Set(), agents: new Set() });
+    return byDay.get(day) as { folders: Set<string>; agents: Set<string> };
+  };
+
+  for (const agent of agents) {
+    const day = agent.dayFolder.match(DAY_FOLDER_PATTERN)?.[1];
+    if (!day) continue;
+    dayEntry(day).folders.add(agent.dayFolder);
+    dayEntry(day).agents.add(agent.id);
+  }
+  for (const folder of folders) {
+    dayEntry(folder.day).folders.add(folder.name);
+  }
+
+  const duplicateDayFolders = Array.from(byDay.entries())
+    .filter(([, entry]) => entry.folders.size > 1 || entry.agents.size > 1)
+    .map(([day, entry]) => ({
+      day,
+      folders: Array.from(entry.folders).sort(),
+      agents: Array.from(entry.agents).sort()
+    }))
+    .sort((a, b) => a.day.localeCompare(b.day));
+
+  const issues = missingFolders.length + phantomFiles.length + unregisteredFiles.length +
+    unregisteredFolders.length + duplicateDayFolders.length;
+
+  return {
+    seedRoot,
+    ok: issues === 0,
+    missingFolders,
+    phantomFiles,
+    unregisteredFiles,
+    unregisteredFolders,
+    duplicateDayFolders,
+    summary: {
+      agents: agents.length,
+      folders: folders.length,
+      issues
+    }
+  };
+}
@@ -0,0 +1,51 @@
+/**
+ * Route Access - Work out the permission an /api route needs from its path and method
+ * Uses no Node APIs, so middleware.ts (edge runtime) and lib/api-auth.ts share one mapping.
+ */
+
+import type { ApiPermission } from "./api-keys";
+
+export interface RouteAccess {
+  permission: ApiPermission;
+  agentId?: string; // Set when the route acts on one agent
+}
+
+/**
+ * Map a request path and method to the permission (and agent) it needs
+ * agentForRoute resolves an agent's own apiRoute (e.g. /api/meeting-actions); without it those
+ * routes map to read, which is never stricter than their real permission.
+ */
+export function resolveRouteAccess(
+  pathname: string,
+  method: string,
+  agentForRoute?: (path: string) => string | undefined
+): RouteAccess {
+  const path = pathname.replace(/\/+$/, '');
+  const [, , area, id, action] = path.split('/'); // "", "api", area, id, action...
+
+  if (area === 'admin' || area === 'webhooks') return { permission: 'admin' }; // Webhooks expose receiver URLs
+
+  if (area === 'github' && id === 'cache') {
+    return { permission: method === 'DELETE' ? 'admin' : 'read' };
+  }
+
+  if (area === 'runs') return { permission: action === 'replay' ? 'run' : 'read' };
+  if (area === 'jobs') return { permission: method === 'DELETE' ? 'run' : 'read' };
+  if (area === 'outbox') return { permission: method === 'DELETE' ? 'admin' : 'read' };
+  if (area === 'prompts' && id) return { permission: 'read', agentId: id }; // Previews never call a model
+  if (area === 'schedules' && id) {
+    // Pausing changes what runs for everyone, so it is an admin action
+    if (action === 'pause' || action === 'resume') return { permission: 'admin' };
+    return { permission: action === 'trigger' ? 'run' : 'read', agentId: id };
+  }
+
+  if ((area === 'agents' || area === 'github') && id && id !== 'registry') {
+    const runs = action === 'run' || method === 'POST';
+    return { permission: runs ? 'run' : 'read', agentId: id };
+  }
+
+  const agentId = agentForRoute?.(path);
+  if (agentId) return { permission: 'run', agentId };
+
+  return { permission: 'read' };
+}
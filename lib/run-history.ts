@@ -0,0 +1,391 @@
+/**
+ * Run History - Every agent invocation with its input, data files, output and outcome
+ * Kept in a RunStore chosen by RUN_STORE: JSON files on disk (default), a Supabase table,
+ * or memory. Hashes of the input and each data file show what changed between a run and its replay.
+ */
+
+import { createHash, randomBytes } from "node:crypto";
+import { existsSync, mkdirSync, readFileSync, readdirSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { createClient, type SupabaseClient } from "@supabase/supabase-js";
+import type { ErrorCode } from "./api-response";
+import { getConfig, type FallbackPolicy } from "./config";
+import { logger } from "./logger";
+
+export type RunStatus = 'success' | 'error';
+
+export interface RunDataFile {
+  agentId: string; // Owner of the seed folder the file was read from
+  file: string;
+  source: string; // Path, github-*, mock-data, not-found...
+  success: boolean;
+  degraded?: boolean;
+  hash: string | null; // SHA-256 of the loaded data; null when nothing loaded
+}
+
+export type GenerationSource = 'model' | 'repaired' | 'fallback';
+
+export interface RunGeneration {
+  name: string; // The structured output, e.g. ActionItems
+  source: GenerationSource; // model: valid first time; repaired: valid after feedback; fallback: the heuristic
+  attempts: number; // Model calls made; 0 when LLM calls are off
+  model?: string;
+  errors?: string[]; // Why earlier attempts were rejected
+}
+
+export interface RunPrompt {
+  ref: string; // <agentId>/<name>@v<version>
+  hash: string; // SHA-256 of the rendered messages
+}
+
+export interface RunOptions {
+  policy?: FallbackPolicy;
+  offline?: boolean;
+  strict?: boolean;
+}
+
+export interface RunRecord {
+  id: string;
+  agentId: string;
+  status: RunStatus;
+  code?: ErrorCode;
+  error?: string;
+  input: unknown;
+  inputHash: string;
+  options: RunOptions; // Data loading options, reused on replay
+  dataFiles: RunDataFile[];
+  generations?: RunGeneration[]; // Structured outputs produced through ctx.generate
+  prompts?: RunPrompt[]; // Prompt versions rendered through ctx.prompt
+  output?: unknown;
+  durationMs: number;
+  startedAt: string;
+  requestId?: string;
+  replayOf?: string; // Id of the run this one replayed
+}
+
+export type RunSummary = Omit<RunRecord, 'input' | 'output'>;
+
+export interface RunQuery {
+  agentIds?: string[]; // Unset: every agent
+  status?: RunStatus;
+  replayOf?: string;
+  offset: number;
+  limit: number;
+}
+
+export interface RunStore {
+  save(run: RunRecord): Promise<void>;
+  get(id: string): Promise<RunRecord | null>;
+  list(query: RunQuery): Promise<{ runs: RunRecord[]; total: number }>; // Newest first
+}
+
+export interface RunDifference {
+  path: string; // e.g. top5[0].amount; empty for the whole value
+  before: unknown;
+  after: unknown;
+}
+
+export interface RunComparison {
+  statusChanged: boolean;
+  outputChanged: boolean;
+  differences: RunDifference[]; // Output paths that changed, capped at MAX_DIFFERENCES
+  truncated: boolean;
+  dataChanged: { agentId: string; file: string; before: string | null; after: string | null }[]; // Hashes
+}
+
+const MAX_DIFFERENCES = 100;
+
+/**
+ * JSON with sorted object keys, so equal values always hash the same
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value).sort()
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+/**
+ * SHA-256 of a value's stable JSON form
+ */
+export function hashValue(value: unknown): string {
+  return createHash('sha256').update(stableStringify(value)).digest('hex');
+}
+
+/**
+ * Run ids sort by creation time: run_<ms, base 36><random>
+ */
+export function createRunId(now = Date.now()): string {
+  return `run_${now.toString(36).padStart(9, '0')}${randomBytes(4).toString('hex')}`;
+}
+
+function matchesQuery(run: RunRecord, query: RunQuery): boolean {
+  return (!query.agentIds || query.agentIds.includes(run.agentId)) &&
+    (!query.status || run.status === query.status) &&
+    (!query.replayOf || run.replayOf === query.replayOf);
+}
+
+/**
+ * In-memory store; history is lost on restart
+ */
+export function createMemoryRunStore(): RunStore {
+  const runs = new Map<string, RunRecord>();
+
+  return {
+    async save(run) {
+      runs.set(run.id, run);
+    },
+    async get(id) {
+      return runs.get(id) ?? null;
+    },
+    async list(query) {
+      const matching = Array.from(runs.values())
+        .filter(run => matchesQuery(run, query))
+        .sort((a, b) => b.id.localeCompare(a.id));
+      return { runs: matching.slice(query.offset, query.offset + query.limit), total: matching.length };
+    }
+  };
+}
+
+/**
+ * One JSON file per run in `dir`; listing reads the files newest first
+ */
+export function createFileRunStore(dir: string): RunStore {
+  const pathFor = (id: string) => join(dir, `${id}.json`);
+  const read = (path: string): RunRecord | null => {
+    try {
+      return JSON.parse(readFileSync(path, 'utf8')) as RunRecord;
+    } catch {
+      return null;
+    }
+  };
+
+  return {
+    async save(run) {
+      mkdirSync(dir, { recursive: true });
+      writeFileSync(pathFor(run.id), JSON.stringify(run));
+    },
+    async get(id) {
+      if (!/^run_[a-z0-9]+$/.test(id)) return null;
+      return existsSync(pathFor(id)) ? read(pathFor(id)) : null;
+    },
+    async list(query) {
+      if (!existsSync(dir)) return { runs: [], total: 0 };
+
+      const matching = readdirSync(dir)
+        .filter(name => /^run_[a-z0-9]+\.json$/.test(name))
+        .sort()
+        .reverse()
+        .map(name => read(join(dir, name)))
+        .filter((run): run is RunRecord => run !== null && matchesQuery(run, query));
+      return { runs: matching.slice(query.offset, query.offset + query.limit), total: matching.length };
+    }
+  };
+}
+
+interface RunRow {
+  id: string;
+  agent_id: string;
+  status: RunStatus;
+  code: ErrorCode | null;
+  error: string | null;
+  input: unknown;
+  input_hash: string;
+  options: RunOptions;
+  data_files: RunDataFile[];
+  generations?: RunGeneration[] | null; // Only written when set, so tables without the column keep working
+  prompts?: RunPrompt[] | null; // Likewise
+  output: unknown;
+  duration_ms: number;
+  started_at: string;
+  request_id: string | null;
+  replay_of: string | null;
+}
+
+function toRow(run: RunRecord): RunRow {
+  return {
+    id: run.id,
+    agent_id: run.agentId,
+    status: run.status,
+    code: run.code ?? null,
+    error: run.error ?? null,
+    input: run.input ?? null,
+    input_hash: run.inputHash,
+    options: run.options,
+    data_files: run.dataFiles,
+    ...(run.generations && { generations: run.generations }),
+    ...(run.prompts && { prompts: run.prompts }),
+    output: run.output ?? null,
+    duration_ms: run.durationMs,
+    started_at: run.startedAt,
+    request_id: run.requestId ?? null,
+    replay_of: run.replayOf ?? null
+  };
+}
+
+function fromRow(row: RunRow): RunRecord {
+  return {
+    id: row.id,
+    agentId: row.agent_id,
+    status: row.status,
+    ...(row.code && { code: row.code }),
+    ...(row.error && { error: row.error }),
+    input: row.input,
+    inputHash: row.input_hash,
+    options: row.options ?? {},
+    dataFiles: row.data_files ?? [],
+    ...(row.generations && { generations: row.generations }),
+    ...(row.prompts && { prompts: row.prompts }),
+    ...(row.output !== null && { output: row.output }),
+    durationMs: row.duration_ms,
+    startedAt: row.started_at,
+    ...(row.request_id && { requestId: row.request_id }),
+    ...(row.replay_of && { replayOf: row.replay_of })
+  };
+}
+
+/**
+ * Store runs in a Supabase table (schema in docs/configuration.md)
+ */
+export function createSupabaseRunStore(client: SupabaseClient, table: string): RunStore {
+  return {
+    async save(run) {
+      const { error } = await client.from(table).insert(toRow(run));
+      if (error) throw new Error(`Supabase insert into ${table} failed: ${error.message}`);
+    },
+    async get(id) {
+      const { data, error } = await client.from(table).select('*').eq('id', id).maybeSingle();
+      if (error) throw new Error(`Supabase read from ${table} failed: ${error.message}`);
+      return data ? fromRow(data as RunRow) : null;
+    },
+    async list(query) {
+      let request = client.from(table).select('*', { count: 'exact' });
+      if (query.agentIds) request = request.in('agent_id', query.agentIds);
+      if (query.status) request = request.eq('status', query.status);
+      if (query.replayOf) request = request.eq('replay_of', query.replayOf);
+
+      const { data, error, count } = await request
+        .order('id', { ascending: false })
+        .range(query.offset, query.offset + query.limit - 1);
+      if (error) throw new Error(`Supabase read from ${table} failed: ${error.message}`);
+      return { runs: (data as RunRow[]).map(fromRow), total: count ?? data.length };
+    }
+  };
+}
+
+let store: RunStore | null | undefined;
+
+/**
+ * The configured run store, or null when RUN_STORE=off
+ */
+export function getRunStore(): RunStore | null {
+  if (store !== undefined) return store;
+
+  const { runs } = getConfig();
+  switch (runs.store) {
+    case 'off':
+      store = null;
+      break;
+    case 'memory':
+      store = createMemoryRunStore();
+      break;
+    case 'supabase':
+      store = createSupabaseRunStore(
+        createClient(runs.supabase.url as string, runs.supabase.serviceKey as string, { auth: { persistSession: false } }),
+        runs.supabase.table
+      );
+      break;
+    default:
+      store = createFileRunStore(runs.dir);
+  }
+  return store;
+}
+
+/**
+ * Use a different store (null records nothing)
+ */
+export function setRunStore(next: RunStore | null): void {
+  store = next;
+}
+
+/**
+ * Drop the current store so RUN_STORE is read again
+ */
+export function resetRunStore(): void {
+  store = undefined;
+}
+
+/**
+ * Save a run; failures are logged, never thrown, so history can't break an agent call
+ */
+export async function recordRun(run: RunRecord): Promise<boolean> {
+  const runStore = getRunStore();
+  if (!runStore) return false;
+
+  try {
+    await runStore.save(run);
+    return true;
+  } catch (error) {
+    logger.warn('Run history write failed', { requestId: run.requestId, agent: run.agentId, runId: run.id, error });
+    return false;
+  }
+}
+
+/**
+ * A run without its input and output, for listings
+ */
+export function toRunSummary({ input: _input, output: _output, ...summary }: RunRecord): RunSummary {
+  return summary;
+}
+
+/**
+ * List the paths at which two JSON values differ (arrays compare by index)
+ */
+export function diffValues(before: unknown, after: unknown, path = '', out: RunDifference[] = []): RunDifference[] {
+  if (out.length > MAX_DIFFERENCES) return out;
+
+  const isObject = (value: unknown): value is Record<string, unknown> =>
+    value !== null && typeof value === 'object' && !Array.isArray(value);
+
+  if (Array.isArray(before) && Array.isArray(after)) {
+    for (let index = 0; index < Math.max(before.length, after.length); index++) {
+      diffValues(before[index], after[index], `${path}[${index}]`, out);
+    }
+  } else if (isObject(before) && isObject(after)) {
+    for (const key of Array.from(new Set([...Object.keys(before), ...Object.keys(after)]))) {
+      diffValues(before[key], after[key], path ? `${path}.${key}` : key, out);
+    }
+  } else if (stableStringify(before) !== stableStringify(after)) {
+    out.push({ path, before, after });
+  }
+  return out;
+}
+
+/**
+ * Compare a replay with the run it replayed: outcome, output and data file hashes
+ */
+export function compareRuns(original: RunRecord, replay: RunRecord): RunComparison {
+  const differences = diffValues(original.output, replay.output);
+  const fileKey = (file: RunDataFile) => `${file.agentId}/${file.file}`;
+  const before = new Map(original.dataFiles.map(file => [fileKey(file), file]));
+  const after = new Map(replay.dataFiles.map(file => [fileKey(file), file]));
+
+  const dataChanged = Array.from(new Set([...Array.from(before.keys()), ...Array.from(after.keys())]))
+    .map(key => {
+      const file = (before.get(key) ?? after.get(key)) as RunDataFile;
+      return { agentId: file.agentId, file: file.file, before: before.get(key)?.hash ?? null, after: after.get(key)?.hash ?? null };
+    })
+    .filter(entry => entry.before !== entry.after);
+
+  return {
+    statusChanged: original.status !== replay.status || original.code !== replay.code,
+    outputChanged: differences.length > 0,
+    differences: differences.slice(0, MAX_DIFFERENCES),
+    truncated: differences.length > MAX_DIFFERENCES,
+    dataChanged
+  };
+}
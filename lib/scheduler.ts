@@ -0,0 +1,421 @@
+/**
+ * Scheduler - Runs agents on the cron schedules in their registry entries
+ * Every instance checks due schedules on an interval. Claiming an occurrence and every other
+ * state write happen under a per-schedule lock in the ScheduleStore, so with a shared store only
+ * one instance runs it and a pause is never lost to a concurrent claim. Runs go through
+ * the job queue, so they show up at /api/jobs and in the run history.
+ */
+
+import { randomUUID } from "node:crypto";
+import { existsSync, linkSync, mkdirSync, readFileSync, renameSync, unlinkSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { getAgentRegistry, type AgentConfig, type AgentSchedule } from "./agent-registry";
+import { getAgentImplementation } from "./agents";
+import type { AgentRunFailure } from "./agent-runtime";
+import { getConfig } from "./config";
+import { listCronTimes, nextCronTime, parseCron } from "./cron";
+import { createJob, waitForJob, type Job } from "./jobs";
+import { logger } from "./logger";
+import { systemClock, type MockClock } from "./mock-random";
+
+export interface ScheduleState {
+  agentId: string;
+  paused: boolean;
+  lastScheduledFor?: string; // Latest fire time claimed (run or skipped); catch-up starts after it
+  lastRunAt?: string;
+  lastJobId?: string;
+  lastRunId?: string;
+  lastOutcome?: string; // ok, an error code, or skipped
+}
+
+export interface ScheduleStore {
+  getState(agentId: string): Promise<ScheduleState | null>;
+  setState(state: ScheduleState): Promise<void>;
+  acquireLock(name: string, owner: string, ttlMs: number): Promise<boolean>;
+  releaseLock(name: string, owner: string): Promise<void>;
+}
+
+export interface ScheduleInfo extends ScheduleState {
+  cron: string;
+  catchUp: NonNullable<AgentSchedule['catchUp']>;
+  input: Record<string, unknown>;
+  runnable: boolean; // False until the agent is implemented
+  nextRunAt: string | null;
+}
+
+export interface ScheduledRun {
+  agentId: string;
+  scheduledFor: string;
+  jobId?: string;
+  error?: AgentRunFailure;
+}
+
+export interface SchedulerOptions {
+  clock?: MockClock; // Inject a fixed or stepped clock in tests
+  store?: ScheduleStore;
+  owner?: string; // Lock owner id; unique per instance
+}
+
+export interface Scheduler {
+  owner: string;
+  tick(): Promise<ScheduledRun[]>; // Start every due run; safe to call from several instances
+  start(): void;
+  stop(): void;
+  isRunning(): boolean;
+  list(): Promise<ScheduleInfo[]>;
+  get(agentId: string): Promise<ScheduleInfo | null>;
+  pause(agentId: string): Promise<ScheduleInfo | null>;
+  resume(agentId: string): Promise<ScheduleInfo | null>;
+  trigger(agentId: string): Promise<{ job: Job } | { failure: AgentRunFailure } | null>;
+}
+
+// Missed runs further back than this are forgotten, and 'all' replays at most MAX_CATCH_UP_RUNS
+const CATCH_UP_WINDOW_MS = 31 * 24 * 60 * 60 * 1000;
+const MAX_CATCH_UP_RUNS = 24;
+const LOCK_RETRY_MS = 50;
+
+const scheduleLock = (agentId: string) => `schedule-${agentId}`;
+
+/**
+ * In-memory store; state and locks are private to this instance
+ */
+export function createMemoryScheduleStore(): ScheduleStore {
+  const states = new Map<string, ScheduleState>();
+  const locks = new Map<string, { owner: string; expiresAt: number }>();
+
+  return {
+    async getState(agentId) {
+      const state = states.get(agentId);
+      return state ? { ...state } : null;
+    },
+    async setState(state) {
+      states.set(state.agentId, { ...state });
+    },
+    async acquireLock(name, owner, ttlMs) {
+      const lock = locks.get(name);
+      if (lock && lock.owner !== owner && lock.expiresAt > Date.now()) return false;
+      locks.set(name, { owner, expiresAt: Date.now() + ttlMs });
+      return true;
+    },
+    async releaseLock(name, owner) {
+      if (locks.get(name)?.owner === owner) locks.delete(name);
+    }
+  };
+}
+
+/**
+ * State as one JSON file per agent; locks are files created exclusively, so instances
+ * sharing `dir` (one host, or a shared volume) never claim the same run twice
+ */
+export function createFileScheduleStore(dir: string): ScheduleStore {
+  const statePath = (agentId: string) => join(dir, `${agentId}.json`);
+  const lockPath = (name: string) => join(dir, `${name}.lock`);
+  const readLock = (path: string): { owner: string; expiresAt: number } | null => {
+    try {
+      return JSON.parse(readFileSync(path, 'utf8'));
+    } catch {
+      return null;
+    }
+  };
+
+  return {
+    async getState(agentId) {
+      const path = statePath(agentId);
+      return existsSync(path) ? JSON.parse(readFileSync(path, 'utf8')) as ScheduleState : null;
+    },
+    async setState(state) {
+      mkdirSync(dir, { recursive: true });
+      writeFileSync(statePath(state.agentId), JSON.stringify(state, null, 2));
+    },
+    async acquireLock(name, owner, ttlMs) {
+      mkdirSync(dir, { recursive: true });
+      const path = lockPath(name);
+      const lock = JSON.stringify({ owner, expiresAt: Date.now() + ttlMs });
+
+      for (let attempt = 0; attempt < 2; attempt++) {
+        try {
+          writeFileSync(path, lock, { flag: 'wx' });
+          return true;
+        } catch (error) {
+          if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+          const held = readLock(path);
+          if (held && held.expiresAt > Date.now()) return false;
+
+          // Expired or unreadable: left by an instance that died. Move it aside under a name of our
+          // own; only one instance's rename succeeds, so only one goes on to take the lock over.
+          const stale = `${path}.${owner}.stale`;
+          try {
+            renameSync(path, stale);
+          } catch (renameError) {
+            if ((renameError as NodeJS.ErrnoException).code === 'ENOENT') continue; // Another instance moved it first
+            throw renameError;
+          }
+          const moved = readLock(stale);
+          if (moved && moved.expiresAt > Date.now()) {
+            // A fresh lock was taken between our read and the rename: put it back and back off
+            try {
+              linkSync(stale, path);
+            } catch {
+              // Someone holds the lock again either way
+            }
+            unlinkSync(stale);
+            return false;
+          }
+          unlinkSync(stale);
+        }
+      }
+      return false;
+    },
+    async releaseLock(name, owner) {
+      const path = lockPath(name);
+      if (readLock(path)?.owner === owner) unlinkSync(path);
+    }
+  };
+}
+
+function getSchedules(): AgentConfig[] {
+  return Object.values(getAgentRegistry()).filter(agent => agent.schedule);
+}
+
+/**
+ * Create a scheduler; the app uses the shared one from getScheduler()
+ */
+export function createScheduler(options: SchedulerOptions = {}): Scheduler {
+  const clock = options.clock ?? systemClock;
+  const owner = options.owner ?? `scheduler_${randomUUID().replace(/-/g, '').slice(0, 12)}`;
+  const store = options.store ?? (getConfig().scheduler.store === 'memory'
+    ? createMemoryScheduleStore()
+    : createFileScheduleStore(getConfig().scheduler.dir));
+
+  let timer: ReturnType<typeof setInterval> | null = null;
+  let ticking = false;
+
+  const describe = async (agent: AgentConfig): Promise<ScheduleInfo> => {
+    const schedule = agent.schedule as AgentSchedule;
+    const state = await store.getState(agent.id) ?? { agentId: agent.id, paused: false };
+    const next = nextCronTime(schedule.cron, clock.now());
+    return {
+      ...state,
+      cron: schedule.cron,
+      catchUp: schedule.catchUp ?? 'latest',
+      input: schedule.input ?? {},
+      runnable: Boolean(getAgentImplementation(agent.id)),
+      nextRunAt: next === null ? null : new Date(next).toISOString()
+    };
+  };
+
+  // Read, change and write a schedule's state under its lock, so a concurrent claim, pause or run
+  // record on another instance is not overwritten. Waits for the lock up to its ttl, after which a
+  // lock left by a dead instance has expired.
+  const updateState = async (agentId: string, update: (state: ScheduleState) => ScheduleState): Promise<ScheduleState> => {
+    const lock = scheduleLock(agentId);
+    const ttlMs = getConfig().scheduler.lockSeconds * 1000;
+    const deadline = Date.now() + ttlMs;
+    while (!await store.acquireLock(lock, owner, ttlMs)) {
+      if (Date.now() >= deadline) throw new Error(`Schedule lock for '${agentId}' is held by another instance`);
+      await new Promise(resolve => setTimeout(resolve, LOCK_RETRY_MS));
+    }
+
+    try {
+      const state = update(await store.getState(agentId) ?? { agentId, paused: false });
+      await store.setState(state);
+      return state;
+    } finally {
+      await store.releaseLock(lock, owner);
+    }
+  };
+
+  // Queue a run and record its outcome in the schedule state once it finishes
+  const dispatch = async (agent: AgentConfig, scheduledFor: number | null): Promise<{ job: Job } | { failure: AgentRunFailure }> => {
+    const label = scheduledFor === null ? 'manual' : new Date(scheduledFor).toISOString();
+    const created = createJob(agent.id, agent.schedule?.input ?? {}, {
+      requestId: `sched_${agent.id}_${scheduledFor ?? clock.now()}`
+    });
+    const lastRunAt = new Date(clock.now()).toISOString();
+
+    if ('failure' in created) {
+      logger.warn('Scheduled run not started', { agent: agent.id, scheduledFor: label, error: created.failure.error });
+      await updateState(agent.id, state => ({ ...state, lastRunAt, lastOutcome: created.failure.code }));
+      return created;
+    }
+
+    const { job } = created;
+    logger.info('Scheduled run queued', { agent: agent.id, scheduledFor: label, jobId: job.id });
+    await updateState(agent.id, state => ({ ...state, lastRunAt, lastJobId: job.id }));
+
+    void waitForJob(job.id).then(async finished => {
+      if (!finished) return;
+      await updateState(agent.id, latest => latest.lastJobId !== job.id
+        ? latest // A newer run has been recorded since
+        : {
+            ...latest,
+            ...(finished.runId && { lastRunId: finished.runId }),
+            lastOutcome: finished.status === 'succeeded' ? 'ok' : finished.error?.code ?? finished.status
+          });
+    }).catch(error => logger.warn('Schedule state write failed', { agent: agent.id, error }));
+
+    return created;
+  };
+
+  // Claim the fire times due since the last claim; returns the ones to run under the catch-up policy
+  const claim = async (agent: AgentConfig, now: number): Promise<number[]> => {
+    const schedule = agent.schedule as AgentSchedule;
+    const { intervalSeconds, lockSeconds } = getConfig().scheduler;
+    const lock = scheduleLock(agent.id);
+    if (!await store.acquireLock(lock, owner, lockSeconds * 1000)) return [];
+
+    try {
+      const state = await store.getState(agent.id);
+      if (state?.paused) return [];
+      if (!state?.lastScheduledFor) {
+        // First sight of this schedule: start counting from now rather than running straight away
+        await store.setState({ ...state, agentId: agent.id, paused: false, lastScheduledFor: new Date(now).toISOString() });
+        return [];
+      }
+
+      const after = Math.max(Date.parse(state.lastScheduledFor), now - CATCH_UP_WINDOW_MS);
+      const due = listCronTimes(schedule.cron, after, now, MAX_CATCH_UP_RUNS);
+      if (due.length === 0) return [];
+
+      const graceMs = 2 * intervalSeconds * 1000; // Within this, a fire time counts as on time
+      const toRun = schedule.catchUp === 'all' ? due
+        : schedule.catchUp === 'skip' ? due.filter(time => now - time <= graceMs).slice(-1)
+        : due.slice(-1);
+
+      await store.setState({
+        ...state,
+        lastScheduledFor: new Date(due[due.length - 1]).toISOString(),
+        ...(toRun.length === 0 && { lastOutcome: 'skipped' })
+      });
+      if (toRun.length < due.length) {
+        logger.info('Missed scheduled runs skipped', { agent: agent.id, skipped: due.length - toRun.length, catchUp: schedule.catchUp ?? 'latest' });
+      }
+      return toRun;
+    } finally {
+      await store.releaseLock(lock, owner);
+    }
+  };
+
+  const findAgent = (agentId: string) => getSchedules().find(agent => agent.id === agentId) ?? null;
+
+  const setPaused = async (agentId: string, paused: boolean): Promise<ScheduleInfo | null> => {
+    const agent = findAgent(agentId);
+    if (!agent) return null;
+
+    // Resuming starts counting from now, so runs missed while paused are not caught up
+    await updateState(agentId, state => ({
+      ...state,
+      paused,
+      ...(!paused && state.paused && { lastScheduledFor: new Date(clock.now()).toISOString() })
+    }));
+    logger.info(paused ? 'Schedule paused' : 'Schedule resumed', { agent: agentId });
+    return describe(agent);
+  };
+
+  const scheduler: Scheduler = {
+    owner,
+
+    async tick() {
+      if (ticking) return [];
+      ticking = true;
+      try {
+        const now = clock.now();
+        const runs: ScheduledRun[] = [];
+        for (const agent of getSchedules()) {
+          if (!getAgentImplementation(agent.id)) continue; // Listed, but nothing to run yet
+          try {
+            for (const time of await claim(agent, now)) {
+              const created = await dispatch(agent, time);
+              runs.push({
+                agentId: agent.id,
+                scheduledFor: new Date(time).toISOString(),
+                ...('job' in created ? { jobId: created.job.id } : { error: created.failure })
+              });
+            }
+          } catch (error) {
+            logger.error('Schedule check failed', { agent: agent.id, error });
+          }
+        }
+        return runs;
+      } finally {
+        ticking = false;
+      }
+    },
+
+    start() {
+      if (timer) return;
+      timer = setInterval(() => void scheduler.tick(), getConfig().scheduler.intervalSeconds * 1000);
+      timer.unref?.(); // Don't keep a process alive just for the scheduler
+      logger.info('Scheduler started', { owner, schedules: getSchedules().length, intervalSeconds: getConfig().scheduler.intervalSeconds });
+    },
+
+    stop() {
+      if (timer) clearInterval(timer);
+      timer = null;
+    },
+
+    isRunning: () => timer !== null,
+
+    async list() {
+      return Promise.all(getSchedules().map(describe));
+    },
+
+    async get(agentId) {
+      const agent = findAgent(agentId);
+      return agent ? describe(agent) : null;
+    },
+
+    pause: agentId => setPaused(agentId, true),
+    resume: agentId => setPaused(agentId, false),
+
+    async trigger(agentId) {
+      const agent = findAgent(agentId);
+      return agent ? dispatch(agent, null) : null;
+    }
+  };
+
+  return scheduler;
+}
+
+/**
+ * Check every registered cron expression; returns agent id and error for each invalid one
+ */
+export function validateSchedules(): { agentId: string; error: string }[] {
+  return getSchedules().flatMap(agent => {
+    try {
+      parseCron(agent.schedule?.cron ?? '');
+      return [];
+    } catch (error) {
+      return [{ agentId: agent.id, error: error instanceof Error ? error.message : String(error) }];
+    }
+  });
+}
+
+let shared: Scheduler | null = null;
+
+/**
+ * The shared scheduler used by /api/schedules and started at server boot
+ */
+export function getScheduler(): Scheduler {
+  shared ??= createScheduler();
+  return shared;
+}
+
+/**
+ * Start the shared scheduler unless SCHEDULER=off
+ */
+export function startScheduler(): Scheduler | null {
+  if (!getConfig().scheduler.enabled) return null;
+  for (const { agentId, error } of validateSchedules()) logger.error('Invalid schedule', { agent: agentId, error });
+  const scheduler = getScheduler();
+  scheduler.start();
+  return scheduler;
+}
+
+/**
+ * Stop and drop the shared scheduler
+ */
+export function resetScheduler(): void {
+  shared?.stop();
+  shared = null;
+}
@@ -0,0 +1,155 @@
+/**
+ * SMTP - Minimal client for sending plain-text email
+ * Speaks EHLO, STARTTLS (when the server offers it), AUTH PLAIN, MAIL, RCPT and DATA;
+ * `secure` connects with TLS from the start (port 465). Enough for relays and local fake servers.
+ */
+
+import { connect as connectTcp, type Socket } from "node:net";
+import { connect as connectTls, type TLSSocket } from "node:tls";
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  secure: boolean; // TLS from the first byte; otherwise STARTTLS is used if the server offers it
+  user?: string;
+  pass?: string;
+  timeoutMs?: number;
+  clientName?: string; // Sent with EHLO
+}
+
+export interface MailMessage {
+  from: string;
+  to: string[];
+  subject: string;
+  text: string;
+  headers?: Record<string, string>;
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+/**
+ * Build the RFC 5322 message: headers, a blank line, then the CRLF-normalised body
+ */
+export function formatMailMessage(message: MailMessage, date = new Date()): string {
+  const headers: Record<string, string> = {
+    From: message.from,
+    To: message.to.join(', '),
+    Subject: /^[\x20-\x7e]*$/.test(message.subject)
+      ? message.subject
+      : `=?UTF-8?B?${Buffer.from(message.subject).toString('base64')}?=`,
+    Date: date.toUTCString(),
+    'MIME-Version': '1.0',
+    'Content-Type': 'text/plain; charset=utf-8',
+    'Content-Transfer-Encoding': '8bit',
+    ...message.headers
+  };
+  const head = Object.entries(headers).map(([name, value]) => `${name}: ${value.replace(/[\r\n]+/g, ' ')}`);
+  return `${head.join('\r\n')}\r\n\r\n${message.text.replace(/\r?\n/g, '\r\n')}`;
+}
+
+// Reads whole replies (multi-line ones end with "code SP text") off a socket
+function createReplyReader(socket: Socket | TLSSocket) {
+  let buffer = '';
+  let lines: string[] = [];
+  const replies: SmtpReply[] = [];
+  const waiting: ((reply: SmtpReply) => void)[] = [];
+
+  const onData = (chunk: Buffer) => {
+    buffer += chunk.toString('utf8');
+    let newline: number;
+    while ((newline = buffer.indexOf('\n')) >= 0) {
+      const line = buffer.slice(0, newline).replace(/\r$/, '');
+      buffer = buffer.slice(newline + 1);
+      lines.push(line.slice(4));
+      if (line[3] !== '-') {
+        const reply = { code: Number(line.slice(0, 3)), lines };
+        lines = [];
+        const next = waiting.shift();
+        if (next) next(reply);
+        else replies.push(reply);
+      }
+    }
+  };
+  socket.on('data', onData);
+
+  return {
+    next: () => new Promise<SmtpReply>(resolve => {
+      const reply = replies.shift();
+      if (reply) resolve(reply);
+      else waiting.push(resolve);
+    }),
+    detach: () => socket.off('data', onData)
+  };
+}
+
+/**
+ * Send one message; rejects with the server's reply when a command is refused
+ */
+export async function sendMail(options: SmtpOptions, message: MailMessage): Promise<void> {
+  const timeoutMs = options.timeoutMs ?? 15_000;
+  const open = (): Promise<Socket | TLSSocket> => new Promise((resolve, reject) => {
+    const socket = options.secure
+      ? connectTls({ host: options.host, port: options.port, servername: options.host }, () => resolve(socket))
+      : connectTcp({ host: options.host, port: options.port }, () => resolve(socket));
+    socket.once('error', reject);
+  });
+
+  // Rejects when the socket errors, so a dropped connection fails the pending command
+  const watch = (target: Socket | TLSSocket): Promise<never> => {
+    const failure = new Promise<never>((_, reject) => target.once('error', reject));
+    failure.catch(() => {}); // Errors after the last command have nobody waiting
+    return failure;
+  };
+
+  let socket = await open();
+  socket.setTimeout(timeoutMs, () => socket.destroy(new Error(`SMTP timed out after ${timeoutMs}ms`)));
+  let reader = createReplyReader(socket);
+  let failed = watch(socket);
+
+  const expect = async (codes: number[], command?: string): Promise<SmtpReply> => {
+    if (command !== undefined) socket.write(`${command}\r\n`);
+    const reply = await Promise.race([reader.next(), failed]);
+    if (!codes.includes(reply.code)) {
+      const sent = command?.startsWith('AUTH') ? 'AUTH' : command?.split(' ')[0] ?? 'connect';
+      throw new Error(`SMTP ${sent} failed: ${reply.code} ${reply.lines.join(' ')}`);
+    }
+    return reply;
+  };
+
+  try {
+    await expect([220]);
+    const ehlo = `EHLO ${options.clientName ?? 'localhost'}`;
+    const features = await expect([250], ehlo);
+
+    if (!options.secure && features.lines.some(line => /^STARTTLS\b/i.test(line))) {
+      await expect([220], 'STARTTLS');
+      reader.detach();
+      socket = await new Promise<TLSSocket>((resolve, reject) => {
+        const upgraded = connectTls({ socket, servername: options.host }, () => resolve(upgraded));
+        upgraded.once('error', reject);
+      });
+      reader = createReplyReader(socket);
+      failed = watch(socket);
+      await expect([250], ehlo);
+    }
+
+    if (options.user) {
+      const credentials = Buffer.from(`\0${options.user}\0${options.pass ?? ''}`).toString('base64');
+      await expect([235], `AUTH PLAIN ${credentials}`);
+    }
+
+    await expect([250], `MAIL FROM:<${message.from.replace(/^.*<([^>]+)>.*$/, '$1')}>`);
+    for (const recipient of message.to) {
+      await expect([250, 251], `RCPT TO:<${recipient.replace(/^.*<([^>]+)>.*$/, '$1')}>`);
+    }
+    await expect([354], 'DATA');
+    // Lines starting with "." are doubled so they are not read as the end of the message
+    await expect([250], `${formatMailMessage(message).replace(/^\./gm, '..')}\r\n.`);
+    await expect([221], 'QUIT');
+  } finally {
+    socket.end();
+  }
+}
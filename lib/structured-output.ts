@@ -0,0 +1,140 @@
+/**
+ * Structured Output - Have a model fill a zod schema
+ * The schema is sent as a JSON Schema instruction, the reply is validated, and validation errors
+ * go back to the model for up to LLM_MAX_REPAIRS more tries before the caller's heuristic takes over.
+ * The result says which of those paths produced it.
+ */
+
+import { z } from "zod";
+import { getConfig } from "./config";
+import { zodToJsonSchema } from "./json-schema";
+import { parseJsonContent, type LLMClient, type LLMMessage } from "./llm";
+import { logger } from "./logger";
+import { incrementCounter } from "./metrics";
+import type { RunGeneration } from "./run-history";
+
+export interface StructuredRequest<T> {
+  name: string; // Labels the output in logs, metrics and the run history, e.g. ActionItems
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>;
+  messages: LLMMessage[]; // The task; the schema instruction is added in front
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  maxRepairs?: number; // Defaults to LLM_MAX_REPAIRS
+  fallback?: () => T | Promise<T>; // Heuristic used when the model is off, fails or never gets it right
+}
+
+export interface StructuredResult<T> {
+  value: T;
+  generation: RunGeneration;
+}
+
+// Validation errors sent back to the model per repair
+const MAX_REPORTED_ISSUES = 20;
+
+// JSON mode only promises an object, so other schemas are asked for as { "result": ... }
+function needsWrapper(schema: z.ZodTypeAny): boolean {
+  return zodToJsonSchema(schema).type !== 'object';
+}
+
+/**
+ * The system message that tells the model what shape to answer in
+ */
+export function schemaInstruction(schema: z.ZodTypeAny): string {
+  const jsonSchema = JSON.stringify(zodToJsonSchema(schema), null, 2);
+  return needsWrapper(schema)
+    ? `Reply with one JSON object of the form {"result": <value>} and nothing else, where <value> matches this JSON Schema:\n${jsonSchema}`
+    : `Reply with one JSON object and nothing else. It must match this JSON Schema:\n${jsonSchema}`;
+}
+
+function formatIssues(error: z.ZodError): string[] {
+  const issues = error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+  return issues.length > MAX_REPORTED_ISSUES
+    ? [...issues.slice(0, MAX_REPORTED_ISSUES), `...and ${issues.length - MAX_REPORTED_ISSUES} more`]
+    : issues;
+}
+
+// Validate one reply; returns the value or the problems to report back
+function check<T>(content: string, schema: z.ZodType<T, z.ZodTypeDef, unknown>, wrapped: boolean): { value: T } | { errors: string[] } {
+  let parsed: unknown;
+  try {
+    parsed = parseJsonContent(content);
+  } catch (error) {
+    return { errors: [error instanceof Error ? error.message : String(error)] };
+  }
+
+  if (wrapped && parsed && typeof parsed === 'object' && 'result' in parsed) {
+    parsed = (parsed as { result: unknown }).result;
+  }
+  const result = schema.safeParse(parsed);
+  return result.success ? { value: result.data } : { errors: formatIssues(result.error) };
+}
+
+/**
+ * Ask for structured output, repairing invalid replies and falling back to `request.fallback`
+ * Throws when there is no fallback and no valid reply, and when the signal aborts.
+ */
+export async function generateStructured<T>(
+  client: LLMClient,
+  request: StructuredRequest<T>,
+  context: { agentId?: string; requestId?: string; signal?: AbortSignal } = {}
+): Promise<StructuredResult<T>> {
+  const { name, schema } = request;
+  const maxRepairs = request.maxRepairs ?? getConfig().llm.maxRepairs;
+  const wrapped = needsWrapper(schema);
+  const messages: LLMMessage[] = [{ role: 'system', content: schemaInstruction(schema) }, ...request.messages];
+  const errors: string[] = [];
+  let attempts = 0;
+  let model: string | undefined;
+
+  const finish = (value: T, source: RunGeneration['source']): StructuredResult<T> => {
+    const generation: RunGeneration = {
+      name,
+      source,
+      attempts,
+      ...(model && { model }),
+      ...(errors.length > 0 && { errors })
+    };
+    incrementCounter('structured_outputs_total', { agent: context.agentId ?? 'none', source });
+    logger.info('Structured output produced', { agentId: context.agentId, requestId: context.requestId, ...generation });
+    return { value, generation };
+  };
+
+  if (client.enabled) {
+    while (attempts <= maxRepairs) {
+      attempts += 1;
+      let content: string;
+      try {
+        const response = await client.chat({
+          messages,
+          responseFormat: 'json',
+          ...(request.model && { model: request.model }),
+          ...(request.temperature !== undefined && { temperature: request.temperature }),
+          ...(request.maxTokens !== undefined && { maxTokens: request.maxTokens }),
+          ...(context.signal && { signal: context.signal })
+        });
+        model = response.model;
+        content = response.content;
+      } catch (error) {
+        context.signal?.throwIfAborted();
+        // The provider has already retried; asking again will not help
+        errors.push(error instanceof Error ? error.message : String(error));
+        break;
+      }
+
+      const result = check(content, schema, wrapped);
+      if ('value' in result) return finish(result.value, attempts === 1 ? 'model' : 'repaired');
+
+      errors.push(...result.errors.map(error => `attempt ${attempts}: ${error}`));
+      messages.push(
+        { role: 'assistant', content },
+        { role: 'user', content: `That reply does not match the schema:\n${result.errors.map(error => `- ${error}`).join('\n')}\nReply again with the corrected JSON only.` }
+      );
+    }
+  }
+
+  if (!request.fallback) {
+    throw new Error(`No valid ${name} after ${attempts} model attempt(s)${errors.length ? `: ${errors.join('; ')}` : ''}`);
+  }
+  return finish(await request.fallback(), 'fallback');
+}
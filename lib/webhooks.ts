@@ -0,0 +1,286 @@
+/**
+ * Webhooks - Signed notifications to downstream systems when agent runs finish
+ * Subscriptions come from WEBHOOKS. Each event is POSTed as JSON with an HMAC-SHA256 signature
+ * over the timestamp and body; failed deliveries are retried with exponential backoff and end in
+ * the dead-letter list. Deliveries are kept in memory on the instance that sent them.
+ */
+
+import { createHmac, randomUUID, timingSafeEqual } from "node:crypto";
+import { getConfig, type WebhookSubscription } from "./config";
+import { logger } from "./logger";
+import { incrementCounter } from "./metrics";
+
+// run.succeeded and run.failed come from every registered agent run; webhook.test from the test endpoint
+export type WebhookEventType = 'run.succeeded' | 'run.failed' | 'webhook.test';
+
+export interface WebhookEvent {
+  id: string; // Same on every retry, so receivers can drop duplicates
+  type: WebhookEventType;
+  agentId?: string;
+  createdAt: string;
+  data: Record<string, unknown>;
+}
+
+// failed: a test delivery that did not get through (tests are never retried or dead-lettered)
+export type WebhookDeliveryStatus = 'pending' | 'retrying' | 'delivered' | 'failed' | 'dead';
+
+export interface WebhookAttempt {
+  attempt: number;
+  at: string;
+  httpStatus?: number;
+  error?: string; // Network error, timeout or non-2xx status
+  durationMs: number;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  webhookId: string;
+  event: WebhookEvent;
+  status: WebhookDeliveryStatus;
+  attempts: WebhookAttempt[];
+  nextAttemptAt?: string;
+  createdAt: string;
+  deliveredAt?: string;
+}
+
+export type PublicWebhook = Omit<WebhookSubscription, 'secret'>;
+
+interface DeliveryEntry {
+  delivery: WebhookDelivery;
+  subscription: WebhookSubscription;
+  timer?: ReturnType<typeof setTimeout>;
+  done: Promise<void>;
+  finish: () => void;
+}
+
+export const SIGNATURE_HEADER = 'X-Webhook-Signature';
+export const TIMESTAMP_HEADER = 'X-Webhook-Timestamp';
+
+// Finished deliveries kept for the delivery log; dead letters are kept separately up to the same count
+const MAX_DELIVERIES = 1000;
+
+const deliveries = new Map<string, DeliveryEntry>();
+
+/**
+ * Configured subscriptions, secrets included
+ */
+export function getWebhooks(): WebhookSubscription[] {
+  return getConfig().webhooks.subscriptions;
+}
+
+/**
+ * A subscription without its secret, for API responses
+ */
+export function toPublicWebhook(webhook: WebhookSubscription): PublicWebhook {
+  const copy: Partial<WebhookSubscription> = { ...webhook };
+  delete copy.secret;
+  return copy as PublicWebhook;
+}
+
+/**
+ * Hex HMAC-SHA256 of "{timestamp}.{body}"
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+/**
+ * Check a delivery on the receiving side: the signature header must match the body and the
+ * timestamp (seconds) must be within `toleranceSeconds` of now, which stops replays of old deliveries
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  body: string,
+  headers: { signature: string | null; timestamp: string | null },
+  toleranceSeconds = 300,
+  now = Date.now()
+): boolean {
+  const timestamp = Number(headers.timestamp);
+  const signature = headers.signature?.replace(/^sha256=/, '') ?? '';
+  if (!Number.isInteger(timestamp) || Math.abs(now / 1000 - timestamp) > toleranceSeconds) return false;
+
+  const expected = Buffer.from(signWebhookPayload(secret, timestamp, body), 'hex');
+  const received = Buffer.from(signature, 'hex');
+  return received.length === expected.length && timingSafeEqual(received, expected);
+}
+
+function matches(subscription: WebhookSubscription, event: WebhookEvent): boolean {
+  if (!subscription.enabled) return false;
+  if (subscription.events && !subscription.events.includes(event.type)) return false;
+  return !subscription.agents || (event.agentId !== undefined && subscription.agents.includes(event.agentId));
+}
+
+function pruneDeliveries(): void {
+  const finished = Array.from(deliveries.values()).filter(entry => ['delivered', 'failed'].includes(entry.delivery.status));
+  const dead = Array.from(deliveries.values()).filter(entry => entry.delivery.status === 'dead');
+  for (const list of [finished, dead]) {
+    for (const entry of list.slice(0, Math.max(0, list.length - MAX_DELIVERIES))) deliveries.delete(entry.delivery.id);
+  }
+}
+
+// One POST; never throws
+async function attempt(entry: DeliveryEntry): Promise<WebhookAttempt> {
+  const { delivery, subscription } = entry;
+  const body = JSON.stringify(delivery.event);
+  const timestamp = Math.floor(Date.now() / 1000);
+  const started = Date.now();
+  const result: WebhookAttempt = { attempt: delivery.attempts.length + 1, at: new Date(started).toISOString(), durationMs: 0 };
+
+  try {
+    const response = await fetch(subscription.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'agents-starter-webhooks',
+        'X-Webhook-Id': delivery.event.id,
+        'X-Webhook-Event': delivery.event.type,
+        [TIMESTAMP_HEADER]: String(timestamp),
+        [SIGNATURE_HEADER]: `sha256=${signWebhookPayload(subscription.secret, timestamp, body)}`
+      },
+      body,
+      signal: AbortSignal.timeout(getConfig().webhooks.timeoutMs)
+    });
+    result.httpStatus = response.status;
+    if (!response.ok) result.error = `HTTP ${response.status}`;
+    await response.body?.cancel(); // The receiver's reply is not used
+  } catch (error) {
+    result.error = error instanceof Error ? error.message : String(error);
+  }
+
+  result.durationMs = Date.now() - started;
+  delivery.attempts.push(result);
+  return result;
+}
+
+async function deliver(entry: DeliveryEntry, retries = true): Promise<void> {
+  const { delivery } = entry;
+  entry.timer = undefined;
+  const result = await attempt(entry);
+  // The delivery may have been dropped by resetWebhooks() while the request was in flight
+  if (!deliveries.has(delivery.id)) return;
+
+  const fields = { webhook: delivery.webhookId, deliveryId: delivery.id, event: delivery.event.type, attempt: result.attempt };
+  if (!result.error) {
+    delivery.status = 'delivered';
+    delivery.deliveredAt = new Date().toISOString();
+    delete delivery.nextAttemptAt;
+    incrementCounter('webhook_deliveries_total', { webhook: delivery.webhookId, outcome: 'delivered' });
+    logger.info('Webhook delivered', { ...fields, httpStatus: result.httpStatus, durationMs: result.durationMs });
+    entry.finish();
+    return;
+  }
+
+  if (!retries) {
+    delivery.status = 'failed';
+    entry.finish();
+    return;
+  }
+
+  const { maxAttempts, retryBaseMs } = getConfig().webhooks;
+  if (result.attempt >= maxAttempts) {
+    delivery.status = 'dead';
+    delete delivery.nextAttemptAt;
+    incrementCounter('webhook_deliveries_total', { webhook: delivery.webhookId, outcome: 'dead' });
+    logger.error('Webhook delivery failed for good', { ...fields, error: result.error });
+    entry.finish();
+    return;
+  }
+
+  const delayMs = retryBaseMs * 2 ** (result.attempt - 1);
+  delivery.status = 'retrying';
+  delivery.nextAttemptAt = new Date(Date.now() + delayMs).toISOString();
+  incrementCounter('webhook_deliveries_total', { webhook: delivery.webhookId, outcome: 'retry' });
+  logger.warn('Webhook delivery failed; retrying', { ...fields, error: result.error, delayMs });
+  entry.timer = setTimeout(() => void deliver(entry), delayMs);
+  entry.timer.unref?.();
+}
+
+function createDelivery(subscription: WebhookSubscription, event: WebhookEvent): DeliveryEntry {
+  let finish = () => {};
+  const done = new Promise<void>(resolve => { finish = resolve; });
+  const entry: DeliveryEntry = {
+    delivery: {
+      id: `dlv_${randomUUID().replace(/-/g, '').slice(0, 16)}`,
+      webhookId: subscription.id,
+      event,
+      status: 'pending',
+      attempts: [],
+      createdAt: new Date().toISOString()
+    },
+    subscription,
+    done,
+    finish
+  };
+  deliveries.set(entry.delivery.id, entry);
+  return entry;
+}
+
+function createEvent(type: WebhookEventType, data: Record<string, unknown>, agentId?: string): WebhookEvent {
+  return {
+    id: `evt_${randomUUID().replace(/-/g, '').slice(0, 16)}`,
+    type,
+    ...(agentId && { agentId }),
+    createdAt: new Date().toISOString(),
+    data
+  };
+}
+
+/**
+ * Send an event to every matching subscription in the background; returns the new deliveries
+ */
+export function publishWebhookEvent(type: WebhookEventType, data: Record<string, unknown>, agentId?: string): WebhookDelivery[] {
+  const event = createEvent(type, data, agentId);
+  const targets = getWebhooks().filter(subscription => matches(subscription, event));
+  if (targets.length === 0) return [];
+
+  pruneDeliveries();
+  return targets.map(subscription => {
+    const entry = createDelivery(subscription, event);
+    void deliver(entry);
+    return entry.delivery;
+  });
+}
+
+/**
+ * Send a webhook.test event to one subscription, once and without retries (enabled or not)
+ * Resolves with the finished delivery; null for unknown ids.
+ */
+export async function testWebhook(id: string): Promise<WebhookDelivery | null> {
+  const subscription = getWebhooks().find(webhook => webhook.id === id);
+  if (!subscription) return null;
+
+  const entry = createDelivery(subscription, createEvent('webhook.test', { message: `Test delivery for webhook '${id}'` }));
+  await deliver(entry, false);
+  return entry.delivery;
+}
+
+/**
+ * Deliveries newest first, optionally for one webhook or in one status ('dead' is the dead-letter list)
+ */
+export function listWebhookDeliveries(filter: { webhookId?: string; status?: WebhookDeliveryStatus } = {}): WebhookDelivery[] {
+  return Array.from(deliveries.values())
+    .map(entry => entry.delivery)
+    .filter(delivery => (!filter.webhookId || delivery.webhookId === filter.webhookId) && (!filter.status || delivery.status === filter.status))
+    .reverse();
+}
+
+/**
+ * Resolve once a delivery is delivered or dead; null for unknown ids
+ */
+export async function waitForDelivery(id: string): Promise<WebhookDelivery | null> {
+  const entry = deliveries.get(id);
+  if (!entry) return null;
+  await entry.done;
+  return entry.delivery;
+}
+
+/**
+ * Cancel pending retries and forget every delivery
+ */
+export function resetWebhooks(): void {
+  for (const entry of Array.from(deliveries.values())) {
+    if (entry.timer) clearTimeout(entry.timer);
+    entry.finish();
+  }
+  deliveries.clear();
+}
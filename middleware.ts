@@ -0,0 +1,75 @@
+/**
+ * API Middleware - CORS and the credentials gate for /api routes
+ * Runs in the edge runtime, so it only checks that a bearer key is present; lib/api-auth.ts
+ * verifies the key and its scopes inside each route, and both map routes to permissions with
+ * lib/route-access.ts. Reads process.env directly because lib/config.ts depends on Node APIs
+ * the edge runtime lacks.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { resolveRouteAccess } from "@/lib/route-access";
+
+const ALLOWED_METHODS = 'GET, POST, DELETE, OPTIONS';
+const ALLOWED_HEADERS = 'Authorization, Content-Type, X-Request-Id, X-Response-Format';
+
+// Probes from CI and orchestrators and the API docs need no credentials
+const PUBLIC_PATHS = ['/api/health', '/api/ready', '/api/openapi.json', '/api/docs'];
+
+function corsHeaders(req: NextRequest): Record<string, string> {
+  const origin = req.headers.get('origin');
+  const allowed = (process.env.API_CORS_ORIGINS || '').split(',').map(item => item.trim()).filter(Boolean);
+
+  if (!origin || !(allowed.includes('*') || allowed.includes(origin))) return {};
+  return {
+    'Access-Control-Allow-Origin': allowed.includes('*') ? '*' : origin,
+    'Access-Control-Allow-Methods': ALLOWED_METHODS,
+    'Access-Control-Allow-Headers': ALLOWED_HEADERS,
+    Vary: 'Origin'
+  };
+}
+
+function requiresKey(req: NextRequest): boolean {
+  if (PUBLIC_PATHS.includes(req.nextUrl.pathname)) return false;
+  if (resolveRouteAccess(req.nextUrl.pathname, req.method).permission === 'admin') return true;
+  return ['1', 'true', 'yes'].includes((process.env.API_AUTH || '').toLowerCase());
+}
+
+export function middleware(req: NextRequest) {
+  const cors = corsHeaders(req);
+
+  if (req.method === 'OPTIONS') {
+    return new NextResponse(null, { status: 204, headers: cors });
+  }
+
+  if (requiresKey(req) && !/^Bearer\s+\S+/i.test(req.headers.get('authorization') || '')) {
+    const requestId = req.headers.get('x-request-id') || `req_${crypto.randomUUID().replace(/-/g, '').slice(0, 16)}`;
+    const message = 'Missing API key. Send Authorization: Bearer <key>';
+    const legacy = (req.headers.get('x-response-format') || process.env.API_RESPONSE_FORMAT) === 'legacy';
+
+    return NextResponse.json(
+      legacy
+        ? { error: message }
+        : {
+            success: false,
+            error: { code: 'AUTHENTICATION_ERROR', message },
+            meta: {
+              timestamp: new Date().toISOString(),
+              processing_time_ms: 0,
+              request_id: requestId,
+              version: process.env.API_VERSION || '1.0.0'
+            }
+          },
+      { status: 401, headers: { ...cors, 'WWW-Authenticate': 'Bearer', 'X-Request-Id': requestId } }
+    );
+  }
+
+  const response = NextResponse.next();
+  for (const [name, value] of Object.entries(cors)) {
+    response.headers.set(name, value);
+  }
+  return response;
+}
+
+export const config = {
+  matcher: '/api/:path*'
+};
@@ -5,6 +5,10 @@ const nextConfig = {
   },
   typescript: {
     ignoreBuildErrors: false
+  },
+  experimental: {
+    // Runs instrumentation.ts at startup to validate configuration
+    instrumentationHook: true
   }
 };
 
@@ -0,0 +1,101 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { NextRequest } from 'next/server';
+import { getImplementedAgents } from '@/lib/agent-registry';
+import { AGENT_IMPLEMENTATIONS } from '@/lib/agents';
+import { invokeAgent } from '@/lib/agent-runtime';
+import { createAgentRoute } from '@/lib/agent-routes';
+import { resetConfig } from '@/lib/config';
+
+describe('Agent runtime', () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    // Agents must never call back into the app over HTTP
+    vi.stubGlobal('fetch', fetchMock);
+    vi.stubEnv('DATA_OFFLINE', 'true');
+    resetConfig();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.unstubAllEnvs();
+    resetConfig();
+  });
+
+  it('has an implementation for every implemented registry agent', () => {
+    for (const agent of getImplementedAgents()) {
+      expect(AGENT_IMPLEMENTATIONS[agent.id], agent.id).toBeDefined();
+    }
+  });
+
+  it('runs meeting-actions in-process', async () => {
+    const result = await invokeAgent('meeting-actions', {});
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.output.map((item: any) => item.title)).toEqual(['Prepare pricing sheet', 'Update pitch deck', 'schedule beta calls']);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('runs invoice-anomalies and seo-pages against seed data', async () => {
+    const invoices = await invokeAgent('invoice-anomalies', {});
+    expect(invoices).toMatchObject({ success: true, output: { totalInvoices: 5 } });
+
+    const seo = await invokeAgent('seo-pages', {});
+    expect(seo.success && seo.output.count).toBeGreaterThan(0);
+  });
+
+  it('summarizes tickets for support-brief', async () => {
+    const root = mkdtempSync(join(tmpdir(), 'support-brief-'));
+    mkdirSync(join(root, 'day21_Support_Summarizer_and_Router'));
+    writeFileSync(
+      join(root, 'day21_Support_Summarizer_and_Router', 'zendesk_tickets.json'),
+      JSON.stringify([{ id: 1, subject: 'Billing issue', priority: 'high', comments: ['Charged twice', 'Refund requested'] }])
+    );
+    vi.stubEnv('SEED_ROOTS', root);
+    resetConfig();
+
+    try {
+      const result = await invokeAgent('support-brief', {});
+      expect(result).toMatchObject({
+        success: true,
+        output: { issue: 'Billing issue', severity: 'high', steps_tried: 'Charged twice; Refund requested', next_action: 'Route to Billing' }
+      });
+
+      // Tickets may carry a title instead of a subject
+      writeFileSync(join(root, 'day21_Support_Summarizer_and_Router', 'zendesk_tickets.json'), JSON.stringify([{ id: 2, title: 'Export times out' }]));
+      expect(await invokeAgent('support-brief', {})).toMatchObject({
+        success: true,
+        output: { issue: 'Export times out', severity: 'medium', steps_tried: 'n/a', next_action: 'Ask for logs' }
+      });
+    } finally {
+      rmSync(root, { recursive: true, force: true });
+    }
+  });
+
+  it('rejects invalid input and unknown or unimplemented agents', async () => {
+    expect(await invokeAgent('meeting-actions', { path: 42 })).toMatchObject({ success: false, status: 400, error: 'Invalid agent input' });
+    // Agents never read caller-supplied file paths
+    expect(await invokeAgent('support-brief', { path: '/etc/passwd' })).toMatchObject({ success: false, status: 400, error: 'Invalid agent input' });
+    expect(await invokeAgent('no-such-agent', {})).toMatchObject({ success: false, status: 404 });
+    expect(await invokeAgent('expense-parser', {})).toMatchObject({ success: false, status: 501 });
+  });
+
+  it('serves agents through generated route handlers', async () => {
+    const GET = createAgentRoute('seo-pages');
+    const res = await GET(new NextRequest('http://localhost/api/seo-pages?offline=true'));
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get('X-Agent-Duration-Ms')).toMatch(/^\d+$/);
+    const body = await res.json();
+    expect(body).toMatchObject({ success: true, meta: { agent: 'seo-pages' } });
+    expect(body.data.urls.length).toBeGreaterThan(0);
+
+    const bad = await GET(new NextRequest('http://localhost/api/seo-pages?policy=sometimes'));
+    expect(bad.status).toBe(400);
+    expect((await bad.json()).error.code).toBe('VALIDATION_ERROR');
+  });
+});
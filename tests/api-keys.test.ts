@@ -0,0 +1,178 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync, statSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { NextRequest, NextResponse } from 'next/server';
+import { hasApiScope, listApiKeys, mintApiKey, resetApiKeyStore, revokeApiKey, verifyApiKey } from '@/lib/api-keys';
+import { authorizeRequest, getRouteAccess, withApiAuth, type ApiAuth, type AuthContext } from '@/lib/api-auth';
+import { resetConfig } from '@/lib/config';
+import { middleware } from '../middleware';
+
+const ADMIN_TOKEN = 'admin-token-0123456789';
+
+function request(path: string, { method = 'GET', key }: { method?: string; key?: string } = {}) {
+  return new NextRequest(`http://localhost:3000${path}`, {
+    method,
+    headers: key ? { Authorization: `Bearer ${key}` } : {}
+  });
+}
+
+describe('API keys', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'api-keys-'));
+    vi.stubEnv('API_KEYS_FILE', join(dir, 'keys.json'));
+    vi.stubEnv('API_ADMIN_TOKEN', ADMIN_TOKEN);
+    resetConfig();
+    resetApiKeyStore();
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    resetConfig();
+    resetApiKeyStore();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('stores only the hash and verifies until revoked', () => {
+    const { key, record } = mintApiKey({ name: 'ci', permissions: ['read'] });
+    const stored = readFileSync(join(dir, 'keys.json'), 'utf8');
+
+    expect(key).toMatch(/^ak_/);
+    expect(stored).not.toContain(key);
+    expect(statSync(join(dir, 'keys.json')).mode & 0o777).toBe(0o600);
+    expect(listApiKeys()[0]).not.toHaveProperty('hash');
+
+    resetApiKeyStore(); // Read back from disk
+    expect(verifyApiKey(key)).toMatchObject({ valid: true, key: { id: record.id } });
+
+    revokeApiKey(record.id);
+    expect(verifyApiKey(key)).toEqual({ valid: false, reason: 'API key has been revoked' });
+    expect(revokeApiKey('key_missing')).toBeNull();
+  });
+
+  it('rejects expired and unknown keys', () => {
+    const { key } = mintApiKey({ name: 'old', permissions: ['read'], expiresAt: '2020-01-01T00:00:00Z' });
+
+    expect(verifyApiKey(key)).toEqual({ valid: false, reason: 'API key has expired' });
+    expect(verifyApiKey('ak_nope').valid).toBe(false);
+    expect(verifyApiKey('nope')).toEqual({ valid: false, reason: 'Malformed API key' });
+  });
+
+  it('scopes permissions by agent id or category', () => {
+    const invoice = { id: 'invoice-anomalies', category: 'Financial' };
+    const meeting = { id: 'meeting-actions', category: 'Productivity' };
+
+    expect(hasApiScope({ permissions: ['run'], categories: ['Financial'] }, 'read', invoice)).toBe(true);
+    expect(hasApiScope({ permissions: ['run'], categories: ['Financial'] }, 'run', meeting)).toBe(false);
+    expect(hasApiScope({ permissions: ['read'], agents: ['meeting-actions'] }, 'run', meeting)).toBe(false);
+    expect(hasApiScope({ permissions: ['admin'] }, 'run', meeting)).toBe(true);
+  });
+
+  it('maps routes to the permission they need', () => {
+    expect(getRouteAccess('/api/agents', 'GET')).toEqual({ permission: 'read' });
+    expect(getRouteAccess('/api/agents/registry/check', 'GET')).toEqual({ permission: 'read' });
+    expect(getRouteAccess('/api/agents/seo-pages/run', 'GET')).toEqual({ permission: 'run', agentId: 'seo-pages' });
+    expect(getRouteAccess('/api/github/seo-pages', 'GET')).toEqual({ permission: 'read', agentId: 'seo-pages' });
+    expect(getRouteAccess('/api/invoice-anomalies', 'POST')).toEqual({ permission: 'run', agentId: 'invoice-anomalies' });
+    expect(getRouteAccess('/api/github/cache', 'DELETE')).toEqual({ permission: 'admin' });
+    expect(getRouteAccess('/api/admin/keys', 'GET')).toEqual({ permission: 'admin' });
+    expect(getRouteAccess('/api/schedules/compliance-calendar/pause', 'POST')).toEqual({ permission: 'admin' });
+    expect(getRouteAccess('/api/webhooks/erp/test', 'POST')).toEqual({ permission: 'admin' });
+    expect(getRouteAccess('/api/outbox', 'DELETE')).toEqual({ permission: 'admin' });
+    expect(getRouteAccess('/api/schedules/compliance-calendar/trigger', 'POST')).toEqual({ permission: 'run', agentId: 'compliance-calendar' });
+    expect(getRouteAccess('/api/prompts/meeting-actions/extract/preview', 'POST')).toEqual({ permission: 'read', agentId: 'meeting-actions' });
+  });
+
+  it('leaves non-admin routes open unless API_AUTH is set', async () => {
+    expect(authorizeRequest(request('/api/agents/invoice-anomalies/run', { method: 'POST' }))).toBeNull();
+
+    const res = authorizeRequest(request('/api/admin/keys'));
+    expect(res?.status).toBe(401);
+    expect(res?.headers.get('WWW-Authenticate')).toBe('Bearer');
+    expect(authorizeRequest(request('/api/admin/keys', { key: ADMIN_TOKEN }))).toBeNull();
+  });
+
+  it('requires a key on admin-permission routes outside /api/admin even with API_AUTH off', () => {
+    expect(authorizeRequest(request('/api/webhooks'))?.status).toBe(401);
+    expect(authorizeRequest(request('/api/outbox', { method: 'DELETE' }))?.status).toBe(401);
+    expect(authorizeRequest(request('/api/github/cache', { method: 'DELETE' }))?.status).toBe(401);
+    expect(authorizeRequest(request('/api/schedules/compliance-calendar/pause', { method: 'POST' }))?.status).toBe(401);
+    expect(authorizeRequest(request('/api/outbox', { method: 'DELETE', key: ADMIN_TOKEN }))).toBeNull();
+    expect(authorizeRequest(request('/api/outbox'))).toBeNull();
+  });
+
+  it('answers 401 and 403 in the standard error shape when API_AUTH is set', async () => {
+    vi.stubEnv('API_AUTH', 'true');
+    resetConfig();
+    const { key } = mintApiKey({ name: 'finance', permissions: ['run'], categories: ['Financial'] });
+
+    const missing = authorizeRequest(request('/api/agents'));
+    expect(missing?.status).toBe(401);
+    expect(await missing?.json()).toMatchObject({ success: false, error: { code: 'AUTHENTICATION_ERROR' } });
+
+    expect(authorizeRequest(request('/api/invoice-anomalies', { method: 'POST', key }))).toBeNull();
+    expect(authorizeRequest(request('/api/agents/invoice-anomalies/data', { key }))).toBeNull();
+
+    const forbidden = authorizeRequest(request('/api/meeting-actions', { method: 'POST', key }));
+    expect(forbidden?.status).toBe(403);
+    expect(await forbidden?.json()).toMatchObject({
+      error: {
+        code: 'FORBIDDEN',
+        details: { required: { permission: 'run', agentId: 'meeting-actions' }, granted: { categories: ['Financial'] } }
+      }
+    });
+
+    // The admin token is only accepted on admin routes
+    expect(authorizeRequest(request('/api/agents', { key: ADMIN_TOKEN }))?.status).toBe(401);
+    expect(authorizeRequest(request('/api/admin/keys', { key }))?.status).toBe(403);
+  });
+
+  it('hands the verified caller to wrapped handlers', async () => {
+    vi.stubEnv('API_AUTH', 'true');
+    resetConfig();
+    const { key, record } = mintApiKey({ name: 'reader', permissions: ['read'] });
+    let seen: ApiAuth | undefined;
+    const route = withApiAuth(async (_req: NextRequest, { auth }: AuthContext) => {
+      seen = auth;
+      return NextResponse.json({ ok: true });
+    });
+
+    expect((await route(request('/api/runs', { key }), {})).status).toBe(200);
+    expect(seen).toMatchObject({ access: { permission: 'read' }, key: { id: record.id } });
+  });
+});
+
+describe('API middleware', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('only allows configured CORS origins', () => {
+    vi.stubEnv('API_CORS_ORIGINS', 'https://dashboard.example.com');
+    const preflight = (origin: string) => middleware(new NextRequest('http://localhost:3000/api/github/seo-pages', {
+      method: 'OPTIONS',
+      headers: { Origin: origin }
+    }));
+
+    expect(preflight('https://dashboard.example.com').headers.get('Access-Control-Allow-Origin')).toBe('https://dashboard.example.com');
+    expect(preflight('https://evil.example.com').headers.get('Access-Control-Allow-Origin')).toBeNull();
+  });
+
+  it('rejects requests without a bearer key when required', async () => {
+    expect(middleware(request('/api/agents')).status).toBe(200);
+    expect(middleware(request('/api/admin/keys')).status).toBe(401);
+    expect(middleware(request('/api/webhooks/erp/test', { method: 'POST' })).status).toBe(401);
+    expect(middleware(request('/api/outbox', { method: 'DELETE' })).status).toBe(401);
+    expect(middleware(request('/api/schedules/compliance-calendar/resume/', { method: 'POST' })).status).toBe(401);
+    expect(middleware(request('/api/outbox')).status).toBe(200);
+
+    vi.stubEnv('API_AUTH', 'true');
+    const res = middleware(request('/api/agents'));
+    expect(res.status).toBe(401);
+    expect(await res.json()).toMatchObject({ success: false, error: { code: 'AUTHENTICATION_ERROR' } });
+    expect(middleware(request('/api/agents', { key: 'ak_anything' })).status).toBe(200);
+    expect(middleware(request('/api/health')).status).toBe(200);
+  });
+});
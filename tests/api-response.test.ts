@@ -0,0 +1,53 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { ERROR_CODES, createApiResponder } from '@/lib/api-response';
+import { resetConfig } from '@/lib/config';
+
+describe('API response envelope', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    resetConfig();
+  });
+
+  it('wraps data with timing, version, agent and request id', async () => {
+    const api = createApiResponder(new Request('http://localhost/api/seo-pages', { headers: { 'X-Request-Id': 'req_abc' } }), { agent: 'seo-pages' });
+    const res = api.ok({ count: 2 });
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get('X-Request-Id')).toBe('req_abc');
+    expect(await res.json()).toEqual({
+      success: true,
+      data: { count: 2 },
+      meta: {
+        timestamp: expect.any(String),
+        processing_time_ms: expect.any(Number),
+        request_id: 'req_abc',
+        version: '1.0.0',
+        agent: 'seo-pages'
+      }
+    });
+  });
+
+  it('maps error codes to their HTTP status', async () => {
+    const api = createApiResponder();
+    const res = api.error('AGENT_NOT_FOUND', "Agent 'nope' not found");
+
+    expect(res.status).toBe(ERROR_CODES.AGENT_NOT_FOUND.status);
+    expect(await res.json()).toMatchObject({
+      success: false,
+      error: { code: 'AGENT_NOT_FOUND', message: "Agent 'nope' not found" },
+      meta: { request_id: expect.stringMatching(/^req_/) }
+    });
+    expect(api.error('DATA_INVALID', 'bad', undefined, { status: 400 }).status).toBe(400);
+  });
+
+  it('returns the legacy shapes when asked', async () => {
+    const legacy = createApiResponder(new Request('http://localhost/api/meeting-actions', { headers: { 'X-Response-Format': 'legacy' } }));
+    expect(await legacy.ok([{ owner: 'Mina' }]).json()).toEqual([{ owner: 'Mina' }]);
+    expect(await legacy.error('DATA_NOT_FOUND', 'missing', { source: 'not-found' }).json()).toEqual({ error: 'missing', source: 'not-found' });
+
+    vi.stubEnv('API_RESPONSE_FORMAT', 'legacy');
+    resetConfig();
+    expect(createApiResponder(new Request('http://localhost/api/agents')).format).toBe('legacy');
+    expect(createApiResponder(new Request('http://localhost/api/agents?response_format=envelope')).format).toBe('envelope');
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { loadConfig, getDataRootPaths, getSeedRoot } from '@/lib/config';
+
+describe('Configuration', () => {
+  it('uses SEED_ROOT ahead of the historical data roots', () => {
+    const config = loadConfig({ SEED_ROOT: 'data/custom-pack/' });
+
+    expect(config.dataRoots).toEqual([
+      'data/custom-pack',
+      '/tmp/agents-seed-pack-full',
+      '/mnt/data/agents-seed-pack-full'
+    ]);
+    expect(config.fallbackPolicy).toBe('allow-mock');
+    expect(config.github).toMatchObject({
+      owner: 'indranilbanerjee',
+      repo: 'hackathon-agents-starter',
+      branch: 'main',
+      basePath: 'data/agents-seed-pack-full'
+    });
+  });
+
+  it('reads an ordered list of roots and GitHub settings for forks', () => {
+    const config = loadConfig({
+      SEED_ROOTS: '/srv/seed, ./data/agents-seed-pack-full',
+      GITHUB_OWNER: 'my-org',
+      GITHUB_REPO: 'agents-fork',
+      GITHUB_BRANCH: 'feature/data',
+      GITHUB_BASE_PATH: '/seed/',
+      GITHUB_TOKEN: 'ghp_test',
+      DATA_FALLBACK_POLICY: 'local-only'
+    });
+
+    expect(config.dataRoots).toEqual(['/srv/seed', './data/agents-seed-pack-full']);
+    expect(config.github).toEqual({
+      owner: 'my-org',
+      repo: 'agents-fork',
+      branch: 'feature/data',
+      basePath: 'seed',
+      token: 'ghp_test'
+    });
+    expect(config.fallbackPolicy).toBe('local-only');
+    expect(getDataRootPaths('day01_Test/data.json', config)).toEqual([
+      '/srv/seed/day01_Test/data.json',
+      './data/agents-seed-pack-full/day01_Test/data.json'
+    ]);
+  });
+
+  it('rejects invalid values with the offending setting', () => {
+    expect(() => loadConfig({ DATA_FALLBACK_POLICY: 'sometimes' })).toThrow(/fallbackPolicy/);
+    expect(() => loadConfig({ GITHUB_OWNER: 'bad owner' })).toThrow(/github\.owner/);
+    expect(() => loadConfig({ LFS_MEDIA_URL: 'not-a-url' })).toThrow(/Invalid configuration/);
+  });
+
+  it('reads GitHub cache settings', () => {
+    expect(loadConfig({}).githubCache).toMatchObject({ ttlSeconds: 300, staleSeconds: 86400 });
+    expect(loadConfig({ GITHUB_CACHE_TTL: '60', GITHUB_CACHE_DIR: 'off' }).githubCache)
+      .toEqual({ ttlSeconds: 60, staleSeconds: 86400, dir: null });
+    expect(() => loadConfig({ GITHUB_CACHE_TTL: 'soon' })).toThrow(/githubCache\.ttlSeconds/);
+  });
+
+  it('picks the first data root that exists', () => {
+    const config = loadConfig({ SEED_ROOTS: '/nonexistent/seed,/tmp' });
+    expect(getSeedRoot(config)).toBe('/tmp');
+  });
+});
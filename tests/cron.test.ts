@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { listCronTimes, nextCronTime, parseCron } from '@/lib/cron';
+
+const at = (iso: string) => Date.parse(iso);
+const iso = (time: number | null) => time === null ? null : new Date(time).toISOString();
+
+describe('Cron', () => {
+  it('parses lists, ranges, steps, names and shorthands', () => {
+    expect(parseCron('*/15 9-17 * * 1-5')).toMatchObject({ minutes: [0, 15, 30, 45], hours: [9, 10, 11, 12, 13, 14, 15, 16, 17], daysOfWeek: [1, 2, 3, 4, 5] });
+    expect(parseCron('0 0 1,15 jan-mar SUN,7')).toMatchObject({ daysOfMonth: [1, 15], months: [1, 2, 3], daysOfWeek: [0] });
+    expect(parseCron('5/20 * * * *').minutes).toEqual([5, 25, 45]);
+    expect(parseCron('@daily')).toMatchObject({ minutes: [0], hours: [0], anyDayOfMonth: true, anyDayOfWeek: true });
+  });
+
+  it('rejects malformed expressions with the offending field', () => {
+    expect(() => parseCron('0 9 * *')).toThrow("Invalid cron expression '0 9 * *': expected 5 fields, got 4");
+    expect(() => parseCron('60 * * * *')).toThrow("Invalid minute '60'");
+    expect(() => parseCron('0 0 * FOO *')).toThrow("Invalid month 'FOO'");
+    expect(() => parseCron('*/0 * * * *')).toThrow("Invalid step '0'");
+    expect(() => parseCron('0 20-8 * * *')).toThrow("Invalid hour range '20-8'");
+  });
+
+  it('finds the next fire time in UTC', () => {
+    expect(iso(nextCronTime('0 9 * * 1-5', at('2024-10-18T09:00:00Z')))).toBe('2024-10-21T09:00:00.000Z'); // Friday -> Monday
+    expect(iso(nextCronTime('30 * * * *', at('2024-12-31T23:45:10Z')))).toBe('2025-01-01T00:30:00.000Z');
+    expect(iso(nextCronTime('0 0 29 2 *', at('2025-01-01T00:00:00Z')))).toBe('2028-02-29T00:00:00.000Z');
+    expect(nextCronTime('0 0 30 2 *', at('2025-01-01T00:00:00Z'))).toBeNull();
+  });
+
+  it('fires when either day field matches if both are restricted', () => {
+    // 13th of the month or any Friday
+    const times = listCronTimes('0 0 13 * 5', at('2024-09-01T00:00:00Z'), at('2024-09-30T00:00:00Z')).map(iso);
+    expect(times).toEqual(['2024-09-06', '2024-09-13', '2024-09-20', '2024-09-27'].map(day => `${day}T00:00:00.000Z`));
+  });
+
+  it('lists fire times in a window and keeps the latest when limited', () => {
+    const after = at('2024-10-15T06:30:00Z');
+    const until = at('2024-10-15T10:00:00Z');
+    expect(listCronTimes('0 * * * *', after, until).map(iso)).toEqual([
+      '2024-10-15T07:00:00.000Z', '2024-10-15T08:00:00.000Z', '2024-10-15T09:00:00.000Z', '2024-10-15T10:00:00.000Z'
+    ]);
+    expect(listCronTimes('0 * * * *', after, until, 2).map(iso)).toEqual(['2024-10-15T09:00:00.000Z', '2024-10-15T10:00:00.000Z']);
+  });
+});
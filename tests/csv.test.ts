@@ -0,0 +1,56 @@
+import { describe, it, expect } from "vitest";
+import { parseCSVRecords, sniffDelimiter } from "@/lib/csv";
+import { parseCSV } from "@/lib/github-data-access";
+
+describe("CSV reader", () => {
+  it("handles quoted fields with embedded commas, quotes and newlines", () => {
+    const csv = 'id,name,notes\n1,"Acme, Inc.","Said ""hi""\nthen left"\n2,Globex,plain\n';
+    const { rows, errors } = parseCSVRecords(csv);
+    expect(errors).toEqual([]);
+    expect(rows).toEqual([
+      { id: "1", name: "Acme, Inc.", notes: 'Said "hi"\nthen left' },
+      { id: "2", name: "Globex", notes: "plain" }
+    ]);
+  });
+
+  it("strips BOMs and sniffs semicolon and tab delimiters", () => {
+    expect(sniffDelimiter("a;b;c\n1;2;3")).toBe(";");
+    expect(sniffDelimiter('"x,y"\tb\n')).toBe("\t");
+
+    const { rows, delimiter } = parseCSVRecords("\uFEFFinvoice_id;amount\r\nINV-1;100\r\n");
+    expect(delimiter).toBe(";");
+    expect(rows).toEqual([{ invoice_id: "INV-1", amount: "100" }]);
+  });
+
+  it("normalises headers and coerces types", () => {
+    const csv = "Invoice ID,Amount (USD),Paid,Due Date,Account\nINV-1,1500.50,true,2025-10-20,00123\n";
+    const { rows } = parseCSVRecords(csv, { normalizeHeaders: true, coerce: true });
+    expect(rows[0]).toEqual({
+      invoice_id: "INV-1",
+      amount_usd: 1500.5,
+      paid: true,
+      due_date: new Date("2025-10-20"),
+      account: "00123"
+    });
+  });
+
+  it("keeps surrounding spaces in text fields and only ignores them for coercion", () => {
+    const csv = 'name,notes,amount\n" Acme ", padded , 42 \n';
+    expect(parseCSVRecords(csv).rows).toEqual([{ name: " Acme ", notes: " padded ", amount: " 42 " }]);
+    expect(parseCSVRecords(csv, { coerce: true }).rows).toEqual([{ name: " Acme ", notes: " padded ", amount: 42 }]);
+  });
+
+  it("reports misaligned rows with line numbers instead of returning them", () => {
+    const csv = 'id,name\n1,"multi\nline"\n2,too,many\n3,ok\n4,"never closed\n';
+    const { rows, errors } = parseCSVRecords(csv);
+    expect(rows.map(r => r.id)).toEqual(["1", "3"]);
+    expect(errors).toEqual([
+      { line: 4, message: "Expected 2 fields but found 3", raw: ["2", "too", "many"] },
+      { line: 6, message: "Unterminated quoted field" }
+    ]);
+  });
+
+  it("is shared by the GitHub parser", () => {
+    expect(parseCSV('a,b\n"1,5",2\n')).toEqual([{ a: "1,5", b: "2" }]);
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { getAgentRegistry } from '@/lib/agent-registry';
+import { AGENT_DATA_CONTRACTS, getDataContract, validateData } from '@/lib/data-contracts';
+import { getAgentMockData } from '@/lib/mock-data';
+import { fixedClock } from '@/lib/mock-random';
+import { loadCSVData, parseDataLoadOptions } from '@/lib/data-access';
+import { isDataPattern } from '@/lib/data-patterns';
+import { resetConfig } from '@/lib/config';
+
+const clock = fixedClock('2025-03-01T12:00:00Z');
+
+describe('Data contracts', () => {
+  it('registers a contract for every data file in the effective registry', () => {
+    for (const agent of Object.values(getAgentRegistry())) {
+      for (const file of agent.dataFiles) {
+        expect(AGENT_DATA_CONTRACTS[agent.id]?.[file], `${agent.id}/${file}`).toBeDefined();
+        expect(getDataContract(agent.id, file), `${agent.id}/${file}`).toBeDefined();
+      }
+    }
+  });
+
+  it('accepts the mock fixtures for every file', () => {
+    for (const agent of Object.values(getAgentRegistry())) {
+      for (const file of agent.dataFiles) {
+        const fixtures: [string, unknown][] = isDataPattern(file)
+          ? Object.entries(getAgentMockData<Record<string, unknown>>(agent.id, file, { clock }) ?? {})
+          : [[file, getAgentMockData(agent.id, file, { clock })]];
+
+        for (const [path, data] of fixtures) {
+          const { report } = validateData(getDataContract(agent.id, path)!, data, `${agent.id}/${path}`);
+          expect(report.issues, `${agent.id}/${path}`).toEqual([]);
+        }
+      }
+    }
+  });
+
+  it('resolves files inside directory and glob entries', () => {
+    expect(getDataContract('contract-compliance', 'contracts/msa_01.txt')).toBe(AGENT_DATA_CONTRACTS['contract-compliance']['contracts/msa_*.txt']);
+    expect(getDataContract('contract-compliance', 'notes.txt')).toBeUndefined();
+    expect(getDataContract('no-such-agent', 'invoices.csv')).toBeUndefined();
+  });
+
+  it('drops invalid rows and reports them by row and field', () => {
+    const rows = [
+      { invoice_id: 'INV-1', vendor: 'Acme', amount: '120.50', date: '2025-01-02', extra: 'kept' },
+      { invoice_id: 'INV-2', vendor: 'Acme', amount: 'n/a', date: '2025-01-03' },
+      { invoice_id: 'INV-3', vendor: '', amount: '10', date: 'yesterday' }
+    ];
+
+    const { data, report } = validateData(getDataContract('invoice-anomalies', 'invoices.csv')!, rows, 'invoice-anomalies/invoices.csv');
+
+    expect(data).toEqual([{ invoice_id: 'INV-1', vendor: 'Acme', amount: 120.5, date: '2025-01-02', extra: 'kept' }]);
+    expect(report).toMatchObject({ valid: false, rows: { total: 3, valid: 1, invalid: 2 } });
+    expect(report.issues.map(issue => `${issue.row}:${issue.path}`)).toEqual(['2:amount', '3:vendor', '3:date']);
+  });
+});
+
+describe('Validation on load', () => {
+  beforeEach(() => {
+    vi.stubEnv('DATA_OFFLINE', 'true');
+    resetConfig();
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    resetConfig();
+  });
+
+  const invoiceRows = [
+    { invoice_id: 'INV-1', vendor: 'Acme', amount: '100', date: '2025-01-02' },
+    { invoice_id: 'INV-2', vendor: 'Acme', amount: '', date: '2025-01-03' }
+  ];
+
+  it('returns typed rows with a validation report', async () => {
+    const result = await loadCSVData('invoice-anomalies', 'missing-invoices.csv', invoiceRows);
+    // No contract for an unregistered file
+    expect(result.validation).toBeUndefined();
+
+    const loaded = await loadCSVData('invoice-anomalies', 'invoices.csv');
+    expect(loaded.success).toBe(true);
+    expect(loaded.validation).toMatchObject({ contract: 'invoice-anomalies/invoices.csv', valid: true });
+    expect(typeof loaded.data[0].amount).toBe('number');
+  });
+
+  it('fails the load in strict mode', async () => {
+    // Nothing on disk, so the rows below are served as mock data
+    vi.stubEnv('SEED_ROOTS', join(tmpdir(), 'no-seed-pack'));
+    resetConfig();
+
+    const lenient = await loadCSVData('vendor-sla-watchdog', 'vendors.csv', invoiceRows, undefined, { policy: 'allow-mock' });
+    expect(lenient).toMatchObject({ success: true, data: [], validation: { valid: false, rows: { invalid: 2 } } });
+
+    const strict = await loadCSVData('vendor-sla-watchdog', 'vendors.csv', invoiceRows, undefined, { policy: 'allow-mock', strict: true });
+    expect(strict).toMatchObject({ success: false, data: null });
+    expect(strict.error).toMatch(/Data contract violation in vendor-sla-watchdog\/vendors.csv row 1 at vendor_id: Required \(3 more\)/);
+  });
+
+  it('parses the strict query parameter', () => {
+    expect(parseDataLoadOptions(new URLSearchParams('strict=true')).options).toEqual({ strict: true });
+  });
+});
@@ -0,0 +1,37 @@
+import { describe, it, expect, beforeAll } from "vitest";
+import { mkdirSync, writeFileSync } from "node:fs";
+import { matchesDataPattern, resolveDataFileRequest } from "@/lib/data-patterns";
+import { loadAgentDataCollection } from "@/lib/data-access";
+
+const dataFiles = ['contracts/msa_*.txt', 'pii_samples/', 'policies.yaml'];
+
+describe("Data file patterns", () => {
+  beforeAll(() => {
+    const dir = "/tmp/agents-seed-pack-full/day18_Security_Posture_Nanny/scans";
+    mkdirSync(`${dir}/nested`, { recursive: true });
+    writeFileSync(`${dir}/a.json`, '{"host":"a"}');
+    writeFileSync(`${dir}/nested/b.txt`, 'b');
+  });
+
+  it("matches directory and glob entries", () => {
+    expect(matchesDataPattern('contracts/msa_*.txt', 'contracts/msa_01.txt')).toBe(true);
+    expect(matchesDataPattern('contracts/msa_*.txt', 'contracts/sub/msa_01.txt')).toBe(false);
+    expect(matchesDataPattern('pii_samples/', 'pii_samples/deep/customers.csv')).toBe(true);
+    expect(matchesDataPattern('**/*.csv', 'pii_samples/customers.csv')).toBe(true);
+    expect(matchesDataPattern('policies.yaml', 'policies.yml')).toBe(false);
+  });
+
+  it("resolves requested paths against registered entries", () => {
+    expect(resolveDataFileRequest(dataFiles, 'contracts/msa_02.txt')).toEqual({ kind: 'file', path: 'contracts/msa_02.txt' });
+    expect(resolveDataFileRequest(dataFiles, 'contracts')).toEqual({ kind: 'collection', pattern: 'contracts/' });
+    expect(resolveDataFileRequest(dataFiles, 'pii_samples/')).toEqual({ kind: 'collection', pattern: 'pii_samples/' });
+    expect(resolveDataFileRequest(dataFiles, 'contracts/notes.md')).toBeNull();
+    expect(resolveDataFileRequest(dataFiles, 'pii_samples/../../secrets.env')).toBeNull();
+  });
+
+  it("loads a keyed collection of files for a pattern", async () => {
+    const result = await loadAgentDataCollection('security-posture', 'scans/');
+    expect(result.success).toBe(true);
+    expect(result.data).toEqual({ 'scans/a.json': { host: 'a' }, 'scans/nested/b.txt': 'b' });
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { loadAgentDataCollection, loadJSONData, loadTextData, parseDataLoadOptions } from '@/lib/data-access';
+import { getConfig, resetConfig } from '@/lib/config';
+import { resetGitHubCache } from '@/lib/github-cache';
+
+describe('Data fallback policy', () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    fetchMock.mockRejectedValue(new Error('getaddrinfo ENOTFOUND raw.githubusercontent.com'));
+    vi.stubGlobal('fetch', fetchMock);
+    vi.stubEnv('GITHUB_CACHE_DIR', 'off');
+    resetConfig();
+    resetGitHubCache();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.unstubAllEnvs();
+    resetConfig();
+  });
+
+  it('loads local files without degrading', async () => {
+    const result = await loadTextData('meeting-actions', 'transcript.txt', 'mock', { offline: true });
+
+    expect(result.success).toBe(true);
+    expect(result.degraded).toBeUndefined();
+    expect(result.attempts?.at(-1)).toMatchObject({ source: 'local', success: true });
+  });
+
+  it('refuses mock data under local-only and records every attempt', async () => {
+    const result = await loadJSONData('meeting-actions', 'missing.json', { mock: true }, { policy: 'local-only' });
+
+    expect(result).toMatchObject({ success: false, source: 'not-found', policy: 'local-only', data: null });
+    expect(result.attempts?.filter(attempt => attempt.source === 'local').every(attempt => attempt.error === 'not found')).toBe(true);
+    expect(result.attempts?.slice(-2)).toEqual([
+      expect.objectContaining({ source: 'github', skipped: true, error: 'skipped: fallback policy local-only' }),
+      expect.objectContaining({ source: 'mock-data', skipped: true, success: false })
+    ]);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('flags mock data as degraded and never calls fetch offline', async () => {
+    const result = await loadJSONData('meeting-actions', 'missing.json', { mock: true }, { offline: true });
+
+    expect(result).toMatchObject({ success: true, degraded: true, source: 'mock-data', data: { mock: true } });
+    expect(result.attempts).toContainEqual(
+      expect.objectContaining({ source: 'github', skipped: true, error: 'skipped: offline mode' })
+    );
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('lets DATA_OFFLINE override a per-request offline=false', async () => {
+    vi.stubEnv('DATA_OFFLINE', 'true');
+    resetConfig();
+
+    await loadJSONData('meeting-actions', 'missing.json', {}, { offline: false });
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('reports why each GitHub method failed before falling back to mock data', async () => {
+    const result = await loadJSONData('meeting-actions', 'missing.json', [], { policy: 'allow-mock' });
+
+    expect(result).toMatchObject({ success: true, degraded: true, source: 'mock-data' });
+    expect(result.attempts?.map(attempt => attempt.source).slice(-3)).toEqual(['github-raw', 'github-api', 'mock-data']);
+    expect(result.attempts?.find(attempt => attempt.source === 'github-raw')?.error).toMatch(/ENOTFOUND/);
+  });
+
+  it('flags collections served from GitHub as degraded and records the roots tried', async () => {
+    vi.stubEnv('SEED_ROOTS', join(tmpdir(), 'no-seed-pack'));
+    resetConfig();
+    const folder = `${getConfig().github.basePath}/day03_Contract_Clause_Compliance`;
+    fetchMock.mockImplementation(async (url: string) => url.includes('/git/trees/')
+      ? new Response(JSON.stringify({ tree: [{ type: 'blob', path: `${folder}/contracts/msa_01.txt` }] }))
+      : new Response('Liability is unlimited.'));
+
+    const result = await loadAgentDataCollection('contract-compliance', 'contracts/');
+
+    expect(result).toMatchObject({ success: true, degraded: true, data: { 'contracts/msa_01.txt': 'Liability is unlimited.' } });
+    expect(result.attempts?.map(attempt => attempt.source)).toEqual(['local', 'github']);
+    expect(result.attempts?.[0]).toMatchObject({ target: `${join(tmpdir(), 'no-seed-pack', 'day03_Contract_Clause_Compliance')}/`, success: false });
+    expect(result.attempts?.[1]).toMatchObject({ target: expect.stringContaining('/git/trees/'), success: true });
+  });
+
+  it('parses policy and offline query parameters', () => {
+    expect(parseDataLoadOptions(new URLSearchParams('policy=local-then-github&offline=1'))).toEqual({
+      options: { policy: 'local-then-github', offline: true }
+    });
+    expect(parseDataLoadOptions(new URLSearchParams('policy=sometimes')).error).toMatch(/Invalid policy/);
+  });
+});
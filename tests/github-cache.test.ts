@@ -0,0 +1,143 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  cachedGitHubFetch,
+  getGitHubCacheKey,
+  getGitHubCacheStats,
+  purgeGitHubCache,
+  resetGitHubCache,
+  type GitHubCacheOptions
+} from '@/lib/github-cache';
+
+const repo = { owner: 'acme', repo: 'agents', branch: 'main' };
+const url = 'https://api.github.com/repos/acme/agents/contents/data/day01/a.json?ref=main';
+
+function githubResponse(body: string, status = 200, headers: Record<string, string> = {}) {
+  return new Response(status === 304 ? null : body, {
+    status,
+    headers: {
+      'x-ratelimit-limit': '60',
+      'x-ratelimit-remaining': '59',
+      'x-ratelimit-used': '1',
+      'x-ratelimit-reset': String(Math.floor(Date.now() / 1000) + 3600),
+      ...headers
+    }
+  });
+}
+
+describe('GitHub cache', () => {
+  let dir: string;
+  let options: GitHubCacheOptions;
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'github-cache-'));
+    options = { ttlMs: 60_000, staleMs: 60_000, dir };
+    resetGitHubCache();
+    fetchMock.mockReset();
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('keys entries by owner/repo/ref/path', () => {
+    expect(getGitHubCacheKey('raw', repo, 'data/day01/a.json')).toBe('raw:acme/agents/main/data/day01/a.json');
+  });
+
+  it('serves fresh entries without refetching and tracks rate limits', async () => {
+    fetchMock.mockResolvedValueOnce(githubResponse('{"a":1}', 200, { etag: '"v1"' }));
+    const key = getGitHubCacheKey('contents', repo, 'data/day01/a.json');
+
+    const first = await cachedGitHubFetch(key, url, {}, options);
+    const second = await cachedGitHubFetch(key, url, {}, options);
+
+    expect(first.cache).toBe('miss');
+    expect(second).toMatchObject({ cache: 'hit', body: '{"a":1}' });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    const stats = getGitHubCacheStats(options);
+    expect(stats).toMatchObject({ hits: 1, misses: 1, entries: { memory: 1, disk: 1 } });
+    expect(stats.rateLimits.core).toMatchObject({ limit: 60, remaining: 59 });
+  });
+
+  it('revalidates expired entries with If-None-Match', async () => {
+    vi.useFakeTimers();
+    options = { ...options, staleMs: 0 };
+    const key = getGitHubCacheKey('raw', repo, 'data/day01/a.json');
+
+    fetchMock.mockResolvedValueOnce(githubResponse('body', 200, { etag: '"v1"' }));
+    await cachedGitHubFetch(key, url, {}, options);
+
+    vi.advanceTimersByTime(61_000);
+    fetchMock.mockResolvedValueOnce(githubResponse('', 304));
+    const result = await cachedGitHubFetch(key, url, {}, options);
+
+    expect(result).toMatchObject({ cache: 'revalidated', body: 'body' });
+    expect(fetchMock.mock.calls[1][1].headers['If-None-Match']).toBe('"v1"');
+  });
+
+  it('serves stale entries while revalidating in the background', async () => {
+    vi.useFakeTimers();
+    const key = getGitHubCacheKey('raw', repo, 'data/day01/a.json');
+
+    fetchMock.mockResolvedValueOnce(githubResponse('old', 200, { etag: '"v1"' }));
+    await cachedGitHubFetch(key, url, {}, options);
+
+    vi.advanceTimersByTime(61_000);
+    fetchMock.mockResolvedValueOnce(githubResponse('new', 200, { etag: '"v2"' }));
+    const stale = await cachedGitHubFetch(key, url, {}, options);
+    expect(stale).toMatchObject({ cache: 'stale', body: 'old' });
+
+    await vi.waitFor(async () => {
+      expect((await cachedGitHubFetch(key, url, {}, options)).body).toBe('new');
+    });
+  });
+
+  it('falls back to the cached copy when GitHub is unreachable', async () => {
+    vi.useFakeTimers();
+    options = { ...options, staleMs: 0 };
+    const key = getGitHubCacheKey('raw', repo, 'data/day01/a.json');
+
+    fetchMock.mockResolvedValueOnce(githubResponse('cached'));
+    await cachedGitHubFetch(key, url, {}, options);
+
+    vi.advanceTimersByTime(61_000);
+    fetchMock.mockRejectedValueOnce(new Error('getaddrinfo ENOTFOUND'));
+    const result = await cachedGitHubFetch(key, url, {}, options);
+
+    expect(result).toMatchObject({ cache: 'stale-if-error', body: 'cached' });
+  });
+
+  it('does not cache failures', async () => {
+    fetchMock.mockResolvedValue(githubResponse('Not Found', 404));
+    const key = getGitHubCacheKey('raw', repo, 'data/day01/missing.json');
+
+    const result = await cachedGitHubFetch(key, url, {}, options);
+    await cachedGitHubFetch(key, url, {}, options);
+
+    expect(result).toMatchObject({ ok: false, status: 404 });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('reloads entries from disk and purges by match', async () => {
+    const keep = getGitHubCacheKey('raw', repo, 'data/day01/a.json');
+    const drop = getGitHubCacheKey('raw', repo, 'data/day02/b.json');
+    fetchMock.mockImplementation(async () => githubResponse('content'));
+    await cachedGitHubFetch(keep, url, {}, options);
+    await cachedGitHubFetch(drop, url, {}, options);
+
+    resetGitHubCache();
+    expect((await cachedGitHubFetch(keep, url, {}, options)).cache).toBe('hit');
+
+    expect(purgeGitHubCache('/day02/', options)).toBe(1);
+    expect(getGitHubCacheStats(options).entries.disk).toBe(1);
+    expect(purgeGitHubCache(undefined, options)).toBe(1);
+    expect(getGitHubCacheStats(options).entries).toEqual({ memory: 0, disk: 0 });
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach, vi } from 'vitest';
+import { createHash } from 'node:crypto';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { checkGitHub, checkReadiness, getAgentDataAvailability } from '@/lib/health';
+import { getLFSObjectPath } from '@/lib/lfs';
+import { resetAgentRegistry } from '@/lib/agent-registry';
+import { resetConfig } from '@/lib/config';
+import { AGENT_DATA_CONTRACTS } from '@/lib/data-contracts';
+import { GET as health } from '@/app/api/health/route';
+import { GET as ready } from '@/app/api/ready/route';
+
+const content = 'invoice_id,amount\nINV-001,1500\n';
+const oid = createHash('sha256').update(content).digest('hex');
+const pointer = `version https://git-lfs.github.com/spec/v1\noid sha256:${oid}\nsize ${Buffer.byteLength(content)}\n`;
+
+describe('Health and readiness', () => {
+  let dir: string;
+
+  beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), 'health-'));
+    mkdirSync(join(dir, 'seed', 'day25_Invoice_Fraud_Anomaly_Detector'), { recursive: true });
+    writeFileSync(join(dir, 'seed', 'day25_Invoice_Fraud_Anomaly_Detector', 'invoices.csv'), pointer);
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    resetConfig();
+    resetAgentRegistry();
+  });
+
+  function useSeedRoot(root: string) {
+    vi.stubEnv('SEED_ROOTS', root);
+    vi.stubEnv('LFS_OBJECTS_DIR', join(dir, 'objects'));
+    resetConfig();
+    resetAgentRegistry();
+  }
+
+  const check = (name: string) => checkReadiness().checks.find(entry => entry.name === name);
+
+  it('answers liveness without touching data', async () => {
+    const res = await health(new NextRequest('http://localhost:3000/api/health'));
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toMatchObject({ success: true, data: { status: 'ok', version: '1.0.0' } });
+  });
+
+  it('warns about missing LFS objects while a fallback can serve them', () => {
+    useSeedRoot(join(dir, 'seed'));
+
+    expect(check('lfsObjects')).toMatchObject({
+      status: 'warn',
+      details: { missing: ['day25_Invoice_Fraud_Anomaly_Detector/invoices.csv'] }
+    });
+    expect(checkReadiness().ready).toBe(true);
+
+    vi.stubEnv('DATA_FALLBACK_POLICY', 'local-only');
+    resetConfig();
+    expect(check('lfsObjects')?.status).toBe('fail');
+    expect(checkReadiness().ready).toBe(false);
+  });
+
+  it('passes once the LFS objects are present', () => {
+    useSeedRoot(join(dir, 'seed'));
+    const objectPath = getLFSObjectPath(join(dir, 'objects'), oid);
+    mkdirSync(join(objectPath, '..'), { recursive: true });
+    writeFileSync(objectPath, content);
+
+    expect(check('lfsObjects')).toMatchObject({ status: 'pass', message: '1 LFS pointer(s), all objects present' });
+    expect(check('dataContracts')?.status).toBe('pass');
+    expect(check('registry')?.status).toBe('pass');
+  });
+
+  it('fails the contract check when a contract rejects its mock data', () => {
+    useSeedRoot(join(dir, 'seed'));
+    const contract = AGENT_DATA_CONTRACTS['invoice-anomalies']['invoices.csv'];
+    AGENT_DATA_CONTRACTS['invoice-anomalies']['invoices.csv'] = z.array(z.object({ po_number: z.string() }));
+
+    try {
+      expect(check('dataContracts')).toMatchObject({ status: 'fail', details: { rejected: ['invoice-anomalies/invoices.csv'] } });
+      expect(checkReadiness().ready).toBe(false);
+    } finally {
+      AGENT_DATA_CONTRACTS['invoice-anomalies']['invoices.csv'] = contract;
+    }
+  });
+
+  it('returns 503 NOT_READY when no data root is readable', async () => {
+    useSeedRoot(join(dir, 'missing'));
+    const res = await ready(new NextRequest('http://localhost:3000/api/ready'));
+    const body = await res.json();
+
+    expect(res.status).toBe(503);
+    expect(body.error.code).toBe('NOT_READY');
+    expect(body.error.details.checks).toContainEqual(expect.objectContaining({ name: 'dataRoots', status: 'fail' }));
+  });
+
+  it('reports per-agent data availability', async () => {
+    vi.stubEnv('DATA_OFFLINE', 'true');
+    resetConfig();
+    const [meeting] = await getAgentDataAvailability(['meeting-actions']);
+
+    expect(meeting.files['transcript.txt']).toEqual({ source: expect.stringMatching(/transcript\.txt$/), success: true });
+    expect(meeting.available).toBe(Object.values(meeting.files).every(file => file.success));
+  });
+
+  it('skips the GitHub probe offline', async () => {
+    vi.stubEnv('DATA_OFFLINE', 'true');
+    resetConfig();
+
+    expect(await checkGitHub()).toMatchObject({ reachable: null, cachedRateLimits: {} });
+  });
+});
@@ -0,0 +1,156 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { z } from 'zod';
+import { NextRequest } from 'next/server';
+import { AGENT_IMPLEMENTATIONS } from '@/lib/agents';
+import type { Agent } from '@/lib/agent-runtime';
+import { resetConfig } from '@/lib/config';
+import { resetRateLimits } from '@/lib/rate-limit';
+import { getRunStore, resetRunStore } from '@/lib/run-history';
+import { cancelJob, createJob, getJob, getJobQueueStats, listJobEvents, resetJobs, waitForJob, type Job } from '@/lib/jobs';
+import { POST as submit } from '@/app/api/agents/[agentId]/jobs/route';
+import { GET as getJobRoute, DELETE as cancelJobRoute } from '@/app/api/jobs/[jobId]/route';
+import { GET as events } from '@/app/api/jobs/[jobId]/events/route';
+
+// A registered complexity-5 agent with no implementation yet, borrowed for a slow test agent
+const SLOW_AGENT = 'po-grn-reconciler';
+
+// Each run waits until the test calls release(); it ignores ctx.signal unless told to watch it
+let release: () => void = () => {};
+let sawAbort = false;
+
+const slowAgent: Agent<{ watchSignal?: boolean }, { done: true }> = {
+  id: SLOW_AGENT,
+  input: z.object({ watchSignal: z.boolean().optional() }),
+  output: z.object({ done: z.literal(true) }),
+  async run(ctx) {
+    ctx.progress('Matching lines', 10);
+    ctx.signal.addEventListener('abort', () => { sawAbort = true; });
+    await new Promise<void>(resolve => { release = resolve; });
+    return { output: { done: true } };
+  }
+};
+
+function first(result: ReturnType<typeof createJob>): Job {
+  if ('failure' in result) throw new Error(result.failure.error);
+  return result.job;
+}
+
+describe('Jobs', () => {
+  beforeEach(() => {
+    AGENT_IMPLEMENTATIONS[SLOW_AGENT] = slowAgent;
+    sawAbort = false;
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.stubEnv('DATA_OFFLINE', 'true');
+    vi.stubEnv('RUN_STORE', 'memory');
+    vi.stubEnv('JOBS_CONCURRENCY', '1');
+    resetConfig();
+    resetRunStore();
+    resetRateLimits();
+    resetJobs();
+  });
+
+  afterEach(() => {
+    release();
+    resetJobs();
+    delete AGENT_IMPLEMENTATIONS[SLOW_AGENT];
+    vi.restoreAllMocks();
+    vi.unstubAllEnvs();
+    resetConfig();
+    resetRunStore();
+  });
+
+  it('rejects unknown agents and invalid input before queueing', () => {
+    expect(createJob('no-such-agent', {})).toMatchObject({ failure: { code: 'AGENT_NOT_FOUND', status: 404 } });
+    expect(createJob('contract-compliance', {})).toMatchObject({ failure: { code: 'NOT_IMPLEMENTED' } });
+    expect(createJob('meeting-actions', { path: 42 })).toMatchObject({ failure: { code: 'VALIDATION_ERROR' } });
+    expect(getJobQueueStats()).toMatchObject({ running: 0, queued: 0 });
+  });
+
+  it('runs a job, records progress and saves the run', async () => {
+    const job = first(createJob('invoice-anomalies', {}, { offline: true, requestId: 'req_job' }));
+    const done = await waitForJob(job.id);
+
+    expect(done).toMatchObject({ status: 'succeeded', options: { offline: true }, output: { totalInvoices: 5 } });
+    expect(listJobEvents(job.id).map(event => event.type)).toEqual(['queued', 'started', 'progress', 'succeeded']);
+    expect(listJobEvents(job.id, 2)[0]).toMatchObject({ id: 3, data: { message: 'Loaded 5 invoices', percent: 50 } });
+    expect(await getRunStore()?.get(done?.runId as string)).toMatchObject({ agentId: 'invoice-anomalies', requestId: 'req_job' });
+  });
+
+  it('limits concurrency and starts queued jobs as workers free up', async () => {
+    const a = first(createJob(SLOW_AGENT, {}));
+    const b = first(createJob(SLOW_AGENT, {}));
+
+    expect(getJob(a.id)?.status).toBe('running');
+    expect(getJob(b.id)?.status).toBe('queued');
+    expect(getJobQueueStats()).toMatchObject({ running: 1, queued: 1, concurrency: 1 });
+
+    release();
+    await waitForJob(a.id);
+    await vi.waitFor(() => expect(getJob(b.id)?.status).toBe('running'));
+    release();
+    expect(await waitForJob(b.id)).toMatchObject({ status: 'succeeded', output: { done: true } });
+  });
+
+  it('refuses jobs beyond JOBS_MAX_QUEUED', () => {
+    vi.stubEnv('JOBS_MAX_QUEUED', '1');
+    resetConfig();
+
+    first(createJob(SLOW_AGENT, {}));
+    first(createJob(SLOW_AGENT, {}));
+    expect(createJob(SLOW_AGENT, {})).toMatchObject({ failure: { code: 'QUEUE_FULL', status: 503 } });
+  });
+
+  it('cancels running jobs through the signal and drops queued ones', async () => {
+    const running = first(createJob(SLOW_AGENT, {}));
+    const queued = first(createJob(SLOW_AGENT, {}));
+
+    expect(cancelJob(queued.id)?.status).toBe('cancelled');
+    cancelJob(running.id);
+    const cancelled = await waitForJob(running.id);
+
+    expect(sawAbort).toBe(true);
+    expect(cancelled?.status).toBe('cancelled');
+    expect(await getRunStore()?.get(cancelled?.runId as string)).toMatchObject({ status: 'error', code: 'RUN_CANCELLED' });
+    expect(listJobEvents(queued.id).map(event => event.type)).toEqual(['queued', 'cancelled']);
+    expect(cancelJob(running.id)?.status).toBe('cancelled');
+  });
+
+  it('serves jobs over HTTP with an SSE progress stream', async () => {
+    const res = await submit(
+      new NextRequest('http://localhost:3000/api/agents/invoice-anomalies/jobs?offline=true', { method: 'POST', body: '{}' }),
+      { params: { agentId: 'invoice-anomalies' } }
+    );
+    const body = await res.json();
+    expect(res.status).toBe(202);
+    expect(res.headers.get('Location')).toBe(`/api/jobs/${body.data.id}`);
+    expect(body.data.links.events).toBe(`/api/jobs/${body.data.id}/events`);
+
+    const params = { params: { jobId: body.data.id } };
+    const stream = await events(new NextRequest(`http://localhost:3000/api/jobs/${body.data.id}/events`), params);
+    expect(stream.headers.get('Content-Type')).toContain('text/event-stream');
+    const text = await stream.text();
+    expect(text).toMatch(/^id: 1\nevent: queued\ndata: \{.*\}\n\n/);
+    expect(text).toContain('event: progress\ndata: {"message":"Loaded 5 invoices","percent":50,');
+    expect(text).toContain('id: 4\nevent: succeeded');
+
+    const resumed = await events(new NextRequest(`http://localhost:3000/api/jobs/${body.data.id}/events`, { headers: { 'Last-Event-ID': '3' } }), params);
+    expect((await resumed.text()).match(/^id: /gm)).toHaveLength(1);
+
+    const status = await (await getJobRoute(new NextRequest(`http://localhost:3000/api/jobs/${body.data.id}`), params)).json();
+    expect(status.data).toMatchObject({ status: 'succeeded', output: { totalInvoices: 5 } });
+
+    const missing = await getJobRoute(new NextRequest('http://localhost:3000/api/jobs/job_missing'), { params: { jobId: 'job_missing' } });
+    expect((await missing.json()).error.code).toBe('JOB_NOT_FOUND');
+  });
+
+  it('cancels over HTTP and ends the stream', async () => {
+    const job = first(createJob(SLOW_AGENT, {}));
+    const params = { params: { jobId: job.id } };
+    const stream = await events(new NextRequest(`http://localhost:3000/api/jobs/${job.id}/events`), params);
+
+    const res = await cancelJobRoute(new NextRequest(`http://localhost:3000/api/jobs/${job.id}`, { method: 'DELETE' }), params);
+    expect((await res.json()).data.status).toBe('cancelled');
+    expect(await stream.text()).toMatch(/event: started[\s\S]*event: progress[\s\S]*event: cancelled/);
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { createHash } from "node:crypto";
+import { createServer, type Server } from "node:http";
+import { mkdirSync, mkdtempSync, writeFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { getLFSObjectPath, parseLFSPointer, resolveLFSContent } from "@/lib/lfs";
+
+const content = "invoice_id,amount\nINV-001,1500\n";
+const oid = createHash("sha256").update(content).digest("hex");
+const pointer = `version https://git-lfs.github.com/spec/v1\noid sha256:${oid}\nsize ${Buffer.byteLength(content)}\n`;
+
+describe("Git LFS pointers", () => {
+  let objectDir: string;
+  let server: Server;
+  let mediaBase: string;
+
+  beforeAll(async () => {
+    objectDir = mkdtempSync(join(tmpdir(), "lfs-objects-"));
+    const objectPath = getLFSObjectPath(objectDir, oid);
+    mkdirSync(join(objectPath, ".."), { recursive: true });
+    writeFileSync(objectPath, content);
+
+    // Local stand-in for the LFS media endpoint
+    server = createServer((req, res) => {
+      if (req.url === "/media/invoices.csv") {
+        res.end(content);
+      } else if (req.url === "/media/tampered.csv") {
+        res.end(content.replace("1500", "9999"));
+      } else {
+        res.statusCode = 404;
+        res.end();
+      }
+    });
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+    const address = server.address();
+    mediaBase = `http://127.0.0.1:${typeof address === "object" && address ? address.port : 0}/media`;
+  });
+
+  afterAll(() => {
+    server.close();
+    rmSync(objectDir, { recursive: true, force: true });
+  });
+
+  it("parses pointer files and ignores regular content", () => {
+    expect(parseLFSPointer(pointer)).toEqual({ oid, size: Buffer.byteLength(content) });
+    expect(parseLFSPointer(content)).toBeNull();
+  });
+
+  it("resolves from the local object store", async () => {
+    const result = await resolveLFSContent(pointer, { objectDirs: [objectDir] });
+    expect(result?.success).toBe(true);
+    expect(result?.source).toBe("lfs-local");
+    expect(result?.content).toBe(content);
+  });
+
+  it("falls back to the media endpoint", async () => {
+    const result = await resolveLFSContent(pointer, { objectDirs: [], mediaUrl: `${mediaBase}/invoices.csv` });
+    expect(result?.success).toBe(true);
+    expect(result?.source).toBe("lfs-media");
+    expect(result?.content).toBe(content);
+  });
+
+  it("rejects objects that fail sha256 verification", async () => {
+    const result = await resolveLFSContent(pointer, { objectDirs: [], mediaUrl: `${mediaBase}/tampered.csv` });
+    expect(result?.success).toBe(false);
+    expect(result?.source).toBe("lfs-pointer-unresolved");
+    expect(result?.error).toContain("sha256 mismatch");
+  });
+
+  it("reports unresolved pointers", async () => {
+    const result = await resolveLFSContent(pointer, { objectDirs: [], mediaUrl: `${mediaBase}/missing.csv` });
+    expect(result?.success).toBe(false);
+    expect(result?.source).toBe("lfs-pointer-unresolved");
+    expect(result?.attempts).toHaveLength(1);
+  });
+});
@@ -0,0 +1,218 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach, vi } from 'vitest';
+import { createServer, type IncomingHttpHeaders, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { mkdtemp, readdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { z } from 'zod';
+import { AGENT_IMPLEMENTATIONS } from '@/lib/agents';
+import { invokeAgent, type Agent } from '@/lib/agent-runtime';
+import { resetConfig } from '@/lib/config';
+import { resetRunStore } from '@/lib/run-history';
+import { getCounterValue, resetMetrics } from '@/lib/metrics';
+import { createLLMClient, parseJsonContent, resetLLMProvider, resolveLLMModel, type LLMTool } from '@/lib/llm';
+
+// A registered agent with no implementation yet, borrowed for an LLM-calling test agent
+const LLM_AGENT = 'vendor-sla-watchdog';
+
+const LOOKUP_TOOL: LLMTool = {
+  name: 'lookup_vendor',
+  description: 'Find a vendor by name',
+  parameters: { type: 'object', properties: { name: { type: 'string' } }, required: ['name'] }
+};
+
+type Reply = { status?: number; headers?: Record<string, string>; body?: unknown; delayMs?: number };
+
+// Stub OpenAI-compatible API answering from a queue; an empty queue answers "ok"
+let server: Server;
+let baseUrl: string;
+let requests: { path: string; headers: IncomingHttpHeaders; body: Record<string, any> }[] = [];
+let replies: Reply[] = [];
+let fixturesDir: string;
+
+function completion(message: Record<string, unknown>, finishReason = 'stop') {
+  return {
+    model: 'stub-model',
+    choices: [{ message: { role: 'assistant', ...message }, finish_reason: finishReason }],
+    usage: { prompt_tokens: 12, completion_tokens: 3, total_tokens: 15 }
+  };
+}
+
+describe('LLM client', () => {
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => { body += chunk; });
+      req.on('end', () => {
+        requests.push({ path: req.url ?? '', headers: req.headers, body: JSON.parse(body || '{}') });
+        const reply = replies.shift() ?? { body: completion({ content: 'ok' }) };
+        setTimeout(() => {
+          res.writeHead(reply.status ?? 200, { 'Content-Type': 'application/json', ...reply.headers });
+          res.end(JSON.stringify(reply.body ?? { error: { message: 'stub error' } }));
+        }, reply.delayMs ?? 0);
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(async () => {
+    requests = [];
+    replies = [];
+    fixturesDir = await mkdtemp(join(tmpdir(), 'llm-fixtures-'));
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.stubEnv('RUN_STORE', 'memory');
+    vi.stubEnv('LLM_BASE_URL', `${baseUrl}/`);
+    vi.stubEnv('LLM_API_KEY', 'sk-test');
+    vi.stubEnv('LLM_MODEL', 'stub/default');
+    vi.stubEnv('LLM_RETRY_BASE_MS', '1');
+    vi.stubEnv('LLM_FIXTURES_DIR', fixturesDir);
+    resetConfig();
+    resetRunStore();
+    resetLLMProvider();
+    resetMetrics();
+  });
+
+  afterEach(async () => {
+    delete AGENT_IMPLEMENTATIONS[LLM_AGENT];
+    vi.restoreAllMocks();
+    vi.unstubAllEnvs();
+    resetConfig();
+    resetRunStore();
+    resetLLMProvider();
+    await rm(fixturesDir, { recursive: true, force: true });
+  });
+
+  it('sends OpenAI chat completions and parses tool calls', async () => {
+    vi.stubEnv('HELICONE_API_KEY', 'sk-helicone');
+    resetConfig();
+    replies.push({
+      body: completion({ content: null, tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'lookup_vendor', arguments: '{"name":"Acme"}' } }] }, 'tool_calls')
+    });
+
+    const response = await createLLMClient().chat({
+      messages: [{ role: 'user', content: 'Who is Acme?' }],
+      tools: [LOOKUP_TOOL],
+      toolChoice: { name: 'lookup_vendor' },
+      temperature: 0
+    });
+
+    expect(response).toEqual({
+      model: 'stub-model',
+      content: '',
+      toolCalls: [{ id: 'call_1', name: 'lookup_vendor', arguments: { name: 'Acme' } }],
+      finishReason: 'tool_calls',
+      usage: { promptTokens: 12, completionTokens: 3, totalTokens: 15 },
+      provider: 'openai'
+    });
+    expect(requests[0].path).toBe('/v1/chat/completions');
+    expect(requests[0].headers.authorization).toBe('Bearer sk-test');
+    expect(requests[0].headers['helicone-auth']).toBe('Bearer sk-helicone');
+    expect(requests[0].body).toEqual({
+      model: 'stub/default',
+      messages: [{ role: 'user', content: 'Who is Acme?' }],
+      temperature: 0,
+      tools: [{ type: 'function', function: { name: 'lookup_vendor', description: 'Find a vendor by name', parameters: LOOKUP_TOOL.parameters } }],
+      tool_choice: { type: 'function', function: { name: 'lookup_vendor' } }
+    });
+    expect(getCounterValue('llm_tokens_total', { model: 'stub/default', type: 'prompt' })).toBe(12);
+
+    // Tool results go back with the call they answer
+    await createLLMClient().chat({
+      messages: [
+        { role: 'user', content: 'Who is Acme?' },
+        { role: 'assistant', content: '', toolCalls: response.toolCalls },
+        { role: 'tool', content: '{"tier":"gold"}', toolCallId: 'call_1' }
+      ]
+    });
+    expect(requests[1].body.messages.slice(1)).toEqual([
+      { role: 'assistant', content: '', tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'lookup_vendor', arguments: '{"name":"Acme"}' } }] },
+      { role: 'tool', content: '{"tier":"gold"}', tool_call_id: 'call_1' }
+    ]);
+  });
+
+  it('retries rate limits and server errors but not client errors', async () => {
+    replies.push({ status: 503 }, { status: 429, headers: { 'Retry-After': '0' } });
+
+    const response = await createLLMClient().chat({ messages: [{ role: 'user', content: 'hi' }] });
+    expect(response.content).toBe('ok');
+    expect(requests).toHaveLength(3);
+
+    replies.push({ status: 400, body: { error: { message: 'bad model' } } });
+    await expect(createLLMClient().chat({ messages: [{ role: 'user', content: 'hi' }] })).rejects.toThrow('LLM request failed: HTTP 400');
+    expect(requests).toHaveLength(4);
+
+    replies.push({ status: 500 }, { status: 500 }, { status: 500 });
+    await expect(createLLMClient().chat({ messages: [{ role: 'user', content: 'hi' }] })).rejects.toThrow('HTTP 500');
+    expect(requests).toHaveLength(7); // The first attempt and LLM_MAX_RETRIES=2 retries
+    expect(getCounterValue('llm_requests_total', { provider: 'openai', model: 'stub/default', outcome: 'error' })).toBe(2);
+  });
+
+  it('times out each attempt', async () => {
+    vi.stubEnv('LLM_TIMEOUT_MS', '50');
+    vi.stubEnv('LLM_MAX_RETRIES', '0');
+    resetConfig();
+    replies.push({ body: completion({ content: 'late' }), delayMs: 500 });
+
+    await expect(createLLMClient().chat({ messages: [{ role: 'user', content: 'hi' }] })).rejects.toThrow('timed out after 50ms');
+  });
+
+  it('asks for and parses JSON', async () => {
+    replies.push({ body: completion({ content: '```json\n{"actions":[{"owner":"Ana"}]}\n```' }) });
+
+    const { value } = await createLLMClient().json<{ actions: { owner: string }[] }>({ messages: [{ role: 'user', content: 'Extract actions' }] });
+    expect(value.actions[0].owner).toBe('Ana');
+    expect(requests[0].body.response_format).toEqual({ type: 'json_object' });
+    expect(() => parseJsonContent('not json')).toThrow('LLM returned invalid JSON: not json');
+  });
+
+  it('records fixtures and replays them without the network', async () => {
+    vi.stubEnv('LLM_PROVIDER', 'record');
+    resetConfig();
+    replies.push({ body: completion({ content: 'recorded answer' }) });
+    const request = { messages: [{ role: 'user' as const, content: 'Summarise' }], temperature: 0.2 };
+
+    await createLLMClient().chat(request);
+    expect(await readdir(fixturesDir)).toHaveLength(1);
+
+    vi.stubEnv('LLM_PROVIDER', 'replay');
+    vi.stubEnv('LLM_BASE_URL', 'http://127.0.0.1:9/v1');
+    resetConfig();
+    resetLLMProvider();
+
+    expect(await createLLMClient().chat(request)).toMatchObject({ content: 'recorded answer', provider: 'replay' });
+    expect(requests).toHaveLength(1);
+    await expect(createLLMClient().chat({ ...request, temperature: 0.3 })).rejects.toThrow(/No LLM fixture for request [0-9a-f]{64}/);
+  });
+
+  it('picks the model per agent and gives agents ctx.llm', async () => {
+    expect(resolveLLMModel('meeting-actions')).toBe('anthropic/claude-3.5-sonnet');
+    expect(resolveLLMModel('meeting-actions', 'openai/gpt-4o')).toBe('openai/gpt-4o');
+    expect(resolveLLMModel(LLM_AGENT)).toBe('stub/default');
+
+    vi.stubEnv('LLM_AGENT_MODELS', `meeting-actions=openai/gpt-4o-mini, ${LLM_AGENT}=stub/agent`);
+    resetConfig();
+    expect(resolveLLMModel('meeting-actions')).toBe('openai/gpt-4o-mini');
+
+    const agent: Agent<Record<string, never>, { answer: string }> = {
+      id: LLM_AGENT,
+      input: z.object({}),
+      output: z.object({ answer: z.string() }),
+      async run(ctx) {
+        const response = await ctx.llm.chat({ messages: [{ role: 'user', content: 'Any breaches?' }] });
+        return { output: { answer: response.content } };
+      }
+    };
+    AGENT_IMPLEMENTATIONS[LLM_AGENT] = agent;
+
+    const result = await invokeAgent(LLM_AGENT, {});
+    expect(result).toMatchObject({ success: true, output: { answer: 'ok' } });
+    expect(requests[0].body.model).toBe('stub/agent');
+  });
+});
@@ -9,7 +9,7 @@ const golden = [
 describe("Meeting Action Enforcer", () => {
   it("matches golden actions", async () => {
     const res = await fetch("http://localhost:3000/api/meeting-actions", { method:"POST", body: JSON.stringify({}) });
-    const data = await res.json();
+    const { data } = await res.json();
     expect(Array.isArray(data)).toBe(true);
     // Just check owners and titles exist in result
     const titles = data.map((d:any) => d.title);
@@ -0,0 +1,128 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { getCounterValue, incrementCounter, observeHistogram, renderMetrics, resetMetrics } from '@/lib/metrics';
+import { createLogger } from '@/lib/logger';
+import { invokeAgent } from '@/lib/agent-runtime';
+import { getDataSourceKind } from '@/lib/data-access';
+import { getRouteLabel } from '@/lib/api-auth';
+import { resetConfig } from '@/lib/config';
+import { resetRateLimits } from '@/lib/rate-limit';
+import { GET as metrics } from '@/app/api/metrics/route';
+import { GET as usage } from '@/app/api/usage/route';
+
+function logLines(spy: { mock: { calls: unknown[][] } }): Record<string, unknown>[] {
+  return spy.mock.calls.map(call => JSON.parse(String(call[0])));
+}
+
+describe('Metrics', () => {
+  beforeEach(() => {
+    vi.stubEnv('DATA_OFFLINE', 'true');
+    resetConfig();
+    resetMetrics();
+    resetRateLimits();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllEnvs();
+    resetConfig();
+  });
+
+  it('renders counters and histograms in the Prometheus text format', () => {
+    incrementCounter('api_errors_total', { code: 'VALIDATION_ERROR' }, 2);
+    observeHistogram('agent_run_duration_seconds', { agent: 'seo-pages' }, 0.03);
+
+    const text = renderMetrics();
+    expect(text).toContain('# TYPE api_errors_total counter');
+    expect(text).toContain('api_errors_total{code="VALIDATION_ERROR"} 2');
+    expect(text).toContain('agent_run_duration_seconds_bucket{agent="seo-pages",le="0.025"} 0');
+    expect(text).toContain('agent_run_duration_seconds_bucket{agent="seo-pages",le="0.05"} 1');
+    expect(text).toContain('agent_run_duration_seconds_bucket{agent="seo-pages",le="+Inf"} 1');
+    expect(text).toContain('agent_run_duration_seconds_count{agent="seo-pages"} 1');
+  });
+
+  it('counts agent runs, outcomes and data sources', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    await invokeAgent('invoice-anomalies', {});
+    await invokeAgent('meeting-actions', { path: 42 });
+    await invokeAgent('no-such-agent', {});
+
+    expect(getCounterValue('agent_runs_total', { agent: 'invoice-anomalies', outcome: 'ok' })).toBe(1);
+    expect(getCounterValue('agent_runs_total', { agent: 'meeting-actions', outcome: 'VALIDATION_ERROR' })).toBe(1);
+    expect(getCounterValue('agent_runs_total', { agent: 'unknown', outcome: 'AGENT_NOT_FOUND' })).toBe(1);
+    expect(renderMetrics()).toMatch(/data_loads_total\{agent="invoice-anomalies",source="local"\} [1-9]/);
+  });
+
+  it('classifies data sources', () => {
+    expect(getDataSourceKind('/tmp/agents-seed-pack-full/day01/invoices.csv')).toBe('local');
+    expect(getDataSourceKind('github-cache')).toBe('github');
+    expect(getDataSourceKind('mock-data')).toBe('mock');
+    expect(getDataSourceKind('not-found')).toBe('none');
+  });
+
+  it('labels requests by route template', () => {
+    expect(getRouteLabel('/api/agents/seo-pages/data/pages.json')).toBe('/api/agents/{agentId}/data/{path}');
+    expect(getRouteLabel('/api/agents/seo-pages/data')).toBe('/api/agents/{agentId}/data');
+    expect(getRouteLabel('/api/agents/seo-pages/run')).toBe('/api/agents/{agentId}/run');
+    expect(getRouteLabel('/api/agents/registry/check')).toBe('/api/agents/registry/check');
+    expect(getRouteLabel('/api/github/seo-pages/a/b.json')).toBe('/api/github/{agentId}/{path}');
+    expect(getRouteLabel('/api/github/cache')).toBe('/api/github/cache');
+    expect(getRouteLabel('/api/admin/keys/key_0123')).toBe('/api/admin/keys/{keyId}');
+    expect(getRouteLabel('/api/schedules/compliance-calendar/trigger')).toBe('/api/schedules/{agentId}/trigger');
+    expect(getRouteLabel('/api/prompts/meeting-actions/extract/preview')).toBe('/api/prompts/{agentId}/{name}/preview');
+    expect(getRouteLabel('/api/usage/')).toBe('/api/usage');
+  });
+
+  it('records and logs requests under the caller\'s request id', async () => {
+    const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    const res = await usage(new NextRequest('http://localhost:3000/api/usage', { headers: { 'X-Request-Id': 'req_test123' } }), {});
+    expect(res.headers.get('X-Request-Id')).toBe('req_test123');
+    expect(getCounterValue('http_requests_total', { route: '/api/usage', method: 'GET', status: '200' })).toBe(1);
+
+    const completed = logLines(log).find(line => line.msg === 'Request completed');
+    expect(completed).toMatchObject({ level: 'info', requestId: 'req_test123', method: 'GET', route: '/api/usage', status: 200 });
+    expect(completed?.durationMs).toEqual(expect.any(Number));
+
+    const scrape = await metrics(new NextRequest('http://localhost:3000/api/metrics'), {});
+    expect(scrape.headers.get('Content-Type')).toContain('text/plain; version=0.0.4');
+    expect(await scrape.text()).toContain('http_requests_total{route="/api/usage",method="GET",status="200"} 1');
+  });
+});
+
+describe('Logger', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllEnvs();
+    resetConfig();
+  });
+
+  it('writes JSON lines with bindings and serialized errors', () => {
+    const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const agentLogger = createLogger({ agent: 'seo-pages' }).child({ requestId: 'req_1' });
+
+    agentLogger.info('Loaded', { file: 'pages.json', skipped: undefined });
+    agentLogger.error('Failed', { error: new Error('boom') });
+
+    expect(logLines(log)[0]).toMatchObject({ level: 'info', msg: 'Loaded', agent: 'seo-pages', requestId: 'req_1', file: 'pages.json' });
+    expect(logLines(log)[0]).not.toHaveProperty('skipped');
+    expect(logLines(error)[0]).toMatchObject({ level: 'error', error: { message: 'boom', name: 'Error' } });
+  });
+
+  it('drops lines below LOG_LEVEL', () => {
+    vi.stubEnv('LOG_LEVEL', 'warn');
+    resetConfig();
+    const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    createLogger().info('hidden');
+    createLogger().debug('hidden');
+    createLogger().warn('shown');
+
+    expect(log).not.toHaveBeenCalled();
+    expect(error).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import { getAgentRegistry } from '@/lib/agent-registry';
+import { AGENT_MOCK_DATA, MockDataGenerators, getAgentMockData } from '@/lib/mock-data';
+import { createMockContext, createRandom, fixedClock } from '@/lib/mock-random';
+
+const clock = fixedClock('2025-03-01T12:00:00Z');
+
+describe('Seeded random and clock', () => {
+  it('repeats the same sequence for the same seed', () => {
+    const a = createRandom(7);
+    const b = createRandom(7);
+    const c = createRandom(8);
+
+    const sequence = Array.from({ length: 5 }, () => a.next());
+    expect(Array.from({ length: 5 }, () => b.next())).toEqual(sequence);
+    expect(Array.from({ length: 5 }, () => c.next())).not.toEqual(sequence);
+    expect(sequence.every(value => value >= 0 && value < 1)).toBe(true);
+  });
+
+  it('keeps integers in range and dates relative to the clock', () => {
+    const ctx = createMockContext({ seed: 1, clock });
+
+    for (let i = 0; i < 100; i++) {
+      const value = ctx.random.int(3, 5);
+      expect(value).toBeGreaterThanOrEqual(3);
+      expect(value).toBeLessThanOrEqual(5);
+    }
+    expect(ctx.date()).toBe('2025-03-01');
+    expect(ctx.date(-1)).toBe('2025-02-28');
+    expect(() => fixedClock('not a date')).toThrow(/Invalid clock time/);
+  });
+});
+
+describe('Mock data generators', () => {
+  it('covers every registered agent data file', () => {
+    for (const agent of Object.values(getAgentRegistry())) {
+      for (const file of agent.dataFiles) {
+        expect(AGENT_MOCK_DATA[agent.id]?.[file], `${agent.id}/${file}`).toBeTypeOf('function');
+        expect(getAgentMockData(agent.id, file, { clock })).toBeDefined();
+      }
+    }
+  });
+
+  it('produces identical fixtures for the same seed and clock', () => {
+    const first = getAgentMockData('invoice-anomalies', 'invoices.csv', { seed: 42, clock });
+    const second = getAgentMockData('invoice-anomalies', 'invoices.csv', { seed: 42, clock });
+    const other = getAgentMockData('invoice-anomalies', 'invoices.csv', { seed: 43, clock });
+
+    expect(second).toEqual(first);
+    expect(other).not.toEqual(first);
+    expect(MockDataGenerators.invoices(20, createMockContext({ seed: 42, scope: 'invoice-anomalies/invoices.csv', clock }))).toEqual(first);
+  });
+
+  it('plants detectable invoice anomalies', () => {
+    const invoices = MockDataGenerators.invoices(20, createMockContext({ seed: 5, clock }));
+    const amounts = invoices.map(invoice => invoice.amount).sort((a, b) => a - b);
+    const median = amounts[Math.floor(amounts.length / 2)];
+    const keys = invoices.map(invoice => `${invoice.vendor}|${invoice.amount}|${invoice.date}`);
+
+    expect(new Set(keys).size).toBeLessThan(keys.length);
+    expect(Math.max(...amounts)).toBeGreaterThan(median * 5);
+    expect(new Set(invoices.filter(invoice => invoice.vendor === invoices[3].vendor).map(invoice => invoice.iban)).size).toBeGreaterThan(1);
+  });
+
+  it('plants anomalies that span related files', () => {
+    type Row = Record<string, string | number>;
+    const documents = getAgentMockData<Row[]>('expense-parser', 'documents.csv', { clock }) ?? [];
+    const transactions = getAgentMockData<Row[]>('expense-parser', 'pos.csv', { clock }) ?? [];
+    const unmatched = transactions.filter(txn => !documents.some(doc => doc.merchant === txn.merchant && doc.amount === txn.amount));
+    expect(unmatched.map(txn => txn.merchant)).toEqual(['Apple Store']);
+
+    const optedOut = (getAgentMockData<Row[]>('pipeline-nurture', 'do_not_contact.csv', { clock }) ?? []).map(entry => entry.email);
+    const deals = getAgentMockData<Row[]>('pipeline-nurture', 'deals.csv', { clock }) ?? [];
+    expect(deals.filter(deal => optedOut.includes(deal.contact_email)).map(deal => deal.deal_id)).toEqual(['DEAL-004']);
+
+    const calendar = getAgentMockData<string>('calendar-load-balancer', 'cal_week.ics', { clock });
+    expect(calendar).toMatch(/^BEGIN:VCALENDAR\r\n/);
+    expect(calendar?.match(/BEGIN:VEVENT/g)).toHaveLength(8);
+  });
+
+  it('resolves files inside directory and glob entries', () => {
+    expect(getAgentMockData('contract-compliance', 'contracts/msa_03.txt', { clock })).toMatch(/unlimited/);
+    expect(Object.keys(getAgentMockData<Record<string, string>>('contract-compliance', 'contracts/', { clock }) ?? {})).toHaveLength(10);
+    expect(getAgentMockData('pii-finder', 'pii_samples/customers.csv', { clock })).toHaveLength(6);
+    expect(getAgentMockData('contract-compliance', 'unknown.txt')).toBeUndefined();
+    expect(getAgentMockData('no-such-agent', 'invoices.csv')).toBeUndefined();
+  });
+});
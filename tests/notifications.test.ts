@@ -0,0 +1,221 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach, vi } from 'vitest';
+import { createServer as createHttpServer, type IncomingHttpHeaders, type Server } from 'node:http';
+import { createServer as createTcpServer, type Server as TcpServer } from 'node:net';
+import type { AddressInfo } from 'node:net';
+import { z } from 'zod';
+import { NextRequest } from 'next/server';
+import { AGENT_IMPLEMENTATIONS } from '@/lib/agents';
+import { invokeAgent, type Agent } from '@/lib/agent-runtime';
+import { resetConfig } from '@/lib/config';
+import { resetRateLimits } from '@/lib/rate-limit';
+import { resetRunStore } from '@/lib/run-history';
+import { clearOutbox, listOutbox, sendNotification, type Notification } from '@/lib/notifications';
+import { formatMailMessage } from '@/lib/smtp';
+import { GET as getOutbox, DELETE as deleteOutbox } from '@/app/api/outbox/route';
+
+// A registered agent with no implementation yet, borrowed for a notifying test agent
+const NOTIFY_AGENT = 'vendor-sla-watchdog';
+const ADMIN_TOKEN = 'admin-token-0123456789'; // Clearing the outbox is an admin action
+const ADMIN_HEADERS = { Authorization: `Bearer ${ADMIN_TOKEN}` };
+
+const ALERT: Notification = {
+  title: 'SLA breach',
+  text: 'Acme missed the 4h response target',
+  severity: 'critical',
+  fields: [{ label: 'Vendor', value: 'Acme' }, { label: 'Late by', value: '2h' }],
+  url: 'https://example.com/vendors/acme'
+};
+
+// Fake Slack API and Teams webhook
+let http: Server;
+let httpUrl: string;
+let requests: { path: string; headers: IncomingHttpHeaders; body: string }[] = [];
+let slackReply: Record<string, unknown> = { ok: true };
+
+// Fake SMTP server that accepts everything and keeps each DATA section
+let smtp: TcpServer;
+let smtpPort: number;
+let mails: { commands: string[]; data: string }[] = [];
+
+describe('Notifications', () => {
+  beforeAll(async () => {
+    http = createHttpServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => { body += chunk; });
+      req.on('end', () => {
+        requests.push({ path: req.url ?? '', headers: req.headers, body });
+        res.setHeader('Content-Type', 'application/json');
+        res.end(req.url?.startsWith('/slack') ? JSON.stringify(slackReply) : '1');
+      });
+    });
+    smtp = createTcpServer(socket => {
+      const mail = { commands: [] as string[], data: '' };
+      let inData = false;
+      let buffer = '';
+      socket.write('220 fake.smtp ESMTP\r\n');
+      socket.on('data', chunk => {
+        buffer += chunk.toString();
+        let newline: number;
+        while ((newline = buffer.indexOf('\r\n')) >= 0) {
+          const line = buffer.slice(0, newline);
+          buffer = buffer.slice(newline + 2);
+          if (inData) {
+            if (line === '.') {
+              inData = false;
+              mails.push(mail);
+              socket.write('250 2.0.0 queued\r\n');
+            } else {
+              mail.data += `${line}\r\n`;
+            }
+            continue;
+          }
+          mail.commands.push(line);
+          if (line.startsWith('EHLO')) socket.write('250-fake.smtp\r\n250 AUTH PLAIN\r\n');
+          else if (line.startsWith('AUTH')) socket.write('235 2.7.0 ok\r\n');
+          else if (line === 'DATA') { inData = true; socket.write('354 go ahead\r\n'); }
+          else if (line === 'QUIT') socket.end('221 bye\r\n');
+          else socket.write('250 ok\r\n');
+        }
+      });
+    });
+    await new Promise<void>(resolve => http.listen(0, '127.0.0.1', resolve));
+    await new Promise<void>(resolve => smtp.listen(0, '127.0.0.1', resolve));
+    httpUrl = `http://127.0.0.1:${(http.address() as AddressInfo).port}`;
+    smtpPort = (smtp.address() as AddressInfo).port;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => http.close(resolve));
+    await new Promise(resolve => smtp.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests = [];
+    mails = [];
+    slackReply = { ok: true };
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.stubEnv('RUN_STORE', 'memory');
+    vi.stubEnv('SLACK_API_URL', `${httpUrl}/slack/api/`);
+    vi.stubEnv('SLACK_BOT_TOKEN', 'xoxb-test');
+    vi.stubEnv('TEAMS_WEBHOOK_URL', `${httpUrl}/teams/webhookb2/secret-token`);
+    vi.stubEnv('SMTP_HOST', '127.0.0.1');
+    vi.stubEnv('SMTP_PORT', String(smtpPort));
+    vi.stubEnv('SMTP_USER', 'agents');
+    vi.stubEnv('SMTP_PASS', 'hunter2');
+    vi.stubEnv('SMTP_FROM', 'Agents <agents@example.com>');
+    vi.stubEnv('NOTIFY_EMAIL_TO', 'ops@example.com');
+    vi.stubEnv('API_ADMIN_TOKEN', ADMIN_TOKEN);
+    resetConfig();
+    resetRunStore();
+    resetRateLimits();
+    clearOutbox();
+  });
+
+  afterEach(() => {
+    delete AGENT_IMPLEMENTATIONS[NOTIFY_AGENT];
+    vi.restoreAllMocks();
+    vi.unstubAllEnvs();
+    resetConfig();
+    resetRunStore();
+  });
+
+  it('records rendered messages without sending them in dry-run mode', async () => {
+    const slack = await sendNotification('slack', ALERT);
+    const teams = await sendNotification('teams', ALERT);
+    const email = await sendNotification('email', { ...ALERT, to: ['cfo@example.com'] });
+
+    expect(requests).toEqual([]);
+    expect(mails).toEqual([]);
+    expect(slack).toMatchObject({ status: 'dry-run', rendered: { target: '#alerts', payload: { channel: '#alerts', text: 'SLA breach: Acme missed the 4h response target' } } });
+    expect((slack.rendered.payload as { blocks: unknown[] }).blocks).toContainEqual({
+      type: 'section',
+      fields: [{ type: 'mrkdwn', text: '*Vendor*\nAcme' }, { type: 'mrkdwn', text: '*Late by*\n2h' }]
+    });
+    expect(teams.rendered).toMatchObject({
+      target: `127.0.0.1:${new URL(httpUrl).port}`,
+      payload: { '@type': 'MessageCard', themeColor: 'D13438', sections: [{ facts: [{ name: 'Vendor', value: 'Acme' }, { name: 'Late by', value: '2h' }] }] }
+    });
+    expect(JSON.stringify(teams.rendered)).not.toContain('secret-token');
+    expect(email.rendered.payload).toEqual({
+      from: 'Agents <agents@example.com>',
+      to: ['cfo@example.com'],
+      subject: '[CRITICAL] SLA breach',
+      text: 'Acme missed the 4h response target\n\nVendor: Acme\nLate by: 2h\n\nDetails: https://example.com/vendors/acme'
+    });
+    expect(listOutbox().map(entry => entry.channel)).toEqual(['email', 'teams', 'slack']);
+  });
+
+  it('sends to Slack, Teams and SMTP in live mode', async () => {
+    vi.stubEnv('NOTIFY_MODE', 'live');
+    resetConfig();
+
+    expect((await sendNotification('slack', { ...ALERT, to: ['#vendors'] })).status).toBe('sent');
+    expect((await sendNotification('teams', ALERT)).status).toBe('sent');
+    expect(await sendNotification('email', ALERT)).toMatchObject({ status: 'sent', rendered: { target: 'ops@example.com' } });
+
+    const slack = requests.find(request => request.path === '/slack/api/chat.postMessage');
+    expect(slack?.headers.authorization).toBe('Bearer xoxb-test');
+    expect(JSON.parse(slack?.body as string)).toMatchObject({ channel: '#vendors' });
+    expect(JSON.parse(requests.find(request => request.path.startsWith('/teams'))?.body as string)).toMatchObject({ title: 'SLA breach' });
+
+    expect(mails).toHaveLength(1);
+    expect(mails[0].commands).toEqual([
+      'EHLO localhost',
+      `AUTH PLAIN ${Buffer.from('\0agents\0hunter2').toString('base64')}`,
+      'MAIL FROM:<agents@example.com>',
+      'RCPT TO:<ops@example.com>',
+      'DATA',
+      'QUIT'
+    ]);
+    expect(mails[0].data).toContain('Subject: [CRITICAL] SLA breach\r\n');
+    expect(mails[0].data).toContain('\r\n\r\nAcme missed the 4h response target\r\n');
+  });
+
+  it('records failed sends with their error', async () => {
+    vi.stubEnv('NOTIFY_MODE', 'live');
+    vi.stubEnv('TEAMS_WEBHOOK_URL', '');
+    resetConfig();
+    slackReply = { ok: false, error: 'channel_not_found' };
+
+    expect(await sendNotification('slack', ALERT)).toMatchObject({ status: 'failed', error: 'Slack refused the message: channel_not_found' });
+    expect(await sendNotification('teams', ALERT)).toMatchObject({ status: 'failed', error: 'Teams is not configured (TEAMS_WEBHOOK_URL)' });
+    expect(listOutbox({ status: 'failed' })).toHaveLength(2);
+  });
+
+  it('escapes leading dots and encodes non-ASCII subjects in mail', () => {
+    const raw = formatMailMessage({ from: 'a@example.com', to: ['b@example.com'], subject: 'Überfällig', text: 'line one\n.hidden' }, new Date(0));
+    expect(raw).toContain(`Subject: =?UTF-8?B?${Buffer.from('Überfällig').toString('base64')}?=\r\n`);
+    expect(raw).toContain('Date: Thu, 01 Jan 1970 00:00:00 GMT\r\n');
+    expect(raw.endsWith('\r\n\r\nline one\r\n.hidden')).toBe(true);
+  });
+
+  it('lets agents notify and serves the outbox over HTTP', async () => {
+    const agent: Agent<Record<string, never>, { notified: string }> = {
+      id: NOTIFY_AGENT,
+      input: z.object({}),
+      output: z.object({ notified: z.string() }),
+      async run(ctx) {
+        const entry = await ctx.notify('email', ALERT);
+        return { output: { notified: entry.id } };
+      }
+    };
+    AGENT_IMPLEMENTATIONS[NOTIFY_AGENT] = agent;
+    await sendNotification('slack', ALERT);
+
+    const run = await invokeAgent(NOTIFY_AGENT, {}, { requestId: 'req_notify' });
+    expect(run.success).toBe(true);
+
+    const res = await getOutbox(new NextRequest('http://localhost:3000/api/outbox?channel=email'), {});
+    const body = await res.json();
+    expect(body.data).toMatchObject({ mode: 'dry-run', channels: { slack: { configured: true } }, total: 1 });
+    expect(body.data.entries[0]).toMatchObject({ agentId: NOTIFY_AGENT, requestId: 'req_notify', status: 'dry-run' });
+
+    const invalid = await getOutbox(new NextRequest('http://localhost:3000/api/outbox?channel=fax'), {});
+    expect((await invalid.json()).error.code).toBe('VALIDATION_ERROR');
+
+    const cleared = await deleteOutbox(new NextRequest('http://localhost:3000/api/outbox', { method: 'DELETE', headers: ADMIN_HEADERS }), {});
+    expect((await cleared.json()).data.cleared).toBe(2);
+    expect(listOutbox()).toEqual([]);
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import { readdirSync } from 'node:fs';
+import { join, relative } from 'node:path';
+import { z } from 'zod';
+import { zodToJsonSchema } from '@/lib/json-schema';
+import { buildOpenApiDocument } from '@/lib/openapi';
+import { ActionItems } from '@/lib/schemas';
+import { NextRequest } from 'next/server';
+import { GET as openapi } from '@/app/api/openapi.json/route';
+
+type Doc = {
+  paths: Record<string, Record<string, { parameters?: { name: string }[] }>>;
+  components: { schemas: Record<string, unknown> };
+};
+
+// app/api/agents/[agentId]/data/[...path]/route.ts -> /api/agents/{agentId}/data/{path}
+function routePaths(dir = join(process.cwd(), 'app', 'api')): string[] {
+  return readdirSync(dir, { withFileTypes: true }).flatMap(entry => {
+    const full = join(dir, entry.name);
+    if (entry.isDirectory()) return routePaths(full);
+    if (entry.name !== 'route.ts') return [];
+    return ['/' + relative(process.cwd(), dir)
+      .replace(/^app\//, '')
+      .replace(/\[\.\.\.(\w+)\]/g, '{$1}')
+      .replace(/\[(\w+)\]/g, '{$1}')];
+  });
+}
+
+describe('zodToJsonSchema', () => {
+  it('converts the shared schemas', () => {
+    expect(zodToJsonSchema(ActionItems)).toEqual({
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          owner: { type: 'string' },
+          title: { type: 'string' },
+          due: { type: 'string', pattern: '^\\d{4}-\\d{2}-\\d{2}$' }
+        },
+        required: ['owner', 'title', 'due']
+      }
+    });
+  });
+
+  it('handles optional, nullable, defaults, enums, records and effects', () => {
+    const schema = z.object({
+      count: z.number().int().min(0),
+      note: z.string().nullable().optional(),
+      level: z.enum(['low', 'high']).default('low'),
+      tags: z.record(z.boolean()),
+      amount: z.preprocess(Number, z.number()).describe('Parsed from text'),
+      kind: z.union([z.literal('a'), z.literal('b')])
+    }).strict();
+
+    expect(zodToJsonSchema(schema)).toEqual({
+      type: 'object',
+      properties: {
+        count: { type: 'integer', minimum: 0 },
+        note: { type: ['string', 'null'] },
+        level: { type: 'string', enum: ['low', 'high'], default: 'low' },
+        tags: { type: 'object', additionalProperties: { type: 'boolean' } },
+        amount: { type: 'number', description: 'Parsed from text' },
+        kind: { anyOf: [{ const: 'a' }, { const: 'b' }] }
+      },
+      required: ['count', 'tags', 'amount', 'kind'],
+      additionalProperties: false
+    });
+  });
+});
+
+describe('OpenAPI document', () => {
+  const doc = buildOpenApiDocument('http://localhost:3000') as unknown as Doc & { openapi: string };
+
+  it('documents every route in app/api', () => {
+    const documented = Object.keys(doc.paths);
+    expect(doc.openapi).toBe('3.1.0');
+    expect(routePaths().filter(path => !documented.includes(path) && path !== '/api/docs')).toEqual([]);
+  });
+
+  it('includes agent input/output schemas and the data and GitHub query parameters', () => {
+    const params = (path: string, method = 'get') => doc.paths[path][method].parameters?.map(param => param.name);
+
+    expect(doc.components.schemas).toHaveProperty('MeetingActionsInput');
+    expect(doc.components.schemas).toHaveProperty('InvoiceAnomaliesOutput');
+    expect(doc.components.schemas).toHaveProperty('TicketBrief');
+    expect(params('/api/agents/{agentId}/data')).toEqual(expect.arrayContaining(['file', 'format', 'policy']));
+    expect(params('/api/github/{agentId}')).toEqual(expect.arrayContaining(['includeData', 'listFiles']));
+    expect(params('/api/github/{agentId}/{path}')).toEqual(expect.arrayContaining(['format', 'method']));
+  });
+
+  it('only references schemas that exist', () => {
+    const refs = JSON.stringify(doc).match(/#\/components\/schemas\/\w+/g) ?? [];
+    const missing = refs.map(ref => ref.split('/').pop() as string).filter(name => !(name in doc.components.schemas));
+    expect(missing).toEqual([]);
+  });
+
+  it('is served as a bare document', async () => {
+    const res = await openapi(new NextRequest('http://localhost:3000/api/openapi.json'));
+    const body = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(body.servers).toEqual([{ url: 'http://localhost:3000' }]);
+    expect(body).not.toHaveProperty('success');
+  });
+});
@@ -0,0 +1,128 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { z } from 'zod';
+import { NextRequest } from 'next/server';
+import { invokeAgent } from '@/lib/agent-runtime';
+import { resetAgentRegistry } from '@/lib/agent-registry';
+import { resetConfig } from '@/lib/config';
+import { resetLLMProvider } from '@/lib/llm';
+import { getRunStore, resetRunStore } from '@/lib/run-history';
+import { resetRateLimits } from '@/lib/rate-limit';
+import {
+  getPromptTemplate,
+  parsePromptRef,
+  renderPrompt,
+  validatePromptTemplates,
+  type PromptTemplate
+} from '@/lib/prompt-registry';
+import { GET as listPrompts } from '@/app/api/prompts/route';
+import { GET as getPrompt } from '@/app/api/prompts/[agentId]/[name]/route';
+import { GET as previewGet, POST as previewPost } from '@/app/api/prompts/[agentId]/[name]/preview/route';
+
+const extract = { params: { agentId: 'meeting-actions', name: 'extract' } };
+
+describe('Prompt registry', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.stubEnv('RUN_STORE', 'memory');
+    vi.stubEnv('LLM_PROVIDER', 'off');
+    resetConfig();
+    resetRunStore();
+    resetRateLimits();
+    resetLLMProvider();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllEnvs();
+    resetConfig();
+    resetRunStore();
+    resetLLMProvider();
+  });
+
+  it('has consistent templates and registry pins', () => {
+    expect(validatePromptTemplates()).toEqual([]);
+  });
+
+  it('resolves the requested, pinned or latest version', () => {
+    expect(parsePromptRef('meeting-actions/extract@v1')).toEqual({ agentId: 'meeting-actions', name: 'extract', version: 1 });
+    expect(parsePromptRef('meeting-actions/extract')).toEqual({ agentId: 'meeting-actions', name: 'extract' });
+    expect(parsePromptRef('extract@v1')).toBeNull();
+
+    expect(getPromptTemplate('meeting-actions', 'extract')?.version).toBe(2); // Pinned in the registry
+    expect(getPromptTemplate('meeting-actions', 'extract', 1)?.version).toBe(1);
+    expect(getPromptTemplate('meeting-actions', 'extract', 9)).toBeNull();
+    expect(getPromptTemplate('meeting-actions', 'summarise')).toBeNull();
+  });
+
+  it('fills variables and partials and validates the variables', () => {
+    const template: PromptTemplate<{ who: { name: string }; items: string[]; note?: string }> = {
+      agentId: 'meeting-actions',
+      name: 'test',
+      version: 1,
+      description: 'Test template',
+      variables: z.object({ who: z.object({ name: z.string() }), items: z.array(z.string()), note: z.string().optional() }),
+      messages: [{ role: 'user', content: 'Hi {{ who.name }}. {{> iso-dates}}\n{{items}}\n[{{note}}]' }]
+    };
+
+    const rendered = renderPrompt(template, { who: { name: 'Mina' }, items: ['a'] });
+    expect(rendered).toMatchObject({ ref: 'meeting-actions/test@v1', version: 1 });
+    expect(rendered.messages).toEqual([{ role: 'user', content: 'Hi Mina. Write dates as YYYY-MM-DD.\n[\n  "a"\n]\n[]' }]);
+    expect(rendered.hash).toBe(renderPrompt(template, { who: { name: 'Mina' }, items: ['a'] }).hash);
+    expect(() => renderPrompt(template, { who: {}, items: [] })).toThrow('Invalid variables for prompt meeting-actions/test@v1: who.name: Required');
+    expect(() => renderPrompt({ ...template, messages: [{ role: 'user', content: '{{> nope}}' }] }, { who: { name: 'x' }, items: [] }))
+      .toThrow("Unknown prompt partial 'nope'");
+  });
+
+  it('records the prompt version with the run', async () => {
+    // The agent reads its transcript from the seed pack, so point the data roots at a temporary one
+    const dir = await mkdtemp(join(tmpdir(), 'prompts-'));
+    await mkdir(join(dir, 'day08_Meeting_Action_Enforcer'));
+    await writeFile(join(dir, 'day08_Meeting_Action_Enforcer', 'transcript.txt'), '@Raj update pitch deck by Oct 18\n');
+    vi.stubEnv('SEED_ROOTS', dir);
+    resetConfig();
+    resetAgentRegistry();
+    try {
+      const result = await invokeAgent('meeting-actions', {});
+      const run = await getRunStore()?.get(result.runId as string);
+      expect(run?.prompts).toEqual([{ ref: 'meeting-actions/extract@v2', hash: expect.stringMatching(/^[0-9a-f]{64}$/) }]);
+    } finally {
+      resetAgentRegistry();
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('lists and previews prompts over HTTP', async () => {
+    const list = await (await listPrompts(new NextRequest('http://localhost:3000/api/prompts?agentId=meeting-actions'), {})).json();
+    expect(list.data.prompts).toHaveLength(1);
+    expect(list.data.prompts[0]).toMatchObject({ id: 'meeting-actions/extract', activeVersion: 2, pinnedVersion: 2, latestVersion: 2 });
+    expect(list.data.prompts[0].versions.map((version: { ref: string }) => version.ref)).toEqual(['meeting-actions/extract@v2', 'meeting-actions/extract@v1']);
+
+    const missing = await getPrompt(new NextRequest('http://localhost:3000/api/prompts/meeting-actions/nope'), { params: { agentId: 'meeting-actions', name: 'nope' } });
+    expect(missing.status).toBe(404);
+    expect((await missing.json()).error.code).toBe('PROMPT_NOT_FOUND');
+
+    const seeded = await previewGet(new NextRequest('http://localhost:3000/api/prompts/meeting-actions/extract/preview?version=v1&offline=true'), extract);
+    expect(seeded.status).toBe(200);
+    const { data } = await seeded.json();
+    expect(data.prompt.ref).toBe('meeting-actions/extract@v1');
+    expect(data.prompt.messages[1].content).toBe(data.variables.transcript);
+    expect(data.dataFiles).toEqual([expect.objectContaining({ agentId: 'meeting-actions', file: 'transcript.txt', success: true })]);
+
+    const posted = await previewPost(new NextRequest('http://localhost:3000/api/prompts/meeting-actions/extract/preview', {
+      method: 'POST',
+      body: JSON.stringify({ variables: { transcript: '@Mina ship it by Oct 20' } })
+    }), extract);
+    expect((await posted.json()).data.prompt.messages[1].content).toBe('Transcript:\n"""\n@Mina ship it by Oct 20\n"""');
+
+    const invalid = await previewPost(new NextRequest('http://localhost:3000/api/prompts/meeting-actions/extract/preview', {
+      method: 'POST',
+      body: JSON.stringify({ variables: { transcript: 42 } })
+    }), extract);
+    expect(invalid.status).toBe(400);
+    expect((await invalid.json()).error.code).toBe('VALIDATION_ERROR');
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { NextRequest, NextResponse } from 'next/server';
+import { consumeRateLimit, consumeRunQuota, getAgentRateLimit, getRateLimitClient, getRunQuota, resetRateLimits } from '@/lib/rate-limit';
+import { withApiAuth } from '@/lib/api-auth';
+import { resetConfig } from '@/lib/config';
+
+const NOW = Date.parse('2024-03-01T12:00:00Z');
+
+describe('Rate limits', () => {
+  beforeEach(() => {
+    resetConfig();
+    resetRateLimits();
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    resetConfig();
+    resetRateLimits();
+  });
+
+  it('refills the token bucket over the minute', async () => {
+    expect(await consumeRateLimit('k', 2, NOW)).toMatchObject({ allowed: true, limit: 2, remaining: 1 });
+    expect(await consumeRateLimit('k', 2, NOW)).toMatchObject({ allowed: true, remaining: 0, resetSeconds: 60 });
+    expect(await consumeRateLimit('k', 2, NOW)).toMatchObject({ allowed: false, retryAfterSeconds: 30 });
+    expect(await consumeRateLimit('k', 2, NOW + 30_000)).toMatchObject({ allowed: true, remaining: 0 });
+  });
+
+  it('scales agent limits by complexity unless set explicitly', () => {
+    vi.stubEnv('RATE_LIMIT_PER_MINUTE', '60');
+    vi.stubEnv('RATE_LIMIT_AGENTS', 'seo-pages=7');
+    resetConfig();
+
+    expect(getAgentRateLimit()).toBe(60);
+    expect(getAgentRateLimit('invoice-anomalies')).toBe(12); // complexity 5
+    expect(getAgentRateLimit('seo-pages')).toBe(7);
+  });
+
+  it('enforces daily run quotas per client and resets at UTC midnight', async () => {
+    vi.stubEnv('RATE_LIMIT_DAILY_RUNS', '2');
+    resetConfig();
+    const client = { id: 'ip:10.0.0.1' };
+
+    expect((await consumeRunQuota(client, 'seo-pages', NOW)).remaining).toBe(1);
+    expect((await consumeRunQuota(client, 'invoice-anomalies', NOW)).remaining).toBe(0);
+    expect(await consumeRunQuota(client, 'seo-pages', NOW)).toMatchObject({ allowed: false, used: 2 });
+    expect(await consumeRunQuota({ id: 'key:big', dailyRuns: 5 }, undefined, NOW)).toMatchObject({ allowed: true, remaining: 4 });
+
+    expect(await getRunQuota(client, NOW)).toEqual({
+      day: '2024-03-01',
+      limit: 2,
+      used: 2,
+      remaining: 0,
+      resetsAt: '2024-03-02T00:00:00.000Z',
+      agents: { 'seo-pages': 1, 'invoice-anomalies': 1 }
+    });
+    expect((await getRunQuota(client, Date.parse('2024-03-02T00:00:01Z'))).used).toBe(0);
+  });
+
+  it('answers 429 with Retry-After and X-RateLimit headers from wrapped routes', async () => {
+    vi.stubEnv('RATE_LIMIT_AGENTS', 'seo-pages=1');
+    resetConfig();
+    const route = withApiAuth(async () => NextResponse.json({ ok: true }));
+    const call = () => route(new NextRequest('http://localhost:3000/api/seo-pages', {
+      method: 'POST',
+      headers: { 'X-Forwarded-For': '10.0.0.2' }
+    }), undefined);
+
+    const first = await call();
+    expect(first.status).toBe(200);
+    expect(first.headers.get('X-RateLimit-Limit')).toBe('1');
+    expect(first.headers.get('X-RateLimit-Remaining')).toBe('0');
+    expect(first.headers.get('X-Quota-Remaining')).toBe('999');
+
+    const second = await call();
+    expect(second.status).toBe(429);
+    expect(second.headers.get('Retry-After')).toBe('60');
+    expect(await second.json()).toMatchObject({ error: { code: 'RATE_LIMIT_EXCEEDED' } });
+  });
+
+  it('keys anonymous clients by the trusted proxy\'s X-Forwarded-For entry', async () => {
+    vi.stubEnv('RATE_LIMIT_AGENTS', 'seo-pages=1');
+    resetConfig();
+    const route = withApiAuth(async () => NextResponse.json({ ok: true }));
+    const call = (forwardedFor: string) => route(new NextRequest('http://localhost:3000/api/seo-pages', {
+      method: 'POST',
+      headers: { 'X-Forwarded-For': forwardedFor }
+    }), undefined);
+
+    expect((await call('1.1.1.1, 10.0.0.3')).status).toBe(200);
+    // A spoofed leading entry does not start a new bucket
+    expect((await call('2.2.2.2, 10.0.0.3')).status).toBe(429);
+    expect((await call('10.0.0.4')).status).toBe(200);
+
+    vi.stubEnv('RATE_LIMIT_TRUSTED_PROXIES', '2');
+    resetConfig();
+    expect(getRateLimitClient(new NextRequest('http://localhost:3000/api/agents', {
+      headers: { 'X-Forwarded-For': '1.1.1.1, 10.0.0.5, 172.16.0.1' }
+    }))).toEqual({ id: 'ip:10.0.0.5' });
+
+    vi.stubEnv('RATE_LIMIT_TRUSTED_PROXIES', '0');
+    resetConfig();
+    expect(getRateLimitClient(new NextRequest('http://localhost:3000/api/agents', {
+      headers: { 'X-Forwarded-For': '10.0.0.5' }
+    }))).toEqual({ id: 'ip:unknown' });
+  });
+
+  it('does not limit when RATE_LIMIT=off', async () => {
+    vi.stubEnv('RATE_LIMIT', 'off');
+    vi.stubEnv('RATE_LIMIT_AGENTS', 'seo-pages=1');
+    resetConfig();
+    const route = withApiAuth(async () => NextResponse.json({ ok: true }));
+    const req = () => new NextRequest('http://localhost:3000/api/seo-pages', { method: 'POST' });
+
+    expect((await route(req(), undefined)).status).toBe(200);
+    expect((await route(req(), undefined)).status).toBe(200);
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { mkdirSync, mkdtempSync, writeFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { AgentConfig } from "@/lib/agent-registry";
+import { buildAgentRegistry, checkRegistryDrift } from "@/lib/registry-builder";
+
+const agent = (id: string, dayFolder: string, dataFiles: string[]): AgentConfig => ({
+  id,
+  name: id,
+  dayFolder,
+  apiRoute: `/api/${id}`,
+  description: id,
+  dataFiles,
+  category: 'Financial',
+  complexity: 3,
+  status: 'planned'
+});
+
+const base = {
+  'payments': agent('payments', 'day01_Payments', ['overdue_invoices.csv', 'policy.yaml', 'letters/*.txt']),
+  'seo': agent('seo', 'day15_SEO_Sentinel', ['sitemap.xml']),
+  'social': agent('social', 'day15_Social_Listening', ['mentions.json'])
+};
+
+describe("Registry builder", () => {
+  let seedRoot: string;
+
+  beforeAll(() => {
+    seedRoot = mkdtempSync(join(tmpdir(), "seed-pack-"));
+    for (const [folder, files] of Object.entries({
+      'day01_Payments': ['README.md', 'invoices.csv', 'policy.yaml', 'letters/a.txt', 'letters/b.txt'],
+      'day15_Social_Listening': ['mentions.json'],
+      'day13_SEO_Issue_Sentinel': ['sitemap.xml']
+    })) {
+      for (const file of files) {
+        mkdirSync(join(seedRoot, folder, file, '..'), { recursive: true });
+        writeFileSync(join(seedRoot, folder, file), '');
+      }
+    }
+  });
+
+  afterAll(() => {
+    rmSync(seedRoot, { recursive: true, force: true });
+  });
+
+  it("merges discovered files with hand-written metadata", () => {
+    const registry = buildAgentRegistry(base, seedRoot);
+    expect(registry['payments'].dataFiles).toEqual(['policy.yaml', 'letters/*.txt', 'invoices.csv']);
+    expect(registry['payments'].category).toBe('Financial');
+    expect(registry['seo'].dataFiles).toEqual(['sitemap.xml']);
+    expect(registry['seo-issue-sentinel']).toMatchObject({
+      dayFolder: 'day13_SEO_Issue_Sentinel',
+      dataFiles: ['sitemap.xml'],
+      status: 'planned'
+    });
+  });
+
+  it("reports registry drift", () => {
+    const report = checkRegistryDrift(base, seedRoot);
+    expect(report.ok).toBe(false);
+    expect(report.missingFolders).toEqual([{ agentId: 'seo', dayFolder: 'day15_SEO_Sentinel' }]);
+    expect(report.phantomFiles).toEqual([{ agentId: 'payments', dayFolder: 'day01_Payments', file: 'overdue_invoices.csv' }]);
+    expect(report.unregisteredFiles).toEqual([{ agentId: 'payments', dayFolder: 'day01_Payments', file: 'invoices.csv' }]);
+    expect(report.unregisteredFolders).toEqual(['day13_SEO_Issue_Sentinel']);
+    expect(report.duplicateDayFolders).toEqual([
+      { day: 'day15', folders: ['day15_SEO_Sentinel', 'day15_Social_Listening'], agents: ['seo', 'social'] }
+    ]);
+  });
+});
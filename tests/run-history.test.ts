@@ -0,0 +1,188 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdirSync, mkdtempSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { NextRequest } from 'next/server';
+import { invokeAgent } from '@/lib/agent-runtime';
+import { resetConfig } from '@/lib/config';
+import { resetRateLimits } from '@/lib/rate-limit';
+import {
+  compareRuns,
+  createFileRunStore,
+  createRunId,
+  diffValues,
+  getRunStore,
+  hashValue,
+  resetRunStore,
+  type RunRecord
+} from '@/lib/run-history';
+import { GET as listRuns } from '@/app/api/runs/route';
+import { GET as getRun } from '@/app/api/runs/[runId]/route';
+import { POST as replay } from '@/app/api/runs/[runId]/replay/route';
+
+const INVOICES = `invoice_id,amount,date,vendor,status
+INV-001,15000,2024-01-15,TechCorp,paid
+INV-002,25000,2024-01-20,DataSys,pending
+INV-003,8500,2024-01-25,CloudServ,paid`;
+
+function run(overrides: Partial<RunRecord> = {}): RunRecord {
+  return {
+    id: createRunId(),
+    agentId: 'seo-pages',
+    status: 'success',
+    input: {},
+    inputHash: hashValue({}),
+    options: {},
+    dataFiles: [],
+    output: { count: 1 },
+    durationMs: 5,
+    startedAt: new Date().toISOString(),
+    ...overrides
+  };
+}
+
+describe('Run history', () => {
+  let seedRoot: string;
+
+  beforeEach(() => {
+    seedRoot = mkdtempSync(join(tmpdir(), 'run-history-'));
+    mkdirSync(join(seedRoot, 'day25_Invoice_Fraud_Anomaly_Detector'));
+    writeFileSync(join(seedRoot, 'day25_Invoice_Fraud_Anomaly_Detector', 'invoices.csv'), INVOICES);
+
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.stubEnv('SEED_ROOTS', seedRoot);
+    vi.stubEnv('DATA_OFFLINE', 'true');
+    vi.stubEnv('DATA_FALLBACK_POLICY', 'local-only');
+    vi.stubEnv('RUN_STORE', 'file');
+    vi.stubEnv('RUN_STORE_DIR', join(seedRoot, 'runs'));
+    resetConfig();
+    resetRunStore();
+    resetRateLimits();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllEnvs();
+    resetConfig();
+    resetRunStore();
+  });
+
+  it('hashes values independently of key order', () => {
+    expect(hashValue({ a: 1, b: [1, { c: 2, d: 3 }] })).toBe(hashValue({ b: [1, { d: 3, c: 2 }], a: 1 }));
+    expect(hashValue({ a: 1 })).not.toBe(hashValue({ a: 2 }));
+    expect(createRunId(1000) < createRunId(2000)).toBe(true);
+  });
+
+  it('lists the paths that differ between two outputs', () => {
+    expect(diffValues(
+      { top5: [{ id: 'a', amount: 1 }], count: 2, note: 'same' },
+      { top5: [{ id: 'a', amount: 3 }, { id: 'b' }], count: 2, note: 'same', extra: true }
+    )).toEqual([
+      { path: 'top5[0].amount', before: 1, after: 3 },
+      { path: 'top5[1]', before: undefined, after: { id: 'b' } },
+      { path: 'extra', before: undefined, after: true }
+    ]);
+  });
+
+  it('stores, filters and pages runs in the file store', async () => {
+    const store = createFileRunStore(join(seedRoot, 'store'));
+    const first = run({ id: createRunId(1000) });
+    const failed = run({ id: createRunId(2000), agentId: 'meeting-actions', status: 'error', code: 'VALIDATION_ERROR', output: undefined });
+    const latest = run({ id: createRunId(3000) });
+    for (const entry of [first, failed, latest]) await store.save(entry);
+
+    expect(await store.get(first.id)).toEqual(first);
+    expect(await store.get('run_missing')).toBeNull();
+    expect(await store.get('../../etc/passwd')).toBeNull();
+
+    const page = await store.list({ offset: 0, limit: 2 });
+    expect(page.total).toBe(3);
+    expect(page.runs.map(entry => entry.id)).toEqual([latest.id, failed.id]);
+
+    expect((await store.list({ agentIds: ['seo-pages'], offset: 1, limit: 10 })).runs.map(entry => entry.id)).toEqual([first.id]);
+    expect((await store.list({ status: 'error', offset: 0, limit: 10 })).runs).toEqual([failed]);
+  });
+
+  it('records every invocation with input, data file hashes and output', async () => {
+    const result = await invokeAgent('invoice-anomalies', {}, { requestId: 'req_history' });
+    expect(result.runId).toMatch(/^run_/);
+
+    const stored = await getRunStore()?.get(result.runId as string);
+    expect(stored).toMatchObject({
+      agentId: 'invoice-anomalies',
+      status: 'success',
+      inputHash: hashValue({}),
+      requestId: 'req_history',
+      output: { totalInvoices: 3 }
+    });
+    expect(stored?.dataFiles).toEqual([{
+      agentId: 'invoice-anomalies',
+      file: 'invoices.csv',
+      source: expect.stringContaining(seedRoot),
+      success: true,
+      hash: expect.stringMatching(/^[0-9a-f]{64}$/)
+    }]);
+
+    const failed = await invokeAgent('meeting-actions', { path: 42 });
+    expect(await getRunStore()?.get(failed.runId as string)).toMatchObject({ status: 'error', code: 'VALIDATION_ERROR' });
+    expect((await invokeAgent('no-such-agent', {})).runId).toBeUndefined();
+  });
+
+  it('records nothing with RUN_STORE=off', async () => {
+    vi.stubEnv('RUN_STORE', 'off');
+    resetConfig();
+    resetRunStore();
+
+    expect((await invokeAgent('invoice-anomalies', {})).runId).toBeUndefined();
+    expect(getRunStore()).toBeNull();
+  });
+
+  it('compares outcomes and data file hashes', () => {
+    const file = { agentId: 'seo-pages', file: 'pages.json', source: 'local', success: true };
+    const before = run({ dataFiles: [{ ...file, hash: 'a' }] });
+    const after = run({ dataFiles: [{ ...file, hash: 'b' }], status: 'error', code: 'DATA_INVALID', output: undefined });
+
+    expect(compareRuns(before, after)).toEqual({
+      statusChanged: true,
+      outputChanged: true,
+      differences: [{ path: '', before: { count: 1 }, after: undefined }],
+      truncated: false,
+      dataChanged: [{ agentId: 'seo-pages', file: 'pages.json', before: 'a', after: 'b' }]
+    });
+    expect(compareRuns(before, before)).toMatchObject({ statusChanged: false, outputChanged: false, dataChanged: [] });
+  });
+
+  it('serves runs and replays them against changed data', async () => {
+    const original = await invokeAgent('invoice-anomalies', {}, { offline: true });
+    const id = original.runId as string;
+
+    const list = await (await listRuns(new NextRequest('http://localhost:3000/api/runs?agentId=invoice-anomalies'), {})).json();
+    expect(list.data.runs.map((entry: RunRecord) => entry.id)).toEqual([id]);
+    expect(list.data.runs[0]).not.toHaveProperty('output');
+    expect(list.data.pagination).toMatchObject({ page: 1, total: 1, has_next: false });
+
+    const detail = await getRun(new NextRequest(`http://localhost:3000/api/runs/${id}`), { params: { runId: id } });
+    expect((await detail.json()).data).toMatchObject({ id, options: { offline: true } });
+
+    const missing = await getRun(new NextRequest('http://localhost:3000/api/runs/run_missing'), { params: { runId: 'run_missing' } });
+    expect(missing.status).toBe(404);
+    expect((await missing.json()).error.code).toBe('RUN_NOT_FOUND');
+
+    writeFileSync(join(seedRoot, 'day25_Invoice_Fraud_Anomaly_Detector', 'invoices.csv'), INVOICES.replace('25000', '95000'));
+    const res = await replay(new NextRequest(`http://localhost:3000/api/runs/${id}/replay`, { method: 'POST' }), { params: { runId: id } });
+    const body = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get('X-Run-Id')).toBe(body.data.replay.id);
+    expect(body.data.replay).toMatchObject({ replayOf: id, options: { offline: true }, status: 'success' });
+    expect(body.data.comparison.statusChanged).toBe(false);
+    expect(body.data.comparison.outputChanged).toBe(true);
+    expect(body.data.comparison.dataChanged).toEqual([
+      expect.objectContaining({ agentId: 'invoice-anomalies', file: 'invoices.csv' })
+    ]);
+
+    const replays = await (await listRuns(new NextRequest(`http://localhost:3000/api/runs?replayOf=${id}`), {})).json();
+    expect(replays.data.runs.map((entry: RunRecord) => entry.id)).toEqual([body.data.replay.id]);
+  });
+});
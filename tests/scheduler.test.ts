@@ -0,0 +1,215 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, readdirSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { z } from 'zod';
+import { NextRequest } from 'next/server';
+import { AGENT_IMPLEMENTATIONS } from '@/lib/agents';
+import type { Agent } from '@/lib/agent-runtime';
+import { resetConfig } from '@/lib/config';
+import { getJob, resetJobs, waitForJob } from '@/lib/jobs';
+import type { MockClock } from '@/lib/mock-random';
+import { resetRateLimits } from '@/lib/rate-limit';
+import { resetRunStore } from '@/lib/run-history';
+import {
+  createFileScheduleStore,
+  createMemoryScheduleStore,
+  createScheduler,
+  resetScheduler,
+  validateSchedules,
+  type ScheduleStore
+} from '@/lib/scheduler';
+import { GET as listSchedules } from '@/app/api/schedules/route';
+import { POST as pause } from '@/app/api/schedules/[agentId]/pause/route';
+import { POST as resume } from '@/app/api/schedules/[agentId]/resume/route';
+import { POST as trigger } from '@/app/api/schedules/[agentId]/trigger/route';
+
+// Registered agents with schedules but no implementation yet: '0 7 * * *' all, '0 9 * * 1-5' latest, '0 * * * *' skip
+const SCHEDULED = ['compliance-calendar', 'smart-payment-follow-up', 'vendor-sla-watchdog'];
+
+function stubAgent(id: string): Agent<Record<string, never>, { ok: true }> {
+  return {
+    id,
+    input: z.object({}).strict(),
+    output: z.object({ ok: z.literal(true) }),
+    async run() {
+      return { output: { ok: true } };
+    }
+  };
+}
+
+const ADMIN_TOKEN = 'admin-token-0123456789'; // Pausing and resuming are admin actions
+const ADMIN_HEADERS = { Authorization: `Bearer ${ADMIN_TOKEN}` };
+
+describe('Scheduler', () => {
+  let now: number;
+  const clock: MockClock = { now: () => now };
+  let store: ScheduleStore;
+
+  beforeEach(() => {
+    for (const id of SCHEDULED) AGENT_IMPLEMENTATIONS[id] = stubAgent(id);
+    now = Date.parse('2024-10-14T06:30:00Z'); // A Monday
+    store = createMemoryScheduleStore();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.stubEnv('RUN_STORE', 'memory');
+    vi.stubEnv('SCHEDULER_STORE', 'memory');
+    vi.stubEnv('JOBS_MAX_QUEUED', '100');
+    vi.stubEnv('API_ADMIN_TOKEN', ADMIN_TOKEN);
+    resetConfig();
+    resetRunStore();
+    resetRateLimits();
+    resetJobs();
+    resetScheduler();
+  });
+
+  afterEach(() => {
+    for (const id of SCHEDULED) delete AGENT_IMPLEMENTATIONS[id];
+    resetJobs();
+    resetScheduler();
+    vi.restoreAllMocks();
+    vi.unstubAllEnvs();
+    resetConfig();
+    resetRunStore();
+  });
+
+  it('has a valid cron expression for every scheduled agent', () => {
+    expect(validateSchedules()).toEqual([]);
+  });
+
+  it('starts counting on first sight, then runs each fire time as a job', async () => {
+    const scheduler = createScheduler({ clock, store });
+    expect(await scheduler.tick()).toEqual([]);
+
+    now = Date.parse('2024-10-14T07:00:20Z');
+    const runs = (await scheduler.tick()).filter(run => run.agentId === 'compliance-calendar');
+    expect(runs).toEqual([
+      { agentId: 'compliance-calendar', scheduledFor: '2024-10-14T07:00:00.000Z', jobId: expect.stringMatching(/^job_/) }
+    ]);
+    expect(await scheduler.tick()).toEqual([]);
+
+    const job = await waitForJob(runs[0].jobId as string);
+    expect(job).toMatchObject({ status: 'succeeded', requestId: `sched_compliance-calendar_${Date.parse('2024-10-14T07:00:00Z')}` });
+    await vi.waitFor(async () => expect(await scheduler.get('compliance-calendar')).toMatchObject({
+      lastScheduledFor: '2024-10-14T07:00:00.000Z',
+      lastJobId: job?.id,
+      lastRunId: job?.runId,
+      lastOutcome: 'ok',
+      nextRunAt: '2024-10-15T07:00:00.000Z'
+    }));
+  });
+
+  it('applies each catch-up policy to missed fire times', async () => {
+    const scheduler = createScheduler({ clock, store });
+    await scheduler.tick();
+
+    now = Date.parse('2024-10-17T09:30:00Z'); // Down since Monday morning
+    const runs = await scheduler.tick();
+    const byAgent = (id: string) => runs.filter(run => run.agentId === id).map(run => run.scheduledFor);
+
+    expect(byAgent('compliance-calendar')).toEqual(['14', '15', '16', '17'].map(day => `2024-10-${day}T07:00:00.000Z`));
+    expect(byAgent('smart-payment-follow-up')).toEqual(['2024-10-17T09:00:00.000Z']);
+    expect(byAgent('vendor-sla-watchdog')).toEqual([]);
+    expect(await store.getState('vendor-sla-watchdog')).toMatchObject({ lastScheduledFor: '2024-10-17T09:00:00.000Z', lastOutcome: 'skipped' });
+
+    now = Date.parse('2024-10-17T10:00:20Z'); // On time again
+    expect((await scheduler.tick()).map(run => run.agentId)).toEqual(['vendor-sla-watchdog']);
+  });
+
+  it('runs each fire time once across schedulers sharing a store', async () => {
+    const a = createScheduler({ clock, store, owner: 'a' });
+    const b = createScheduler({ clock, store, owner: 'b' });
+    await a.tick();
+
+    now = Date.parse('2024-10-14T07:00:10Z');
+    const [fromA, fromB] = await Promise.all([a.tick(), b.tick()]);
+    expect([...fromA, ...fromB].map(run => run.agentId).sort()).toEqual(['compliance-calendar', 'vendor-sla-watchdog']);
+
+    // A lock held by another instance defers the claim until it is released
+    now = Date.parse('2024-10-15T07:00:10Z');
+    expect(await store.acquireLock('schedule-compliance-calendar', 'c', 60_000)).toBe(true);
+    expect((await a.tick()).map(run => run.agentId)).not.toContain('compliance-calendar');
+    await store.releaseLock('schedule-compliance-calendar', 'c');
+    expect((await b.tick()).map(run => run.agentId)).toContain('compliance-calendar');
+  });
+
+  it('shares locks through the file store and lets expired ones be taken over', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'schedules-'));
+    const first = createFileScheduleStore(dir);
+    const second = createFileScheduleStore(dir);
+
+    expect(await first.acquireLock('schedule-x', 'a', 60_000)).toBe(true);
+    expect(await second.acquireLock('schedule-x', 'b', 60_000)).toBe(false);
+    await second.releaseLock('schedule-x', 'b'); // Not the owner: no effect
+    expect(await second.acquireLock('schedule-x', 'b', 60_000)).toBe(false);
+    await first.releaseLock('schedule-x', 'a');
+    expect(await second.acquireLock('schedule-x', 'b', -1)).toBe(true);
+    expect(await first.acquireLock('schedule-x', 'a', 60_000)).toBe(true); // b's lock had expired
+    expect(readdirSync(dir)).toEqual(['schedule-x.lock']); // The expired lock was moved aside and removed
+
+    writeFileSync(join(dir, 'schedule-y.lock'), 'not json'); // Unreadable: taken over like an expired one
+    expect(await second.acquireLock('schedule-y', 'b', 60_000)).toBe(true);
+    expect(await first.acquireLock('schedule-y', 'a', 60_000)).toBe(false);
+
+    await first.setState({ agentId: 'x', paused: true });
+    expect(await second.getState('x')).toEqual({ agentId: 'x', paused: true });
+    expect(await second.getState('y')).toBeNull();
+  });
+
+  it('skips paused schedules and does not catch up after resuming', async () => {
+    const scheduler = createScheduler({ clock, store });
+    await scheduler.tick();
+
+    expect(await scheduler.pause('compliance-calendar')).toMatchObject({ paused: true });
+    now = Date.parse('2024-10-16T07:00:10Z');
+    expect((await scheduler.tick()).map(run => run.agentId)).not.toContain('compliance-calendar');
+
+    expect(await scheduler.resume('compliance-calendar')).toMatchObject({ paused: false, lastScheduledFor: new Date(now).toISOString() });
+    expect((await scheduler.tick()).map(run => run.agentId)).not.toContain('compliance-calendar');
+    now = Date.parse('2024-10-17T07:00:10Z');
+    expect((await scheduler.tick()).map(run => run.agentId)).toContain('compliance-calendar');
+
+    expect(await scheduler.pause('invoice-anomalies')).toBeNull(); // No schedule
+  });
+
+  it('waits for the schedule lock before pausing', async () => {
+    const scheduler = createScheduler({ clock, store, owner: 'a' });
+    await scheduler.tick();
+
+    // Another instance is mid-claim: the pause lands once it releases, on top of what it wrote
+    expect(await store.acquireLock('schedule-compliance-calendar', 'b', 60_000)).toBe(true);
+    const paused = scheduler.pause('compliance-calendar');
+    await store.setState({ agentId: 'compliance-calendar', paused: false, lastScheduledFor: '2024-10-14T07:00:00.000Z' });
+    await store.releaseLock('schedule-compliance-calendar', 'b');
+
+    expect(await paused).toMatchObject({ paused: true, lastScheduledFor: '2024-10-14T07:00:00.000Z' });
+    expect(await store.getState('compliance-calendar')).toMatchObject({ paused: true });
+  });
+
+  it('lists, pauses and triggers schedules over HTTP', async () => {
+    const list = await (await listSchedules(new NextRequest('http://localhost:3000/api/schedules'), {})).json();
+    expect(list.data.scheduler).toMatchObject({ enabled: true, running: false, store: 'memory', timezone: 'UTC' });
+    expect(list.data.schedules).toContainEqual(expect.objectContaining({ agentId: 'compliance-calendar', cron: '0 7 * * *', catchUp: 'all', runnable: true }));
+    expect(list.data.schedules).toContainEqual(expect.objectContaining({ agentId: 'seo-issue-sentinel', runnable: false }));
+
+    const params = { params: { agentId: 'compliance-calendar' } };
+    const paused = await pause(new NextRequest('http://localhost:3000/api/schedules/compliance-calendar/pause', { method: 'POST', headers: ADMIN_HEADERS }), params);
+    expect((await paused.json()).data.paused).toBe(true);
+
+    const res = await trigger(new NextRequest('http://localhost:3000/api/schedules/compliance-calendar/trigger', { method: 'POST' }), params);
+    const body = await res.json();
+    expect(res.status).toBe(202);
+    expect(res.headers.get('Location')).toBe(`/api/jobs/${body.data.id}`);
+    expect(getJob(body.data.id)?.agentId).toBe('compliance-calendar');
+
+    const resumed = await resume(new NextRequest('http://localhost:3000/api/schedules/compliance-calendar/resume', { method: 'POST', headers: ADMIN_HEADERS }), params);
+    expect((await resumed.json()).data).toMatchObject({ paused: false, lastJobId: body.data.id });
+
+    const planned = await trigger(new NextRequest('http://localhost:3000/api/schedules/seo-issue-sentinel/trigger', { method: 'POST' }), { params: { agentId: 'seo-issue-sentinel' } });
+    expect((await planned.json()).error.code).toBe('NOT_IMPLEMENTED');
+
+    const missing = await trigger(new NextRequest('http://localhost:3000/api/schedules/invoice-anomalies/trigger', { method: 'POST' }), { params: { agentId: 'invoice-anomalies' } });
+    expect(missing.status).toBe(404);
+    expect((await missing.json()).error.code).toBe('SCHEDULE_NOT_FOUND');
+  });
+});
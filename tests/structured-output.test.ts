@@ -0,0 +1,175 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { z } from 'zod';
+import { invokeAgent } from '@/lib/agent-runtime';
+import { resetAgentRegistry } from '@/lib/agent-registry';
+import { resetConfig } from '@/lib/config';
+import { createLLMClient, resetLLMProvider, setLLMProvider, type LLMProvider, type ResolvedLLMRequest } from '@/lib/llm';
+import { getCounterValue, resetMetrics } from '@/lib/metrics';
+import { getAgentMockData } from '@/lib/mock-data';
+import { getRunStore, resetRunStore } from '@/lib/run-history';
+import { ActionItems, TicketBrief } from '@/lib/schemas';
+import { generateStructured, schemaInstruction } from '@/lib/structured-output';
+
+const BRIEF: z.infer<typeof TicketBrief> = { issue: 'Login fails', env: 'prod', steps_tried: 'Cleared cache', severity: 'high', next_action: 'Ask for logs' };
+
+// Answers each call with the next scripted reply; Error entries are thrown
+function scriptedProvider(replies: (string | Error)[]): LLMProvider & { requests: ResolvedLLMRequest[] } {
+  const requests: ResolvedLLMRequest[] = [];
+  return {
+    name: 'scripted',
+    requests,
+    async complete(request) {
+      requests.push({ ...request, messages: [...request.messages] });
+      const reply = replies.shift() ?? '{}';
+      if (reply instanceof Error) throw reply;
+      return { model: request.model, content: reply, toolCalls: [], finishReason: 'stop', provider: 'scripted' };
+    }
+  };
+}
+
+const briefRequest = (fallback?: () => z.infer<typeof TicketBrief>) => ({
+  name: 'TicketBrief',
+  schema: TicketBrief,
+  messages: [{ role: 'user' as const, content: 'Ticket: login fails' }],
+  ...(fallback && { fallback })
+});
+
+describe('Structured output', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.stubEnv('RUN_STORE', 'memory');
+    vi.stubEnv('LLM_MODEL', 'stub/default');
+    // No key and no provider: LLM calls are off
+    vi.stubEnv('LLM_PROVIDER', '');
+    vi.stubEnv('LLM_API_KEY', '');
+    vi.stubEnv('OPENROUTER_API_KEY', '');
+    resetConfig();
+    resetRunStore();
+    resetLLMProvider();
+    resetMetrics();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllEnvs();
+    resetConfig();
+    resetRunStore();
+    resetLLMProvider();
+  });
+
+  it('sends the schema and accepts a valid first reply', async () => {
+    const provider = scriptedProvider([JSON.stringify(BRIEF)]);
+
+    const { value, generation } = await generateStructured(createLLMClient({ provider }), briefRequest());
+
+    expect(value).toEqual(BRIEF);
+    expect(generation).toEqual({ name: 'TicketBrief', source: 'model', attempts: 1, model: 'stub/default' });
+    expect(provider.requests[0].responseFormat).toBe('json');
+    expect(provider.requests[0].messages[0]).toEqual({ role: 'system', content: schemaInstruction(TicketBrief) });
+    expect(provider.requests[0].messages[0].content).toContain('"required": [\n    "issue",');
+  });
+
+  it('asks for arrays wrapped in an object and unwraps them', async () => {
+    const items = [{ owner: 'Mina', title: 'Prepare pricing sheet', due: '2025-10-20' }];
+    const provider = scriptedProvider([JSON.stringify({ result: items })]);
+
+    const { value } = await generateStructured(createLLMClient({ provider }), {
+      name: 'ActionItems',
+      schema: ActionItems,
+      messages: [{ role: 'user', content: '@Mina prepare pricing sheet by Oct 20' }]
+    });
+
+    expect(value).toEqual(items);
+    expect(schemaInstruction(ActionItems)).toContain('{"result": <value>}');
+  });
+
+  it('feeds validation errors back until the reply is valid', async () => {
+    const provider = scriptedProvider(['not json', JSON.stringify({ ...BRIEF, severity: 'urgent' }), JSON.stringify(BRIEF)]);
+
+    const { value, generation } = await generateStructured(createLLMClient({ provider }), briefRequest());
+
+    expect(value).toEqual(BRIEF);
+    expect(generation.source).toBe('repaired');
+    expect(generation.attempts).toBe(3);
+    expect(generation.errors).toEqual([
+      'attempt 1: LLM returned invalid JSON: not json',
+      expect.stringMatching(/^attempt 2: severity: Invalid enum value/)
+    ]);
+    const repair = provider.requests[2].messages.slice(-2);
+    expect(repair[0]).toEqual({ role: 'assistant', content: JSON.stringify({ ...BRIEF, severity: 'urgent' }) });
+    expect(repair[1].content).toMatch(/^That reply does not match the schema:\n- severity: Invalid enum value/);
+  });
+
+  it('falls back to the heuristic after the last repair or a failed call', async () => {
+    const heuristic = { ...BRIEF, issue: 'From the heuristic' };
+    const invalid = scriptedProvider(['{}', '{}']);
+
+    const repaired = await generateStructured(createLLMClient({ provider: invalid }), { ...briefRequest(() => heuristic), maxRepairs: 1 });
+    expect(repaired.value).toEqual(heuristic);
+    expect(repaired.generation).toMatchObject({ source: 'fallback', attempts: 2 });
+
+    const failing = scriptedProvider([new Error('LLM request failed: HTTP 401: bad key'), JSON.stringify(BRIEF)]);
+    const failed = await generateStructured(createLLMClient({ provider: failing }), briefRequest(() => heuristic));
+    expect(failed.generation).toEqual({
+      name: 'TicketBrief', source: 'fallback', attempts: 1, errors: ['LLM request failed: HTTP 401: bad key']
+    });
+    expect(failing.requests).toHaveLength(1);
+
+    await expect(generateStructured(createLLMClient({ provider: scriptedProvider(['{}', '{}', '{}']) }), briefRequest()))
+      .rejects.toThrow(/^No valid TicketBrief after 3 model attempt\(s\): attempt 1: issue: Required/);
+    expect(getCounterValue('structured_outputs_total', { agent: 'none', source: 'fallback' })).toBe(2);
+  });
+
+  it('uses the heuristic without calling a model when LLM calls are off', async () => {
+    const client = createLLMClient();
+    expect(client.enabled).toBe(false);
+
+    const { value, generation } = await generateStructured(client, briefRequest(() => BRIEF));
+    expect(value).toEqual(BRIEF);
+    expect(generation).toEqual({ name: 'TicketBrief', source: 'fallback', attempts: 0 });
+  });
+
+  it('records the path taken with the agent run', async () => {
+    // The agent reads its transcript from the seed pack, so point the data roots at a temporary one
+    const dir = await mkdtemp(join(tmpdir(), 'structured-'));
+    await mkdir(join(dir, 'day08_Meeting_Action_Enforcer'));
+    await writeFile(join(dir, 'day08_Meeting_Action_Enforcer', 'transcript.txt'), 'Kickoff notes\n@Raj update pitch deck by Oct 18\n');
+    vi.stubEnv('SEED_ROOTS', dir);
+    resetConfig();
+    resetAgentRegistry();
+    try {
+      const fallback = await invokeAgent('meeting-actions', {});
+      expect(fallback).toMatchObject({ success: true, output: [{ owner: 'Raj', title: 'Update pitch deck' }] });
+      expect((await getRunStore()?.get(fallback.runId as string))?.generations).toEqual([{ name: 'ActionItems', source: 'fallback', attempts: 0 }]);
+
+      const items = [{ owner: 'Raj', title: 'Update the pitch deck', due: '2025-10-18' }];
+      setLLMProvider(scriptedProvider([JSON.stringify({ result: items })]));
+      const modelled = await invokeAgent('meeting-actions', {});
+      expect(modelled).toMatchObject({ success: true, output: items });
+      expect((await getRunStore()?.get(modelled.runId as string))?.generations).toEqual([
+        { name: 'ActionItems', source: 'model', attempts: 1, model: 'anthropic/claude-3.5-sonnet' }
+      ]);
+    } finally {
+      resetAgentRegistry();
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('extracts the expected actions from the mock transcript', async () => {
+    // Nothing on disk, so the agent is served the mock transcript
+    vi.stubEnv('SEED_ROOTS', join(tmpdir(), 'no-seed-pack'));
+    vi.stubEnv('DATA_OFFLINE', 'true');
+    resetConfig();
+    resetAgentRegistry();
+    try {
+      const run = await invokeAgent('meeting-actions', {});
+      expect(run).toMatchObject({ success: true, output: getAgentMockData('meeting-actions', 'actions_expected.json') });
+    } finally {
+      resetAgentRegistry();
+    }
+  });
+});
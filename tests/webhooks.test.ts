@@ -0,0 +1,174 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach, vi } from 'vitest';
+import { createServer, type IncomingHttpHeaders, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { NextRequest } from 'next/server';
+import { invokeAgent } from '@/lib/agent-runtime';
+import { loadConfig, resetConfig } from '@/lib/config';
+import { getCounterValue, resetMetrics } from '@/lib/metrics';
+import { resetRateLimits } from '@/lib/rate-limit';
+import { resetRunStore } from '@/lib/run-history';
+import {
+  listWebhookDeliveries,
+  resetWebhooks,
+  signWebhookPayload,
+  verifyWebhookSignature,
+  waitForDelivery
+} from '@/lib/webhooks';
+import { GET as listWebhooks } from '@/app/api/webhooks/route';
+import { GET as listDeliveries } from '@/app/api/webhooks/[webhookId]/deliveries/route';
+import { POST as test } from '@/app/api/webhooks/[webhookId]/test/route';
+
+const SECRET = 'whsec_0123456789abcdef';
+const ADMIN_TOKEN = 'admin-token-0123456789'; // Webhook routes are admin routes
+const ADMIN_HEADERS = { Authorization: `Bearer ${ADMIN_TOKEN}` };
+
+// A local receiver that answers with the next queued status (200 once the queue is empty)
+let server: Server;
+let baseUrl: string;
+let received: { path: string; headers: IncomingHttpHeaders; body: string }[] = [];
+let statuses: number[] = [];
+
+function subscribe(subscriptions: Record<string, unknown>[]): void {
+  vi.stubEnv('WEBHOOKS', JSON.stringify(subscriptions.map(subscription => ({ secret: SECRET, ...subscription }))));
+  resetConfig();
+}
+
+describe('Webhooks', () => {
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => { body += chunk; });
+      req.on('end', () => {
+        received.push({ path: req.url ?? '', headers: req.headers, body });
+        res.statusCode = statuses.shift() ?? 200;
+        res.end('ok');
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    received = [];
+    statuses = [];
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.stubEnv('DATA_OFFLINE', 'true');
+    vi.stubEnv('RUN_STORE', 'memory');
+    vi.stubEnv('API_ADMIN_TOKEN', ADMIN_TOKEN);
+    vi.stubEnv('WEBHOOK_RETRY_BASE_MS', '5');
+    vi.stubEnv('WEBHOOK_MAX_ATTEMPTS', '3');
+    resetConfig();
+    resetRunStore();
+    resetRateLimits();
+    resetMetrics();
+    resetWebhooks();
+  });
+
+  afterEach(() => {
+    resetWebhooks();
+    vi.restoreAllMocks();
+    vi.unstubAllEnvs();
+    resetConfig();
+    resetRunStore();
+  });
+
+  it('signs payloads and rejects tampered or stale ones', () => {
+    const now = Date.parse('2024-10-15T10:30:00Z');
+    const timestamp = now / 1000;
+    const body = '{"type":"run.succeeded"}';
+    const signature = `sha256=${signWebhookPayload(SECRET, timestamp, body)}`;
+
+    expect(verifyWebhookSignature(SECRET, body, { signature, timestamp: String(timestamp) }, 300, now)).toBe(true);
+    expect(verifyWebhookSignature(SECRET, body.replace('succeeded', 'failed'), { signature, timestamp: String(timestamp) }, 300, now)).toBe(false);
+    expect(verifyWebhookSignature('another-secret-value', body, { signature, timestamp: String(timestamp) }, 300, now)).toBe(false);
+    expect(verifyWebhookSignature(SECRET, body, { signature, timestamp: String(timestamp) }, 300, now + 301_000)).toBe(false);
+    expect(verifyWebhookSignature(SECRET, body, { signature: null, timestamp: null }, 300, now)).toBe(false);
+  });
+
+  it('validates WEBHOOKS', () => {
+    expect(() => loadConfig({ WEBHOOKS: 'not json' })).toThrow('WEBHOOKS must be a JSON array');
+    expect(() => loadConfig({ WEBHOOKS: '[{"id":"a","url":"https://x.test","secret":"short"}]' })).toThrow('secret: must be at least 16 characters');
+    const twice = JSON.stringify([{ id: 'a', url: 'https://x.test', secret: SECRET }, { id: 'a', url: 'https://y.test', secret: SECRET }]);
+    expect(() => loadConfig({ WEBHOOKS: twice })).toThrow('webhook ids must be unique');
+    expect(loadConfig({}).webhooks.subscriptions).toEqual([]);
+  });
+
+  it('sends signed run events to matching subscriptions', async () => {
+    subscribe([
+      { id: 'erp', url: `${baseUrl}/erp`, agents: ['invoice-anomalies'], events: ['run.succeeded'] },
+      { id: 'tickets', url: `${baseUrl}/tickets`, events: ['run.failed'] },
+      { id: 'off', url: `${baseUrl}/off`, enabled: false }
+    ]);
+
+    const run = await invokeAgent('invoice-anomalies', {}, { requestId: 'req_hook' });
+    await invokeAgent('meeting-actions', { path: 42 });
+    await Promise.all(listWebhookDeliveries().map(delivery => waitForDelivery(delivery.id)));
+
+    expect(received.map(request => request.path).sort()).toEqual(['/erp', '/tickets']);
+    const erp = received.find(request => request.path === '/erp');
+    const event = JSON.parse(erp?.body as string);
+    expect(event).toMatchObject({
+      type: 'run.succeeded',
+      agentId: 'invoice-anomalies',
+      data: { runId: run.runId, requestId: 'req_hook', output: { totalInvoices: 5 } }
+    });
+    expect(erp?.headers['x-webhook-id']).toBe(event.id);
+    expect(verifyWebhookSignature(SECRET, erp?.body as string, {
+      signature: erp?.headers['x-webhook-signature'] as string,
+      timestamp: erp?.headers['x-webhook-timestamp'] as string
+    })).toBe(true);
+
+    const failed = JSON.parse(received.find(request => request.path === '/tickets')?.body as string);
+    expect(failed).toMatchObject({ type: 'run.failed', agentId: 'meeting-actions', data: { code: 'VALIDATION_ERROR' } });
+  });
+
+  it('retries with backoff and dead-letters deliveries that keep failing', async () => {
+    subscribe([{ id: 'erp', url: `${baseUrl}/erp`, agents: ['invoice-anomalies'] }]);
+
+    statuses = [500, 503];
+    await invokeAgent('invoice-anomalies', {});
+    const [recovered] = listWebhookDeliveries();
+    expect(await waitForDelivery(recovered.id)).toMatchObject({
+      status: 'delivered',
+      attempts: [{ attempt: 1, httpStatus: 500, error: 'HTTP 500' }, { attempt: 2, httpStatus: 503 }, { attempt: 3, httpStatus: 200 }]
+    });
+    expect(new Set(received.map(request => request.headers['x-webhook-id'])).size).toBe(1);
+
+    statuses = [500, 500, 500];
+    await invokeAgent('invoice-anomalies', {});
+    const [dead] = listWebhookDeliveries();
+    expect(await waitForDelivery(dead.id)).toMatchObject({ status: 'dead' });
+    expect(getCounterValue('webhook_deliveries_total', { webhook: 'erp', outcome: 'retry' })).toBe(4);
+    expect(getCounterValue('webhook_deliveries_total', { webhook: 'erp', outcome: 'dead' })).toBe(1);
+
+    const res = await listDeliveries(new NextRequest('http://localhost:3000/api/webhooks/erp/deliveries?status=dead', { headers: ADMIN_HEADERS }), { params: { webhookId: 'erp' } });
+    const body = await res.json();
+    expect(body.data.deliveries.map((delivery: { id: string }) => delivery.id)).toEqual([dead.id]);
+    expect(body.data.deliveries[0].attempts).toHaveLength(3);
+  });
+
+  it('tests a subscription over HTTP without retries', async () => {
+    subscribe([{ id: 'erp', url: `${baseUrl}/erp`, enabled: false }]);
+
+    const ok = await test(new NextRequest('http://localhost:3000/api/webhooks/erp/test', { method: 'POST', headers: ADMIN_HEADERS }), { params: { webhookId: 'erp' } });
+    expect((await ok.json()).data).toMatchObject({ status: 'delivered', event: { type: 'webhook.test' }, attempts: [{ httpStatus: 200 }] });
+
+    statuses = [500];
+    const failed = await test(new NextRequest('http://localhost:3000/api/webhooks/erp/test', { method: 'POST', headers: ADMIN_HEADERS }), { params: { webhookId: 'erp' } });
+    expect((await failed.json()).data).toMatchObject({ status: 'failed', attempts: [{ error: 'HTTP 500' }] });
+    expect(received).toHaveLength(2);
+
+    const list = await (await listWebhooks(new NextRequest('http://localhost:3000/api/webhooks', { headers: ADMIN_HEADERS }), {})).json();
+    expect(list.data.webhooks).toEqual([{ id: 'erp', url: `${baseUrl}/erp`, enabled: false, deliveries: { delivered: 1, failed: 1 } }]);
+    expect(JSON.stringify(list)).not.toContain(SECRET);
+
+    const missing = await test(new NextRequest('http://localhost:3000/api/webhooks/nope/test', { method: 'POST', headers: ADMIN_HEADERS }), { params: { webhookId: 'nope' } });
+    expect(missing.status).toBe(404);
+    expect((await missing.json()).error.code).toBe('WEBHOOK_NOT_FOUND');
+  });
+});
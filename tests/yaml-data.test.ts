@@ -0,0 +1,32 @@
+import { describe, it, expect, beforeAll } from "vitest";
+import { mkdirSync, writeFileSync } from "node:fs";
+import { loadYAMLData } from "@/lib/data-access";
+import { parseYAML, parseYAMLDocument } from "@/lib/github-data-access";
+
+const dir = "/tmp/agents-seed-pack-full/day06_Vendor_SLA_Watchdog";
+
+describe("YAML data loading", () => {
+  beforeAll(() => {
+    mkdirSync(dir, { recursive: true });
+    writeFileSync(`${dir}/test_slas.yaml`, "vendors:\n  - name: Acme\n    uptime: 99.9\n");
+    writeFileSync(`${dir}/test_broken.yaml`, "vendors:\n  - name: Acme\n    uptime: [99.9\nescalation: x: y\n");
+  });
+
+  it("loads and parses YAML files", async () => {
+    const result = await loadYAMLData("vendor-sla-watchdog", "test_slas.yaml");
+    expect(result.success).toBe(true);
+    expect(result.data).toEqual({ vendors: [{ name: "Acme", uptime: 99.9 }] });
+  });
+
+  it("reports syntax errors with line and column", async () => {
+    const result = await loadYAMLData("vendor-sla-watchdog", "test_broken.yaml");
+    expect(result.success).toBe(false);
+    expect(result.error).toMatch(/line \d+, column \d+/);
+    expect(result.parseErrors?.[0]).toMatchObject({ line: 4, column: 1 });
+  });
+
+  it("throws positioned errors from the GitHub parser", () => {
+    expect(parseYAMLDocument("a: 1\n").data).toEqual({ a: 1 });
+    expect(() => parseYAML("a: [1\nb: 2: 3\n")).toThrow(/line \d+, column \d+/);
+  });
+});